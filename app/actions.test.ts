@@ -0,0 +1,161 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { initialMovies } from "@/lib/movie-catalog"
+import { createSessionToken, SESSION_COOKIE } from "@/lib/session"
+import { getDataStore } from "@/lib/storage"
+import {
+  createSavedSearchAction,
+  deleteSavedSearchAction,
+  dismissRecommendationAction,
+  getForYouAction,
+  getSavedSearchesAction,
+  importMoviesAction,
+  toggleFavoriteAction,
+  updateSavedSearchAction,
+} from "./actions"
+
+// The session cookie the actions read, set by signIn() below
+let sessionToken: string | undefined
+
+vi.mock("next/headers", () => ({
+  cookies: async () => ({
+    get: (name: string) => (name === SESSION_COOKIE && sessionToken ? { name, value: sessionToken } : undefined),
+  }),
+}))
+
+const signIn = (userId: string | null) => {
+  sessionToken = userId ? createSessionToken(userId) : undefined
+}
+
+describe("server actions", () => {
+  let directory: string
+
+  // Each test gets its own file store
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "movie-insights-"))
+    vi.stubEnv("MOVIE_INSIGHTS_DATA_FILE", path.join(directory, "data.json"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    signIn("u1")
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  describe("saved searches", () => {
+    it("renames a search and clears its new matches, leaving its query alone", async () => {
+      const search = await createSavedSearchAction("Dramas", "genre=Drama")
+
+      await updateSavedSearchAction(search.id, { name: "  Good dramas ", new_movie_ids: ["3"] })
+      await updateSavedSearchAction(search.id, { new_movie_ids: [] })
+
+      expect(await getSavedSearchesAction()).toEqual([
+        expect.objectContaining({ id: search.id, name: "Good dramas", params: "genre=Drama", new_movie_ids: [] }),
+      ])
+    })
+
+    it("ignores fields other than the name and new matches", async () => {
+      const search = await createSavedSearchAction("Dramas", "genre=Drama")
+
+      await updateSavedSearchAction(search.id, { params: "genre=Horror", user_id: "u2" } as never)
+
+      expect(await getSavedSearchesAction()).toEqual([expect.objectContaining({ params: "genre=Drama" })])
+      signIn("u2")
+      expect(await getSavedSearchesAction()).toEqual([])
+    })
+
+    it("refuses to change or delete another user's search", async () => {
+      const search = await createSavedSearchAction("Dramas", "genre=Drama")
+
+      signIn("u2")
+      await expect(updateSavedSearchAction(search.id, { name: "Mine now" })).rejects.toThrow(
+        "Failed to update saved search",
+      )
+      await expect(deleteSavedSearchAction(search.id)).rejects.toThrow("Failed to delete saved search")
+
+      signIn("u1")
+      expect(await getSavedSearchesAction()).toEqual([expect.objectContaining({ name: "Dramas" })])
+      await deleteSavedSearchAction(search.id)
+      expect(await getSavedSearchesAction()).toEqual([])
+    })
+
+    it("takes the user from a valid session cookie only", async () => {
+      signIn(null)
+      await expect(createSavedSearchAction("Dramas", "genre=Drama")).rejects.toThrow("Failed to save search")
+
+      sessionToken = `u1.${createSessionToken("u2").split(".")[1]}`
+      await expect(createSavedSearchAction("Dramas", "genre=Drama")).rejects.toThrow("Failed to save search")
+      expect(await getSavedSearchesAction()).toEqual([])
+    })
+  })
+
+  describe("imports", () => {
+    const western = { ...initialMovies[0], movie_id: "w1", movie_name: "Dust Road", genre: "Western" }
+
+    it("records new matches on every user's saved searches and returns the importer's own", async () => {
+      signIn("u2")
+      const theirs = await createSavedSearchAction("Westerns", "genre=Western")
+      await createSavedSearchAction("Horror", "genre=Horror")
+      signIn("u1")
+      const mine = await createSavedSearchAction("Westerns", "genre=Western")
+
+      const result = await importMoviesAction(JSON.stringify([western]), "json", "upsert")
+
+      expect(result.matchedSearches).toEqual([expect.objectContaining({ id: mine.id, new_movie_ids: ["w1"] })])
+      signIn("u2")
+      const others = await getSavedSearchesAction()
+      expect(others.find((search) => search.id === theirs.id)?.new_movie_ids).toEqual(["w1"])
+      expect(others.find((search) => search.name === "Horror")?.new_movie_ids).toEqual([])
+    })
+
+    it("replaces the catalog only with a file whose every row is valid", async () => {
+      const store = await getDataStore()
+      const invalid = { ...western, movie_id: "w2", imdb_score: 11 }
+
+      const refused = await importMoviesAction(JSON.stringify([western, invalid]), "json", "replace")
+      expect(refused.imported).toBe(0)
+      expect(refused.errors).toEqual([expect.objectContaining({ row: 2, movieId: "w2" })])
+      expect(await store.getAllMovies()).toHaveLength(initialMovies.length)
+
+      const replaced = await importMoviesAction(JSON.stringify([western]), "json", "replace")
+      expect(replaced.imported).toBe(1)
+      expect((await store.getAllMovies()).map((movie) => movie.movie_id)).toEqual(["w1"])
+    })
+
+    it("refuses to import, and so to replace the catalog, without a session", async () => {
+      signIn(null)
+      await expect(importMoviesAction(JSON.stringify([western]), "json", "replace")).rejects.toThrow("Not signed in")
+
+      const store = await getDataStore()
+      expect(await store.getAllMovies()).toHaveLength(initialMovies.length)
+    })
+  })
+
+  describe("for you feed", () => {
+    it("is empty for a user with nothing to go on", async () => {
+      expect(await getForYouAction("u1")).toEqual([])
+    })
+
+    it("blends in what users with similar taste liked and leaves out dismissed movies", async () => {
+      await toggleFavoriteAction("u1", "2")
+      await toggleFavoriteAction("u2", "2")
+      await toggleFavoriteAction("u2", "1")
+
+      const feed = await getForYouAction("u1", 50)
+      expect(feed.map(({ movie }) => movie.movie_id)).not.toContain("2")
+      expect(feed.find(({ movie }) => movie.movie_id === "1")?.reasons).toContain(
+        "liked by 1 person with similar taste",
+      )
+
+      const dismissed = feed[0].movie.movie_id
+      await dismissRecommendationAction("u1", dismissed)
+      const after = await getForYouAction("u1", 50)
+      expect(after.map(({ movie }) => movie.movie_id)).not.toContain(dismissed)
+      expect(after.length).toBeGreaterThan(0)
+    })
+  })
+})
@@ -1,8 +1,8 @@
 "use server"
 
 import {
-  fetchMovieData,
-  searchMovies,
+  runMovieQuery,
+  suggestSearches,
   getRatingDistribution,
   getGenreDistribution,
   getYearDistribution,
@@ -10,51 +10,277 @@ import {
   getDirectorAnalysis,
   type MovieData,
 } from "@/lib/data-utils"
-import { dbClient } from "@/lib/db-service"
+import type { ChatSession, SavedSearch, User } from "@/lib/db-service"
+import type { MovieSortKey } from "@/lib/filter-params"
+import type { CatalogFilter, FilteredPage } from "@/lib/filtered-pages"
+import type { FollowUpKind } from "@/lib/nl-query/context"
+import type { MovieQuery } from "@/lib/nl-query/types"
+import { forYouFeed } from "@/lib/for-you"
+import { importMovies, type ImportFormat, type ImportMode, type ImportResult } from "@/lib/movie-import"
+import { catalogFilterLookups } from "@/lib/movie-filters"
+import { paginate, type PageRequest } from "@/lib/movie-pages"
+import { RecommendationEngine, type Recommendation } from "@/lib/recommendations"
+import { interpretMessage } from "@/lib/query-providers"
+import { findNewMatches } from "@/lib/saved-searches"
+import { createSessionToken, readSessionToken, SESSION_COOKIE, SESSION_MAX_AGE } from "@/lib/session"
+import { getDataStore, type DataStore } from "@/lib/storage"
+import { cookies } from "next/headers"
 import { v4 as uuidv4 } from "uuid"
 
-export async function searchMoviesAction(query: string): Promise<{
+// `previous` is the chat's last search, which follow-up questions build on.
+// `results` is the first page; pass `nextCursor` to runMovieQueryAction for more.
+export async function searchMoviesAction(
+  query: string,
+  previous: MovieQuery | null = null,
+  page: PageRequest = {},
+): Promise<{
   results: MovieData[]
-  filters: Record<string, string>
+  total: number
+  nextCursor: string | null
+  query: MovieQuery | null
+  kind: FollowUpKind
+  suggestions: string[]
 }> {
   try {
-    // Execute SQL-like query
-    const movies = await fetchMovieData()
-    const results = searchMovies(movies, query)
+    const store = await getDataStore()
+    const [movies, searchIndex] = await Promise.all([store.getAllMovies(), store.getSearchIndex()])
+    // Understood by the configured provider, with the grammar as the fallback
+    const followUp = await interpretMessage(query, { movies, previous })
+    const results = runMovieQuery(movies, followUp.query, searchIndex)
 
-    // Extract the filters that were applied
-    const filterTerms: Record<string, string> = {}
-
-    if (query.match(/genre/i)) filterTerms.genre = "Extracted from your query"
-    if (query.match(/director/i)) filterTerms.director = "Extracted from your query"
-    if (query.match(/actor|star|cast/i)) filterTerms.actor = "Extracted from your query"
-    if (query.match(/year|released/i)) filterTerms.year = "Extracted from your query"
-    if (query.match(/country/i)) filterTerms.country = "Extracted from your query"
-    if (query.match(/language/i)) filterTerms.language = "Extracted from your query"
-    if (query.match(/keyword|about|plot|theme/i)) filterTerms.keywords = "Extracted from your query"
+    // Nothing found: offer close titles and names, starting from the words
+    // that weren't understood since those are the likeliest typos
+    const unmatched = followUp.query.unmatched.join(" ")
+    const suggestions = results.length === 0 ? suggestSearches(searchIndex, unmatched || query) : []
 
+    const { movies: pageResults, total, nextCursor } = paginate(results, page)
     return {
-      results: results.slice(0, 30), // Limit to 30 results
-      filters: filterTerms,
+      results: pageResults,
+      total,
+      nextCursor,
+      query: followUp.query,
+      kind: followUp.kind,
+      suggestions,
     }
   } catch (error) {
     console.error("Error searching movies:", error)
     return {
       results: [],
-      filters: {},
+      total: 0,
+      nextCursor: null,
+      query: null,
+      kind: "new",
+      suggestions: [],
     }
   }
 }
 
+// Re-run a query after its filters were edited, without parsing any text, or
+// fetch a further page of its results
+export async function runMovieQueryAction(
+  query: MovieQuery,
+  page: PageRequest = {},
+): Promise<{ results: MovieData[]; total: number; nextCursor: string | null }> {
+  try {
+    const store = await getDataStore()
+    const [catalog, searchIndex] = await Promise.all([store.getAllMovies(), store.getSearchIndex()])
+    const { movies, total, nextCursor } = paginate(runMovieQuery(catalog, query, searchIndex), page)
+    return { results: movies, total, nextCursor }
+  } catch (error) {
+    console.error("Error running movie query:", error)
+    return { results: [], total: 0, nextCursor: null }
+  }
+}
+
+// The dashboard's search and filter results, a page at a time, filtered and
+// counted where the catalog lives
+export async function getFilteredPageAction(
+  view: CatalogFilter,
+  sort: MovieSortKey,
+  page: PageRequest = {},
+): Promise<FilteredPage | null> {
+  try {
+    const store = await getDataStore()
+    return await store.getFilteredPage(view, sort, page)
+  } catch (error) {
+    console.error("Error filtering movies:", error)
+    return null
+  }
+}
+
+export async function getChatSessionAction(userId: string): Promise<ChatSession | null> {
+  try {
+    const store = await getDataStore()
+    return (await store.getChatSession(userId)) ?? null
+  } catch (error) {
+    console.error("Error loading chat session:", error)
+    return null
+  }
+}
+
+export async function saveChatSessionAction(session: ChatSession): Promise<void> {
+  try {
+    const store = await getDataStore()
+    await store.saveChatSession({ ...session, updated_at: new Date().toISOString() })
+  } catch (error) {
+    console.error("Error saving chat session:", error)
+  }
+}
+
+// The signed-in user from the session cookie. Actions touching a user's own
+// data take the user from here rather than trusting an id the client sends.
+async function requireSessionUser(): Promise<string> {
+  const cookieStore = await cookies()
+  const userId = readSessionToken(cookieStore.get(SESSION_COOKIE)?.value)
+  if (!userId) throw new Error("Not signed in")
+  return userId
+}
+
+export async function getSavedSearchesAction(): Promise<SavedSearch[]> {
+  try {
+    const userId = await requireSessionUser()
+    const store = await getDataStore()
+    const searches = await store.getSavedSearches(userId)
+    return searches.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  } catch (error) {
+    console.error("Error loading saved searches:", error)
+    return []
+  }
+}
+
+// `params` is the dashboard's query string for the search being saved
+export async function createSavedSearchAction(name: string, params: string): Promise<SavedSearch> {
+  try {
+    const userId = await requireSessionUser()
+    const store = await getDataStore()
+    const now = new Date().toISOString()
+    const search: SavedSearch = {
+      id: uuidv4(),
+      user_id: userId,
+      name: name.trim(),
+      params,
+      new_movie_ids: [],
+      created_at: now,
+      updated_at: now,
+    }
+    await store.saveSavedSearch(search)
+    return search
+  } catch (error) {
+    console.error("Error saving search:", error)
+    throw new Error("Failed to save search")
+  }
+}
+
+// The user's own saved search with this id; anyone else's is treated as missing
+async function findOwnSavedSearch(store: DataStore, userId: string, id: string): Promise<SavedSearch> {
+  const search = (await store.getSavedSearches(userId)).find((existing) => existing.id === id)
+  if (!search || search.user_id !== userId) throw new Error(`Saved search ${id} not found for user ${userId}`)
+  return search
+}
+
+// Renames a search, or records or clears its new matches. Its query and owner
+// can't be changed.
+export async function updateSavedSearchAction(
+  id: string,
+  changes: Partial<Pick<SavedSearch, "name" | "new_movie_ids">>,
+): Promise<void> {
+  try {
+    const store = await getDataStore()
+    const search = await findOwnSavedSearch(store, await requireSessionUser(), id)
+    await store.saveSavedSearch({
+      ...search,
+      name: changes.name?.trim() || search.name,
+      new_movie_ids: changes.new_movie_ids ?? search.new_movie_ids,
+      updated_at: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error("Error updating saved search:", error)
+    throw new Error("Failed to update saved search")
+  }
+}
+
+export async function deleteSavedSearchAction(id: string): Promise<void> {
+  try {
+    const store = await getDataStore()
+    await findOwnSavedSearch(store, await requireSessionUser(), id)
+    await store.deleteSavedSearch(id)
+  } catch (error) {
+    console.error("Error deleting saved search:", error)
+    throw new Error("Failed to delete saved search")
+  }
+}
+
+// Import a catalog file into the server store, the catalog searches, exports
+// and recommendations read. Every user's saved searches that gained movies get
+// the new matches recorded, which their owners see in the saved searches menu;
+// the importing user's own are returned to be announced right away. Only
+// signed-in users may import, since replacing wipes the catalog.
+export async function importMoviesAction(
+  text: string,
+  format: ImportFormat,
+  mode: ImportMode,
+): Promise<ImportResult & { matchedSearches: SavedSearch[] }> {
+  try {
+    const userId = await requireSessionUser()
+    const store = await getDataStore()
+    const result = await importMovies(store, text, { format, mode })
+    if (result.addedIds.length === 0) return { ...result, matchedSearches: [] }
+
+    const searches = await store.getAllSavedSearches()
+    if (searches.length === 0) return { ...result, matchedSearches: [] }
+
+    const [movies, searchIndex] = await Promise.all([store.getAllMovies(), store.getSearchIndex()])
+    const lookups = catalogFilterLookups(movies, searchIndex)
+    const now = new Date().toISOString()
+    const matchedSearches = findNewMatches(searches, movies, new Set(result.addedIds), lookups)
+    await Promise.all(matchedSearches.map((search) => store.saveSavedSearch({ ...search, updated_at: now })))
+    return { ...result, matchedSearches: matchedSearches.filter((search) => search.user_id === userId) }
+  } catch (error) {
+    console.error("Error importing movies:", error)
+    throw new Error(error instanceof Error ? error.message : "Failed to import movies")
+  }
+}
+
+// The dashboard's "For you" feed, from the user's favorites, reviews and
+// dismissals and from what users with similar taste liked
+export async function getForYouAction(userId: string, limit = 12): Promise<Recommendation[]> {
+  try {
+    const store = await getDataStore()
+    const [movies, favorites, reviews, dismissed] = await Promise.all([
+      store.getAllMovies(),
+      store.getAllFavorites(),
+      store.getAllReviews(),
+      store.getDismissedMovies(userId),
+    ])
+    return forYouFeed(new RecommendationEngine(movies), userId, { favorites, reviews, dismissed }, limit)
+  } catch (error) {
+    console.error("Error building recommendations:", error)
+    return []
+  }
+}
+
+// "Not interested": hides the movie from the feed and steers it away from
+// similar ones
+export async function dismissRecommendationAction(userId: string, movieId: string): Promise<void> {
+  try {
+    const store = await getDataStore()
+    await store.dismissMovie(userId, movieId)
+  } catch (error) {
+    console.error("Error dismissing recommendation:", error)
+    throw new Error("Failed to dismiss recommendation")
+  }
+}
+
 export async function getMovieAnalyticsAction() {
   try {
-    // Use SQL-like queries for analytics
+    // Use SQL queries against the server store for analytics
+    const store = await getDataStore()
     return {
-      ratingDistribution: await getRatingDistribution(),
-      genreDistribution: await getGenreDistribution(),
-      yearDistribution: await getYearDistribution(),
-      budgetRevenue: await getBudgetRevenueAnalysis(),
-      directorAnalysis: await getDirectorAnalysis(),
+      ratingDistribution: await getRatingDistribution(store.executeQuery),
+      genreDistribution: await getGenreDistribution(store.executeQuery),
+      yearDistribution: await getYearDistribution(store.executeQuery),
+      budgetRevenue: await getBudgetRevenueAnalysis(store.executeQuery),
+      directorAnalysis: await getDirectorAnalysis(store.executeQuery),
     }
   } catch (error) {
     console.error("Error getting movie analytics:", error)
@@ -70,8 +296,9 @@ export async function getMovieAnalyticsAction() {
 
 export async function getFavoriteMoviesAction(userId: string): Promise<MovieData[]> {
   try {
-    const movies = await fetchMovieData()
-    const favoriteIds = await dbClient.getFavorites(userId)
+    const store = await getDataStore()
+    const movies = await store.getAllMovies()
+    const favoriteIds = await store.getFavorites(userId)
 
     return movies.filter((movie) => favoriteIds.includes(movie.movie_id))
   } catch (error) {
@@ -82,14 +309,15 @@ export async function getFavoriteMoviesAction(userId: string): Promise<MovieData
 
 export async function toggleFavoriteAction(userId: string, movieId: string): Promise<boolean> {
   try {
-    const favoriteIds = await dbClient.getFavorites(userId)
+    const store = await getDataStore()
+    const favoriteIds = await store.getFavorites(userId)
     const isFavorite = favoriteIds.includes(movieId)
 
     if (isFavorite) {
-      await dbClient.removeFavorite(userId, movieId)
+      await store.removeFavorite(userId, movieId)
       return false
     } else {
-      await dbClient.addFavorite(userId, movieId)
+      await store.addFavorite(userId, movieId)
       return true
     }
   } catch (error) {
@@ -100,8 +328,9 @@ export async function toggleFavoriteAction(userId: string, movieId: string): Pro
 
 export async function getUserReviewsAction(userId: string) {
   try {
-    const movies = await fetchMovieData()
-    const reviews = await dbClient.getReviewsByUser(userId)
+    const store = await getDataStore()
+    const movies = await store.getAllMovies()
+    const reviews = await store.getReviewsByUser(userId)
 
     return reviews.map((review) => {
       const movie = movies.find((m) => m.movie_id === review.movie_id)
@@ -119,7 +348,8 @@ export async function getUserReviewsAction(userId: string) {
 
 export async function getMovieReviewsAction(movieId: string) {
   try {
-    return await dbClient.getReviewsByMovie(movieId)
+    const store = await getDataStore()
+    return await store.getReviewsByMovie(movieId)
   } catch (error) {
     console.error("Error fetching movie reviews:", error)
     return []
@@ -128,8 +358,9 @@ export async function getMovieReviewsAction(movieId: string) {
 
 export async function addReviewAction(userId: string, movieId: string, rating: number, content: string) {
   try {
+    const store = await getDataStore()
     const reviewId = uuidv4()
-    return await dbClient.addReview(reviewId, userId, movieId, rating, content)
+    return await store.addReview(reviewId, userId, movieId, rating, content)
   } catch (error) {
     console.error("Error adding review:", error)
     throw new Error("Failed to add review")
@@ -138,7 +369,8 @@ export async function addReviewAction(userId: string, movieId: string, rating: n
 
 export async function updateReviewAction(reviewId: string, rating: number, content: string) {
   try {
-    await dbClient.updateReview(reviewId, rating, content)
+    const store = await getDataStore()
+    await store.updateReview(reviewId, rating, content)
     return { success: true }
   } catch (error) {
     console.error("Error updating review:", error)
@@ -148,7 +380,8 @@ export async function updateReviewAction(reviewId: string, rating: number, conte
 
 export async function deleteReviewAction(reviewId: string) {
   try {
-    await dbClient.deleteReview(reviewId)
+    const store = await getDataStore()
+    await store.deleteReview(reviewId)
     return { success: true }
   } catch (error) {
     console.error("Error deleting review:", error)
@@ -158,10 +391,99 @@ export async function deleteReviewAction(reviewId: string) {
 
 export async function checkFavoriteStatusAction(userId: string, movieId: string): Promise<boolean> {
   try {
-    const favoriteIds = await dbClient.getFavorites(userId)
+    const store = await getDataStore()
+    const favoriteIds = await store.getFavorites(userId)
     return favoriteIds.includes(movieId)
   } catch (error) {
     console.error("Error checking favorite status:", error)
     return false
   }
 }
+
+// Simple hash function for passwords (in a real app, use bcrypt)
+function hashPassword(password: string): string {
+  // This is a simple hash for demo purposes only
+  // In a real app, use a proper password hashing library
+  return btoa(password + "salt")
+}
+
+async function startSession(userId: string) {
+  const cookieStore = await cookies()
+  cookieStore.set(SESSION_COOKIE, createSessionToken(userId), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  })
+}
+
+type AuthResult = {
+  user: Omit<User, "password"> | null
+  error: { message: string } | null
+}
+
+export async function signUpAction(email: string, password: string, username: string): Promise<AuthResult> {
+  try {
+    const store = await getDataStore()
+
+    // Check if user already exists
+    const existingUser = await store.getUserByEmail(email)
+    if (existingUser) {
+      return { user: null, error: { message: "User with this email already exists" } }
+    }
+
+    const newUser = await store.createUser(uuidv4(), email, username, hashPassword(password))
+    await startSession(newUser.id)
+
+    // Never send the password hash back to the client
+    const { password: _, ...userWithoutPassword } = newUser
+    return { user: userWithoutPassword, error: null }
+  } catch (error) {
+    console.error("Error signing up:", error)
+    return { user: null, error: { message: "Failed to create account" } }
+  }
+}
+
+export async function signInAction(email: string, password: string): Promise<AuthResult> {
+  try {
+    const store = await getDataStore()
+
+    const user = await store.getUserByEmail(email)
+    if (!user) {
+      return { user: null, error: { message: "No account found with this email. Please register." } }
+    }
+
+    if (user.password !== hashPassword(password)) {
+      return { user: null, error: { message: "Invalid password" } }
+    }
+
+    await store.updateLastLogin(user.id)
+    await startSession(user.id)
+
+    // Never send the password hash back to the client
+    const { password: _, ...userWithoutPassword } = user
+    return { user: userWithoutPassword, error: null }
+  } catch (error) {
+    console.error("Error signing in:", error)
+    return { user: null, error: { message: "Failed to sign in" } }
+  }
+}
+
+export async function updateLastLoginAction(userId: string) {
+  try {
+    const store = await getDataStore()
+    await store.updateLastLogin(userId)
+  } catch (error) {
+    console.error("Error updating last login:", error)
+  }
+}
+
+export async function signOutAction() {
+  try {
+    const cookieStore = await cookies()
+    cookieStore.delete(SESSION_COOKIE)
+  } catch (error) {
+    console.error("Error signing out:", error)
+  }
+}
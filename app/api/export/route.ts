@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server"
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  EXPORTABLE_STORES,
+  exportFileName,
+  exportQuery,
+  exportStore,
+  type ExportableStore,
+  type ExportFormat,
+} from "@/lib/data-export"
+import { readSessionToken, SESSION_COOKIE } from "@/lib/session"
+import { SqlParseError } from "@/lib/sql/errors"
+import { getDataStore } from "@/lib/storage"
+
+// Stores holding users' own data, exported only for the signed-in user
+const PRIVATE_STORES: ExportableStore[] = ["reviews", "favorites"]
+
+// GET /api/export?store=movies&format=csv
+// GET /api/export?query=SELECT movie_name FROM movies&format=ndjson
+// Reviews and favorites are those of the signed-in user
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const format = (searchParams.get("format") || "csv") as ExportFormat
+  const storeName = searchParams.get("store")
+  const query = searchParams.get("query")
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `Unsupported format "${format}"` }, { status: 400 })
+  }
+  if (!query && !EXPORTABLE_STORES.includes(storeName as ExportableStore)) {
+    return NextResponse.json(
+      { error: `Pass a query or one of these stores: ${EXPORTABLE_STORES.join(", ")}` },
+      { status: 400 },
+    )
+  }
+
+  const userId = readSessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!query && PRIVATE_STORES.includes(storeName as ExportableStore) && !userId) {
+    return NextResponse.json({ error: "Sign in to export your reviews and favorites" }, { status: 401 })
+  }
+
+  try {
+    const store = await getDataStore()
+    const body = query
+      ? await exportQuery(store, query, format)
+      : await exportStore(store, storeName as ExportableStore, format, userId ?? undefined)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${exportFileName(query ? "query" : storeName!, format)}"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error exporting data:", error)
+    const message = error instanceof Error ? error.message : "Failed to export data"
+    // Bad SQL is the caller's mistake, anything else is ours
+    const status = error instanceof SqlParseError ? 400 : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+}
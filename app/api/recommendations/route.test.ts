@@ -0,0 +1,57 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { NextRequest } from "next/server"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { initialMovies } from "@/lib/movie-catalog"
+import { RecommendationEngine } from "@/lib/recommendations"
+import { GET } from "./route"
+
+const get = (query: string) => GET(new NextRequest(`http://localhost/api/recommendations?${query}`))
+
+describe("GET /api/recommendations", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "movie-insights-"))
+    vi.stubEnv("MOVIE_INSIGHTS_DATA_FILE", path.join(directory, "data.json"))
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("returns the most similar movies with their reasons", async () => {
+    const response = await get("movieId=2&limit=3")
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.movieId).toBe("2")
+    expect(body.recommendations).toEqual(
+      JSON.parse(JSON.stringify(new RecommendationEngine(initialMovies).similarTo("2", 3))),
+    )
+    expect(body.recommendations).toHaveLength(3)
+    body.recommendations.forEach(({ reasons }: { reasons: string[] }) => expect(reasons.length).toBeGreaterThan(0))
+  })
+
+  it("defaults to five recommendations", async () => {
+    const body = await (await get("movieId=1")).json()
+    expect(body.recommendations).toHaveLength(5)
+  })
+
+  it.each(["", "movieId=1&limit=0", "movieId=1&limit=2.5", "movieId=1&limit=51", "movieId=1&limit=many"])(
+    "rejects %j",
+    async (query) => {
+      expect((await get(query)).status).toBe(400)
+    },
+  )
+
+  it("reports an unknown movie", async () => {
+    const response = await get("movieId=missing")
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ error: "Movie missing not found" })
+  })
+})
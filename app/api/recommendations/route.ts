@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { RecommendationEngine } from "@/lib/recommendations"
+import { getDataStore } from "@/lib/storage"
+
+const MAX_LIMIT = 50
+
+// GET /api/recommendations?movieId=1&limit=5
+// "More like this": the movies most similar to one, each with why it was picked
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl
+  const movieId = searchParams.get("movieId")
+  const limit = Number(searchParams.get("limit") || 5)
+
+  if (!movieId) {
+    return NextResponse.json({ error: "Pass the movie to recommend from as movieId" }, { status: 400 })
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be a whole number from 1 to ${MAX_LIMIT}` }, { status: 400 })
+  }
+
+  try {
+    const store = await getDataStore()
+    const engine = new RecommendationEngine(await store.getAllMovies())
+    if (!engine.has(movieId)) {
+      return NextResponse.json({ error: `Movie ${movieId} not found` }, { status: 404 })
+    }
+
+    return NextResponse.json({ movieId, recommendations: engine.similarTo(movieId, limit) })
+  } catch (error) {
+    console.error("Error recommending movies:", error)
+    return NextResponse.json({ error: "Failed to recommend movies" }, { status: 500 })
+  }
+}
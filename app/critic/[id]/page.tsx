@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ArrowLeft, Film, Newspaper, Star, TrendingDown, TrendingUp } from "lucide-react"
+import { dbClient } from "@/lib/db-service"
+import type { CriticProfile } from "@/lib/critics"
+import { useAuth } from "@/contexts/auth-context"
+
+export default function CriticPage() {
+  const { id } = useParams()
+  const { user } = useAuth()
+  const [profile, setProfile] = useState<CriticProfile | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadCritic() {
+      try {
+        const result = await dbClient.getCriticProfile(id as string)
+        setProfile(result ?? null)
+      } catch (error) {
+        console.error("Error loading critic:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadCritic()
+  }, [id])
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-medium">Loading critic details...</h2>
+        </div>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-medium">Critic not found</h2>
+          <p className="text-muted-foreground mt-2">The critic you're looking for hasn't reviewed any movies.</p>
+          <Button className="mt-4" asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { critic, reviews, avgRating, avgDivergence } = profile
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8">
+          <Link href="/dashboard">
+            <h1 className="text-xl font-bold">Movie Insights</h1>
+          </Link>
+          <nav className="flex items-center gap-4 sm:gap-6">
+            <Link href="/dashboard" className="text-sm font-medium">
+              Dashboard
+            </Link>
+            <Link href="/favorites" className="text-sm font-medium">
+              Favorites
+            </Link>
+            {user && (
+              <Link href="/reviews" className="text-sm font-medium">
+                My Reviews
+              </Link>
+            )}
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1 container py-8 px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <div className="space-y-8 max-w-4xl">
+          <div className="flex items-start gap-4">
+            <div className="h-20 w-20 rounded-full bg-muted flex items-center justify-center shrink-0">
+              <Newspaper className="h-10 w-10 text-muted-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">{critic.name}</h1>
+              <p className="text-muted-foreground mt-1">Film critic</p>
+              <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-muted-foreground">
+                <div className="flex items-center">
+                  <Film className="h-4 w-4 mr-1" />
+                  <span>
+                    {reviews.length} {reviews.length === 1 ? "review" : "reviews"}
+                  </span>
+                </div>
+                {avgRating !== null && (
+                  <div className="flex items-center">
+                    <Star className="h-4 w-4 text-yellow-500 mr-1" />
+                    <span>{avgRating.toFixed(1)} average rating</span>
+                  </div>
+                )}
+                {avgDivergence !== null && (
+                  <div className="flex items-center">
+                    {avgDivergence >= 0 ? (
+                      <TrendingUp className="h-4 w-4 mr-1" />
+                    ) : (
+                      <TrendingDown className="h-4 w-4 mr-1" />
+                    )}
+                    <span>
+                      {Math.abs(avgDivergence).toFixed(1)} points {avgDivergence >= 0 ? "above" : "below"} IMDb audiences
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-xl font-semibold mb-4">Reviewed Movies</h2>
+            <div className="space-y-3">
+              {reviews.map(({ review, movie }) => (
+                <Link key={review.id} href={`/movie/${movie.movie_id}`}>
+                  <Card className="hover:bg-muted/50 transition-colors mb-3">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between gap-4">
+                        <div>
+                          <h3 className="font-medium">{movie.movie_name}</h3>
+                          <p className="text-sm text-muted-foreground">
+                            {movie.release_year}
+                            {review.review_date && ` • Reviewed ${review.review_date}`}
+                          </p>
+                        </div>
+                        <div className="text-sm text-right shrink-0">
+                          <div className="flex items-center justify-end">
+                            <Star className="h-4 w-4 text-yellow-500 mr-1" />
+                            <span>{review.rating !== undefined ? `${review.rating}/10` : "Unrated"}</span>
+                          </div>
+                          <p className="text-muted-foreground">IMDb {movie.imdb_score}</p>
+                        </div>
+                      </div>
+                      {review.content && <p className="text-sm mt-2">{review.content}</p>}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+      <footer className="border-t py-6">
+        <div className="container flex flex-col items-center justify-between gap-4 md:h-24 md:flex-row">
+          <p className="text-center text-sm leading-loose text-muted-foreground md:text-left">
+            © 2023 Movie Insights. All rights reserved.
+          </p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -1,15 +1,60 @@
 "use client"
 
 import Link from "next/link"
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { LogOut } from "lucide-react"
 import { MovieFilter } from "@/components/movie-filter"
 import { MovieAnalytics } from "@/components/movie-analytics"
+import { MovieImportDialog } from "@/components/movie-import-dialog"
+import { ExportMenu } from "@/components/export-menu"
+import { ForYouFeed } from "@/components/for-you-feed"
 import { useAuth } from "@/contexts/auth-context"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useQueryParams } from "@/hooks/use-query-params"
+import { toast } from "@/hooks/use-toast"
+import { Toaster } from "@/components/ui/toaster"
+import { ToastAction } from "@/components/ui/toast"
+import type { SavedSearch } from "@/lib/db-service"
+import { filterViewParams, readFilterView } from "@/lib/filter-params"
+
+const TABS = ["search", "for-you", "analytics"] as const
 
 export default function DashboardPage() {
   const { user, signOut } = useAuth()
+  // Bumped after an import so the search and analytics tabs reload the catalog
+  const [catalogVersion, setCatalogVersion] = useState(0)
+  // The active tab is kept in the URL alongside the search filters
+  const [params, updateParams] = useQueryParams()
+  const tab = TABS.find((name) => name === params.get("tab") && (name !== "for-you" || user)) ?? "search"
+
+  // Tell the user when an import added movies matching their saved searches
+  const notifyNewMatches = (matched: SavedSearch[]) => {
+    matched.forEach((search) => {
+      const count = search.new_movie_ids.length
+      toast({
+        title: `New movies for "${search.name}"`,
+        description: `${count} new ${count === 1 ? "movie matches" : "movies match"} this saved search.`,
+        action: (
+          <ToastAction
+            altText="View matches"
+            onClick={() => {
+              const { query, filters, sort } = readFilterView(new URLSearchParams(search.params))
+              updateParams({ ...filterViewParams({ query, filters, sort }), page: null, tab: null })
+            }}
+          >
+            View
+          </ToastAction>
+        ),
+      })
+    })
+  }
+
+  const handleImported = (matchedSearches: SavedSearch[]) => {
+    notifyNewMatches(matchedSearches)
+    // The matches were recorded by the import, so the remounted search tab shows them
+    setCatalogVersion((version) => version + 1)
+  }
 
   return (
     <div className="flex flex-col min-h-screen">
@@ -39,27 +84,40 @@ export default function DashboardPage() {
       </header>
       <main className="flex-1 container py-8 px-4 sm:px-6 lg:px-8">
         <div className="space-y-8">
-          <div>
-            <h2 className="text-3xl font-bold tracking-tight">
-              Welcome{user ? `, ${user.username}` : " to Movie Insights"}
-            </h2>
-            <p className="text-muted-foreground mt-2">
-              Explore our extensive movie database with powerful search and filter options.
-            </p>
+          <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h2 className="text-3xl font-bold tracking-tight">
+                Welcome{user ? `, ${user.username}` : " to Movie Insights"}
+              </h2>
+              <p className="text-muted-foreground mt-2">
+                Explore our extensive movie database with powerful search and filter options.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {user && <MovieImportDialog onImported={handleImported} />}
+              <ExportMenu />
+            </div>
           </div>
 
-          <Tabs defaultValue="search">
-            <TabsList className="grid w-full max-w-md grid-cols-2">
+          <Tabs value={tab} onValueChange={(value) => updateParams({ tab: value === "search" ? null : value })}>
+            <TabsList className={`grid w-full max-w-md ${user ? "grid-cols-3" : "grid-cols-2"}`}>
               <TabsTrigger value="search">Movie Search</TabsTrigger>
+              {user && <TabsTrigger value="for-you">For You</TabsTrigger>}
               <TabsTrigger value="analytics">Analytics</TabsTrigger>
             </TabsList>
 
             <TabsContent value="search" className="mt-6">
-              <MovieFilter />
+              <MovieFilter key={catalogVersion} />
             </TabsContent>
 
+            {user && (
+              <TabsContent value="for-you" className="mt-6">
+                <ForYouFeed key={catalogVersion} userId={user.id} />
+              </TabsContent>
+            )}
+
             <TabsContent value="analytics" className="mt-6">
-              <MovieAnalytics />
+              <MovieAnalytics key={catalogVersion} />
             </TabsContent>
           </Tabs>
         </div>
@@ -71,6 +129,7 @@ export default function DashboardPage() {
           </p>
         </div>
       </footer>
+      <Toaster />
     </div>
   )
 }
@@ -7,19 +7,23 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
-import { ArrowLeft, Calendar, Clock, Globe, Star, User, Heart } from "lucide-react"
+import { ArrowLeft, Calendar, Clock, Globe, Star, User, Heart, Trophy } from "lucide-react"
 import { dbClient } from "@/lib/db-service"
 import { useAuth } from "@/contexts/auth-context"
 import { toggleFavoriteAction, checkFavoriteStatusAction } from "@/app/actions"
 import { AddReviewDialog } from "@/components/add-review-dialog"
 import { MovieReviews } from "@/components/movie-reviews"
-import type { Movie } from "@/lib/db-service"
+import { CriticReviews } from "@/components/critic-reviews"
+import type { Award, Credit, Movie, Person } from "@/lib/db-service"
+import { RecommendationEngine, type Recommendation } from "@/lib/recommendations"
 
 export default function MoviePage() {
   const { id } = useParams()
   const { user } = useAuth()
   const [movie, setMovie] = useState<Movie | null>(null)
-  const [similarMovies, setSimilarMovies] = useState<Movie[]>([])
+  const [similarMovies, setSimilarMovies] = useState<Recommendation[]>([])
+  const [credits, setCredits] = useState<(Credit & { person: Person })[]>([])
+  const [awards, setAwards] = useState<Award[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isFavorite, setIsFavorite] = useState(false)
   const [isTogglingFavorite, setIsTogglingFavorite] = useState(false)
@@ -34,16 +38,12 @@ export default function MoviePage() {
 
         if (foundMovie) {
           setMovie(foundMovie)
+          setCredits(await dbClient.getCreditsByMovie(foundMovie.movie_id))
+          setAwards(await dbClient.getAwardsByMovie(foundMovie.movie_id))
 
-          // Find similar movies (same genre)
-          const genres = foundMovie.genre.split("|")
+          // Find similar movies by genre, keywords, people, language and era
           const allMovies = await dbClient.executeQuery("SELECT * FROM movies")
-          const similar = allMovies
-            .filter((m) => m.movie_id !== id && genres.some((genre) => m.genre.includes(genre)))
-            .sort((a, b) => b.imdb_score - a.imdb_score)
-            .slice(0, 3)
-
-          setSimilarMovies(similar)
+          setSimilarMovies(new RecommendationEngine(allMovies).similarTo(foundMovie.movie_id, 3))
         }
       } catch (error) {
         console.error("Error loading movie:", error)
@@ -114,6 +114,21 @@ export default function MoviePage() {
     )
   }
 
+  const directors = credits.filter((credit) => credit.role === "director")
+  const cast = credits.filter((credit) => credit.role === "actor")
+  const producers = credits.filter((credit) => credit.role === "producer")
+
+  // Comma-separated links to the people credited in one role
+  const personLinks = (roleCredits: typeof credits) =>
+    roleCredits.map((credit, index) => (
+      <span key={credit.id}>
+        {index > 0 && ", "}
+        <Link href={`/person/${credit.person_id}`} className="hover:text-primary hover:underline">
+          {credit.person.name}
+        </Link>
+      </span>
+    ))
+
   return (
     <div className="flex flex-col min-h-screen">
       <header className="border-b">
@@ -224,7 +239,11 @@ export default function MoviePage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <h3 className="font-medium">Director</h3>
-                    <p className="text-muted-foreground">{movie.director_name || "Unknown"}</p>
+                    <p className="text-muted-foreground">{directors.length > 0 ? personLinks(directors) : "Unknown"}</p>
+                  </div>
+                  <div>
+                    <h3 className="font-medium">Producer</h3>
+                    <p className="text-muted-foreground">{producers.length > 0 ? personLinks(producers) : "Unknown"}</p>
                   </div>
                   <div>
                     <h3 className="font-medium">Language</h3>
@@ -244,28 +263,64 @@ export default function MoviePage() {
 
             <div className="mt-8">
               <Tabs defaultValue="cast">
-                <TabsList className="grid w-full grid-cols-2">
+                <TabsList className="grid w-full grid-cols-4">
                   <TabsTrigger value="cast">Cast</TabsTrigger>
+                  <TabsTrigger value="awards">Awards</TabsTrigger>
+                  <TabsTrigger value="critics">Critics</TabsTrigger>
                   <TabsTrigger value="reviews">Reviews</TabsTrigger>
                 </TabsList>
                 <TabsContent value="cast" className="mt-4">
                   <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                    {movie.actors.split("|").map((actor, index) => (
-                      <Card key={index}>
-                        <CardContent className="p-4">
-                          <div className="flex items-center gap-3">
-                            <div className="h-10 w-10 rounded-full bg-muted flex items-center justify-center">
-                              <User className="h-5 w-5 text-muted-foreground" />
-                            </div>
-                            <div>
-                              <h3 className="font-medium">{actor}</h3>
+                    {cast.map((credit) => (
+                      <Link key={credit.id} href={`/person/${credit.person_id}`}>
+                        <Card className="hover:bg-muted/50 transition-colors">
+                          <CardContent className="p-4">
+                            <div className="flex items-center gap-3">
+                              <div className="h-10 w-10 rounded-full bg-muted flex items-center justify-center">
+                                <User className="h-5 w-5 text-muted-foreground" />
+                              </div>
+                              <div>
+                                <h3 className="font-medium">{credit.person.name}</h3>
+                              </div>
                             </div>
-                          </div>
-                        </CardContent>
-                      </Card>
+                          </CardContent>
+                        </Card>
+                      </Link>
                     ))}
                   </div>
                 </TabsContent>
+                <TabsContent value="awards" className="mt-4">
+                  {awards.length > 0 ? (
+                    <div className="space-y-3">
+                      {awards.map((award) => (
+                        <Card key={award.id}>
+                          <CardContent className="p-4 flex items-center justify-between gap-4">
+                            <div className="flex items-center gap-3">
+                              <Trophy
+                                className={`h-5 w-5 ${award.outcome === "won" ? "text-yellow-500" : "text-muted-foreground"}`}
+                              />
+                              <div>
+                                <h3 className="font-medium">{award.name}</h3>
+                                <p className="text-sm text-muted-foreground">
+                                  {award.year}
+                                  {award.votes ? ` • ${award.votes.toLocaleString()} votes` : ""}
+                                </p>
+                              </div>
+                            </div>
+                            <Badge variant={award.outcome === "won" ? "default" : "outline"}>
+                              {award.outcome === "won" ? "Won" : "Nominated"}
+                            </Badge>
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">No awards or nominations recorded for this movie.</p>
+                  )}
+                </TabsContent>
+                <TabsContent value="critics" className="mt-4">
+                  <CriticReviews key={reviewsKey} movie={movie} />
+                </TabsContent>
                 <TabsContent value="reviews" className="mt-4">
                   <MovieReviews key={reviewsKey} movieId={movie.movie_id} />
                 </TabsContent>
@@ -279,7 +334,7 @@ export default function MoviePage() {
                 <h2 className="text-lg font-semibold mb-4">Similar Movies</h2>
                 <div className="space-y-4">
                   {similarMovies.length > 0 ? (
-                    similarMovies.map((similarMovie) => (
+                    similarMovies.map(({ movie: similarMovie, reasons }) => (
                       <Link key={similarMovie.movie_id} href={`/movie/${similarMovie.movie_id}`}>
                         <div className="flex items-start gap-3 group">
                           <div className="h-16 w-28 bg-muted rounded flex items-center justify-center overflow-hidden">
@@ -301,6 +356,9 @@ export default function MoviePage() {
                                 <span>{similarMovie.imdb_score}</span>
                               </div>
                             </div>
+                            {reasons.length > 0 && (
+                              <p className="text-xs text-muted-foreground">{reasons.slice(0, 2).join(" · ")}</p>
+                            )}
                           </div>
                         </div>
                       </Link>
@@ -315,14 +373,23 @@ export default function MoviePage() {
             <Card>
               <CardContent className="p-4">
                 <h2 className="text-lg font-semibold mb-4">Director</h2>
-                {movie.director_name ? (
+                {directors.length > 0 ? (
                   <div>
-                    <div className="flex items-center gap-3 mb-3">
-                      <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center">
-                        <User className="h-6 w-6 text-muted-foreground" />
+                    {directors.map((credit) => (
+                      <div key={credit.id} className="flex items-center gap-3 mb-3">
+                        <div className="h-12 w-12 rounded-full bg-muted flex items-center justify-center">
+                          <User className="h-6 w-6 text-muted-foreground" />
+                        </div>
+                        <div>
+                          <Link href={`/person/${credit.person_id}`} className="font-medium hover:text-primary">
+                            {credit.person.name}
+                          </Link>
+                          {credit.person.date_of_birth && (
+                            <p className="text-sm text-muted-foreground">Born {credit.person.date_of_birth}</p>
+                          )}
+                        </div>
                       </div>
-                      <h3 className="font-medium">{movie.director_name}</h3>
-                    </div>
+                    ))}
                   </div>
                 ) : (
                   <p className="text-muted-foreground">No director information available.</p>
@@ -0,0 +1,237 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Calendar, Film, Star, User } from "lucide-react"
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { dbClient, type PersonRole } from "@/lib/db-service"
+import type { PersonProfile } from "@/lib/people"
+import { useAuth } from "@/contexts/auth-context"
+
+const ROLE_LABELS: Record<PersonRole, string> = {
+  director: "Director",
+  actor: "Actor",
+  producer: "Producer",
+}
+
+export default function PersonPage() {
+  const { id } = useParams()
+  const { user } = useAuth()
+  const [profile, setProfile] = useState<PersonProfile | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadPerson() {
+      try {
+        const result = await dbClient.getPersonProfile(id as string)
+        setProfile(result ?? null)
+      } catch (error) {
+        console.error("Error loading person:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadPerson()
+  }, [id])
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-medium">Loading person details...</h2>
+        </div>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-xl font-medium">Person not found</h2>
+          <p className="text-muted-foreground mt-2">The person you're looking for isn't in the catalog.</p>
+          <Button className="mt-4" asChild>
+            <Link href="/dashboard">Back to Dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const { person, roles, filmography, ratingByYear, collaborators, genres } = profile
+  const averageScore =
+    filmography.length > 0
+      ? (filmography.reduce((sum, { movie }) => sum + movie.imdb_score, 0) / filmography.length).toFixed(1)
+      : null
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <header className="border-b">
+        <div className="container flex h-16 items-center justify-between px-4 sm:px-6 lg:px-8">
+          <Link href="/dashboard">
+            <h1 className="text-xl font-bold">Movie Insights</h1>
+          </Link>
+          <nav className="flex items-center gap-4 sm:gap-6">
+            <Link href="/dashboard" className="text-sm font-medium">
+              Dashboard
+            </Link>
+            <Link href="/favorites" className="text-sm font-medium">
+              Favorites
+            </Link>
+            {user && (
+              <Link href="/reviews" className="text-sm font-medium">
+                My Reviews
+              </Link>
+            )}
+          </nav>
+        </div>
+      </header>
+      <main className="flex-1 container py-8 px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/dashboard">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+          <div className="space-y-8">
+            <div className="flex items-start gap-4">
+              <div className="h-20 w-20 rounded-full bg-muted flex items-center justify-center shrink-0">
+                <User className="h-10 w-10 text-muted-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">{person.name}</h1>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {roles.map((role) => (
+                    <Badge key={role} variant="secondary">
+                      {ROLE_LABELS[role]}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-muted-foreground">
+                  {person.date_of_birth && (
+                    <div className="flex items-center">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      <span>Born {person.date_of_birth}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center">
+                    <Film className="h-4 w-4 mr-1" />
+                    <span>
+                      {filmography.length} {filmography.length === 1 ? "movie" : "movies"}
+                    </span>
+                  </div>
+                  {averageScore && (
+                    <div className="flex items-center">
+                      <Star className="h-4 w-4 text-yellow-500 mr-1" />
+                      <span>{averageScore} average IMDb score</span>
+                    </div>
+                  )}
+                </div>
+                {person.known_for && <p className="mt-3 text-muted-foreground">Known for {person.known_for}</p>}
+              </div>
+            </div>
+
+            {ratingByYear.length > 1 && (
+              <div>
+                <h2 className="text-xl font-semibold mb-4">Average IMDb Score Over Time</h2>
+                <div className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={ratingByYear} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" />
+                      <YAxis domain={[0, 10]} />
+                      <Tooltip
+                        formatter={(value: number) => [`${value.toFixed(1)}/10`, "Average Rating"]}
+                        labelFormatter={(label) => `Year: ${label}`}
+                      />
+                      <Line type="monotone" dataKey="avgRating" name="Average Rating" stroke="#82ca9d" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h2 className="text-xl font-semibold mb-4">Filmography</h2>
+              <div className="space-y-3">
+                {filmography.map(({ movie, roles }) => (
+                  <Link key={movie.movie_id} href={`/movie/${movie.movie_id}`}>
+                    <Card className="hover:bg-muted/50 transition-colors mb-3">
+                      <CardContent className="p-4 flex items-center justify-between gap-4">
+                        <div>
+                          <h3 className="font-medium">{movie.movie_name}</h3>
+                          <p className="text-sm text-muted-foreground">
+                            {movie.release_year} • {roles.map((role) => ROLE_LABELS[role]).join(", ")}
+                          </p>
+                        </div>
+                        <div className="flex items-center text-sm">
+                          <Star className="h-4 w-4 text-yellow-500 mr-1" />
+                          <span>{movie.imdb_score}</span>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-lg font-semibold mb-4">Frequent Collaborators</h2>
+                {collaborators.length > 0 ? (
+                  <div className="space-y-3">
+                    {collaborators.map(({ person: collaborator, count }) => (
+                      <Link
+                        key={collaborator.id}
+                        href={`/person/${collaborator.id}`}
+                        className="flex items-center justify-between group"
+                      >
+                        <span className="group-hover:text-primary transition-colors">{collaborator.name}</span>
+                        <span className="text-sm text-muted-foreground">
+                          {count} {count === 1 ? "movie" : "movies"}
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground">No collaborators found.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-4">
+                <h2 className="text-lg font-semibold mb-4">Genres</h2>
+                <div className="flex flex-wrap gap-2">
+                  {genres.map(({ genre, count }) => (
+                    <Badge key={genre} variant="outline">
+                      {genre} ({count})
+                    </Badge>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+      <footer className="border-t py-6">
+        <div className="container flex flex-col items-center justify-between gap-4 md:h-24 md:flex-row">
+          <p className="text-center text-sm leading-loose text-muted-foreground md:text-left">
+            © 2023 Movie Insights. All rights reserved.
+          </p>
+        </div>
+      </footer>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Card, CardContent } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Newspaper, Star } from "lucide-react"
+import { getMovieReviewsAction } from "@/app/actions"
+import { dbClient, type CriticReview, type Movie } from "@/lib/db-service"
+import { criticScore } from "@/lib/critics"
+
+interface CriticReviewsProps {
+  movie: Movie
+}
+
+export function CriticReviews({ movie }: CriticReviewsProps) {
+  const [reviews, setReviews] = useState<CriticReview[]>([])
+  const [userScore, setUserScore] = useState<number | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    async function loadReviews() {
+      try {
+        const [critics, users] = await Promise.all([
+          dbClient.getCriticReviewsByMovie(movie.movie_id),
+          getMovieReviewsAction(movie.movie_id),
+        ])
+        setReviews(critics)
+        // User reviews are out of 5 stars, so scale them to match the other scores
+        setUserScore(
+          users.length > 0
+            ? Math.round((users.reduce((sum, review) => sum + review.rating, 0) / users.length) * 2 * 10) / 10
+            : null,
+        )
+      } catch (error) {
+        console.error("Error loading critic reviews:", error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadReviews()
+  }, [movie.movie_id])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    )
+  }
+
+  const critics = criticScore(reviews)
+  const scores = [
+    { label: "Critics", score: critics },
+    { label: "Audience (IMDb)", score: movie.imdb_score },
+    { label: "Movie Insights users", score: userScore },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <h3 className="font-medium">Critic vs. Audience Score</h3>
+          {scores.map(({ label, score }) => (
+            <div key={label} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{label}</span>
+                <span className="font-medium">{score !== null ? `${score.toFixed(1)}/10` : "No ratings"}</span>
+              </div>
+              <Progress value={(score ?? 0) * 10} />
+            </div>
+          ))}
+          {critics !== null && (
+            <p className="text-sm text-muted-foreground">
+              {critics === movie.imdb_score
+                ? "Critics and audiences agree on this one."
+                : `Critics rated it ${Math.abs(critics - movie.imdb_score).toFixed(1)} points ${
+                    critics > movie.imdb_score ? "higher" : "lower"
+                  } than IMDb audiences.`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {reviews.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">No critic reviews recorded for this movie.</p>
+        </div>
+      ) : (
+        reviews.map((review) => (
+          <Card key={review.id}>
+            <CardContent className="p-4">
+              <div className="flex items-start gap-3">
+                <div className="h-10 w-10 rounded-full bg-muted flex items-center justify-center">
+                  <Newspaper className="h-5 w-5 text-muted-foreground" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center justify-between">
+                    <Link href={`/critic/${review.critic_id}`} className="font-medium hover:text-primary">
+                      {review.critic_name}
+                    </Link>
+                    {review.review_date && (
+                      <span className="text-sm text-muted-foreground">{formatDate(review.review_date)}</span>
+                    )}
+                  </div>
+                  {review.rating !== undefined && (
+                    <div className="flex items-center mt-1 mb-2 text-sm">
+                      <Star className="h-4 w-4 text-yellow-500 mr-1" />
+                      <span>{review.rating}/10</span>
+                    </div>
+                  )}
+                  <p className="text-sm">{review.content ?? "Full review not available."}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
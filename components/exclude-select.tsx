@@ -0,0 +1,54 @@
+"use client"
+
+import { X } from "lucide-react"
+import { badgeVariants } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+
+interface ExcludeSelectProps {
+  id: string
+  placeholder: string
+  options: { value: string; label: string }[]
+  excluded: string[]
+  onChange: (excluded: string[]) => void
+}
+
+// Picks options to leave out of the results. Each one shows as a struck-through
+// badge that puts it back when clicked.
+export function ExcludeSelect({ id, placeholder, options, excluded, onChange }: ExcludeSelectProps) {
+  const labels = new Map(options.map((option) => [option.value, option.label]))
+
+  return (
+    <div className="space-y-2">
+      <Select value="" onValueChange={(value) => onChange([...excluded, value])}>
+        <SelectTrigger id={id} className="h-8 text-xs">
+          <SelectValue placeholder={placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {options
+            .filter((option) => !excluded.includes(option.value))
+            .map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+      {excluded.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {excluded.map((value) => (
+            <button
+              key={value}
+              type="button"
+              className={cn(badgeVariants({ variant: "destructive" }), "cursor-pointer gap-1 line-through")}
+              onClick={() => onChange(excluded.filter((other) => other !== value))}
+            >
+              {labels.get(value) ?? value}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Download } from "lucide-react"
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  exportFileName,
+  exportStore,
+  type ExportableStore,
+  type ExportFormat,
+} from "@/lib/data-export"
+import { indexedDBStore } from "@/lib/storage/indexeddb"
+import { useAuth } from "@/contexts/auth-context"
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  ndjson: "NDJSON",
+}
+
+function download(url: string, fileName?: string) {
+  const link = document.createElement("a")
+  link.href = url
+  if (fileName) link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+}
+
+export function ExportMenu() {
+  const { user } = useAuth()
+
+  // The catalog comes from the browser database the dashboard shows
+  const exportMovies = async (format: ExportFormat) => {
+    try {
+      const body = await exportStore(indexedDBStore, "movies", format)
+      const url = URL.createObjectURL(new Blob([body], { type: EXPORT_CONTENT_TYPES[format] }))
+      download(url, exportFileName("movies", format))
+      // Some browsers start the download after click() returns
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (error) {
+      console.error("Error exporting movies:", error)
+      alert("Failed to export movies. Please try again.")
+    }
+  }
+
+  // Reviews and favorites are kept on the server, which exports the signed-in
+  // user's own
+  const exportUserData = (store: ExportableStore, format: ExportFormat) => {
+    download(`/api/export?${new URLSearchParams({ store, format })}`)
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export data</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Movies</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {EXPORT_FORMATS.map((format) => (
+              <DropdownMenuItem key={format} onSelect={() => exportMovies(format)}>
+                {FORMAT_LABELS[format]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        {user &&
+          (["reviews", "favorites"] as const).map((store) => (
+            <DropdownMenuSub key={store}>
+              <DropdownMenuSubTrigger>{store === "reviews" ? "My Reviews" : "My Favorites"}</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {EXPORT_FORMATS.map((format) => (
+                  <DropdownMenuItem key={format} onSelect={() => exportUserData(store, format)}>
+                    {FORMAT_LABELS[format]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { Sparkles, ThumbsDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { dismissRecommendationAction, getForYouAction } from "@/app/actions"
+import type { Recommendation } from "@/lib/recommendations"
+
+interface ForYouFeedProps {
+  userId: string
+}
+
+export function ForYouFeed({ userId }: ForYouFeedProps) {
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadFeed = useCallback(async () => {
+    try {
+      setRecommendations(await getForYouAction(userId))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    setIsLoading(true)
+    loadFeed()
+  }, [loadFeed])
+
+  // Hide the movie straight away, then reload so the dismissal also steers
+  // the rest of the feed away from movies like it
+  const handleDismiss = async (movieId: string) => {
+    setError(null)
+    setRecommendations((prev) => prev.filter((recommendation) => recommendation.movie.movie_id !== movieId))
+    try {
+      await dismissRecommendationAction(userId, movieId)
+      await loadFeed()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to dismiss recommendation")
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <p>Finding movies for you...</p>
+      </div>
+    )
+  }
+
+  if (recommendations.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="flex justify-center mb-4">
+          <Sparkles className="h-12 w-12 text-muted-foreground" />
+        </div>
+        <h3 className="text-lg font-medium">Nothing to recommend yet</h3>
+        <p className="text-muted-foreground mt-1">
+          Favorite and review a few movies and we&apos;ll suggest more like them.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {recommendations.map(({ movie, reasons }) => (
+          <Card key={movie.movie_id} className="overflow-hidden transition-all hover:shadow-lg h-full flex flex-col">
+            <Link href={`/movie/${movie.movie_id}`} className="aspect-video w-full bg-muted relative">
+              {movie.poster_url ? (
+                <img
+                  src={movie.poster_url || "/placeholder.svg"}
+                  alt={movie.movie_name}
+                  className="absolute inset-0 w-full h-full object-cover"
+                />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <span className="text-muted-foreground">Movie Poster</span>
+                </div>
+              )}
+            </Link>
+            <CardContent className="p-4 flex flex-1 flex-col">
+              <Link href={`/movie/${movie.movie_id}`} className="hover:text-primary transition-colors">
+                <h3 className="font-semibold text-lg line-clamp-1">{movie.movie_name}</h3>
+              </Link>
+              <div className="flex items-center text-sm text-muted-foreground mt-1">
+                <span className="line-clamp-1">{movie.genre.replace(/\|/g, ", ")}</span>
+                <span className="mx-2">•</span>
+                <span>{movie.release_year}</span>
+              </div>
+              <ul className="mt-2 flex-1 space-y-0.5 text-xs text-muted-foreground">
+                {reasons.slice(0, 3).map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              <div className="mt-3 flex items-center justify-between">
+                <div className="bg-yellow-400 text-yellow-900 px-1.5 py-0.5 rounded text-xs font-medium">
+                  IMDb {movie.imdb_score}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleDismiss(movie.movie_id)}>
+                  <ThumbsDown className="h-4 w-4 mr-1" />
+                  Not interested
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import type React from "react"
+
+import type { MatchSpan } from "@/lib/search/movie-index"
+
+// Text with the parts a search matched wrapped in <mark>
+export function HighlightedText({ text, spans = [] }: { text: string; spans?: MatchSpan[] }) {
+  if (spans.length === 0) return <>{text}</>
+
+  const parts: React.ReactNode[] = []
+  let position = 0
+  spans.forEach(({ start, end }, i) => {
+    if (start > position) parts.push(text.slice(position, start))
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-800 text-current rounded-sm px-0.5">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  })
+  if (position < text.length) parts.push(text.slice(position))
+
+  return <>{parts}</>
+}
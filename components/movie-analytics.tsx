@@ -10,7 +10,10 @@ import {
   getYearDistribution,
   getBudgetRevenueAnalysis,
   getDirectorAnalysis,
+  getAwardAnalysis,
+  getCriticDivergence,
 } from "@/lib/data-utils"
+import type { CriticDivergence } from "@/lib/critics"
 import {
   BarChart,
   Bar,
@@ -51,12 +54,16 @@ export function MovieAnalytics() {
     yearDistribution: { year: string; count: number; avgRating: number }[]
     budgetRevenue: { title: string; budget: number; revenue: number; profit: number; roi: number }[]
     directorAnalysis: { director: string; movieCount: number; avgRating: number; totalRevenue: number }[]
+    awards: { byDirector: { director: string; awards: number }[]; byYear: { year: number; awards: number }[] }
+    critics: CriticDivergence
   }>({
     ratingDistribution: [],
     genreDistribution: [],
     yearDistribution: [],
     budgetRevenue: [],
     directorAnalysis: [],
+    awards: { byDirector: [], byYear: [] },
+    critics: { byMovie: [], byCritic: [] },
   })
 
   const [isLoading, setIsLoading] = useState(true)
@@ -71,6 +78,8 @@ export function MovieAnalytics() {
           yearDistribution: await getYearDistribution(),
           budgetRevenue: await getBudgetRevenueAnalysis(),
           directorAnalysis: await getDirectorAnalysis(),
+          awards: await getAwardAnalysis(),
+          critics: await getCriticDivergence(),
         })
       } catch (error) {
         console.error("Error loading analytics:", error)
@@ -114,12 +123,14 @@ export function MovieAnalytics() {
       </CardHeader>
       <CardContent>
         <Tabs defaultValue="ratings">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="ratings">Rating Distribution</TabsTrigger>
             <TabsTrigger value="genres">Top Genres</TabsTrigger>
             <TabsTrigger value="years">Ratings by Year</TabsTrigger>
             <TabsTrigger value="budget">Budget vs Revenue</TabsTrigger>
             <TabsTrigger value="directors">Top Directors</TabsTrigger>
+            <TabsTrigger value="awards">Awards</TabsTrigger>
+            <TabsTrigger value="critics">Critics vs Audience</TabsTrigger>
           </TabsList>
 
           <TabsContent value="ratings" className="pt-4">
@@ -139,7 +150,7 @@ export function MovieAnalytics() {
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-muted-foreground mt-4 text-center">
-              SQL Query: SELECT COUNT(*) FROM movies GROUP BY ROUND(imdb_score * 2) / 2
+              SQL Query: SELECT ROUND(imdb_score * 2) / 2 AS rating, COUNT(*) FROM movies GROUP BY rating
             </p>
           </TabsContent>
 
@@ -170,7 +181,7 @@ export function MovieAnalytics() {
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-muted-foreground mt-4 text-center">
-              SQL Query: SELECT COUNT(*) FROM movies GROUP BY genre
+              SQL Query: SELECT genre, COUNT(*) FROM movies GROUP BY genre
             </p>
           </TabsContent>
 
@@ -203,7 +214,7 @@ export function MovieAnalytics() {
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-muted-foreground mt-4 text-center">
-              SQL Query: SELECT COUNT(*), AVG(imdb_score) FROM movies GROUP BY release_year
+              SQL Query: SELECT release_year, COUNT(*), AVG(imdb_score) FROM movies GROUP BY release_year
             </p>
           </TabsContent>
 
@@ -301,7 +312,112 @@ export function MovieAnalytics() {
               </ResponsiveContainer>
             </div>
             <p className="text-sm text-muted-foreground mt-4 text-center">
-              SQL Query: SELECT director_name, COUNT(*), AVG(imdb_score) FROM movies GROUP BY director_name
+              SQL Query: SELECT director_name, COUNT(*), AVG(imdb_score) FROM movies GROUP BY director_name HAVING COUNT(*) &gt;= 2
+            </p>
+          </TabsContent>
+
+          <TabsContent value="awards" className="pt-4">
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div>
+                <h3 className="text-sm font-medium mb-2">Awards Won per Director</h3>
+                <div className="h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={analytics.awards.byDirector}
+                      layout="vertical"
+                      margin={{ top: 20, right: 30, left: 100, bottom: 5 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis
+                        type="category"
+                        dataKey="director"
+                        width={80}
+                        tickFormatter={(value) => (value.length > 12 ? `${value.substring(0, 12)}...` : value)}
+                      />
+                      <Tooltip formatter={(value: number) => [`${value} awards`, "Awards Won"]} />
+                      <Bar dataKey="awards" name="Awards Won" fill="#ffc658" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-2">Awards Won per Year</h3>
+                <div className="h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.awards.byYear} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="year" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip
+                        formatter={(value: number) => [`${value} awards`, "Awards Won"]}
+                        labelFormatter={(label) => `Year: ${label}`}
+                      />
+                      <Bar dataKey="awards" name="Awards Won" fill="#82ca9d" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground mt-4 text-center">
+              Wins from the awards store, joined to directors through their credits
+            </p>
+          </TabsContent>
+
+          <TabsContent value="critics" className="pt-4">
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div>
+                <h3 className="text-sm font-medium mb-2">Critic vs. Audience Score by Movie</h3>
+                <div className="h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={analytics.critics.byMovie.slice(0, 15)}
+                      layout="vertical"
+                      margin={{ top: 20, right: 30, left: 100, bottom: 5 }}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" domain={[0, 10]} />
+                      <YAxis
+                        type="category"
+                        dataKey="title"
+                        width={80}
+                        tickFormatter={(value) => (value.length > 12 ? `${value.substring(0, 12)}...` : value)}
+                      />
+                      <Tooltip formatter={(value: number) => `${value.toFixed(1)}/10`} />
+                      <Legend />
+                      <Bar dataKey="criticScore" name="Critics" fill="#8884d8" />
+                      <Bar dataKey="audienceScore" name="Audience (IMDb)" fill="#82ca9d" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-2">Average Divergence per Critic</h3>
+                <div className="h-[400px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={analytics.critics.byCritic} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="critic" />
+                      <YAxis />
+                      <Tooltip
+                        formatter={(value: number, _name, item) => [
+                          `${value > 0 ? "+" : ""}${value.toFixed(1)} over ${item.payload.reviews} reviews`,
+                          "Critic - Audience",
+                        ]}
+                      />
+                      <Bar dataKey="avgDivergence" name="Critic - Audience">
+                        {analytics.critics.byCritic.map((entry) => (
+                          <Cell key={entry.criticId} fill={entry.avgDivergence >= 0 ? "#8884d8" : "#ff8042"} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground mt-4 text-center">
+              Movies with the biggest gap between critic ratings and IMDb scores first. Positive divergence means
+              critics rated higher than audiences.
             </p>
           </TabsContent>
         </Tabs>
@@ -7,66 +7,237 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Send, Loader2 } from "lucide-react"
-import { searchMoviesAction } from "@/app/actions"
+import { Send, Loader2, X, RotateCcw } from "lucide-react"
+import {
+  getChatSessionAction,
+  runMovieQueryAction,
+  saveChatSessionAction,
+  searchMoviesAction,
+} from "@/app/actions"
+import { useAuth } from "@/contexts/auth-context"
 import type { MovieData } from "@/lib/data-utils"
+import type { ChatMessage } from "@/lib/db-service"
+import { QueryFilterChip } from "@/components/query-filter-chip"
+import { isUndoRequest, type FollowUpKind } from "@/lib/nl-query/context"
+import { describeCriteria } from "@/lib/nl-query/describe"
+import type { MovieQuery, QueryCondition } from "@/lib/nl-query/types"
 import Link from "next/link"
 
+const WELCOME_MESSAGE: ChatMessage = {
+  type: "system",
+  content:
+    'Hi! I can help you find movies. Ask me questions like "Show me action movies" or "Find movies directed by Christopher Nolan". ' +
+    'Follow up with "only the ones from the 90s", "sort those by rating" or "undo".',
+}
+
+// How far back "undo" can go, and how much of the conversation is kept
+const MAX_QUERIES = 20
+const MAX_MESSAGES = 100
+
+const FOLLOW_UP_INTROS: Record<FollowUpKind, string> = {
+  new: "",
+  refine: "Narrowing that down, ",
+  broaden: "Widening the search, ",
+  sort: "Re-sorting those, ",
+}
+
 export function MovieChat() {
+  const { user } = useAuth()
   const [query, setQuery] = useState("")
   const [isSearching, setIsSearching] = useState(false)
   const [results, setResults] = useState<MovieData[]>([])
-  const [appliedFilters, setAppliedFilters] = useState<Record<string, string>>({})
-  const [messages, setMessages] = useState<Array<{ type: "user" | "system"; content: string }>>([
-    {
-      type: "system",
-      content:
-        'Hi! I can help you find movies. Ask me questions like "Show me action movies" or "Find movies directed by Christopher Nolan".',
-    },
-  ])
+  const [total, setTotal] = useState(0)
+  // Where the next page of results starts, null when they are all shown
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Every search in the conversation, newest last. Follow-ups build on the
+  // last one and "undo" drops it.
+  const [queries, setQueries] = useState<MovieQuery[]>([])
+  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE])
+  const [sessionLoaded, setSessionLoaded] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
+  const activeQuery = queries.length > 0 ? queries[queries.length - 1] : null
+
   // Auto-scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
-  const handleSearch = async (e: React.FormEvent) => {
+  // Pick up the signed-in user's conversation where they left it
+  useEffect(() => {
+    const loadSession = async () => {
+      setSessionLoaded(false)
+      setMessages([WELCOME_MESSAGE])
+      setQueries([])
+      setResults([])
+      setTotal(0)
+      setNextCursor(null)
+      if (!user) return
+
+      const session = await getChatSessionAction(user.id)
+      if (session) {
+        setMessages(session.messages.length > 0 ? session.messages : [WELCOME_MESSAGE])
+        setQueries(session.queries)
+        const last = session.queries[session.queries.length - 1]
+        if (last) {
+          const { results: searchResults, total: found, nextCursor: next } = await runMovieQueryAction(last)
+          setResults(searchResults)
+          setTotal(found)
+          setNextCursor(next)
+        }
+      }
+      setSessionLoaded(true)
+    }
+
+    loadSession()
+  }, [user])
+
+  useEffect(() => {
+    if (!user || !sessionLoaded) return
+    saveChatSessionAction({ user_id: user.id, messages, queries, updated_at: new Date().toISOString() })
+  }, [user, sessionLoaded, messages, queries])
+
+  const addMessage = (message: ChatMessage) => {
+    setMessages((prev) => [...prev, message].slice(-MAX_MESSAGES))
+  }
+
+  const pushQuery = (next: MovieQuery) => {
+    setQueries((prev) => [...prev, next].slice(-MAX_QUERIES))
+  }
+
+  const showResults = async (shown: MovieQuery | null) => {
+    if (!shown) {
+      setResults([])
+      setTotal(0)
+      setNextCursor(null)
+      return 0
+    }
+    const { results: searchResults, total: found, nextCursor: next } = await runMovieQueryAction(shown)
+    setResults(searchResults)
+    setTotal(found)
+    setNextCursor(next)
+    return found
+  }
+
+  const showMore = async () => {
+    if (!activeQuery || !nextCursor) return
+    setIsLoadingMore(true)
+    try {
+      const { results: more, nextCursor: next } = await runMovieQueryAction(activeQuery, { cursor: nextCursor })
+      setResults((prev) => [...prev, ...more])
+      setNextCursor(next)
+    } catch (error) {
+      console.error("Error loading more results:", error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  const undo = async () => {
+    if (queries.length === 0) {
+      addMessage({ type: "system", content: "There's nothing to undo yet." })
+      return
+    }
+
+    const remaining = queries.slice(0, -1)
+    const previous = remaining.length > 0 ? remaining[remaining.length - 1] : null
+    setQueries(remaining)
+    const found = await showResults(previous)
+    addMessage({
+      type: "system",
+      content: previous ? explainResults(previous, found, "Going back, ") : "Cleared the search. Ask me anything.",
+    })
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
+    sendMessage(query)
+  }
 
-    if (!query.trim()) return
+  const sendMessage = async (text: string) => {
+    if (!text.trim()) return
 
     // Add user message
-    setMessages((prev) => [...prev, { type: "user", content: query }])
+    addMessage({ type: "user", content: text })
 
     setIsSearching(true)
     try {
-      const { results: searchResults, filters } = await searchMoviesAction(query)
-      setResults(searchResults)
-      setAppliedFilters(filters)
+      if (isUndoRequest(text)) {
+        await undo()
+        return
+      }
 
-      // Add system response
-      const responseMessage =
-        searchResults.length > 0
-          ? `I found ${searchResults.length} movies matching your query.`
-          : "I couldn't find any movies matching your criteria. Try a different search."
+      const {
+        results: searchResults,
+        total: found,
+        nextCursor: next,
+        query: parsed,
+        kind,
+        suggestions,
+      } = await searchMoviesAction(text, activeQuery)
+      setResults(searchResults)
+      setTotal(found)
+      setNextCursor(next)
+      if (parsed) pushQuery(parsed)
 
-      setMessages((prev) => [...prev, { type: "system", content: responseMessage }])
+      let content = explainResults(parsed, found, FOLLOW_UP_INTROS[kind])
+      if (suggestions.length > 0) {
+        content += ` Did you mean ${suggestions.map((suggestion) => `"${suggestion}"`).join(" or ")}?`
+      }
+      addMessage({ type: "system", content, suggestions: suggestions.length > 0 ? suggestions : undefined })
     } catch (error) {
       console.error("Error searching movies:", error)
-      setMessages((prev) => [
-        ...prev,
-        {
-          type: "system",
-          content: "Sorry, there was an error processing your request. Please try again.",
-        },
-      ])
+      addMessage({
+        type: "system",
+        content: "Sorry, there was an error processing your request. Please try again.",
+      })
     } finally {
       setIsSearching(false)
       setQuery("")
     }
   }
 
+  // Re-run the search after a filter chip was edited or removed. The edit
+  // goes on the history so "undo" reverts it.
+  const updateQuery = async (updated: MovieQuery) => {
+    pushQuery(updated)
+    setIsSearching(true)
+    try {
+      const found = await showResults(updated)
+      addMessage({ type: "system", content: explainResults(updated, found, "With the updated filters, ") })
+    } catch (error) {
+      console.error("Error updating search:", error)
+    } finally {
+      setIsSearching(false)
+    }
+  }
+
+  const updateCondition = (index: number, condition: QueryCondition) => {
+    if (!activeQuery) return
+    updateQuery({
+      ...activeQuery,
+      conditions: activeQuery.conditions.map((current, i) => (i === index ? condition : current)),
+    })
+  }
+
+  const removeCondition = (index: number) => {
+    if (!activeQuery) return
+    updateQuery({ ...activeQuery, conditions: activeQuery.conditions.filter((_, i) => i !== index) })
+  }
+
+  const startOver = () => {
+    setQueries([])
+    setResults([])
+    setTotal(0)
+    setNextCursor(null)
+    setMessages([WELCOME_MESSAGE])
+  }
+
+  const hasFilters =
+    activeQuery !== null &&
+    (activeQuery.conditions.length > 0 || activeQuery.sort !== undefined || activeQuery.limit !== undefined)
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -78,21 +249,65 @@ export function MovieChat() {
               }`}
             >
               {message.content}
+              {message.suggestions && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {message.suggestions.map((suggestion) => (
+                    <Button
+                      key={suggestion}
+                      variant="outline"
+                      size="sm"
+                      disabled={isSearching}
+                      onClick={() => sendMessage(suggestion)}
+                    >
+                      {suggestion}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
         ))}
         <div ref={messagesEndRef} />
       </div>
 
-      {Object.keys(appliedFilters).length > 0 && (
+      {activeQuery && hasFilters && (
         <div className="px-4 py-2 border-t">
           <div className="text-sm font-medium mb-2">Applied filters:</div>
           <div className="flex flex-wrap gap-2">
-            {Object.entries(appliedFilters).map(([key, value]) => (
-              <Badge key={key} variant="outline">
-                {key}: {value}
-              </Badge>
+            {activeQuery.conditions.map((condition, index) => (
+              <QueryFilterChip
+                key={`${index}-${condition.field}`}
+                condition={condition}
+                onChange={(updated) => updateCondition(index, updated)}
+                onRemove={() => removeCondition(index)}
+              />
             ))}
+            {activeQuery.sort && (
+              <Badge variant="outline" className="gap-1 pr-1">
+                Sort: {describeCriteria({ ...activeQuery, conditions: [], limit: undefined })[0]}
+                <button
+                  type="button"
+                  onClick={() => updateQuery({ ...activeQuery, sort: undefined })}
+                  className="rounded-full p-0.5 hover:bg-muted"
+                  aria-label="Remove sort"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
+            {activeQuery.limit !== undefined && (
+              <Badge variant="outline" className="gap-1 pr-1">
+                Limit: {activeQuery.limit}
+                <button
+                  type="button"
+                  onClick={() => updateQuery({ ...activeQuery, limit: undefined })}
+                  className="rounded-full p-0.5 hover:bg-muted"
+                  aria-label="Remove limit"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            )}
           </div>
         </div>
       )}
@@ -100,7 +315,10 @@ export function MovieChat() {
       {results.length > 0 && (
         <div className="border-t overflow-y-auto max-h-[400px]">
           <div className="p-4">
-            <h3 className="font-medium mb-3">Search Results ({results.length})</h3>
+            <h3 className="font-medium mb-3">
+              Search Results ({results.length}
+              {total > results.length ? ` of ${total}` : ""})
+            </h3>
             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
               {results.map((movie) => (
                 <Link key={movie.movie_id} href={`/movie/${movie.movie_id}`}>
@@ -109,7 +327,7 @@ export function MovieChat() {
                       {movie.poster_url ? (
                         <img
                           src={movie.poster_url || "/placeholder.svg"}
-                          alt={movie.movie_title}
+                          alt={movie.movie_name}
                           className="absolute inset-0 w-full h-full object-cover"
                         />
                       ) : (
@@ -119,11 +337,11 @@ export function MovieChat() {
                       )}
                     </div>
                     <CardContent className="p-4">
-                      <h3 className="font-semibold text-lg line-clamp-1">{movie.movie_title}</h3>
+                      <h3 className="font-semibold text-lg line-clamp-1">{movie.movie_name}</h3>
                       <div className="flex items-center text-sm text-muted-foreground mt-1">
-                        <span className="line-clamp-1">{movie.genres.replace(/\|/g, ", ")}</span>
+                        <span className="line-clamp-1">{movie.genre.replace(/\|/g, ", ")}</span>
                         <span className="mx-2">•</span>
-                        <span>{movie.title_year}</span>
+                        <span>{movie.release_year}</span>
                       </div>
                       <div className="mt-2 flex items-center">
                         <div className="bg-yellow-400 text-yellow-900 px-1.5 py-0.5 rounded text-xs font-medium">
@@ -135,6 +353,14 @@ export function MovieChat() {
                 </Link>
               ))}
             </div>
+            {nextCursor && (
+              <div className="mt-4 flex justify-center">
+                <Button variant="outline" size="sm" onClick={showMore} disabled={isLoadingMore}>
+                  {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Show more
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -151,8 +377,41 @@ export function MovieChat() {
           <Button type="submit" disabled={isSearching}>
             {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
           </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={startOver}
+            disabled={isSearching || messages.length <= 1}
+            title="Start a new conversation"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
         </form>
       </div>
     </div>
   )
 }
+
+// Say how many movies were found and which criteria narrowed them down
+function explainResults(query: MovieQuery | null, total: number, intro = ""): string {
+  if (!query) return "Sorry, there was an error processing your request. Please try again."
+
+  const criteria = describeCriteria(query)
+  let message =
+    total > 0
+      ? `${intro}I found ${total} ${total === 1 ? "movie" : "movies"}`
+      : `${intro}I couldn't find any movies`
+  message += criteria.length > 0 ? ` ${criteria.join(", ")}.` : " matching your query."
+
+  if (query.unmatched.length > 0) {
+    message += ` I didn't understand: ${query.unmatched.map((word) => `"${word}"`).join(", ")}.`
+  }
+  if (total === 0) {
+    message += " Try removing a filter below or a different search."
+  } else if (query.confidence < 0.5) {
+    message += " I'm not sure I read your question right, so check the filters below."
+  }
+
+  return message
+}
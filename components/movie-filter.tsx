@@ -2,17 +2,27 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { Label } from "@/components/ui/label"
-import { Badge } from "@/components/ui/badge"
+import { Badge, badgeVariants } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
 import { Search, X, SlidersHorizontal } from "lucide-react"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
 import type { MovieData } from "@/lib/data-utils"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
 import {
   Sheet,
   SheetContent,
@@ -23,191 +33,362 @@ import {
   SheetFooter,
   SheetClose,
 } from "@/components/ui/sheet"
-import { dbClient } from "@/lib/db-service"
+import { dbClient, type CatalogOverview, type Person } from "@/lib/db-service"
+import type { SearchField, SearchHit } from "@/lib/search/movie-index"
+import { awardWinnerIds } from "@/lib/movie-filters"
+import { decadeRange } from "@/lib/facets"
+import type { FilteredPage } from "@/lib/filtered-pages"
+import { getFilteredPageAction } from "@/app/actions"
+import { RangeFilter } from "@/components/range-filter"
+import { ExcludeSelect } from "@/components/exclude-select"
+import type { MoviePage } from "@/lib/movie-pages"
+import { indexedDBStore } from "@/lib/storage/indexeddb"
+import { HighlightedText } from "@/components/highlighted-text"
+import { SearchAutocomplete, type SearchSelection } from "@/components/search-autocomplete"
+import { buildAutocompleteIndex } from "@/lib/search/autocomplete"
+import { useQueryParams } from "@/hooks/use-query-params"
+import { useAuth } from "@/contexts/auth-context"
+import { SavedSearchesMenu } from "@/components/saved-searches-menu"
+import type { SavedSearch } from "@/lib/db-service"
+import {
+  DEFAULT_FILTERS,
+  filterViewParams,
+  filterViewQuery,
+  formatRange,
+  isOpenRange,
+  readFilterView,
+  type MovieFilters,
+  type MovieSortKey,
+} from "@/lib/filter-params"
+
+// Fields shown under a result when the search matched there rather than in the title
+const MATCH_LABELS: Partial<Record<SearchField, string>> = {
+  director_name: "Director",
+  actors: "Cast",
+  producer_name: "Producer",
+  plot_keyword: "Keywords",
+}
+
+const SORT_LABELS: Record<MovieSortKey, string> = {
+  relevance: "Best match",
+  rating: "IMDb rating",
+  year: "Newest",
+  duration: "Longest",
+  budget: "Biggest budget",
+  title: "Title",
+  added: "Recently added",
+}
+
+const PAGE_SIZE = 24
+
+type TextFilterName = "director" | "actor" | "award" | "language" | "country"
+
+// The list of values left out for each single-choice filter
+const EXCLUDED_FILTERS = {
+  director: "excludedDirectors",
+  actor: "excludedActors",
+  award: "excludedAwards",
+  language: "excludedLanguages",
+  country: "excludedCountries",
+} as const satisfies Record<TextFilterName, keyof MovieFilters>
+
+const EXCLUDED_LABELS: Record<TextFilterName, string> = {
+  director: "directors",
+  actor: "actors",
+  award: "awards",
+  language: "languages",
+  country: "countries",
+}
+
+const formatMinutes = (minutes: number) => `${minutes} min`
+const formatBudget = (budget: number) => `$${Math.round(budget / 1_000_000)}M`
+
+// Options no movie would match with the other filters are dimmed, not hidden,
+// so the list doesn't jump around while filtering
+const facetClass = (facet: Map<string, number> | undefined, value: string) =>
+  facet && !facet.get(value) ? "text-muted-foreground opacity-60" : undefined
+
+// Slider ranges until the catalog overview has loaded
+const NO_BOUNDS: CatalogOverview["bounds"] = { year: [0, 0], duration: [0, 0], budget: [0, 0] }
+
+const NO_HITS = new Map<string, SearchHit>()
+
+// The first and last pages and the ones around the current page, with null
+// where pages are skipped
+function pageNumbers(current: number, count: number): (number | null)[] {
+  const numbers: (number | null)[] = []
+  for (let number = 1; number <= count; number++) {
+    if (number === 1 || number === count || Math.abs(number - current) <= 1) numbers.push(number)
+    else if (numbers[numbers.length - 1] !== null) numbers.push(null)
+  }
+  return numbers
+}
 
 export function MovieFilter() {
-  const [movies, setMovies] = useState<MovieData[]>([])
-  const [filteredMovies, setFilteredMovies] = useState<MovieData[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState("")
-
-  // Filter states
-  const [filters, setFilters] = useState({
-    genre: "",
-    year: "",
-    director: "",
-    actor: "",
-    minRating: 0,
-    maxRating: 10,
-    language: "",
-    country: "",
-  })
+  const router = useRouter()
+  const { user } = useAuth()
+  // Titles for the search box's suggestions, loaded once a search is typed
+  const [titles, setTitles] = useState<MovieData[]>([])
+  // The page of movies matching the search and filters, filtered on the server
+  const [filteredPage, setFilteredPage] = useState<FilteredPage | null>(null)
+  // The page shown when there is no search or filter to apply
+  const [browsePage, setBrowsePage] = useState<MoviePage | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  // Search text, filters, sort and page live in the URL so views can be shared
+  const [params, updateParams] = useQueryParams()
+  const { query: searchQuery, filters, sort, page } = useMemo(() => readFilterView(params), [params])
+  // Rating range while the slider is being dragged, committed on release
+  const [draggedRating, setDraggedRating] = useState<number[] | null>(null)
+  const resultsRef = useRef<HTMLDivElement>(null)
+  // Movies flagged "New" after opening a saved search with unseen matches
+  const [newMatchIds, setNewMatchIds] = useState<Set<string>>(new Set())
 
   // Unique options for select filters
   const [filterOptions, setFilterOptions] = useState({
     genres: new Set<string>(),
-    years: new Set<string>(),
-    directors: new Set<string>(),
-    actors: new Set<string>(),
+    certifications: new Set<string>(),
+    decades: new Set<string>(),
+    directors: [] as Person[],
+    actors: [] as Person[],
+    awards: [] as string[],
     languages: new Set<string>(),
     countries: new Set<string>(),
   })
 
-  // Load movies on component mount
+  // Counts and slider ranges over the whole catalog, read from the database indexes
+  const [overview, setOverview] = useState<CatalogOverview | null>(null)
+
+  const isBrowsing = filterViewQuery({ query: searchQuery, filters }) === ""
+
+  // The titles are only loaded once the search box needs them
+  const [titlesRequested, setTitlesRequested] = useState(false)
+
   useEffect(() => {
-    async function loadMovies() {
-      setIsLoading(true)
+    if (searchQuery) setTitlesRequested(true)
+  }, [searchQuery])
+
+  // Load the filter options on component mount
+  useEffect(() => {
+    async function loadFilterOptions() {
       try {
-        // Use SQL-like query to get all movies
-        const data = await dbClient.executeQuery("SELECT * FROM movies ORDER BY imdb_score DESC")
-        setMovies(data)
-        setFilteredMovies(data) // Show all 30 movies initially
-
-        // Extract filter options
-        const options = {
-          genres: new Set<string>(),
-          years: new Set<string>(),
-          directors: new Set<string>(),
-          actors: new Set<string>(),
-          languages: new Set<string>(),
-          countries: new Set<string>(),
-        }
-
-        data.forEach((movie) => {
-          // Add genres
-          movie.genre.split("|").forEach((genre) => {
-            if (genre.trim()) options.genres.add(genre.trim())
-          })
-
-          // Add year
-          if (movie.release_year) options.years.add(movie.release_year.toString())
-
-          // Add director
-          if (movie.director_name) options.directors.add(movie.director_name)
-
-          // Add actors
-          if (movie.actors) {
-            movie.actors.split("|").forEach((actor) => {
-              if (actor.trim()) options.actors.add(actor.trim())
-            })
-          }
-
-          // Add language
-          if (movie.language) options.languages.add(movie.language)
-
-          // Add country
-          if (movie.country) options.countries.add(movie.country)
+        // Directors and actors come from the people store
+        const [catalogOverview, directors, actors, awards] = await Promise.all([
+          dbClient.getCatalogOverview(),
+          dbClient.getPeopleByRole("director"),
+          dbClient.getPeopleByRole("actor"),
+          dbClient.getAllAwards(),
+        ])
+
+        const winnerMap = awardWinnerIds(awards)
+        setOverview(catalogOverview)
+
+        const { facets } = catalogOverview
+        setFilterOptions({
+          genres: new Set(facets.genre.keys()),
+          certifications: new Set(facets.certification.keys()),
+          decades: new Set(facets.decade.keys()),
+          directors,
+          actors,
+          awards: Array.from(winnerMap.keys()).sort(),
+          languages: new Set(facets.language.keys()),
+          countries: new Set(facets.country.keys()),
         })
-
-        setFilterOptions(options)
       } catch (error) {
-        console.error("Error loading movies:", error)
-      } finally {
-        setIsLoading(false)
+        console.error("Error loading filter options:", error)
       }
     }
 
-    loadMovies()
+    loadFilterOptions()
   }, [])
 
-  // Apply filters when search query or filters change
+  // Load the titles the search box suggests
+  useEffect(() => {
+    if (!titlesRequested) return
+    indexedDBStore
+      .getAllMovies()
+      .then(setTitles)
+      .catch((error) => console.error("Error loading movies:", error))
+  }, [titlesRequested])
+
+  const autocompleteIndex = useMemo(() => {
+    const people = [
+      ...filterOptions.directors.map((person) => ({ person, role: "director" as const })),
+      ...filterOptions.actors.map((person) => ({ person, role: "actor" as const })),
+    ].map(({ person, role }) => ({ person, role, movieCount: overview?.facets[role].get(person.id) ?? 0 }))
+    return buildAutocompleteIndex(titles, people)
+  }, [titles, filterOptions.directors, filterOptions.actors, overview])
+
+  const bounds = overview?.bounds ?? NO_BOUNDS
+
+  // How many movies each filter option would match alongside the other filters:
+  // the catalog-wide counts while browsing
+  const facets = isBrowsing ? (overview?.facets ?? null) : (filteredPage?.facets ?? null)
+
+  // Plain browsing pages straight from the database, without loading the
+  // whole catalog
   useEffect(() => {
-    if (movies.length === 0) return
-
-    let results = [...movies]
-
-    // Apply text search
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase()
-      results = results.filter(
-        (movie) =>
-          movie.movie_name.toLowerCase().includes(query) ||
-          movie.director_name.toLowerCase().includes(query) ||
-          movie.actors.toLowerCase().includes(query) ||
-          movie.plot_keyword.toLowerCase().includes(query),
-      )
+    if (!isBrowsing) return
+    let cancelled = false
+    indexedDBStore
+      .getMoviesPage(sort === "relevance" ? "rating" : sort, { offset: (page - 1) * PAGE_SIZE, limit: PAGE_SIZE })
+      .then((result) => {
+        if (!cancelled) setBrowsePage(result)
+      })
+      .catch((error) => console.error("Error loading movies:", error))
+    return () => {
+      cancelled = true
     }
+  }, [isBrowsing, sort, page])
 
-    // Apply genre filter
-    if (filters.genre && filters.genre !== "all") {
-      results = results.filter((movie) => movie.genre.toLowerCase().includes(filters.genre.toLowerCase()))
+  // Searches and filters run where the catalog lives, which sends back just
+  // the page shown
+  useEffect(() => {
+    if (isBrowsing) return
+    let cancelled = false
+    setIsLoading(true)
+    getFilteredPageAction({ query: searchQuery, filters }, sort, { offset: (page - 1) * PAGE_SIZE, limit: PAGE_SIZE })
+      .then((result) => {
+        if (!cancelled && result) setFilteredPage(result)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
     }
+  }, [isBrowsing, searchQuery, filters, sort, page])
 
-    // Apply year filter
-    if (filters.year && filters.year !== "all") {
-      results = results.filter((movie) => movie.release_year.toString() === filters.year)
-    }
+  const results = isBrowsing ? browsePage : filteredPage
+  const searchHits = (!isBrowsing && filteredPage?.hits) || NO_HITS
+  const suggestions = (!isBrowsing && filteredPage?.suggestions) || []
 
-    // Apply director filter
-    if (filters.director && filters.director !== "all") {
-      results = results.filter((movie) => movie.director_name.toLowerCase().includes(filters.director.toLowerCase()))
-    }
+  const pageCount = Math.max(1, Math.ceil((results?.total ?? 0) / PAGE_SIZE))
 
-    // Apply actor filter
-    if (filters.actor && filters.actor !== "all") {
-      results = results.filter((movie) => movie.actors.toLowerCase().includes(filters.actor.toLowerCase()))
-    }
+  // A shared link may point past the end once the catalog has changed
+  useEffect(() => {
+    if (results && page > pageCount) updateParams(filterViewParams({ page: pageCount }), "replace")
+  }, [results, page, pageCount, updateParams])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    // Search is already handled by the useEffect
+  }
+
+  // Each change is a history entry and goes back to the first page
+  const updateFilters = (changes: Partial<MovieFilters>) => {
+    updateParams({ ...filterViewParams({ filters: { ...filters, ...changes } }), page: null })
+  }
 
-    // Apply rating filter
-    results = results.filter((movie) => {
-      const rating = movie.imdb_score
-      return rating >= filters.minRating && rating <= filters.maxRating
-    })
+  // Choosing a value takes it off the excluded list, and excluding the chosen
+  // value clears the choice
+  const handleFilterChange = (name: TextFilterName, value: string) => {
+    const excludedName = EXCLUDED_FILTERS[name]
+    updateFilters({ [name]: value, [excludedName]: filters[excludedName].filter((excluded) => excluded !== value) })
+  }
 
-    // Apply language filter
-    if (filters.language && filters.language !== "all") {
-      results = results.filter((movie) => movie.language.toLowerCase() === filters.language.toLowerCase())
-    }
+  const handleExcludedChange = (name: TextFilterName, excluded: string[]) => {
+    updateFilters({ [EXCLUDED_FILTERS[name]]: excluded, ...(excluded.includes(filters[name]) && { [name]: "" }) })
+  }
 
-    // Apply country filter
-    if (filters.country && filters.country !== "all") {
-      results = results.filter((movie) => movie.country.toLowerCase() === filters.country.toLowerCase())
+  // Each click moves a genre or certification from off to included to
+  // excluded and back to off
+  const cycleOption = (
+    value: string,
+    includedName: "genres" | "certifications",
+    excludedName: "excludedGenres" | "excludedCertifications",
+  ) => {
+    if (filters[includedName].includes(value)) {
+      updateFilters({
+        [includedName]: filters[includedName].filter((chosen) => chosen !== value),
+        [excludedName]: [...filters[excludedName], value],
+      })
+    } else if (filters[excludedName].includes(value)) {
+      updateFilters({ [excludedName]: filters[excludedName].filter((excluded) => excluded !== value) })
+    } else {
+      updateFilters({ [includedName]: [...filters[includedName], value] })
     }
+  }
 
-    // Sort by IMDb score (highest first)
-    results.sort((a, b) => b.imdb_score - a.imdb_score)
+  // Typing replaces the current entry instead of adding one per keystroke
+  const setSearchQuery = (query: string, mode: "push" | "replace" = "push") => {
+    updateParams({ ...filterViewParams({ query }), page: null }, mode)
+  }
 
-    setFilteredMovies(results)
-  }, [searchQuery, filters, movies])
+  const setPage = (next: number) => {
+    updateParams(filterViewParams({ page: next }))
+    resultsRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })
+  }
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
-    // Search is already handled by the useEffect
+  // People and genres become filters; titles open the movie
+  const handleSuggestion = (selection: SearchSelection) => {
+    switch (selection.kind) {
+      case "title":
+        router.push(`/movie/${selection.value}`)
+        break
+      case "person": {
+        const role = selection.role === "director" ? "director" : "actor"
+        const excludedName = EXCLUDED_FILTERS[role]
+        updateParams({
+          ...filterViewParams({
+            query: "",
+            filters: {
+              ...filters,
+              [role]: selection.value,
+              [excludedName]: filters[excludedName].filter((personId) => personId !== selection.value),
+            },
+          }),
+          page: null,
+        })
+        break
+      }
+      case "genre":
+        updateParams({
+          ...filterViewParams({
+            query: "",
+            filters: {
+              ...filters,
+              genres: filters.genres.includes(selection.value) ? filters.genres : [...filters.genres, selection.value],
+              excludedGenres: filters.excludedGenres.filter((genre) => genre !== selection.value),
+            },
+          }),
+          page: null,
+        })
+        break
+      default:
+        setSearchQuery(selection.label)
+    }
   }
 
-  const handleFilterChange = (name: string, value: any) => {
-    setFilters((prev) => ({ ...prev, [name]: value }))
+  const openSavedSearch = (search: SavedSearch) => {
+    const { query, filters: savedFilters, sort: savedSort } = readFilterView(new URLSearchParams(search.params))
+    updateParams({ ...filterViewParams({ query, filters: savedFilters, sort: savedSort }), page: null })
+    setNewMatchIds(new Set(search.new_movie_ids))
   }
 
   const clearFilters = () => {
-    setFilters({
-      genre: "",
-      year: "",
-      director: "",
-      actor: "",
-      minRating: 0,
-      maxRating: 10,
-      language: "",
-      country: "",
-    })
-    setSearchQuery("")
+    updateParams({ ...filterViewParams({ query: "", filters: DEFAULT_FILTERS }), page: null })
   }
 
+  // One per filter parameter that isn't at its default; the genre match mode alone filters nothing
+  const filterParams = Object.entries(filterViewParams({ filters }))
   const activeFilterCount =
-    Object.values(filters).filter((value) => value !== "" && value !== 0 && value !== 10 && value !== "all").length +
-    (searchQuery ? 1 : 0)
+    filterParams.filter(([name, value]) => value !== null && name !== "genreMatch").length + (searchQuery ? 1 : 0)
+
+  const currentPage = Math.min(page, pageCount)
 
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
         <form onSubmit={handleSearch} className="flex w-full max-w-lg items-center space-x-2">
-          <Input
-            type="text"
-            placeholder="Search movies, directors, actors..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="flex-1"
-          />
+          <div className="flex-1">
+            <SearchAutocomplete
+              value={searchQuery}
+              onValueChange={(query) => setSearchQuery(query, "replace")}
+              onSelect={handleSuggestion}
+              index={autocompleteIndex}
+              placeholder="Search movies, directors, actors..."
+            />
+          </div>
           <Button type="submit" disabled={isLoading}>
             <Search className="h-4 w-4" />
             <span className="ml-2 hidden sm:inline">Search</span>
@@ -233,44 +414,127 @@ export function MovieFilter() {
 
               <div className="py-4 space-y-6">
                 <div className="space-y-2">
-                  <Label htmlFor="genre">Genre</Label>
-                  <Select value={filters.genre} onValueChange={(value) => handleFilterChange("genre", value)}>
-                    <SelectTrigger id="genre">
-                      <SelectValue placeholder="Select genre" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Genres</SelectItem>
-                      {Array.from(filterOptions.genres)
-                        .sort()
-                        .map((genre) => (
-                          <SelectItem key={genre} value={genre}>
+                  <div className="flex items-center justify-between">
+                    <Label>Genres</Label>
+                    <div className="flex gap-1">
+                      {(["any", "all"] as const).map((match) => (
+                        <Button
+                          key={match}
+                          type="button"
+                          variant={filters.genreMatch === match ? "secondary" : "ghost"}
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => updateFilters({ genreMatch: match })}
+                        >
+                          {match === "any" ? "Any" : "All"}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Click a genre to include it, again to exclude it.</p>
+                  <div className="flex flex-wrap gap-2">
+                    {Array.from(filterOptions.genres)
+                      .sort()
+                      .map((genre) => {
+                        const included = filters.genres.includes(genre)
+                        const excluded = filters.excludedGenres.includes(genre)
+                        return (
+                          <button
+                            key={genre}
+                            type="button"
+                            className={cn(
+                              badgeVariants({ variant: included ? "default" : excluded ? "destructive" : "outline" }),
+                              "cursor-pointer gap-1",
+                              excluded && "line-through",
+                              !included && !excluded && facetClass(facets?.genre, genre),
+                            )}
+                            onClick={() => cycleOption(genre, "genres", "excludedGenres")}
+                          >
                             {genre}
-                          </SelectItem>
-                        ))}
-                    </SelectContent>
-                  </Select>
+                            <span className="opacity-70">{facets?.genre.get(genre) ?? 0}</span>
+                          </button>
+                        )
+                      })}
+                  </div>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="year">Release Year</Label>
-                  <Select value={filters.year} onValueChange={(value) => handleFilterChange("year", value)}>
-                    <SelectTrigger id="year">
-                      <SelectValue placeholder="Select year" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="all">All Years</SelectItem>
-                      {Array.from(filterOptions.years)
-                        .sort()
-                        .reverse()
-                        .map((year) => (
-                          <SelectItem key={year} value={year}>
-                            {year}
-                          </SelectItem>
-                        ))}
-                    </SelectContent>
-                  </Select>
+                  <Label>Certification</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {Array.from(filterOptions.certifications)
+                      .sort()
+                      .map((certification) => {
+                        const included = filters.certifications.includes(certification)
+                        const excluded = filters.excludedCertifications.includes(certification)
+                        return (
+                          <button
+                            key={certification}
+                            type="button"
+                            className={cn(
+                              badgeVariants({ variant: included ? "default" : excluded ? "destructive" : "outline" }),
+                              "cursor-pointer gap-1",
+                              excluded && "line-through",
+                              !included && !excluded && facetClass(facets?.certification, certification),
+                            )}
+                            onClick={() => cycleOption(certification, "certifications", "excludedCertifications")}
+                          >
+                            {certification}
+                            <span className="opacity-70">{facets?.certification.get(certification) ?? 0}</span>
+                          </button>
+                        )
+                      })}
+                  </div>
                 </div>
 
+                <RangeFilter
+                  label="Release Year"
+                  bounds={bounds.year}
+                  value={filters.year}
+                  onChange={(year) => updateFilters({ year })}
+                />
+
+                <div className="flex flex-wrap gap-2">
+                  {Array.from(filterOptions.decades)
+                    .sort()
+                    .map((decade) => {
+                      const { min, max } = decadeRange(decade)
+                      const selected = filters.year.min === min && filters.year.max === max
+                      return (
+                        <button
+                          key={decade}
+                          type="button"
+                          className={cn(
+                            badgeVariants({ variant: selected ? "default" : "outline" }),
+                            "cursor-pointer gap-1",
+                            !selected && facetClass(facets?.decade, decade),
+                          )}
+                          onClick={() => updateFilters({ year: selected ? DEFAULT_FILTERS.year : { min, max } })}
+                        >
+                          {decade}
+                          <span className="opacity-70">{facets?.decade.get(decade) ?? 0}</span>
+                        </button>
+                      )
+                    })}
+                </div>
+
+                <RangeFilter
+                  label="Duration"
+                  bounds={bounds.duration}
+                  step={5}
+                  value={filters.duration}
+                  format={formatMinutes}
+                  onChange={(duration) => updateFilters({ duration })}
+                />
+
+                <RangeFilter
+                  label="Budget"
+                  bounds={bounds.budget}
+                  step={1_000_000}
+                  value={filters.budget}
+                  format={formatBudget}
+                  onChange={(budget) => updateFilters({ budget })}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor="director">Director</Label>
                   <Select value={filters.director} onValueChange={(value) => handleFilterChange("director", value)}>
@@ -279,15 +543,24 @@ export function MovieFilter() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Directors</SelectItem>
-                      {Array.from(filterOptions.directors)
-                        .sort()
-                        .map((director) => (
-                          <SelectItem key={director} value={director}>
-                            {director}
-                          </SelectItem>
-                        ))}
+                      {filterOptions.directors.map((director) => (
+                        <SelectItem
+                          key={director.id}
+                          value={director.id}
+                          className={facetClass(facets?.director, director.id)}
+                        >
+                          {director.name} ({facets?.director.get(director.id) ?? 0})
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <ExcludeSelect
+                    id="excluded-director"
+                    placeholder="Exclude directors..."
+                    options={filterOptions.directors.map((person) => ({ value: person.id, label: person.name }))}
+                    excluded={filters.excludedDirectors}
+                    onChange={(excluded) => handleExcludedChange("director", excluded)}
+                  />
                 </div>
 
                 <div className="space-y-2">
@@ -298,34 +571,63 @@ export function MovieFilter() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Actors</SelectItem>
-                      {Array.from(filterOptions.actors)
-                        .sort()
-                        .map((actor) => (
-                          <SelectItem key={actor} value={actor}>
-                            {actor}
-                          </SelectItem>
-                        ))}
+                      {filterOptions.actors.map((actor) => (
+                        <SelectItem key={actor.id} value={actor.id} className={facetClass(facets?.actor, actor.id)}>
+                          {actor.name} ({facets?.actor.get(actor.id) ?? 0})
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <ExcludeSelect
+                    id="excluded-actor"
+                    placeholder="Exclude actors..."
+                    options={filterOptions.actors.map((person) => ({ value: person.id, label: person.name }))}
+                    excluded={filters.excludedActors}
+                    onChange={(excluded) => handleExcludedChange("actor", excluded)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="award">Award Won</Label>
+                  <Select value={filters.award} onValueChange={(value) => handleFilterChange("award", value)}>
+                    <SelectTrigger id="award">
+                      <SelectValue placeholder="Select award" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Awards</SelectItem>
+                      {filterOptions.awards.map((award) => (
+                        <SelectItem key={award} value={award} className={facetClass(facets?.award, award)}>
+                          {award} ({facets?.award.get(award) ?? 0})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <ExcludeSelect
+                    id="excluded-award"
+                    placeholder="Exclude awards..."
+                    options={filterOptions.awards.map((award) => ({ value: award, label: award }))}
+                    excluded={filters.excludedAwards}
+                    onChange={(excluded) => handleExcludedChange("award", excluded)}
+                  />
                 </div>
 
                 <div className="space-y-4">
                   <div className="flex justify-between">
                     <Label>IMDb Rating</Label>
                     <span className="text-sm text-muted-foreground">
-                      {filters.minRating} - {filters.maxRating}
+                      {(draggedRating ?? [filters.minRating, filters.maxRating]).join(" - ")}
                     </span>
                   </div>
                   <div className="px-1">
                     <Slider
-                      defaultValue={[filters.minRating, filters.maxRating]}
                       min={0}
                       max={10}
                       step={0.1}
-                      value={[filters.minRating, filters.maxRating]}
-                      onValueChange={([min, max]) => {
-                        handleFilterChange("minRating", min)
-                        handleFilterChange("maxRating", max)
+                      value={draggedRating ?? [filters.minRating, filters.maxRating]}
+                      onValueChange={setDraggedRating}
+                      onValueCommit={([min, max]) => {
+                        setDraggedRating(null)
+                        updateFilters({ minRating: min, maxRating: max })
                       }}
                     />
                   </div>
@@ -342,12 +644,21 @@ export function MovieFilter() {
                       {Array.from(filterOptions.languages)
                         .sort()
                         .map((language) => (
-                          <SelectItem key={language} value={language}>
-                            {language}
+                          <SelectItem key={language} value={language} className={facetClass(facets?.language, language)}>
+                            {language} ({facets?.language.get(language) ?? 0})
                           </SelectItem>
                         ))}
                     </SelectContent>
                   </Select>
+                  <ExcludeSelect
+                    id="excluded-language"
+                    placeholder="Exclude languages..."
+                    options={Array.from(filterOptions.languages)
+                      .sort()
+                      .map((language) => ({ value: language, label: language }))}
+                    excluded={filters.excludedLanguages}
+                    onChange={(excluded) => handleExcludedChange("language", excluded)}
+                  />
                 </div>
 
                 <div className="space-y-2">
@@ -361,12 +672,21 @@ export function MovieFilter() {
                       {Array.from(filterOptions.countries)
                         .sort()
                         .map((country) => (
-                          <SelectItem key={country} value={country}>
-                            {country}
+                          <SelectItem key={country} value={country} className={facetClass(facets?.country, country)}>
+                            {country} ({facets?.country.get(country) ?? 0})
                           </SelectItem>
                         ))}
                     </SelectContent>
                   </Select>
+                  <ExcludeSelect
+                    id="excluded-country"
+                    placeholder="Exclude countries..."
+                    options={Array.from(filterOptions.countries)
+                      .sort()
+                      .map((country) => ({ value: country, label: country }))}
+                    excluded={filters.excludedCountries}
+                    onChange={(excluded) => handleExcludedChange("country", excluded)}
+                  />
                 </div>
               </div>
 
@@ -382,9 +702,34 @@ export function MovieFilter() {
               </SheetFooter>
             </SheetContent>
           </Sheet>
+
+          {user && (
+            <SavedSearchesMenu
+              userId={user.id}
+              currentParams={filterViewQuery({ query: searchQuery, filters, sort })}
+              onOpen={openSavedSearch}
+            />
+          )}
         </form>
       </div>
 
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Did you mean</span>
+          {suggestions.map((suggestion) => (
+            <Button
+              key={suggestion}
+              variant="link"
+              className="h-auto p-0"
+              onClick={() => setSearchQuery(suggestion)}
+            >
+              {suggestion}
+            </Button>
+          ))}
+          <span className="text-muted-foreground">?</span>
+        </div>
+      )}
+
       {activeFilterCount > 0 && (
         <div className="flex items-center gap-2">
           <span className="text-sm font-medium">Active filters:</span>
@@ -395,39 +740,76 @@ export function MovieFilter() {
                 <X className="h-3 w-3 cursor-pointer" onClick={() => setSearchQuery("")} />
               </Badge>
             )}
-            {filters.genre && filters.genre !== "all" && (
+            {filters.genres.length > 0 && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                {filters.genres.length > 1 ? `Genres (${filters.genreMatch}): ` : "Genre: "}
+                {filters.genres.join(", ")}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ genres: [] })} />
+              </Badge>
+            )}
+            {filters.excludedGenres.length > 0 && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Without: {filters.excludedGenres.join(", ")}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ excludedGenres: [] })} />
+              </Badge>
+            )}
+            {filters.certifications.length > 0 && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Certification: {filters.certifications.join(", ")}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ certifications: [] })} />
+              </Badge>
+            )}
+            {filters.excludedCertifications.length > 0 && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Without certification: {filters.excludedCertifications.join(", ")}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ excludedCertifications: [] })} />
+              </Badge>
+            )}
+            {!isOpenRange(filters.year) && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Year: {formatRange(filters.year)}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ year: DEFAULT_FILTERS.year })} />
+              </Badge>
+            )}
+            {!isOpenRange(filters.duration) && (
               <Badge variant="secondary" className="flex items-center gap-1">
-                Genre: {filters.genre}
-                <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("genre", "")} />
+                Duration: {formatRange(filters.duration, formatMinutes)}
+                <X
+                  className="h-3 w-3 cursor-pointer"
+                  onClick={() => updateFilters({ duration: DEFAULT_FILTERS.duration })}
+                />
               </Badge>
             )}
-            {filters.year && filters.year !== "all" && (
+            {!isOpenRange(filters.budget) && (
               <Badge variant="secondary" className="flex items-center gap-1">
-                Year: {filters.year}
-                <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("year", "")} />
+                Budget: {formatRange(filters.budget, formatBudget)}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => updateFilters({ budget: DEFAULT_FILTERS.budget })} />
               </Badge>
             )}
             {filters.director && filters.director !== "all" && (
               <Badge variant="secondary" className="flex items-center gap-1">
-                Director: {filters.director}
+                Director: {filterOptions.directors.find((person) => person.id === filters.director)?.name}
                 <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("director", "")} />
               </Badge>
             )}
             {filters.actor && filters.actor !== "all" && (
               <Badge variant="secondary" className="flex items-center gap-1">
-                Actor: {filters.actor}
+                Actor: {filterOptions.actors.find((person) => person.id === filters.actor)?.name}
                 <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("actor", "")} />
               </Badge>
             )}
+            {filters.award && filters.award !== "all" && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                Award: {filters.award}
+                <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("award", "")} />
+              </Badge>
+            )}
             {(filters.minRating > 0 || filters.maxRating < 10) && (
               <Badge variant="secondary" className="flex items-center gap-1">
                 Rating: {filters.minRating} - {filters.maxRating}
                 <X
                   className="h-3 w-3 cursor-pointer"
-                  onClick={() => {
-                    handleFilterChange("minRating", 0)
-                    handleFilterChange("maxRating", 10)
-                  }}
+                  onClick={() => updateFilters({ minRating: 0, maxRating: 10 })}
                 />
               </Badge>
             )}
@@ -443,6 +825,19 @@ export function MovieFilter() {
                 <X className="h-3 w-3 cursor-pointer" onClick={() => handleFilterChange("country", "")} />
               </Badge>
             )}
+            {(Object.keys(EXCLUDED_FILTERS) as TextFilterName[]).map((name) => {
+              const excluded = filters[EXCLUDED_FILTERS[name]]
+              if (excluded.length === 0) return null
+              const people =
+                name === "director" ? filterOptions.directors : name === "actor" ? filterOptions.actors : []
+              const names = excluded.map((value) => people.find((person) => person.id === value)?.name ?? value)
+              return (
+                <Badge key={name} variant="secondary" className="flex items-center gap-1">
+                  Without {EXCLUDED_LABELS[name]}: {names.join(", ")}
+                  <X className="h-3 w-3 cursor-pointer" onClick={() => handleExcludedChange(name, [])} />
+                </Badge>
+              )
+            })}
             <Button variant="ghost" size="sm" onClick={clearFilters} className="h-6 px-2 text-xs">
               Clear all
             </Button>
@@ -450,17 +845,32 @@ export function MovieFilter() {
         </div>
       )}
 
-      {isLoading ? (
+      {!results ? (
         <div className="text-center py-12">
           <p>Loading movies...</p>
         </div>
-      ) : filteredMovies.length > 0 ? (
-        <div>
+      ) : results.total > 0 ? (
+        <div ref={resultsRef} className="scroll-mt-4">
           <div className="flex justify-between items-center mb-4">
-            <h3 className="font-medium">Results ({filteredMovies.length})</h3>
+            <h3 className="font-medium">Results ({results.total})</h3>
+            <Select
+              value={sort}
+              onValueChange={(value) => updateParams({ ...filterViewParams({ sort: value as MovieSortKey }), page: null })}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as MovieSortKey[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {SORT_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
           <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-            {filteredMovies.map((movie) => (
+            {results.movies.map((movie) => (
               <Link key={movie.movie_id} href={`/movie/${movie.movie_id}`}>
                 <Card className="overflow-hidden transition-all hover:shadow-lg h-full">
                   <div className="aspect-video w-full bg-muted relative">
@@ -469,9 +879,15 @@ export function MovieFilter() {
                       alt={movie.movie_name}
                       className="absolute inset-0 w-full h-full object-cover"
                     />
+                    {newMatchIds.has(movie.movie_id) && <Badge className="absolute top-2 left-2">New</Badge>}
                   </div>
                   <CardContent className="p-4">
-                    <h3 className="font-semibold text-lg line-clamp-1">{movie.movie_name}</h3>
+                    <h3 className="font-semibold text-lg line-clamp-1">
+                      <HighlightedText
+                        text={movie.movie_name}
+                        spans={searchHits.get(movie.movie_id)?.highlights.movie_name}
+                      />
+                    </h3>
                     <div className="flex items-center text-sm text-muted-foreground mt-1">
                       <span className="line-clamp-1">{movie.genre.replace(/\|/g, ", ")}</span>
                       <span className="mx-2">•</span>
@@ -482,11 +898,70 @@ export function MovieFilter() {
                         IMDb {movie.imdb_score}
                       </div>
                     </div>
+                    {(Object.keys(MATCH_LABELS) as SearchField[])
+                      .filter((field) => searchHits.get(movie.movie_id)?.highlights[field])
+                      .map((field) => (
+                        <p key={field} className="mt-2 text-xs text-muted-foreground line-clamp-1">
+                          {MATCH_LABELS[field]}:{" "}
+                          <HighlightedText
+                            text={movie[field]}
+                            spans={searchHits.get(movie.movie_id)!.highlights[field]}
+                          />
+                        </p>
+                      ))}
                   </CardContent>
                 </Card>
               </Link>
             ))}
           </div>
+          {pageCount > 1 && (
+            <Pagination className="mt-6">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    aria-disabled={currentPage === 1}
+                    className={currentPage === 1 ? "pointer-events-none opacity-50" : undefined}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      setPage(currentPage - 1)
+                    }}
+                  />
+                </PaginationItem>
+                {pageNumbers(currentPage, pageCount).map((number, index) =>
+                  number === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={number}>
+                      <PaginationLink
+                        href="#"
+                        isActive={number === currentPage}
+                        onClick={(e) => {
+                          e.preventDefault()
+                          setPage(number)
+                        }}
+                      >
+                        {number}
+                      </PaginationLink>
+                    </PaginationItem>
+                  ),
+                )}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    aria-disabled={currentPage === pageCount}
+                    className={currentPage === pageCount ? "pointer-events-none opacity-50" : undefined}
+                    onClick={(e) => {
+                      e.preventDefault()
+                      setPage(currentPage + 1)
+                    }}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
         </div>
       ) : (
         <div className="text-center py-12">
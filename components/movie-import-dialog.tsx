@@ -0,0 +1,192 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Upload } from "lucide-react"
+import { importMoviesAction } from "@/app/actions"
+import type { SavedSearch } from "@/lib/db-service"
+import { detectFormat, importMovies, parseMovieFile, type ImportMode, type ImportResult } from "@/lib/movie-import"
+import { indexedDBStore } from "@/lib/storage/indexeddb"
+
+type ImportStage = "checking" | "server" | "browser"
+
+const STAGE_LABELS: Record<ImportStage, string> = {
+  checking: "Checking the file...",
+  server: "Importing into the catalog...",
+  browser: "Updating this browser's copy...",
+}
+
+interface MovieImportDialogProps {
+  // Called with the saved searches the import added movies to
+  onImported: (matchedSearches: SavedSearch[]) => void
+}
+
+export function MovieImportDialog({ onImported }: MovieImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<ImportMode>("upsert")
+  const [stage, setStage] = useState<ImportStage | null>(null)
+  const isImporting = stage !== null
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleOpenChange = (value: boolean) => {
+    // Keep the dialog open while a batch is still being written
+    if (isImporting) return
+    setOpen(value)
+    if (!value) {
+      setFile(null)
+      setResult(null)
+      setError(null)
+      setProgress(0)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+
+    setStage("checking")
+    setResult(null)
+    setError(null)
+    setProgress(0)
+
+    try {
+      const text = await file.text()
+      const format = detectFormat(text, file.name)
+      // Check the whole file before anything is written, so a replace never
+      // starts with a file it would have to stop part way through
+      const parsed = parseMovieFile(text, format)
+      if (mode === "replace" && parsed.errors.length > 0) {
+        setResult({ imported: 0, addedIds: [], errors: parsed.errors })
+        return
+      }
+
+      // The server store is the catalog of record, so it takes the file first
+      setStage("server")
+      const importResult = await importMoviesAction(text, format, mode)
+      // Then the browser database the search and analytics tabs read mirrors it
+      if (importResult.imported > 0) {
+        setStage("browser")
+        await importMovies(indexedDBStore, text, {
+          format,
+          mode,
+          onProgress: (imported, total) => setProgress(Math.round((imported / total) * 100)),
+        })
+      }
+
+      setResult(importResult)
+      if (importResult.imported > 0) onImported(importResult.matchedSearches)
+    } catch (error) {
+      console.error("Error importing movies:", error)
+      setError(error instanceof Error ? error.message : "Failed to import movies")
+    } finally {
+      setStage(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Movies
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Movies</DialogTitle>
+          <DialogDescription>
+            Upload a CSV file with a header row or a JSON array of movies. Separate multiple genres, actors and plot
+            keywords with "|".
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="catalog-file">File</Label>
+              <Input
+                id="catalog-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={isImporting}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} disabled={isImporting}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="upsert" id="mode-upsert" />
+                  <Label htmlFor="mode-upsert" className="font-normal">
+                    Add new movies and update existing ones
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="replace" id="mode-replace" />
+                  <Label htmlFor="mode-replace" className="font-normal">
+                    Replace the whole catalog
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            {stage && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">{STAGE_LABELS[stage]}</p>
+                {stage === "browser" && <Progress value={progress} />}
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {result && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  Imported {result.imported} {result.imported === 1 ? "movie" : "movies"}
+                  {result.errors.length > 0 && `, ${result.errors.length} problems found`}
+                  {mode === "replace" && result.imported === 0 && ". The catalog was left unchanged."}
+                </p>
+                {result.errors.length > 0 && (
+                  <ScrollArea className="h-40 rounded-md border p-2">
+                    <ul className="space-y-1">
+                      {result.errors.map((rowError, index) => (
+                        <li key={index} className="text-muted-foreground">
+                          Row {rowError.row}
+                          {rowError.movieId && ` (${rowError.movieId})`}: {rowError.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!file || isImporting}>
+              {isImporting ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
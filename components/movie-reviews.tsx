@@ -17,7 +17,7 @@ interface Review {
   rating: number
   content: string
   created_at: string
-  username: string
+  username?: string
 }
 
 export function MovieReviews({ movieId }: MovieReviewsProps) {
@@ -75,7 +75,7 @@ export function MovieReviews({ movieId }: MovieReviewsProps) {
               </div>
               <div className="flex-1">
                 <div className="flex items-center justify-between">
-                  <h3 className="font-medium">{review.username}</h3>
+                  <h3 className="font-medium">{review.username ?? "Anonymous"}</h3>
                   <span className="text-sm text-muted-foreground">{formatDate(review.created_at)}</span>
                 </div>
                 <div className="flex items-center mt-1 mb-2">
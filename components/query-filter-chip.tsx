@@ -0,0 +1,140 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { X } from "lucide-react"
+import { describeCondition, FIELD_LABELS } from "@/lib/nl-query/describe"
+import type { QueryCondition, RangeCondition, TextCondition } from "@/lib/nl-query/types"
+
+interface QueryFilterChipProps {
+  condition: QueryCondition
+  onChange: (condition: QueryCondition) => void
+  onRemove: () => void
+}
+
+// A parsed filter shown as a badge. Clicking it opens an editor, the X drops it.
+export function QueryFilterChip({ condition, onChange, onRemove }: QueryFilterChipProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Badge variant="outline" className="gap-1 pr-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <button type="button" className="hover:underline">
+            {describeCondition(condition)}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72" align="start">
+          {condition.kind === "text" ? (
+            <TextConditionEditor
+              condition={condition}
+              onSave={(updated) => {
+                setOpen(false)
+                if (updated.values.length === 0) onRemove()
+                else onChange(updated)
+              }}
+            />
+          ) : (
+            <RangeConditionEditor
+              condition={condition}
+              onSave={(updated) => {
+                setOpen(false)
+                if (updated.min === undefined && updated.max === undefined) onRemove()
+                else onChange(updated)
+              }}
+            />
+          )}
+        </PopoverContent>
+      </Popover>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="rounded-full p-0.5 hover:bg-muted"
+        aria-label={`Remove ${describeCondition(condition)}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    </Badge>
+  )
+}
+
+function TextConditionEditor({
+  condition,
+  onSave,
+}: {
+  condition: TextCondition
+  onSave: (condition: TextCondition) => void
+}) {
+  const [values, setValues] = useState(condition.values.join(", "))
+  const [negated, setNegated] = useState(condition.negated)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onSave({
+      ...condition,
+      values: values
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean),
+      negated,
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="filter-values">{FIELD_LABELS[condition.field]}</Label>
+        <Input id="filter-values" value={values} onChange={(e) => setValues(e.target.value)} />
+        <p className="text-xs text-muted-foreground">
+          Separate values with commas. Movies must match {condition.mode === "any" ? "any" : "all"} of them.
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="filter-negated" checked={negated} onCheckedChange={(checked) => setNegated(checked === true)} />
+        <Label htmlFor="filter-negated">Exclude these</Label>
+      </div>
+      <Button type="submit" size="sm" className="w-full">
+        Apply
+      </Button>
+    </form>
+  )
+}
+
+function RangeConditionEditor({
+  condition,
+  onSave,
+}: {
+  condition: RangeCondition
+  onSave: (condition: RangeCondition) => void
+}) {
+  const [min, setMin] = useState(condition.min?.toString() ?? "")
+  const [max, setMax] = useState(condition.max?.toString() ?? "")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const parse = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value))
+    // Typed bounds read as "from ... to ...", so both ends are included
+    onSave({ ...condition, min: parse(min), max: parse(max), minInclusive: true, maxInclusive: true })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <Label>{FIELD_LABELS[condition.field]}</Label>
+      <div className="flex items-center gap-2">
+        <Input type="number" placeholder="Min" value={min} onChange={(e) => setMin(e.target.value)} />
+        <span className="text-muted-foreground">–</span>
+        <Input type="number" placeholder="Max" value={max} onChange={(e) => setMax(e.target.value)} />
+      </div>
+      <Button type="submit" size="sm" className="w-full">
+        Apply
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,53 @@
+"use client"
+
+import { useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { formatRange, type NumberRange } from "@/lib/filter-params"
+
+interface RangeFilterProps {
+  label: string
+  // Lowest and highest values in the catalog
+  bounds: [number, number]
+  step?: number
+  value: NumberRange
+  format?: (value: number) => string
+  onChange: (range: NumberRange) => void
+}
+
+// Two-thumb slider over the catalog's range. Pulling a thumb back to its end
+// leaves that end open, so movies added later outside the range still match.
+export function RangeFilter({ label, bounds, step = 1, value, format = String, onChange }: RangeFilterProps) {
+  const [lowest, highest] = bounds
+  // Values while a thumb is being dragged, committed on release
+  const [dragged, setDragged] = useState<number[] | null>(null)
+
+  const shown = dragged ?? [value.min ?? lowest, value.max ?? highest]
+  const range = {
+    min: shown[0] > lowest ? shown[0] : null,
+    max: shown[1] < highest ? shown[1] : null,
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between">
+        <Label>{label}</Label>
+        <span className="text-sm text-muted-foreground">{formatRange(range, format)}</span>
+      </div>
+      <div className="px-1">
+        <Slider
+          min={lowest}
+          max={highest}
+          step={step}
+          value={shown}
+          disabled={lowest >= highest}
+          onValueChange={setDragged}
+          onValueCommit={([min, max]) => {
+            setDragged(null)
+            onChange({ min: min > lowest ? min : null, max: max < highest ? max : null })
+          }}
+        />
+      </div>
+    </div>
+  )
+}
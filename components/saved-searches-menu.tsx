@@ -0,0 +1,194 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { Bookmark, Check, Pencil, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import {
+  createSavedSearchAction,
+  deleteSavedSearchAction,
+  getSavedSearchesAction,
+  updateSavedSearchAction,
+} from "@/app/actions"
+import type { SavedSearch } from "@/lib/db-service"
+import { describeSavedSearch } from "@/lib/saved-searches"
+
+interface SavedSearchesMenuProps {
+  // The signed-in user, whose searches the actions read from the session
+  userId: string
+  // Query string of the search on screen, which "Save" stores
+  currentParams: string
+  onOpen: (search: SavedSearch) => void
+}
+
+export function SavedSearchesMenu({ userId, currentParams, onOpen }: SavedSearchesMenuProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [name, setName] = useState("")
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getSavedSearchesAction().then(setSearches)
+  }, [userId])
+
+  const newMatchCount = searches.reduce((count, search) => count + search.new_movie_ids.length, 0)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      const search = await createSavedSearchAction(name || describeSavedSearch(currentParams), currentParams)
+      setSearches((prev) => [...prev, search])
+      setName("")
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save search")
+    }
+  }
+
+  const handleRename = async (search: SavedSearch) => {
+    setError(null)
+    if (!newName.trim()) return
+    try {
+      const renamed = { ...search, name: newName.trim() }
+      await updateSavedSearchAction(search.id, { name: renamed.name })
+      setSearches((prev) => prev.map((existing) => (existing.id === search.id ? renamed : existing)))
+      setRenamingId(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to rename search")
+    }
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    setError(null)
+    try {
+      await deleteSavedSearchAction(search.id)
+      setSearches((prev) => prev.filter((existing) => existing.id !== search.id))
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to delete search")
+    }
+  }
+
+  // Opening a search marks its new matches as seen
+  const handleOpen = async (search: SavedSearch) => {
+    onOpen(search)
+    if (search.new_movie_ids.length === 0) return
+    const seen = { ...search, new_movie_ids: [] }
+    setSearches((prev) => prev.map((existing) => (existing.id === search.id ? seen : existing)))
+    try {
+      await updateSavedSearchAction(search.id, { new_movie_ids: [] })
+    } catch (error) {
+      console.error("Error marking saved search as seen:", error)
+    }
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="relative">
+          <Bookmark className="h-4 w-4" />
+          <span className="ml-2 hidden sm:inline">Saved</span>
+          {newMatchCount > 0 && (
+            <Badge className="absolute -top-2 -right-2 h-5 min-w-5 px-1 flex items-center justify-center">
+              {newMatchCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <form onSubmit={handleSave} className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={describeSavedSearch(currentParams)}
+            aria-label="Name for this search"
+          />
+          <Button type="submit" size="sm">
+            Save
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {searches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Save the current search and filters to come back to them.</p>
+        ) : (
+          <ul className="space-y-1">
+            {searches.map((search) => (
+              <li key={search.id} className="flex items-center gap-1">
+                {renamingId === search.id ? (
+                  <form
+                    className="flex flex-1 items-center gap-1"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      handleRename(search)
+                    }}
+                  >
+                    <Input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      className="h-8"
+                      aria-label="New name"
+                      autoFocus
+                    />
+                    <Button type="submit" variant="ghost" size="icon" className="h-8 w-8">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setRenamingId(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="flex-1 justify-start gap-2 truncate"
+                      onClick={() => handleOpen(search)}
+                    >
+                      <span className="truncate">{search.name}</span>
+                      {search.new_movie_ids.length > 0 && (
+                        <Badge variant="secondary">{search.new_movie_ids.length} new</Badge>
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Rename ${search.name}`}
+                      onClick={() => {
+                        setRenamingId(search.id)
+                        setNewName(search.name)
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Delete ${search.name}`}
+                      onClick={() => handleDelete(search)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Clock, Film, Search, Tag, User, Hash } from "lucide-react"
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import {
+  groupSuggestions,
+  type AutocompleteEntry,
+  type AutocompleteIndex,
+  type SuggestionKind,
+} from "@/lib/search/autocomplete"
+
+// A plain text search, or one of the index's suggestions
+export type SearchSelection = { kind: "search"; label: string; value: string } | AutocompleteEntry
+
+const RECENT_SEARCHES_KEY = "movie_insights_recent_searches"
+const MAX_RECENT_SEARCHES = 5
+const SUGGESTIONS_PER_GROUP = 5
+
+const GROUPS: Record<SuggestionKind, { heading: string; icon: typeof Film }> = {
+  title: { heading: "Titles", icon: Film },
+  person: { heading: "People", icon: User },
+  genre: { heading: "Genres", icon: Tag },
+  keyword: { heading: "Keywords", icon: Hash },
+}
+
+function loadRecentSearches(): SearchSelection[] {
+  try {
+    return JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]") as SearchSelection[]
+  } catch {
+    return []
+  }
+}
+
+interface SearchAutocompleteProps {
+  value: string
+  onValueChange: (value: string) => void
+  onSelect: (selection: SearchSelection) => void
+  index: AutocompleteIndex
+  placeholder?: string
+}
+
+// Search box with a typeahead. Arrow keys move through the suggestions, Enter
+// picks one (by default a plain search for the text) and Escape closes them.
+export function SearchAutocomplete({ value, onValueChange, onSelect, index, placeholder }: SearchAutocompleteProps) {
+  const [open, setOpen] = useState(false)
+  const [recent, setRecent] = useState<SearchSelection[]>([])
+
+  useEffect(() => {
+    setRecent(loadRecentSearches())
+  }, [])
+
+  const groups = useMemo(() => groupSuggestions(index, value, SUGGESTIONS_PER_GROUP), [index, value])
+
+  const select = (selection: SearchSelection) => {
+    const updated = [
+      selection,
+      ...recent.filter((item) => !(item.kind === selection.kind && item.value === selection.value)),
+    ].slice(0, MAX_RECENT_SEARCHES)
+    setRecent(updated)
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(updated))
+    setOpen(false)
+    onSelect(selection)
+  }
+
+  const query = value.trim()
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className="relative overflow-visible rounded-md border bg-background [&_[cmdk-input-wrapper]]:border-b-0"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setOpen(false)
+        else if (e.key !== "Enter") setOpen(true)
+      }}
+    >
+      <CommandInput
+        value={value}
+        onValueChange={(text) => {
+          onValueChange(text)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className="h-9"
+      />
+      {open && (query || recent.length > 0) && (
+        // Keep focus in the input while clicking a suggestion
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-md"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList>
+            {query ? (
+              <>
+                <CommandGroup>
+                  <CommandItem value={`search:${query}`} onSelect={() => select({ kind: "search", label: query, value: query })}>
+                    <Search />
+                    Search for &ldquo;{query}&rdquo;
+                  </CommandItem>
+                </CommandGroup>
+                {groups.map(({ kind, entries }) => {
+                  const { heading, icon: Icon } = GROUPS[kind]
+                  return (
+                    <CommandGroup key={kind} heading={heading}>
+                      {entries.map((entry) => (
+                        <CommandItem
+                          key={`${entry.kind}:${entry.role ?? ""}:${entry.value}`}
+                          value={`${entry.kind}:${entry.role ?? ""}:${entry.value}`}
+                          onSelect={() => select(entry)}
+                        >
+                          <Icon />
+                          <span className="flex-1 truncate">{entry.label}</span>
+                          {entry.detail && <span className="text-xs text-muted-foreground">{entry.detail}</span>}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )
+                })}
+              </>
+            ) : (
+              <CommandGroup heading="Recent searches">
+                {recent.map((item) => (
+                  <CommandItem
+                    key={`${item.kind}:${item.value}`}
+                    value={`recent:${item.kind}:${item.value}`}
+                    onSelect={() => select(item)}
+                  >
+                    <Clock />
+                    <span className="flex-1 truncate">{item.label}</span>
+                    {item.kind !== "search" && item.detail && (
+                      <span className="text-xs text-muted-foreground">{item.detail}</span>
+                    )}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </div>
+      )}
+    </Command>
+  )
+}
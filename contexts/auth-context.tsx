@@ -4,15 +4,7 @@ import type React from "react"
 
 import { createContext, useContext, useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
-import { dbClient } from "@/lib/db-service"
-import { v4 as uuidv4 } from "uuid"
-
-// Simple hash function for passwords (in a real app, use bcrypt)
-function hashPassword(password: string): string {
-  // This is a simple hash for demo purposes only
-  // In a real app, use a proper password hashing library
-  return btoa(password + "salt")
-}
+import { signInAction, signOutAction, signUpAction, updateLastLoginAction } from "@/app/actions"
 
 export type UserProfile = {
   id: string
@@ -64,7 +56,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   async function refreshProfile() {
     if (user) {
-      await dbClient.updateLastLogin(user.id)
+      await updateLastLoginAction(user.id)
     }
   }
 
@@ -72,24 +64,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       setIsLoading(true)
 
-      // Check if user already exists
-      const existingUser = await dbClient.getUserByEmail(email)
-      if (existingUser) {
-        return { error: { message: "User with this email already exists" } }
+      // Users live in the server store alongside their favorites and reviews
+      const { user: newUser, error } = await signUpAction(email, password, username)
+      if (error || !newUser) {
+        return { error }
       }
 
-      // Create new user
-      const userId = uuidv4()
-      const hashedPassword = hashPassword(password)
-
-      const newUser = await dbClient.createUser(userId, email, username, hashedPassword)
-
-      // Remove password from user object before storing
-      const { password: _, ...userWithoutPassword } = newUser
-
       // Store user in state and localStorage
-      setUser(userWithoutPassword)
-      localStorage.setItem("movieInsightsUser", JSON.stringify(userWithoutPassword))
+      setUser(newUser)
+      localStorage.setItem("movieInsightsUser", JSON.stringify(newUser))
 
       return { error: null }
     } catch (error) {
@@ -104,28 +87,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       setIsLoading(true)
 
-      // Get user by email
-      const user = await dbClient.getUserByEmail(email)
-
-      if (!user) {
-        return { error: { message: "No account found with this email. Please register." } }
+      // The password is checked on the server
+      const { user, error } = await signInAction(email, password)
+      if (error || !user) {
+        return { error }
       }
 
-      // Check password
-      const hashedPassword = hashPassword(password)
-      if (user.password !== hashedPassword) {
-        return { error: { message: "Invalid password" } }
-      }
-
-      // Update last login
-      await dbClient.updateLastLogin(user.id)
-
-      // Remove password from user object before storing
-      const { password: _, ...userWithoutPassword } = user
-
       // Store user in state and localStorage
-      setUser(userWithoutPassword)
-      localStorage.setItem("movieInsightsUser", JSON.stringify(userWithoutPassword))
+      setUser(user)
+      localStorage.setItem("movieInsightsUser", JSON.stringify(user))
 
       return { error: null }
     } catch (error) {
@@ -137,6 +107,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }
 
   async function signOut() {
+    await signOutAction()
     setUser(null)
     localStorage.removeItem("movieInsightsUser")
     router.push("/")
@@ -0,0 +1,44 @@
+import * as React from "react"
+
+export type QueryParamChanges = Record<string, string | null>
+
+// Tells every useQueryParams on the page that another one changed the URL
+const QUERY_PARAMS_CHANGE = "queryparamschange"
+
+// The page's query string as state. Updates go through the history API, so
+// several components can each own some parameters without clobbering the
+// others, and back/forward restores earlier values.
+export function useQueryParams() {
+  const [params, setParams] = React.useState(() => new URLSearchParams())
+
+  React.useEffect(() => {
+    const onChange = () => setParams(new URLSearchParams(window.location.search))
+    window.addEventListener("popstate", onChange)
+    window.addEventListener(QUERY_PARAMS_CHANGE, onChange)
+    onChange()
+    return () => {
+      window.removeEventListener("popstate", onChange)
+      window.removeEventListener(QUERY_PARAMS_CHANGE, onChange)
+    }
+  }, [])
+
+  // "replace" is for changes that shouldn't each get a history entry, like typing
+  const updateParams = React.useCallback((changes: QueryParamChanges, mode: "push" | "replace" = "push") => {
+    const next = new URLSearchParams(window.location.search)
+    Object.entries(changes).forEach(([name, value]) => {
+      if (value === null) next.delete(name)
+      else next.set(name, value)
+    })
+
+    const search = next.toString()
+    if (search !== window.location.search.replace(/^\?/, "")) {
+      const url = `${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`
+      if (mode === "push") window.history.pushState(null, "", url)
+      else window.history.replaceState(null, "", url)
+    }
+    setParams(next)
+    window.dispatchEvent(new Event(QUERY_PARAMS_CHANGE))
+  }, [])
+
+  return [params, updateParams] as const
+}
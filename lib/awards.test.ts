@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest"
+import { awardsForMovie } from "./awards"
+import { initialMovies } from "./movie-catalog"
+
+const shawshank = initialMovies.find((movie) => movie.movie_name === "The Shawshank Redemption")!
+
+describe("awardsForMovie", () => {
+  it("adds the awards data set's records for the movie", () => {
+    expect(awardsForMovie(shawshank)).toContainEqual(
+      expect.objectContaining({ name: "Academy Award for Best Picture", outcome: "won", votes: 5000 }),
+    )
+  })
+
+  it("gives a different film imported under the same id only its own award", () => {
+    const other = {
+      ...shawshank,
+      movie_name: "Some Other Film",
+      release_year: 2001,
+      award_name: "Academy Award Nominations for Best Sound",
+    }
+    expect(awardsForMovie(other)).toEqual([
+      {
+        id: `${shawshank.movie_id}:academy-award-for-best-sound`,
+        movie_id: shawshank.movie_id,
+        name: "Academy Award for Best Sound",
+        year: 2002,
+        outcome: "nominated",
+      },
+    ])
+  })
+})
@@ -0,0 +1,54 @@
+import type { Award, Movie } from "./db-service"
+import { isMockMovie, mockAwardData } from "./mock-data"
+import { slugify } from "./utils"
+
+// award_name values like "Academy Award Nominations for Best Picture" record
+// a nomination rather than a win
+const NOMINATION_PATTERN = /\bNominations?\b/i
+
+// Turn "Academy Award Nominations for Best Picture" into the award it was
+// nominated for, "Academy Award for Best Picture"
+export function normalizeAwardName(name: string): string {
+  return name
+    .replace(/\s+Nominations?\s+/i, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+export function awardsForMovie(movie: Movie): Award[] {
+  const awards = new Map<string, Award>()
+
+  // Detailed records from the awards data set come first
+  mockAwardData
+    .filter((award) => isMockMovie(award.movie_id, movie))
+    .forEach((award) => {
+      const id = `${movie.movie_id}:${slugify(award.award_name)}`
+      awards.set(id, {
+        id,
+        movie_id: movie.movie_id,
+        name: award.award_name,
+        year: award.award_year_given,
+        outcome: "won",
+        votes: award.number_of_votes,
+      })
+    })
+
+  // Then the movie's own award_name column, unless it names one we already have
+  const raw = movie.award_name?.trim()
+  if (raw && raw.toLowerCase() !== "none") {
+    const name = normalizeAwardName(raw)
+    const id = `${movie.movie_id}:${slugify(name)}`
+    if (!awards.has(id)) {
+      awards.set(id, {
+        id,
+        movie_id: movie.movie_id,
+        name,
+        // Ceremonies are held the year after a film's release
+        year: movie.release_year + 1,
+        outcome: NOMINATION_PATTERN.test(raw) ? "nominated" : "won",
+      })
+    }
+  }
+
+  return Array.from(awards.values())
+}
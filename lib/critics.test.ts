@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { criticReviewsForMovie } from "./critics"
+import { initialMovies } from "./movie-catalog"
+
+const shawshank = initialMovies.find((movie) => movie.movie_name === "The Shawshank Redemption")!
+
+describe("criticReviewsForMovie", () => {
+  it("adds the review data set's reviews of the movie", () => {
+    expect(criticReviewsForMovie(shawshank).map((review) => review.critic_id).sort()).toEqual([
+      "peter-travers",
+      "roger-ebert",
+    ])
+  })
+
+  it("gives a different film imported under the same id only its own reviewer", () => {
+    const other = { ...shawshank, movie_name: "Some Other Film", release_year: 2001, reviewer_name: "A.O. Scott" }
+    expect(criticReviewsForMovie(other)).toEqual([
+      {
+        id: `${shawshank.movie_id}:a-o-scott`,
+        critic_id: "a-o-scott",
+        critic_name: "A.O. Scott",
+        movie_id: shawshank.movie_id,
+      },
+    ])
+  })
+})
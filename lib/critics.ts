@@ -0,0 +1,124 @@
+import type { CriticReview, Movie } from "./db-service"
+import { isMockMovie, mockReviewData } from "./mock-data"
+import { slugify } from "./utils"
+
+// Critic ids are derived from names like person ids, e.g. "A.O. Scott" -> "a-o-scott"
+export function criticIdFor(name: string): string {
+  return slugify(name)
+}
+
+export function criticReviewsForMovie(movie: Movie): CriticReview[] {
+  const reviews = new Map<string, CriticReview>()
+
+  // Full reviews with a rating and text come first
+  mockReviewData
+    .filter((review) => isMockMovie(review.movie_id, movie))
+    .forEach((review) => {
+      const criticId = criticIdFor(review.reviewer_name)
+      const id = `${movie.movie_id}:${criticId}`
+      reviews.set(id, {
+        id,
+        critic_id: criticId,
+        critic_name: review.reviewer_name,
+        movie_id: movie.movie_id,
+        rating: review.rating,
+        content: review.review_content,
+        review_date: review.review_date,
+      })
+    })
+
+  // The reviewer_name column only tells us who reviewed the movie
+  const name = movie.reviewer_name?.trim()
+  if (name && name.toLowerCase() !== "none") {
+    const criticId = criticIdFor(name)
+    const id = `${movie.movie_id}:${criticId}`
+    if (criticId && !reviews.has(id)) {
+      reviews.set(id, { id, critic_id: criticId, critic_name: name, movie_id: movie.movie_id })
+    }
+  }
+
+  return Array.from(reviews.values())
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10
+}
+
+// Mean critic rating for a movie, ignoring reviews that only name the critic
+export function criticScore(reviews: CriticReview[]): number | null {
+  return average(reviews.flatMap((review) => (review.rating === undefined ? [] : [review.rating])))
+}
+
+export interface CriticProfile {
+  critic: { id: string; name: string }
+  reviews: { review: CriticReview; movie: Movie }[]
+  avgRating: number | null
+  // How far the critic's ratings sit from the IMDb score on average.
+  // Positive means they rate movies higher than audiences do.
+  avgDivergence: number | null
+}
+
+export function buildCriticProfile(reviews: CriticReview[], movies: Movie[]): CriticProfile | undefined {
+  if (reviews.length === 0) return undefined
+
+  const moviesById = new Map(movies.map((movie) => [movie.movie_id, movie]))
+  const reviewed = reviews
+    .filter((review) => moviesById.has(review.movie_id))
+    .map((review) => ({ review, movie: moviesById.get(review.movie_id)! }))
+    // Newest release first
+    .sort((a, b) => b.movie.release_year - a.movie.release_year || a.movie.movie_name.localeCompare(b.movie.movie_name))
+  const rated = reviewed.filter(({ review }) => review.rating !== undefined)
+
+  return {
+    critic: { id: reviews[0].critic_id, name: reviews[0].critic_name },
+    reviews: reviewed,
+    avgRating: average(rated.map(({ review }) => review.rating!)),
+    avgDivergence: average(rated.map(({ review, movie }) => review.rating! - movie.imdb_score)),
+  }
+}
+
+export interface CriticDivergence {
+  byMovie: { movieId: string; title: string; criticScore: number; audienceScore: number; divergence: number }[]
+  byCritic: { criticId: string; critic: string; reviews: number; avgDivergence: number }[]
+}
+
+// Compare critic ratings with the IMDb audience score, per movie and per critic.
+// Movies are ordered by how far apart the two scores are.
+export function buildCriticDivergence(reviews: CriticReview[], movies: Movie[]): CriticDivergence {
+  const moviesById = new Map(movies.map((movie) => [movie.movie_id, movie]))
+  const rated = reviews.filter((review) => review.rating !== undefined && moviesById.has(review.movie_id))
+
+  const ratingsByMovie = new Map<string, CriticReview[]>()
+  const ratingsByCritic = new Map<string, CriticReview[]>()
+  rated.forEach((review) => {
+    ratingsByMovie.set(review.movie_id, [...(ratingsByMovie.get(review.movie_id) ?? []), review])
+    ratingsByCritic.set(review.critic_id, [...(ratingsByCritic.get(review.critic_id) ?? []), review])
+  })
+
+  return {
+    byMovie: Array.from(ratingsByMovie.entries())
+      .map(([movieId, movieReviews]) => {
+        const movie = moviesById.get(movieId)!
+        const score = criticScore(movieReviews)!
+        return {
+          movieId,
+          title: movie.movie_name,
+          criticScore: score,
+          audienceScore: movie.imdb_score,
+          divergence: Math.round((score - movie.imdb_score) * 10) / 10,
+        }
+      })
+      .sort((a, b) => Math.abs(b.divergence) - Math.abs(a.divergence) || a.title.localeCompare(b.title)),
+    byCritic: Array.from(ratingsByCritic.entries())
+      .map(([criticId, criticReviews]) => ({
+        criticId,
+        critic: criticReviews[0].critic_name,
+        reviews: criticReviews.length,
+        avgDivergence: average(
+          criticReviews.map((review) => review.rating! - moviesById.get(review.movie_id)!.imdb_score),
+        )!,
+      }))
+      .sort((a, b) => b.avgDivergence - a.avgDivergence || a.critic.localeCompare(b.critic)),
+  }
+}
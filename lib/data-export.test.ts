@@ -0,0 +1,63 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { EXPORT_COLUMNS, exportQuery, exportStore } from "./data-export"
+import type { Movie } from "./db-service"
+import { getFileStore } from "./storage/file-store"
+import type { DataStore } from "./storage/types"
+
+describe("data export", () => {
+  let directory: string
+  let store: DataStore
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "movie-insights-"))
+    store = getFileStore(path.join(directory, "data.json"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("puts SELECT * columns in table order whatever order the movie was stored in", async () => {
+    const [movie] = await store.getAllMovies()
+    const reversed = Object.fromEntries(Object.entries({ ...movie, movie_id: "new" }).reverse()) as unknown as Movie
+    await store.putMovies([reversed])
+
+    const csv = await exportQuery(store, "SELECT * FROM movies WHERE movie_id = 'new'", "csv")
+    const header = csv.split("\r\n")[0].split(",")
+    expect(header.slice(0, EXPORT_COLUMNS.movies.length)).toEqual(EXPORT_COLUMNS.movies)
+  })
+
+  it("keeps the column order a query asks for", async () => {
+    const csv = await exportQuery(store, "SELECT release_year, movie_name AS title FROM movies LIMIT 1", "csv")
+    expect(csv.split("\r\n")[0]).toBe("release_year,title")
+  })
+
+  it("names columns as the query's rows do, whatever case the query used", async () => {
+    const csv = await exportQuery(
+      store,
+      "SELECT Director_Name, COUNT(*), ROUND(AVG(IMDB_Score), 1) AS Average FROM movies GROUP BY director_name LIMIT 1",
+      "csv",
+    )
+    const [header, row] = csv.split("\r\n")
+    expect(header).toBe("director_name,COUNT(*),Average")
+    expect(row.split(",").every((value) => value !== "")).toBe(true)
+  })
+
+  it("exports only the given user's reviews and favorites", async () => {
+    await store.addReview("r1", "u1", "1", 4, "Great")
+    await store.addReview("r2", "u2", "1", 2, "Meh")
+    await store.addFavorite("u1", "1")
+    await store.addFavorite("u2", "2")
+
+    expect(JSON.parse(await exportStore(store, "reviews", "json", "u1"))).toEqual([
+      expect.objectContaining({ id: "r1", user_id: "u1" }),
+    ])
+    expect(JSON.parse(await exportStore(store, "favorites", "json", "u2"))).toEqual([
+      expect.objectContaining({ user_id: "u2", movie_id: "2" }),
+    ])
+    await expect(exportStore(store, "reviews", "json")).rejects.toThrow()
+  })
+})
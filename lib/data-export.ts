@@ -0,0 +1,112 @@
+import { bindQuery } from "./sql/engine"
+import { parseQuery } from "./sql/parser"
+import { MOVIES_TABLE } from "./sql/schema"
+import type { DataStore } from "./storage/types"
+
+export type ExportFormat = "csv" | "json" | "ndjson"
+
+export type ExportableStore = "movies" | "reviews" | "favorites"
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "ndjson"]
+
+export const EXPORTABLE_STORES: ExportableStore[] = ["movies", "reviews", "favorites"]
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+}
+
+// Column order for each store, matching the field order of its interface
+export const EXPORT_COLUMNS: Record<ExportableStore, string[]> = {
+  movies: MOVIES_TABLE.columns.map((column) => column.name),
+  reviews: ["id", "user_id", "movie_id", "rating", "content", "created_at", "updated_at"],
+  favorites: ["user_id", "movie_id", "added_at"],
+}
+
+// Columns for arbitrary rows: the first row's key order, then any keys that
+// only appear in later rows
+export function inferColumns(rows: Record<string, any>[]): string[] {
+  const columns = new Set<string>()
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)))
+  return Array.from(columns)
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) return ""
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Serialize rows with a fixed column order. Missing values become empty CSV
+// fields and null in JSON, so every record has the same shape.
+export function serializeRows(
+  rows: Record<string, any>[],
+  format: ExportFormat,
+  columns: string[] = inferColumns(rows),
+): string {
+  const ordered = rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])))
+
+  switch (format) {
+    case "csv":
+      return [columns, ...ordered.map((row) => columns.map((column) => row[column]))]
+        .map((fields) => fields.map(toCsvField).join(","))
+        .join("\r\n")
+        .concat("\r\n")
+    case "json":
+      return JSON.stringify(ordered, null, 2)
+    case "ndjson":
+      return ordered.map((row) => JSON.stringify(row)).join("\n").concat(ordered.length > 0 ? "\n" : "")
+  }
+}
+
+export function exportFileName(name: string, format: ExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10)
+  return `movie-insights-${name}-${date}.${format}`
+}
+
+// Dump one store. Reviews and favorites are always those of one user.
+export async function exportStore(
+  store: DataStore,
+  name: ExportableStore,
+  format: ExportFormat,
+  userId?: string,
+): Promise<string> {
+  let rows: Record<string, any>[]
+
+  switch (name) {
+    case "movies":
+      rows = await store.getAllMovies()
+      break
+    case "reviews":
+      if (!userId) throw new Error("Reviews can only be exported for a user")
+      rows = await store.getReviewsByUser(userId)
+      break
+    case "favorites":
+      if (!userId) throw new Error("Favorites can only be exported for a user")
+      rows = (await store.getAllFavorites()).filter((favorite) => favorite.user_id === userId)
+      break
+  }
+
+  return serializeRows(rows, format, EXPORT_COLUMNS[name])
+}
+
+// Columns in the order the query lists them, named as the engine names them
+// in its rows, with * standing for the movie columns in table order. SELECT *
+// hands back rows as they were stored, so their key order can't be relied on.
+function queryColumns(query: string, rows: Record<string, any>[]): string[] {
+  const columns = new Set(
+    bindQuery(query, parseQuery(query)).columns.flatMap((item) =>
+      item.type === "star" ? EXPORT_COLUMNS.movies : [item.alias ?? item.text],
+    ),
+  )
+  // Fields a stored movie has beyond the table columns, like added_at
+  inferColumns(rows).forEach((column) => columns.add(column))
+  return Array.from(columns)
+}
+
+// Dump the result of a SQL query
+export async function exportQuery(store: DataStore, query: string, format: ExportFormat, params: any[] = []) {
+  const rows = await store.executeQuery(query, params)
+  return serializeRows(rows, format, queryColumns(query, rows))
+}
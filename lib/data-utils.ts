@@ -1,4 +1,11 @@
-import { dbClient, type Movie } from "./db-service"
+import { dbClient, type Movie, type QueryRunner } from "./db-service"
+import type { CriticDivergence } from "./critics"
+import { resolveFollowUp, type FollowUp } from "./nl-query/context"
+import { applyQuery } from "./nl-query/matcher"
+import { parseMovieQuery } from "./nl-query/parser"
+import type { MovieQuery, QueryVocabulary } from "./nl-query/types"
+import { buildQueryVocabulary } from "./nl-query/vocabulary"
+import { MovieSearchIndex } from "./search/movie-index"
 
 export type MovieData = Movie
 
@@ -14,182 +21,103 @@ export async function fetchMovieData(): Promise<MovieData[]> {
 }
 
 export function searchMovies(movies: MovieData[], query: string): MovieData[] {
-  // If the query is a direct movie title, prioritize exact matches
-  const exactMatch = movies.find((movie) => movie.movie_name.toLowerCase() === query.toLowerCase())
-
-  if (exactMatch) {
-    return [exactMatch]
-  }
-
-  const filters = parseUserQuery(query)
-
-  // Special handling for actor search
-  if (filters.actors) {
-    const actorName = filters.actors
-    delete filters.actors
-
-    return movies.filter((movie) => {
-      // Check if the movie matches all other filters
-      const matchesOtherFilters = Object.entries(filters).every(([key, value]) => {
-        if (!value) return true
-
-        const movieValue = movie[key as keyof MovieData]
-        if (!movieValue) return false
-
-        if (key === "genre" || key === "plot_keyword") {
-          const values = String(movieValue).toLowerCase().split("|")
-          return values.some((v) => v.includes(value.toLowerCase()))
-        }
-
-        return String(movieValue).toLowerCase().includes(value.toLowerCase())
-      })
-
-      if (!matchesOtherFilters) return false
+  const searchIndex = new MovieSearchIndex()
+  searchIndex.putAll(movies)
+  return runMovieQuery(movies, interpretUserQuery(movies, query), searchIndex)
+}
 
-      // Check if actor name matches
-      return movie.actors.toLowerCase().includes(actorName.toLowerCase())
-    })
-  }
+// Parse a question against the catalog. A direct movie title becomes a
+// title filter on its own.
+export function interpretUserQuery(movies: MovieData[], query: string): MovieQuery {
+  const exactMatch = movies.find((movie) => movie.movie_name.toLowerCase() === query.trim().toLowerCase())
 
-  // If the query is just a movie title without any specific filters
-  if (filters.movie_name && Object.keys(filters).length === 1) {
-    // Do a more flexible search for movie titles
-    return movies
-      .filter((movie) => movie.movie_name.toLowerCase().includes(filters.movie_name!.toLowerCase()))
-      .sort((a, b) => {
-        // Sort by relevance - exact matches first, then by title length (shorter titles first)
-        const aExact = a.movie_name.toLowerCase() === filters.movie_name!.toLowerCase()
-        const bExact = b.movie_name.toLowerCase() === filters.movie_name!.toLowerCase()
-
-        if (aExact && !bExact) return -1
-        if (!aExact && bExact) return 1
-
-        // If both are exact or both are partial matches, sort by title length
-        return a.movie_name.length - b.movie_name.length
-      })
+  if (exactMatch) {
+    return {
+      conditions: [{ kind: "text", field: "movie_name", values: [exactMatch.movie_name], mode: "any", negated: false }],
+      confidence: 1,
+      unmatched: [],
+    }
   }
 
-  return filterMovies(movies, filters)
+  return parseUserQuery(query, buildQueryVocabulary(movies))
 }
 
-export function filterMovies(movies: MovieData[], filters: Partial<Record<keyof MovieData, string>>): MovieData[] {
-  return movies.filter((movie) => {
-    return Object.entries(filters).every(([key, value]) => {
-      if (!value) return true
-
-      const movieValue = movie[key as keyof MovieData]
-      if (movieValue === undefined) return false
-
-      // Handle special cases for genres and plot_keywords which are pipe-separated
-      if (key === "genre" || key === "plot_keyword") {
-        const values = String(movieValue).toLowerCase().split("|")
-        return values.some((v) => v.includes(value.toLowerCase()))
-      }
-
-      return String(movieValue).toLowerCase().includes(value.toLowerCase())
-    })
-  })
+// Read a chat message in the light of the search before it, so "only the
+// ones from the 90s" narrows the previous results
+export function interpretChatMessage(movies: MovieData[], message: string, previous: MovieQuery | null): FollowUp {
+  return resolveFollowUp(message, previous, (text) => interpretUserQuery(movies, text))
 }
 
-export function parseUserQuery(query: string): Partial<Record<keyof MovieData, string>> {
-  const filters: Partial<Record<keyof MovieData, string>> = {}
-
-  // Extract genre
-  const genreMatch = query.match(/genre(?:s)?\s*(?:is|are|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (genreMatch && genreMatch[1]) {
-    filters.genre = genreMatch[1].trim()
-  }
-
-  // Extract movie title
-  const titleMatch = query.match(/(?:movie|film|title)\s*(?:name|called|titled|is|=|:)?\s*["']?([a-zA-Z0-9\s]+)["']?/i)
-  if (titleMatch && titleMatch[1]) {
-    filters.movie_name = titleMatch[1].trim()
-  }
-
-  // Extract director
-  const directorMatch = query.match(/director\s*(?:is|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (directorMatch && directorMatch[1]) {
-    filters.director_name = directorMatch[1].trim()
-  }
-
-  // Extract actor
-  const actorMatch = query.match(/(?:actor|star|cast)\s*(?:is|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (actorMatch && actorMatch[1]) {
-    filters.actors = actorMatch[1].trim()
-  }
-
-  // Extract year
-  const yearMatch = query.match(/(?:year|released|from)\s*(?:in|=|:)?\s*(\d{4})/i)
-  if (yearMatch && yearMatch[1]) {
-    filters.release_year = yearMatch[1].trim()
-  }
-
-  // Extract country
-  const countryMatch = query.match(/(?:country|from)\s*(?:is|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (countryMatch && countryMatch[1]) {
-    filters.country = countryMatch[1].trim()
-  }
-
-  // Extract language
-  const languageMatch = query.match(/(?:language|in)\s*(?:is|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (languageMatch && languageMatch[1]) {
-    filters.language = languageMatch[1].trim()
+// The search index must cover the same movies, e.g. the store's getSearchIndex()
+export function runMovieQuery(movies: MovieData[], query: MovieQuery, searchIndex: MovieSearchIndex): MovieData[] {
+  // If the query is just a movie title without any specific filters, rank it
+  // as a text search. Words the grammar only guessed were a title may name
+  // anything else too, so they are matched against people and keywords as well.
+  const [condition] = query.conditions
+  if (
+    query.conditions.length === 1 &&
+    condition.kind === "text" &&
+    condition.field === "movie_name" &&
+    !condition.negated &&
+    !query.sort
+  ) {
+    const byId = new Map(movies.map((movie) => [movie.movie_id, movie]))
+    const hits = condition.values.flatMap((value) =>
+      searchIndex.search(value, { prefix: true, fields: query.confidence < 1 ? undefined : ["movie_name"] }),
+    )
+    const ranked = Array.from(new Set(hits.sort((a, b) => b.score - a.score).map((hit) => hit.movieId)))
+    const results = ranked.flatMap((movieId) => byId.get(movieId) ?? [])
+    return query.limit !== undefined ? results.slice(0, query.limit) : results
   }
 
-  // Extract keywords
-  const keywordMatch = query.match(/(?:keyword|about|plot|theme)\s*(?:is|=|:)?\s*["']?([a-zA-Z\s]+)["']?/i)
-  if (keywordMatch && keywordMatch[1]) {
-    filters.plot_keyword = keywordMatch[1].trim()
-  }
+  return applyQuery(movies, query)
+}
 
-  // If no specific filters were found but there's a query, use it as a general search term
-  if (Object.keys(filters).length === 0 && query.trim()) {
-    const searchTerm = query.trim()
-
-    // Check if it's a genre
-    const commonGenres = [
-      "action",
-      "comedy",
-      "drama",
-      "horror",
-      "sci-fi",
-      "thriller",
-      "romance",
-      "adventure",
-      "fantasy",
-    ]
-    if (commonGenres.some((genre) => searchTerm.toLowerCase().includes(genre))) {
-      filters.genre = searchTerm
-    } else {
-      // Default to movie title
-      filters.movie_name = searchTerm
-    }
-  }
+// Titles and names close to a search that found nothing, for "did you mean"
+export function suggestSearches(searchIndex: MovieSearchIndex, text: string, limit = 3): string[] {
+  return searchIndex.suggest(text, limit).map((suggestion) => suggestion.text)
+}
 
-  return filters
+// Turn a plain-English question into a structured query. Passing the
+// catalog's vocabulary lets it recognize people, genres and keywords by name.
+export function parseUserQuery(query: string, vocabulary?: QueryVocabulary): MovieQuery {
+  return parseMovieQuery(query, vocabulary)
 }
 
 // Function to get rating distribution for charts
-export async function getRatingDistribution(): Promise<{ rating: string; count: number }[]> {
-  return dbClient.getRatingDistribution()
+export async function getRatingDistribution(run?: QueryRunner): Promise<{ rating: string; count: number }[]> {
+  return dbClient.getRatingDistribution(run)
 }
 
 // Function to get genre distribution for charts
-export async function getGenreDistribution(): Promise<{ genre: string; count: number }[]> {
-  return dbClient.getGenreDistribution()
+export async function getGenreDistribution(run?: QueryRunner): Promise<{ genre: string; count: number }[]> {
+  return dbClient.getGenreDistribution(run)
 }
 
 // Function to get year distribution for charts
-export async function getYearDistribution(): Promise<{ year: string; count: number; avgRating: number }[]> {
-  return dbClient.getYearDistribution()
+export async function getYearDistribution(run?: QueryRunner): Promise<{ year: string; count: number; avgRating: number }[]> {
+  return dbClient.getYearDistribution(run)
 }
 
 // Function to get budget vs. revenue analysis
-export async function getBudgetRevenueAnalysis(): Promise<any[]> {
-  return dbClient.getBudgetRevenueAnalysis()
+export async function getBudgetRevenueAnalysis(run?: QueryRunner): Promise<any[]> {
+  return dbClient.getBudgetRevenueAnalysis(run)
 }
 
 // Function to get director performance analysis
-export async function getDirectorAnalysis(): Promise<any[]> {
-  return dbClient.getDirectorAnalysis()
+export async function getDirectorAnalysis(run?: QueryRunner): Promise<any[]> {
+  return dbClient.getDirectorAnalysis(run)
+}
+
+// Function to get awards won per director and per year
+export async function getAwardAnalysis(): Promise<{
+  byDirector: { director: string; awards: number }[]
+  byYear: { year: number; awards: number }[]
+}> {
+  return dbClient.getAwardAnalysis()
+}
+
+// Function to get critic ratings compared with audience scores
+export async function getCriticDivergence(): Promise<CriticDivergence> {
+  return dbClient.getCriticDivergence()
 }
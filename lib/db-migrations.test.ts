@@ -0,0 +1,152 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { openDB } from "idb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { awardsForMovie } from "./awards"
+import { criticReviewsForMovie } from "./critics"
+import { DB_VERSION, migrations } from "./db-migrations"
+import type { MovieDBSchema } from "./db-service"
+import { initialMovies } from "./movie-catalog"
+
+// A database as the first release left it: the v1 stores and some data, with
+// no migration log and reviews that predate updated_at
+async function seedVersion1(movies = initialMovies.slice(0, 3)) {
+  const db = await openDB<MovieDBSchema>("movie-insights-db", 1, {
+    upgrade(db, _oldVersion, _newVersion, transaction) {
+      migrations[0].up(db, transaction)
+    },
+  })
+  const tx = db.transaction(["movies", "users", "favorites", "reviews"], "readwrite")
+  await Promise.all([
+    ...movies.map((movie) => tx.objectStore("movies").put(movie)),
+    tx.objectStore("users").put({
+      id: "u1",
+      email: "ada@example.com",
+      username: "ada",
+      password: "hash",
+      created_at: "2023-01-01T00:00:00Z",
+      last_login: "2023-01-02T00:00:00Z",
+    }),
+    tx.objectStore("favorites").put({ user_id: "u1", movie_id: "1", added_at: "2023-01-03T00:00:00Z" }),
+    tx.objectStore("reviews").put({
+      id: "r1",
+      user_id: "u1",
+      movie_id: "2",
+      rating: 4,
+      content: "Great",
+      created_at: "2023-01-04T00:00:00Z",
+    }),
+    tx.done,
+  ])
+  db.close()
+}
+
+describe("database migrations", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("upgrades a seeded v1 database to the latest version without losing data", async () => {
+    await seedVersion1()
+
+    const { getDB } = await import("./db-service")
+    const db = await getDB()
+
+    expect(db.version).toBe(DB_VERSION)
+    expect((await db.getAll("movies")).map((movie) => movie.movie_id).sort()).toEqual(["1", "2", "3"])
+    expect(await db.get("users", "u1")).toMatchObject({ email: "ada@example.com", username: "ada" })
+    expect(await db.getAllFromIndex("favorites", "by-user", "u1")).toEqual([
+      { user_id: "u1", movie_id: "1", added_at: "2023-01-03T00:00:00Z" },
+    ])
+
+    // v2
+    expect(await db.getAllFromIndex("reviews", "by-user-movie", ["u1", "2"])).toEqual([
+      expect.objectContaining({ id: "r1", rating: 4, updated_at: "2023-01-04T00:00:00Z" }),
+    ])
+
+    // v3
+    expect(await db.get("people", "frank-darabont")).toMatchObject({ name: "Frank Darabont" })
+    const credits = await db.getAllFromIndex("credits", "by-movie", "1")
+    expect(credits).toContainEqual({
+      id: "1:actor:morgan-freeman",
+      person_id: "morgan-freeman",
+      movie_id: "1",
+      role: "actor",
+      billing_order: 1,
+    })
+    expect(new Set(credits.map((credit) => credit.role))).toEqual(new Set(["director", "actor", "producer"]))
+
+    // v4
+    const awards = await db.getAllFromIndex("awards", "by-movie", "1")
+    expect(awards).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ id: "1:academy-award-for-best-picture", outcome: "won", votes: 5000 }),
+        expect.objectContaining({ id: "1:academy-award-for-best-adapted-screenplay", year: 1995 }),
+      ]),
+    )
+
+    // v5
+    const criticReviews = await db.getAllFromIndex("critic_reviews", "by-movie", "1")
+    expect(criticReviews.map((review) => review.critic_id).sort()).toEqual(["peter-travers", "roger-ebert"])
+    expect(criticReviews.find((review) => review.critic_id === "roger-ebert")).toMatchObject({ rating: 9.5 })
+
+    // v6 to v8 add empty stores
+    expect(await db.count("chat_sessions")).toBe(0)
+    expect(await db.count("saved_searches")).toBe(0)
+    expect(await db.count("dismissals")).toBe(0)
+
+    // v9 indexes existing movies
+    const [shawshank] = await db.getAll("movies", "1")
+    expect(await db.getAllKeysFromIndex("movies", "by-language", shawshank.language)).toContain("1")
+    expect(await db.getAllKeysFromIndex("movies", "by-duration", shawshank.movie_duration)).toContain("1")
+
+    const log = await db.getAll("migrations")
+    expect(log.map((entry) => entry.version)).toEqual(migrations.slice(1).map((migration) => migration.version))
+  })
+
+  it("logs every migration on a fresh install", async () => {
+    const { getMigrationLog, getDB } = await import("./db-service")
+    const db = await getDB()
+
+    expect(db.version).toBe(DB_VERSION)
+    expect((await getMigrationLog()).map((entry) => entry.version)).toEqual(
+      migrations.map((migration) => migration.version),
+    )
+    expect(await db.count("movies")).toBe(initialMovies.length)
+  })
+
+  it("attaches mock data to a movie by title and year, not by an id an import reused", async () => {
+    // An imported film took Shawshank's id, and Shawshank itself came in under another
+    const [shawshank, , pulpFiction] = initialMovies
+    const movies = [
+      { ...pulpFiction, movie_id: "1" },
+      { ...shawshank, movie_id: "shawshank" },
+    ]
+    await seedVersion1(movies)
+
+    const { getDB } = await import("./db-service")
+    const db = await getDB()
+
+    // The same records a fresh install gets from the live code
+    const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id)
+    for (const movie of movies) {
+      expect((await db.getAllFromIndex("awards", "by-movie", movie.movie_id)).sort(byId)).toEqual(
+        awardsForMovie(movie).sort(byId),
+      )
+      expect((await db.getAllFromIndex("critic_reviews", "by-movie", movie.movie_id)).sort(byId)).toEqual(
+        criticReviewsForMovie(movie).sort(byId),
+      )
+    }
+    expect(await db.getAllFromIndex("awards", "by-movie", "1")).not.toContainEqual(
+      expect.objectContaining({ name: "Academy Award for Best Picture" }),
+    )
+    expect(await db.getAllFromIndex("critic_reviews", "by-movie", "shawshank")).toContainEqual(
+      expect.objectContaining({ critic_id: "roger-ebert", rating: 9.5 }),
+    )
+  })
+})
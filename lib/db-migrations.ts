@@ -0,0 +1,332 @@
+import type { IDBPDatabase, IDBPTransaction, StoreNames } from "idb"
+import type { Award, Credit, CriticReview, Movie, MovieDBSchema, Person } from "./db-service"
+import { mockActorData, mockAwardData, mockDirectorData, mockMovieData, mockReviewData } from "./mock-data"
+
+type UpgradeTransaction = IDBPTransaction<MovieDBSchema, StoreNames<MovieDBSchema>[], "versionchange">
+
+export interface Migration {
+  version: number
+  description: string
+  // Runs inside the upgrade transaction. Only IndexedDB requests may be awaited,
+  // anything else lets the transaction commit early.
+  up(db: IDBPDatabase<MovieDBSchema>, transaction: UpgradeTransaction): Promise<void> | void
+}
+
+export interface MigrationLogEntry {
+  version: number
+  description: string
+  applied_at: string
+}
+
+// Frozen copies of the record transforms as they were when v3 to v5 shipped.
+// The live helpers in people.ts, awards.ts and critics.ts are free to change;
+// these must not, so an old database upgrades the same way whenever it does.
+function slugV3(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+function splitNamesV3(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(/[|,]/)
+    .map((name) => name.trim())
+    .filter((name) => name && name.toLowerCase() !== "none")
+}
+
+const ROLE_COLUMNS_V3 = [
+  ["director", "director_name"],
+  ["actor", "actors"],
+  ["producer", "producer_name"],
+] as const
+
+function creditsForMovieV3(movie: Movie, known: Map<string, Pick<Person, "date_of_birth" | "known_for">>) {
+  const people: Person[] = []
+  const credits: Credit[] = []
+  for (const [role, column] of ROLE_COLUMNS_V3) {
+    splitNamesV3(movie[column]).forEach((name, order) => {
+      const id = slugV3(name)
+      if (!id) return
+      people.push({ id, name, ...known.get(id) })
+      credits.push({
+        id: `${movie.movie_id}:${role}:${id}`,
+        person_id: id,
+        movie_id: movie.movie_id,
+        role,
+        billing_order: order,
+      })
+    })
+  }
+  return { people, credits }
+}
+
+// The mock data sets match a movie on title and release year, not on an id an
+// imported catalog may have reused
+function isMockMovieV4(mockMovieId: number, movie: Movie): boolean {
+  const mock = mockMovieData.find((candidate) => candidate.movie_id === mockMovieId)
+  return (
+    mock !== undefined &&
+    mock.movie_name.trim().toLowerCase() === movie.movie_name.trim().toLowerCase() &&
+    mock.title_year === movie.release_year
+  )
+}
+
+function awardsForMovieV4(movie: Movie): Award[] {
+  const awards = new Map<string, Award>()
+  mockAwardData
+    .filter((award) => isMockMovieV4(award.movie_id, movie))
+    .forEach((award) => {
+      const id = `${movie.movie_id}:${slugV3(award.award_name)}`
+      awards.set(id, {
+        id,
+        movie_id: movie.movie_id,
+        name: award.award_name,
+        year: award.award_year_given,
+        outcome: "won",
+        votes: award.number_of_votes,
+      })
+    })
+
+  const raw = movie.award_name?.trim()
+  if (raw && raw.toLowerCase() !== "none") {
+    const name = raw
+      .replace(/\s+Nominations?\s+/i, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+    const id = `${movie.movie_id}:${slugV3(name)}`
+    if (!awards.has(id)) {
+      awards.set(id, {
+        id,
+        movie_id: movie.movie_id,
+        name,
+        year: movie.release_year + 1,
+        outcome: /\bNominations?\b/i.test(raw) ? "nominated" : "won",
+      })
+    }
+  }
+  return Array.from(awards.values())
+}
+
+function criticReviewsForMovieV5(movie: Movie): CriticReview[] {
+  const reviews = new Map<string, CriticReview>()
+  mockReviewData
+    .filter((review) => isMockMovieV4(review.movie_id, movie))
+    .forEach((review) => {
+      const criticId = slugV3(review.reviewer_name)
+      const id = `${movie.movie_id}:${criticId}`
+      reviews.set(id, {
+        id,
+        critic_id: criticId,
+        critic_name: review.reviewer_name,
+        movie_id: movie.movie_id,
+        rating: review.rating,
+        content: review.review_content,
+        review_date: review.review_date,
+      })
+    })
+
+  const name = movie.reviewer_name?.trim()
+  if (name && name.toLowerCase() !== "none") {
+    const criticId = slugV3(name)
+    const id = `${movie.movie_id}:${criticId}`
+    if (criticId && !reviews.has(id)) {
+      reviews.set(id, { id, critic_id: criticId, critic_name: name, movie_id: movie.movie_id })
+    }
+  }
+  return Array.from(reviews.values())
+}
+
+// Every schema change gets a new entry here. Never edit a migration that has
+// shipped; add another one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Create movies, reviews, favorites and users stores",
+    up(db) {
+      // Create movies store with indexes
+      const movieStore = db.createObjectStore("movies", { keyPath: "movie_id" })
+      movieStore.createIndex("by-genre", "genre")
+      movieStore.createIndex("by-year", "release_year")
+      movieStore.createIndex("by-score", "imdb_score")
+      movieStore.createIndex("by-director", "director_name")
+
+      // Create reviews store with indexes
+      const reviewStore = db.createObjectStore("reviews", { keyPath: "id" })
+      reviewStore.createIndex("by-movie", "movie_id")
+      reviewStore.createIndex("by-user", "user_id")
+
+      // Create favorites store with indexes
+      const favoriteStore = db.createObjectStore("favorites", {
+        keyPath: ["user_id", "movie_id"],
+      })
+      favoriteStore.createIndex("by-user", "user_id")
+
+      // Create users store with indexes
+      const userStore = db.createObjectStore("users", { keyPath: "id" })
+      userStore.createIndex("by-email", "email", { unique: true })
+    },
+  },
+  {
+    version: 2,
+    description: "Index reviews by user and movie, and record when reviews were last edited",
+    async up(_db, transaction) {
+      const reviewStore = transaction.objectStore("reviews")
+      reviewStore.createIndex("by-user-movie", ["user_id", "movie_id"])
+
+      // Reviews written before this version were never edited
+      let cursor = await reviewStore.openCursor()
+      while (cursor) {
+        if (!cursor.value.updated_at) {
+          await cursor.update({ ...cursor.value, updated_at: cursor.value.created_at })
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Add people and credits stores and fill them from the movie name columns",
+    async up(db, transaction) {
+      const peopleStore = db.createObjectStore("people", { keyPath: "id" })
+      peopleStore.createIndex("by-name", "name")
+
+      const creditStore = db.createObjectStore("credits", { keyPath: "id" })
+      creditStore.createIndex("by-person", "person_id")
+      creditStore.createIndex("by-movie", "movie_id")
+      creditStore.createIndex("by-role", "role")
+
+      const known = new Map<string, Pick<Person, "date_of_birth" | "known_for">>([
+        ...mockDirectorData.map(
+          (director) =>
+            [
+              slugV3(director.director_name),
+              { date_of_birth: director.date_of_birth, known_for: director.director_famous_movies },
+            ] as const,
+        ),
+        ...mockActorData.map(
+          (actor) =>
+            [
+              slugV3(actor.actor_name),
+              { date_of_birth: actor.actor_date_of_birth, known_for: actor.actor_famous_movie },
+            ] as const,
+        ),
+      ])
+
+      let cursor = await transaction.objectStore("movies").openCursor()
+      while (cursor) {
+        const { people, credits } = creditsForMovieV3(cursor.value, known)
+        for (const person of people) {
+          await transaction.objectStore("people").put(person)
+        }
+        for (const credit of credits) {
+          await transaction.objectStore("credits").put(credit)
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Add an awards store with wins and nominations for each movie",
+    async up(db, transaction) {
+      const awardStore = db.createObjectStore("awards", { keyPath: "id" })
+      awardStore.createIndex("by-movie", "movie_id")
+      awardStore.createIndex("by-name", "name")
+
+      let cursor = await transaction.objectStore("movies").openCursor()
+      while (cursor) {
+        for (const award of awardsForMovieV4(cursor.value)) {
+          await transaction.objectStore("awards").put(award)
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+  {
+    version: 5,
+    description: "Add a critic reviews store filled from the critic review data and reviewer_name column",
+    async up(db, transaction) {
+      const criticReviewStore = db.createObjectStore("critic_reviews", { keyPath: "id" })
+      criticReviewStore.createIndex("by-movie", "movie_id")
+      criticReviewStore.createIndex("by-critic", "critic_id")
+
+      let cursor = await transaction.objectStore("movies").openCursor()
+      while (cursor) {
+        for (const review of criticReviewsForMovieV5(cursor.value)) {
+          await transaction.objectStore("critic_reviews").put(review)
+        }
+        cursor = await cursor.continue()
+      }
+    },
+  },
+  {
+    version: 6,
+    description: "Add a chat sessions store keyed by user",
+    async up(db) {
+      db.createObjectStore("chat_sessions", { keyPath: "user_id" })
+    },
+  },
+  {
+    version: 7,
+    description: "Add a saved searches store indexed by user",
+    async up(db) {
+      const savedSearchStore = db.createObjectStore("saved_searches", { keyPath: "id" })
+      savedSearchStore.createIndex("by-user", "user_id")
+    },
+  },
+  {
+    version: 8,
+    description: "Add a store for recommendations users dismissed",
+    async up(db) {
+      const dismissalStore = db.createObjectStore("dismissals", { keyPath: ["user_id", "movie_id"] })
+      dismissalStore.createIndex("by-user", "user_id")
+    },
+  },
+  {
+    version: 9,
+    description: "Index movies by the remaining filter columns",
+    up(_db, transaction) {
+      const movieStore = transaction.objectStore("movies")
+      movieStore.createIndex("by-language", "language")
+      movieStore.createIndex("by-country", "country")
+      movieStore.createIndex("by-certification", "movie_certification")
+      movieStore.createIndex("by-duration", "movie_duration")
+      movieStore.createIndex("by-budget", "budget")
+    },
+  },
+]
+
+export const DB_VERSION = migrations[migrations.length - 1].version
+
+// Apply every migration newer than oldVersion, in order, and log each one.
+// An error aborts the upgrade so the database stays at its old version.
+export async function runMigrations(
+  db: IDBPDatabase<MovieDBSchema>,
+  oldVersion: number,
+  transaction: UpgradeTransaction,
+) {
+  try {
+    // The log itself is not versioned so that it exists before any step runs
+    if (!db.objectStoreNames.contains("migrations")) {
+      db.createObjectStore("migrations", { keyPath: "version" })
+    }
+
+    for (const migration of migrations) {
+      if (migration.version <= oldVersion) continue
+
+      await migration.up(db, transaction)
+      await transaction.objectStore("migrations").put({
+        version: migration.version,
+        description: migration.description,
+        applied_at: new Date().toISOString(),
+      })
+    }
+  } catch (error) {
+    console.error("Database migration failed:", error)
+    transaction.abort()
+  }
+}
@@ -0,0 +1,72 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { computeFacets } from "./facets"
+import { DEFAULT_FILTERS } from "./filter-params"
+import { initialMovies } from "./movie-catalog"
+import { catalogFilterLookups } from "./movie-filters"
+import { MovieSearchIndex } from "./search/movie-index"
+import { runQuery } from "./sql/engine"
+import { createArraySource } from "./sql/memory-source"
+import { TABLES } from "./sql/schema"
+
+describe("getCatalogOverview", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("counts the catalog from the indexes as the facets would over every movie", async () => {
+    const { dbClient } = await import("./db-service")
+    await dbClient.putMovies([{ ...initialMovies[0], movie_id: "extra", movie_name: "Extra", budget: 0 }])
+    const movies = [...initialMovies, { ...initialMovies[0], movie_id: "extra", movie_name: "Extra", budget: 0 }]
+
+    const { facets, bounds } = await dbClient.getCatalogOverview()
+
+    const searchIndex = new MovieSearchIndex()
+    searchIndex.putAll(movies)
+    expect(facets).toEqual(
+      computeFacets(movies, { query: "", filters: DEFAULT_FILTERS }, catalogFilterLookups(movies, searchIndex)),
+    )
+    const years = movies.map((movie) => movie.release_year)
+    expect(bounds.year).toEqual([Math.min(...years), Math.max(...years)])
+    // A zero budget stands for "unknown"
+    const budgets = initialMovies.map((movie) => movie.budget).filter((budget) => budget > 0)
+    expect(bounds.budget[0]).toBe(Math.min(...budgets))
+  })
+})
+
+describe("analytics", () => {
+  const movies = [
+    { ...initialMovies[0], movie_id: "a", release_year: 1994, imdb_score: 8.2 },
+    { ...initialMovies[0], movie_id: "b", release_year: 1994, imdb_score: 8.4 },
+    { ...initialMovies[0], movie_id: "c", release_year: 2001, imdb_score: 6.9 },
+    // Not rated yet
+    { ...initialMovies[0], movie_id: "d", release_year: 2001, imdb_score: null as unknown as number },
+  ]
+  const run = (query: string, params: unknown[] = []) =>
+    runQuery(query, params, (table) => createArraySource(movies, TABLES[table]))
+
+  it("buckets ratings to the nearest half point, leaving out unrated movies", async () => {
+    const { getRatingDistribution } = await import("./db-service")
+
+    expect(await getRatingDistribution(run)).toEqual([
+      { rating: "7.0", count: 1 },
+      { rating: "8.0", count: 1 },
+      { rating: "8.5", count: 1 },
+    ])
+  })
+
+  it("labels each year as text and averages the rated movies", async () => {
+    const { getYearDistribution } = await import("./db-service")
+
+    expect(await getYearDistribution(run)).toEqual([
+      { year: "1994", count: 2, avgRating: 8.3 },
+      { year: "2001", count: 2, avgRating: 6.9 },
+    ])
+  })
+})
@@ -1,7 +1,22 @@
-import { openDB, type DBSchema, type IDBPDatabase } from "idb"
-
-// Define the database schema
-interface MovieDBSchema extends DBSchema {
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction } from "idb"
+import { DB_VERSION, runMigrations, type MigrationLogEntry } from "./db-migrations"
+import { awardsForMovie } from "./awards"
+import {
+  buildCriticDivergence,
+  buildCriticProfile,
+  criticReviewsForMovie,
+  type CriticDivergence,
+  type CriticProfile,
+} from "./critics"
+import { decadeOf, type FacetCounts } from "./facets"
+import { buildPersonProfile, creditsForMovie, splitNames, type PersonProfile } from "./people"
+import { initialMovies } from "./movie-catalog"
+import type { MovieQuery } from "./nl-query/types"
+import { runQuery, type TableSource } from "./sql/engine"
+import type { KeyRange } from "./sql/planner"
+
+// Define the database schema. Changes go through a migration in db-migrations.ts.
+export interface MovieDBSchema extends DBSchema {
   movies: {
     key: string
     value: Movie
@@ -10,6 +25,11 @@ interface MovieDBSchema extends DBSchema {
       "by-year": number
       "by-score": number
       "by-director": string
+      "by-language": string
+      "by-country": string
+      "by-certification": string
+      "by-duration": number
+      "by-budget": number
     }
   }
   reviews: {
@@ -18,10 +38,11 @@ interface MovieDBSchema extends DBSchema {
     indexes: {
       "by-movie": string
       "by-user": string
+      "by-user-movie": [string, string]
     }
   }
   favorites: {
-    key: string
+    key: [string, string]
     value: Favorite
     indexes: {
       "by-user": string
@@ -34,6 +55,56 @@ interface MovieDBSchema extends DBSchema {
       "by-email": string
     }
   }
+  migrations: {
+    key: number
+    value: MigrationLogEntry
+  }
+  people: {
+    key: string
+    value: Person
+    indexes: {
+      "by-name": string
+    }
+  }
+  credits: {
+    key: string
+    value: Credit
+    indexes: {
+      "by-person": string
+      "by-movie": string
+      "by-role": PersonRole
+    }
+  }
+  awards: {
+    key: string
+    value: Award
+    indexes: {
+      "by-movie": string
+      "by-name": string
+    }
+  }
+  critic_reviews: {
+    key: string
+    value: CriticReview
+    indexes: {
+      "by-movie": string
+      "by-critic": string
+    }
+  }
+  chat_sessions: {
+    key: string
+    value: ChatSession
+  }
+  saved_searches: {
+    key: string
+    value: SavedSearch
+    indexes: { "by-user": string }
+  }
+  dismissals: {
+    key: [string, string]
+    value: Dismissal
+    indexes: { "by-user": string }
+  }
 }
 
 // Define the movie type according to the schema
@@ -56,6 +127,8 @@ export interface Movie {
   reviewer_name: string
   songs: string
   poster_url?: string
+  // When an import first added the movie; missing for the seed catalog
+  added_at?: string
 }
 
 export interface Review {
@@ -65,6 +138,7 @@ export interface Review {
   rating: number
   content: string
   created_at: string
+  updated_at?: string
   username?: string
 }
 
@@ -83,6 +157,87 @@ export interface User {
   last_login: string
 }
 
+export type PersonRole = "director" | "actor" | "producer"
+
+export interface Person {
+  id: string
+  name: string
+  date_of_birth?: string
+  known_for?: string
+}
+
+// Links a person to a movie in one role. A person who both directed and
+// produced a movie has two credits for it.
+export interface Credit {
+  id: string
+  person_id: string
+  movie_id: string
+  role: PersonRole
+  // Position in the movie's list for that role, 0 for top billing
+  billing_order: number
+}
+
+export type AwardOutcome = "won" | "nominated"
+
+export interface Award {
+  id: string
+  movie_id: string
+  // e.g. "Academy Award for Best Picture"
+  name: string
+  year: number
+  outcome: AwardOutcome
+  votes?: number
+}
+
+// A professional review. Reviews known only from a movie's reviewer_name
+// column have no rating, text or date.
+export interface CriticReview {
+  id: string
+  critic_id: string
+  critic_name: string
+  movie_id: string
+  // Out of 10, unlike the 5-star user reviews
+  rating?: number
+  content?: string
+  review_date?: string
+}
+
+export interface ChatMessage {
+  type: "user" | "system"
+  content: string
+  // "Did you mean" searches offered with the message
+  suggestions?: string[]
+}
+
+// A user's movie chat: the conversation and the searches it went through,
+// oldest first, so follow-up questions and "undo" survive a reload
+export interface ChatSession {
+  user_id: string
+  messages: ChatMessage[]
+  queries: MovieQuery[]
+  updated_at: string
+}
+
+// A named dashboard search. `params` is the dashboard's URL query string, so a
+// saved search opens exactly like a shared link.
+export interface SavedSearch {
+  id: string
+  user_id: string
+  name: string
+  params: string
+  // Imported movies matching the search that the user hasn't looked at yet
+  new_movie_ids: string[]
+  created_at: string
+  updated_at: string
+}
+
+// A movie the user marked "not interested" in their recommendations
+export interface Dismissal {
+  user_id: string
+  movie_id: string
+  dismissed_at: string
+}
+
 // Database singleton
 let db: IDBPDatabase<MovieDBSchema> | null = null
 
@@ -90,29 +245,9 @@ let db: IDBPDatabase<MovieDBSchema> | null = null
 export async function getDB() {
   if (db) return db
 
-  db = await openDB<MovieDBSchema>("movie-insights-db", 1, {
-    upgrade(db) {
-      // Create movies store with indexes
-      const movieStore = db.createObjectStore("movies", { keyPath: "movie_id" })
-      movieStore.createIndex("by-genre", "genre")
-      movieStore.createIndex("by-year", "release_year")
-      movieStore.createIndex("by-score", "imdb_score")
-      movieStore.createIndex("by-director", "director_name")
-
-      // Create reviews store with indexes
-      const reviewStore = db.createObjectStore("reviews", { keyPath: "id" })
-      reviewStore.createIndex("by-movie", "movie_id")
-      reviewStore.createIndex("by-user", "user_id")
-
-      // Create favorites store with indexes
-      const favoriteStore = db.createObjectStore("favorites", {
-        keyPath: ["user_id", "movie_id"],
-      })
-      favoriteStore.createIndex("by-user", "user_id")
-
-      // Create users store with indexes
-      const userStore = db.createObjectStore("users", { keyPath: "id" })
-      userStore.createIndex("by-email", "email", { unique: true })
+  db = await openDB<MovieDBSchema>("movie-insights-db", DB_VERSION, {
+    upgrade(db, oldVersion, _newVersion, transaction) {
+      runMigrations(db, oldVersion, transaction)
     },
   })
 
@@ -125,734 +260,290 @@ export async function getDB() {
   return db
 }
 
+// Migrations applied to this browser's database, oldest first
+export async function getMigrationLog(): Promise<MigrationLogEntry[]> {
+  const db = await getDB()
+  return db.getAll("migrations")
+}
+
 // SQL-like query functions
+export type QueryRunner = (query: string, params?: any[]) => Promise<any[]>
+
 export async function executeQuery(query: string, params: any[] = []): Promise<any[]> {
   const db = await getDB()
+  return runQuery(query, params, (table) => createIndexedDBSource(db, table as "movies"))
+}
+
+function toIDBKeyRange(range: KeyRange): IDBKeyRange {
+  const { lower, upper, lowerOpen, upperOpen } = range
 
-  // Parse the query to determine what to do
-  if (query.toLowerCase().includes("select") && query.toLowerCase().includes("from movies")) {
-    return executeSelectQuery(db, query, params)
+  if (lower !== undefined && upper !== undefined) {
+    if (lower === upper && !lowerOpen && !upperOpen) return IDBKeyRange.only(lower)
+    return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen)
   }
+  if (lower !== undefined) return IDBKeyRange.lowerBound(lower, lowerOpen)
+  return IDBKeyRange.upperBound(upper, upperOpen)
+}
 
-  throw new Error(`Unsupported query: ${query}`)
+// Expose an object store to the query engine
+function createIndexedDBSource(db: IDBPDatabase<MovieDBSchema>, store: "movies"): TableSource {
+  return {
+    getAll: () => db.getAll(store),
+    async getByKeys(keys) {
+      const unique = Array.from(new Set(keys.map(String)))
+      const rows = await Promise.all(unique.map((key) => db.get(store, key)))
+      return rows.filter((row): row is Movie => row !== undefined)
+    },
+    getByIndex: (index, range) =>
+      db.getAllFromIndex(store, index as keyof MovieDBSchema[typeof store]["indexes"], toIDBKeyRange(range)),
+  }
 }
 
-async function executeSelectQuery(db: IDBPDatabase<MovieDBSchema>, query: string, params: any[]): Promise<any[]> {
-  // Very basic SQL parser - in a real app, use a proper SQL parser
-  const lowerQuery = query.toLowerCase()
+// Initialize with 30 real movies
+async function initializeMovieData(db: IDBPDatabase<MovieDBSchema>) {
+  // Add all movies to the database
+  await putMovies(initialMovies, db)
+}
 
-  // Count query
-  if (lowerQuery.includes("select count")) {
-    if (lowerQuery.includes("where genre =")) {
-      const genre = params[0] || extractStringParam(query, "genre =")
-      const movies = await db.getAllFromIndex("movies", "by-genre", genre)
-      return [{ count: movies.length }]
+const CATALOG_STORES = ["movies", "people", "credits", "awards", "critic_reviews"] as const
+
+type CatalogTransaction = IDBPTransaction<MovieDBSchema, (typeof CATALOG_STORES)[number][], "readwrite">
+
+// Write a movie and rebuild its credits, awards and critic reviews from its columns
+async function putMovieWithDetails(tx: CatalogTransaction, movie: Movie) {
+  const oldCredits = await tx.objectStore("credits").index("by-movie").getAllKeys(movie.movie_id)
+  const oldAwards = await tx.objectStore("awards").index("by-movie").getAllKeys(movie.movie_id)
+  const oldCriticReviews = await tx.objectStore("critic_reviews").index("by-movie").getAllKeys(movie.movie_id)
+  await Promise.all([
+    ...oldCredits.map((key) => tx.objectStore("credits").delete(key)),
+    ...oldAwards.map((key) => tx.objectStore("awards").delete(key)),
+    ...oldCriticReviews.map((key) => tx.objectStore("critic_reviews").delete(key)),
+  ])
+
+  const { people, credits } = creditsForMovie(movie)
+  await tx.objectStore("movies").put(movie)
+  for (const person of people) {
+    // Keep details already stored for people we know
+    if (!(await tx.objectStore("people").getKey(person.id))) {
+      await tx.objectStore("people").put(person)
     }
+  }
+  await Promise.all(credits.map((credit) => tx.objectStore("credits").put(credit)))
+  await Promise.all(awardsForMovie(movie).map((award) => tx.objectStore("awards").put(award)))
+  await Promise.all(criticReviewsForMovie(movie).map((review) => tx.objectStore("critic_reviews").put(review)))
+}
 
-    if (lowerQuery.includes("group by genre")) {
-      const allMovies = await db.getAll("movies")
-      const genreCounts: Record<string, number> = {}
+// Movie catalog functions. Writes keep the people, credits, awards and critic
+// review stores in step.
+export async function putMovies(movies: Movie[], database?: IDBPDatabase<MovieDBSchema>): Promise<void> {
+  const db = database ?? (await getDB())
+  const tx = db.transaction([...CATALOG_STORES], "readwrite")
+  for (const movie of movies) {
+    await putMovieWithDetails(tx, movie)
+  }
+  await tx.done
+}
 
-      allMovies.forEach((movie) => {
-        movie.genre.split("|").forEach((g) => {
-          const genre = g.trim()
-          genreCounts[genre] = (genreCounts[genre] || 0) + 1
-        })
-      })
+export async function clearMovies(): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction([...CATALOG_STORES], "readwrite")
+  await Promise.all([...CATALOG_STORES.map((store) => tx.objectStore(store).clear()), tx.done])
+}
 
-      return Object.entries(genreCounts).map(([genre, count]) => ({ genre, count }))
+// Clear and refill the catalog in one transaction. A failed write aborts it,
+// taking the clear with it.
+export async function replaceMovies(movies: Movie[]): Promise<void> {
+  const db = await getDB()
+  const tx = db.transaction([...CATALOG_STORES], "readwrite")
+  try {
+    await Promise.all(CATALOG_STORES.map((store) => tx.objectStore(store).clear()))
+    for (const movie of movies) {
+      await putMovieWithDetails(tx, movie)
     }
+  } catch (error) {
+    // A failed request has already aborted the transaction; an invalid movie hasn't
+    if (!tx.error) tx.abort()
+    await tx.done.catch(() => {})
+    throw error
+  }
+  await tx.done
+}
 
-    if (lowerQuery.includes("group by release_year")) {
-      const allMovies = await db.getAll("movies")
-      const yearCounts: Record<number, number> = {}
+// People functions
+export async function getPerson(personId: string): Promise<Person | undefined> {
+  const db = await getDB()
+  return db.get("people", personId)
+}
 
-      allMovies.forEach((movie) => {
-        yearCounts[movie.release_year] = (yearCounts[movie.release_year] || 0) + 1
-      })
+export async function getPersonByName(name: string): Promise<Person | undefined> {
+  const db = await getDB()
+  return db.getFromIndex("people", "by-name", name)
+}
 
-      return Object.entries(yearCounts).map(([year, count]) => ({
-        year: Number.parseInt(year),
-        count,
-        avgRating: calculateAvgRatingByYear(allMovies, Number.parseInt(year)),
-      }))
-    }
+// Everyone credited in a role, sorted by name
+export async function getPeopleByRole(role: PersonRole): Promise<Person[]> {
+  const db = await getDB()
+  const credits = await db.getAllFromIndex("credits", "by-role", role)
+  const ids = Array.from(new Set(credits.map((credit) => credit.person_id)))
+  const people = await Promise.all(ids.map((id) => db.get("people", id)))
 
-    // Default count all
-    const count = await db.count("movies")
-    return [{ count }]
-  }
+  return people.filter((person): person is Person => !!person).sort((a, b) => a.name.localeCompare(b.name))
+}
 
-  // Select all movies
-  if (lowerQuery.includes("select * from movies")) {
-    // With where clause
-    if (lowerQuery.includes("where")) {
-      if (lowerQuery.includes("where genre =")) {
-        const genre = params[0] || extractStringParam(query, "genre =")
-        return db.getAllFromIndex("movies", "by-genre", genre)
-      }
+export async function getCreditsByPerson(personId: string): Promise<Credit[]> {
+  const db = await getDB()
+  return db.getAllFromIndex("credits", "by-person", personId)
+}
 
-      if (lowerQuery.includes("where release_year =")) {
-        const year = params[0] || extractNumberParam(query, "release_year =")
-        return db.getAllFromIndex("movies", "by-year", year)
-      }
+// A movie's credits in billing order, with the credited person attached
+export async function getCreditsByMovie(movieId: string): Promise<(Credit & { person: Person })[]> {
+  const db = await getDB()
+  const credits = await db.getAllFromIndex("credits", "by-movie", movieId)
+  const withPeople = await Promise.all(
+    credits.map(async (credit) => {
+      const person = await db.get("people", credit.person_id)
+      return person ? { ...credit, person } : null
+    }),
+  )
 
-      if (lowerQuery.includes("where director_name =")) {
-        const director = params[0] || extractStringParam(query, "director_name =")
-        return db.getAllFromIndex("movies", "by-director", director)
-      }
+  return withPeople
+    .filter((credit): credit is Credit & { person: Person } => !!credit)
+    .sort((a, b) => a.billing_order - b.billing_order)
+}
 
-      if (lowerQuery.includes("where movie_id =")) {
-        const id = params[0] || extractStringParam(query, "movie_id =")
-        const movie = await db.get("movies", id)
-        return movie ? [movie] : []
-      }
-    }
+// Everything the person page shows: filmography, ratings over time,
+// collaborators and genres
+export async function getPersonProfile(personId: string): Promise<PersonProfile | undefined> {
+  const db = await getDB()
+  const person = await db.get("people", personId)
+  if (!person) return undefined
+
+  const credits = await db.getAllFromIndex("credits", "by-person", personId)
+  const movieIds = Array.from(new Set(credits.map((credit) => credit.movie_id)))
+  const movies = await Promise.all(movieIds.map((id) => db.get("movies", id)))
+  const movieCredits = (
+    await Promise.all(movieIds.map((id) => db.getAllFromIndex("credits", "by-movie", id)))
+  ).flat()
+  const collaboratorIds = Array.from(new Set(movieCredits.map((credit) => credit.person_id)))
+  const people = await Promise.all(collaboratorIds.map((id) => db.get("people", id)))
+
+  return buildPersonProfile(
+    person,
+    credits,
+    movies.filter((movie): movie is Movie => !!movie),
+    movieCredits,
+    people.filter((p): p is Person => !!p),
+  )
+}
 
-    // Order by
-    if (lowerQuery.includes("order by imdb_score desc")) {
-      const allMovies = await db.getAll("movies")
-      return allMovies.sort((a, b) => b.imdb_score - a.imdb_score)
-    }
+// What the dashboard filters show before anything is chosen: how many movies
+// have each value, and the range of the sliders. Read from the movie indexes
+// and the director credits, so the catalog itself is never loaded.
+export interface CatalogOverview {
+  facets: FacetCounts
+  bounds: Record<"year" | "duration" | "budget", [number, number]>
+}
 
-    // Default return all
-    return db.getAll("movies")
+// Movies per distinct key of an index
+async function countIndexKeys(
+  db: IDBPDatabase<MovieDBSchema>,
+  name: "by-genre" | "by-year" | "by-language" | "by-country" | "by-certification",
+  values: (key: string | number) => string[] = (key) => (key === "" ? [] : [String(key)]),
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>()
+  const index = db.transaction("movies").store.index(name)
+  let cursor = await index.openKeyCursor(null, "nextunique")
+  while (cursor) {
+    const count = await index.count(cursor.key)
+    values(cursor.key).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + count))
+    cursor = await cursor.continue()
   }
+  return counts
+}
 
-  // Fallback to getting all movies
-  return db.getAll("movies")
+// Lowest and highest value of an index, ignoring zeros that stand for "unknown"
+async function indexBounds(
+  db: IDBPDatabase<MovieDBSchema>,
+  name: "by-year" | "by-duration" | "by-budget",
+): Promise<[number, number]> {
+  const index = db.transaction("movies").store.index(name)
+  const known = IDBKeyRange.lowerBound(0, true)
+  const [low, high] = await Promise.all([index.openKeyCursor(known, "next"), index.openKeyCursor(known, "prev")])
+  return low && high ? [low.key, high.key] : [0, 0]
 }
 
-// Helper functions for query parsing
-function extractStringParam(query: string, marker: string): string {
-  const regex = new RegExp(`${marker}\\s*['"]([^'"]+)['"]`)
-  const match = query.match(regex)
-  return match ? match[1] : ""
+// Distinct movies per key, from [key, movie id] pairs
+function countMovies(pairs: [string, string][]): Map<string, number> {
+  const movies = new Map<string, Set<string>>()
+  pairs.forEach(([key, movieId]) => {
+    if (!movies.has(key)) movies.set(key, new Set())
+    movies.get(key)!.add(movieId)
+  })
+  return new Map(Array.from(movies, ([key, movieIds]) => [key, movieIds.size]))
 }
 
-function extractNumberParam(query: string, marker: string): number {
-  const regex = new RegExp(`${marker}\\s*(\\d+)`)
-  const match = query.match(regex)
-  return match ? Number.parseInt(match[1]) : 0
+export async function getCatalogOverview(): Promise<CatalogOverview> {
+  const db = await getDB()
+  const [genre, decade, language, country, certification, directorCredits, actorCredits, awards] = await Promise.all([
+    countIndexKeys(db, "by-genre", (key) => splitNames(String(key))),
+    countIndexKeys(db, "by-year", (key) => (key ? [decadeOf(Number(key))] : [])),
+    countIndexKeys(db, "by-language"),
+    countIndexKeys(db, "by-country"),
+    countIndexKeys(db, "by-certification"),
+    db.getAllFromIndex("credits", "by-role", "director"),
+    db.getAllFromIndex("credits", "by-role", "actor"),
+    db.getAll("awards"),
+  ])
+  const director = countMovies(directorCredits.map((credit) => [credit.person_id, credit.movie_id]))
+  const actor = countMovies(actorCredits.map((credit) => [credit.person_id, credit.movie_id]))
+  const award = countMovies(
+    awards.filter((award) => award.outcome === "won").map((award) => [award.name, award.movie_id]),
+  )
+
+  const [year, duration, budget] = await Promise.all([
+    indexBounds(db, "by-year"),
+    indexBounds(db, "by-duration"),
+    indexBounds(db, "by-budget"),
+  ])
+  return {
+    facets: { genre, decade, language, country, certification, director, actor, award },
+    bounds: { year, duration, budget },
+  }
 }
 
-function calculateAvgRatingByYear(movies: Movie[], year: number): number {
-  const yearMovies = movies.filter((m) => m.release_year === year)
-  if (yearMovies.length === 0) return 0
+export async function getAllCredits(): Promise<Credit[]> {
+  const db = await getDB()
+  return db.getAll("credits")
+}
 
-  const sum = yearMovies.reduce((acc, movie) => acc + movie.imdb_score, 0)
-  return Number.parseFloat((sum / yearMovies.length).toFixed(1))
+// Award functions
+export async function getAwardsByMovie(movieId: string): Promise<Award[]> {
+  const db = await getDB()
+  const awards = await db.getAllFromIndex("awards", "by-movie", movieId)
+  // Wins before nominations, then newest first
+  return awards.sort((a, b) => b.outcome.localeCompare(a.outcome) || b.year - a.year)
 }
 
-// Initialize with 30 real movies
-async function initializeMovieData(db: IDBPDatabase<MovieDBSchema>) {
-  const movies: Movie[] = [
-    {
-      movie_id: "1",
-      movie_name: "The Shawshank Redemption",
-      movie_duration: 142,
-      plot_keyword: "prison|friendship|escape|redemption|hope",
-      language: "English",
-      country: "USA",
-      budget: 25000000,
-      release_year: 1994,
-      imdb_score: 9.3,
-      movie_certification: "R",
-      genre: "Drama",
-      producer_name: "Niki Marvin",
-      award_name: "Academy Award Nominations for Best Picture",
-      director_name: "Frank Darabont",
-      actors: "Tim Robbins|Morgan Freeman|Bob Gunton",
-      reviewer_name: "Roger Ebert",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/483D8B/FFFFFF?text=The+Shawshank+Redemption+(1994)",
-    },
-    {
-      movie_id: "2",
-      movie_name: "The Godfather",
-      movie_duration: 175,
-      plot_keyword: "mafia|family|power|crime|loyalty",
-      language: "English",
-      country: "USA",
-      budget: 6000000,
-      release_year: 1972,
-      imdb_score: 9.2,
-      movie_certification: "R",
-      genre: "Crime|Drama",
-      producer_name: "Albert S. Ruddy",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Francis Ford Coppola",
-      actors: "Marlon Brando|Al Pacino|James Caan",
-      reviewer_name: "Roger Ebert",
-      songs: "The Godfather Theme",
-      poster_url: "https://via.placeholder.com/300x450/2F4F4F/FFFFFF?text=The+Godfather+(1972)",
-    },
-    {
-      movie_id: "3",
-      movie_name: "Pulp Fiction",
-      movie_duration: 154,
-      plot_keyword: "crime|violence|redemption|drugs|hitman",
-      language: "English",
-      country: "USA",
-      budget: 8000000,
-      release_year: 1994,
-      imdb_score: 8.9,
-      movie_certification: "R",
-      genre: "Crime|Drama",
-      producer_name: "Lawrence Bender",
-      award_name: "Academy Award for Best Original Screenplay",
-      director_name: "Quentin Tarantino",
-      actors: "John Travolta|Samuel L. Jackson|Uma Thurman",
-      reviewer_name: "Roger Ebert",
-      songs: "Misirlou|Son of a Preacher Man",
-      poster_url: "https://via.placeholder.com/300x450/2F4F4F/FFFFFF?text=Pulp+Fiction+(1994)",
-    },
-    {
-      movie_id: "4",
-      movie_name: "The Dark Knight",
-      movie_duration: 152,
-      plot_keyword: "batman|joker|crime|vigilante|chaos",
-      language: "English",
-      country: "USA",
-      budget: 185000000,
-      release_year: 2008,
-      imdb_score: 9.0,
-      movie_certification: "PG-13",
-      genre: "Action|Crime|Drama",
-      producer_name: "Christopher Nolan",
-      award_name: "Academy Award for Best Supporting Actor",
-      director_name: "Christopher Nolan",
-      actors: "Christian Bale|Heath Ledger|Aaron Eckhart",
-      reviewer_name: "Roger Ebert",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/8B0000/FFFFFF?text=The+Dark+Knight+(2008)",
-    },
-    {
-      movie_id: "5",
-      movie_name: "Inception",
-      movie_duration: 148,
-      plot_keyword: "dream|heist|subconscious|reality|memory",
-      language: "English",
-      country: "USA",
-      budget: 160000000,
-      release_year: 2010,
-      imdb_score: 8.8,
-      movie_certification: "PG-13",
-      genre: "Action|Adventure|Sci-Fi",
-      producer_name: "Christopher Nolan",
-      award_name: "Academy Award for Best Visual Effects",
-      director_name: "Christopher Nolan",
-      actors: "Leonardo DiCaprio|Joseph Gordon-Levitt|Ellen Page",
-      reviewer_name: "Roger Ebert",
-      songs: "Time",
-      poster_url: "https://via.placeholder.com/300x450/00008B/FFFFFF?text=Inception+(2010)",
-    },
-    {
-      movie_id: "6",
-      movie_name: "Parasite",
-      movie_duration: 132,
-      plot_keyword: "class|poverty|wealth|deception|family",
-      language: "Korean",
-      country: "South Korea",
-      budget: 11400000,
-      release_year: 2019,
-      imdb_score: 8.6,
-      movie_certification: "R",
-      genre: "Comedy|Drama|Thriller",
-      producer_name: "Kwak Sin-ae",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Bong Joon Ho",
-      actors: "Song Kang-ho|Lee Sun-kyun|Cho Yeo-jeong",
-      reviewer_name: "A.O. Scott",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/4B0082/FFFFFF?text=Parasite+(2019)",
-    },
-    {
-      movie_id: "7",
-      movie_name: "The Matrix",
-      movie_duration: 136,
-      plot_keyword: "virtual reality|dystopia|artificial intelligence|cyberpunk|rebellion",
-      language: "English",
-      country: "USA",
-      budget: 63000000,
-      release_year: 1999,
-      imdb_score: 8.7,
-      movie_certification: "R",
-      genre: "Action|Sci-Fi",
-      producer_name: "Joel Silver",
-      award_name: "Academy Award for Best Visual Effects",
-      director_name: "Lana and Lilly Wachowski",
-      actors: "Keanu Reeves|Laurence Fishburne|Carrie-Anne Moss",
-      reviewer_name: "Roger Ebert",
-      songs: "Clubbed to Death",
-      poster_url: "https://via.placeholder.com/300x450/00008B/FFFFFF?text=The+Matrix+(1999)",
-    },
-    {
-      movie_id: "8",
-      movie_name: "Forrest Gump",
-      movie_duration: 142,
-      plot_keyword: "life|love|history|innocence|destiny",
-      language: "English",
-      country: "USA",
-      budget: 55000000,
-      release_year: 1994,
-      imdb_score: 8.8,
-      movie_certification: "PG-13",
-      genre: "Drama|Romance",
-      producer_name: "Wendy Finerman",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Robert Zemeckis",
-      actors: "Tom Hanks|Robin Wright|Gary Sinise",
-      reviewer_name: "Roger Ebert",
-      songs: "Fortunate Son|Free Bird",
-      poster_url: "https://via.placeholder.com/300x450/483D8B/FFFFFF?text=Forrest+Gump+(1994)",
-    },
-    {
-      movie_id: "9",
-      movie_name: "Goodfellas",
-      movie_duration: 146,
-      plot_keyword: "mafia|crime|gangster|violence|betrayal",
-      language: "English",
-      country: "USA",
-      budget: 25000000,
-      release_year: 1990,
-      imdb_score: 8.7,
-      movie_certification: "R",
-      genre: "Biography|Crime|Drama",
-      producer_name: "Irwin Winkler",
-      award_name: "Academy Award for Best Supporting Actor",
-      director_name: "Martin Scorsese",
-      actors: "Robert De Niro|Ray Liotta|Joe Pesci",
-      reviewer_name: "Roger Ebert",
-      songs: "Layla|Gimme Shelter",
-      poster_url: "https://via.placeholder.com/300x450/2F4F4F/FFFFFF?text=Goodfellas+(1990)",
-    },
-    {
-      movie_id: "10",
-      movie_name: "The Lord of the Rings: The Return of the King",
-      movie_duration: 201,
-      plot_keyword: "fantasy|quest|war|friendship|courage",
-      language: "English",
-      country: "New Zealand",
-      budget: 94000000,
-      release_year: 2003,
-      imdb_score: 8.9,
-      movie_certification: "PG-13",
-      genre: "Action|Adventure|Fantasy",
-      producer_name: "Peter Jackson",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Peter Jackson",
-      actors: "Elijah Wood|Viggo Mortensen|Ian McKellen",
-      reviewer_name: "Roger Ebert",
-      songs: "Into the West",
-      poster_url: "https://via.placeholder.com/300x450/006400/FFFFFF?text=The+Lord+of+the+Rings+(2003)",
-    },
-    {
-      movie_id: "11",
-      movie_name: "Fight Club",
-      movie_duration: 139,
-      plot_keyword: "identity|consumerism|anarchy|mental illness|rebellion",
-      language: "English",
-      country: "USA",
-      budget: 63000000,
-      release_year: 1999,
-      imdb_score: 8.8,
-      movie_certification: "R",
-      genre: "Drama",
-      producer_name: "Art Linson",
-      award_name: "None",
-      director_name: "David Fincher",
-      actors: "Brad Pitt|Edward Norton|Helena Bonham Carter",
-      reviewer_name: "Roger Ebert",
-      songs: "Where Is My Mind",
-      poster_url: "https://via.placeholder.com/300x450/483D8B/FFFFFF?text=Fight+Club+(1999)",
-    },
-    {
-      movie_id: "12",
-      movie_name: "Interstellar",
-      movie_duration: 169,
-      plot_keyword: "space|time|love|survival|wormhole",
-      language: "English",
-      country: "USA",
-      budget: 165000000,
-      release_year: 2014,
-      imdb_score: 8.6,
-      movie_certification: "PG-13",
-      genre: "Adventure|Drama|Sci-Fi",
-      producer_name: "Christopher Nolan",
-      award_name: "Academy Award for Best Visual Effects",
-      director_name: "Christopher Nolan",
-      actors: "Matthew McConaughey|Anne Hathaway|Jessica Chastain",
-      reviewer_name: "Roger Ebert",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/00008B/FFFFFF?text=Interstellar+(2014)",
-    },
-    {
-      movie_id: "13",
-      movie_name: "The Silence of the Lambs",
-      movie_duration: 118,
-      plot_keyword: "serial killer|fbi|psychological|cannibal|investigation",
-      language: "English",
-      country: "USA",
-      budget: 19000000,
-      release_year: 1991,
-      imdb_score: 8.6,
-      movie_certification: "R",
-      genre: "Crime|Drama|Thriller",
-      producer_name: "Edward Saxon",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Jonathan Demme",
-      actors: "Jodie Foster|Anthony Hopkins|Scott Glenn",
-      reviewer_name: "Roger Ebert",
-      songs: "Goodbye Horses",
-      poster_url: "https://via.placeholder.com/300x450/800000/FFFFFF?text=The+Silence+of+the+Lambs+(1991)",
-    },
-    {
-      movie_id: "14",
-      movie_name: "Schindler's List",
-      movie_duration: 195,
-      plot_keyword: "holocaust|world war ii|rescue|genocide|heroism",
-      language: "English",
-      country: "USA",
-      budget: 22000000,
-      release_year: 1993,
-      imdb_score: 8.9,
-      movie_certification: "R",
-      genre: "Biography|Drama|History",
-      producer_name: "Steven Spielberg",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Steven Spielberg",
-      actors: "Liam Neeson|Ralph Fiennes|Ben Kingsley",
-      reviewer_name: "Roger Ebert",
-      songs: "Theme from Schindler's List",
-      poster_url: "https://via.placeholder.com/300x450/000000/FFFFFF?text=Schindler's+List+(1993)",
-    },
-    {
-      movie_id: "15",
-      movie_name: "Whiplash",
-      movie_duration: 106,
-      plot_keyword: "music|ambition|teacher|student|jazz",
-      language: "English",
-      country: "USA",
-      budget: 3300000,
-      release_year: 2014,
-      imdb_score: 8.5,
-      movie_certification: "R",
-      genre: "Drama|Music",
-      producer_name: "Jason Blum",
-      award_name: "Academy Award for Best Supporting Actor",
-      director_name: "Damien Chazelle",
-      actors: "Miles Teller|J.K. Simmons|Melissa Benoist",
-      reviewer_name: "A.O. Scott",
-      songs: "Caravan|Whiplash",
-      poster_url: "https://via.placeholder.com/300x450/FF1493/FFFFFF?text=Whiplash+(2014)",
-    },
-    {
-      movie_id: "16",
-      movie_name: "The Departed",
-      movie_duration: 151,
-      plot_keyword: "undercover|police|gangster|identity|betrayal",
-      language: "English",
-      country: "USA",
-      budget: 90000000,
-      release_year: 2006,
-      imdb_score: 8.5,
-      movie_certification: "R",
-      genre: "Crime|Drama|Thriller",
-      producer_name: "Graham King",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Martin Scorsese",
-      actors: "Leonardo DiCaprio|Matt Damon|Jack Nicholson",
-      reviewer_name: "Roger Ebert",
-      songs: "Gimme Shelter|I'm Shipping Up to Boston",
-      poster_url: "https://via.placeholder.com/300x450/2F4F4F/FFFFFF?text=The+Departed+(2006)",
-    },
-    {
-      movie_id: "17",
-      movie_name: "Gladiator",
-      movie_duration: 155,
-      plot_keyword: "revenge|ancient rome|gladiator|betrayal|honor",
-      language: "English",
-      country: "USA",
-      budget: 103000000,
-      release_year: 2000,
-      imdb_score: 8.5,
-      movie_certification: "R",
-      genre: "Action|Adventure|Drama",
-      producer_name: "Douglas Wick",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Ridley Scott",
-      actors: "Russell Crowe|Joaquin Phoenix|Connie Nielsen",
-      reviewer_name: "Roger Ebert",
-      songs: "Now We Are Free",
-      poster_url: "https://via.placeholder.com/300x450/8B0000/FFFFFF?text=Gladiator+(2000)",
-    },
-    {
-      movie_id: "18",
-      movie_name: "The Prestige",
-      movie_duration: 130,
-      plot_keyword: "magic|rivalry|obsession|deception|sacrifice",
-      language: "English",
-      country: "USA",
-      budget: 40000000,
-      release_year: 2006,
-      imdb_score: 8.5,
-      movie_certification: "PG-13",
-      genre: "Drama|Mystery|Sci-Fi",
-      producer_name: "Christopher Nolan",
-      award_name: "Academy Award Nominations for Best Cinematography",
-      director_name: "Christopher Nolan",
-      actors: "Christian Bale|Hugh Jackman|Scarlett Johansson",
-      reviewer_name: "Roger Ebert",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/4B0082/FFFFFF?text=The+Prestige+(2006)",
-    },
-    {
-      movie_id: "19",
-      movie_name: "The Lion King",
-      movie_duration: 88,
-      plot_keyword: "lion|kingdom|betrayal|coming of age|responsibility",
-      language: "English",
-      country: "USA",
-      budget: 45000000,
-      release_year: 1994,
-      imdb_score: 8.5,
-      movie_certification: "G",
-      genre: "Animation|Adventure|Drama",
-      producer_name: "Don Hahn",
-      award_name: "Academy Award for Best Original Score",
-      director_name: "Roger Allers, Rob Minkoff",
-      actors: "Matthew Broderick|Jeremy Irons|James Earl Jones",
-      reviewer_name: "Roger Ebert",
-      songs: "Circle of Life|Hakuna Matata|Can You Feel the Love Tonight",
-      poster_url: "https://via.placeholder.com/300x450/FF8C00/FFFFFF?text=The+Lion+King+(1994)",
-    },
-    {
-      movie_id: "20",
-      movie_name: "Saving Private Ryan",
-      movie_duration: 169,
-      plot_keyword: "world war ii|rescue mission|d-day|brotherhood|sacrifice",
-      language: "English",
-      country: "USA",
-      budget: 70000000,
-      release_year: 1998,
-      imdb_score: 8.6,
-      movie_certification: "R",
-      genre: "Drama|War",
-      producer_name: "Steven Spielberg",
-      award_name: "Academy Award for Best Director",
-      director_name: "Steven Spielberg",
-      actors: "Tom Hanks|Matt Damon|Tom Sizemore",
-      reviewer_name: "Roger Ebert",
-      songs: "Hymn to the Fallen",
-      poster_url: "https://via.placeholder.com/300x450/556B2F/FFFFFF?text=Saving+Private+Ryan+(1998)",
-    },
-    {
-      movie_id: "21",
-      movie_name: "Spirited Away",
-      movie_duration: 125,
-      plot_keyword: "spirits|bathhouse|identity|courage|transformation",
-      language: "Japanese",
-      country: "Japan",
-      budget: 19000000,
-      release_year: 2001,
-      imdb_score: 8.6,
-      movie_certification: "PG",
-      genre: "Animation|Adventure|Family",
-      producer_name: "Toshio Suzuki",
-      award_name: "Academy Award for Best Animated Feature",
-      director_name: "Hayao Miyazaki",
-      actors: "Rumi Hiiragi|Miyu Irino|Mari Natsuki",
-      reviewer_name: "Roger Ebert",
-      songs: "Always With Me",
-      poster_url: "https://via.placeholder.com/300x450/9ACD32/FFFFFF?text=Spirited+Away+(2001)",
-    },
-    {
-      movie_id: "22",
-      movie_name: "Eternal Sunshine of the Spotless Mind",
-      movie_duration: 108,
-      plot_keyword: "memory|love|loss|identity|relationship",
-      language: "English",
-      country: "USA",
-      budget: 20000000,
-      release_year: 2004,
-      imdb_score: 8.3,
-      movie_certification: "R",
-      genre: "Drama|Romance|Sci-Fi",
-      producer_name: "Anthony Bregman",
-      award_name: "Academy Award for Best Original Screenplay",
-      director_name: "Michel Gondry",
-      actors: "Jim Carrey|Kate Winslet|Kirsten Dunst",
-      reviewer_name: "Roger Ebert",
-      songs: "Everybody's Gotta Learn Sometimes",
-      poster_url: "https://via.placeholder.com/300x450/DB7093/FFFFFF?text=Eternal+Sunshine+(2004)",
-    },
-    {
-      movie_id: "23",
-      movie_name: "The Green Mile",
-      movie_duration: 189,
-      plot_keyword: "prison|supernatural|death row|healing|injustice",
-      language: "English",
-      country: "USA",
-      budget: 60000000,
-      release_year: 1999,
-      imdb_score: 8.6,
-      movie_certification: "R",
-      genre: "Crime|Drama|Fantasy",
-      producer_name: "David Valdes",
-      award_name: "Academy Award Nominations for Best Picture",
-      director_name: "Frank Darabont",
-      actors: "Tom Hanks|Michael Clarke Duncan|David Morse",
-      reviewer_name: "Roger Ebert",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/9932CC/FFFFFF?text=The+Green+Mile+(1999)",
-    },
-    {
-      movie_id: "24",
-      movie_name: "Inglourious Basterds",
-      movie_duration: 153,
-      plot_keyword: "world war ii|revenge|nazi|assassination|alternate history",
-      language: "English",
-      country: "USA",
-      budget: 70000000,
-      release_year: 2009,
-      imdb_score: 8.3,
-      movie_certification: "R",
-      genre: "Adventure|Drama|War",
-      producer_name: "Lawrence Bender",
-      award_name: "Academy Award for Best Supporting Actor",
-      director_name: "Quentin Tarantino",
-      actors: "Brad Pitt|Christoph Waltz|Michael Fassbender",
-      reviewer_name: "Roger Ebert",
-      songs: "Cat People|Putting Out Fire",
-      poster_url: "https://via.placeholder.com/300x450/556B2F/FFFFFF?text=Inglourious+Basterds+(2009)",
-    },
-    {
-      movie_id: "25",
-      movie_name: "The Pianist",
-      movie_duration: 150,
-      plot_keyword: "holocaust|survival|world war ii|music|pianist",
-      language: "English",
-      country: "France",
-      budget: 35000000,
-      release_year: 2002,
-      imdb_score: 8.5,
-      movie_certification: "R",
-      genre: "Biography|Drama|Music",
-      producer_name: "Roman Polanski",
-      award_name: "Academy Award for Best Actor",
-      director_name: "Roman Polanski",
-      actors: "Adrien Brody|Thomas Kretschmann|Frank Finlay",
-      reviewer_name: "Roger Ebert",
-      songs: "Nocturne in C Sharp Minor",
-      poster_url: "https://via.placeholder.com/300x450/4B0082/FFFFFF?text=The+Pianist+(2002)",
-    },
-    {
-      movie_id: "26",
-      movie_name: "Joker",
-      movie_duration: 122,
-      plot_keyword: "mental illness|transformation|society|violence|identity",
-      language: "English",
-      country: "USA",
-      budget: 55000000,
-      release_year: 2019,
-      imdb_score: 8.4,
-      movie_certification: "R",
-      genre: "Crime|Drama|Thriller",
-      producer_name: "Todd Phillips",
-      award_name: "Academy Award for Best Actor",
-      director_name: "Todd Phillips",
-      actors: "Joaquin Phoenix|Robert De Niro|Zazie Beetz",
-      reviewer_name: "A.O. Scott",
-      songs: "That's Life|Send in the Clowns",
-      poster_url: "https://via.placeholder.com/300x450/800000/FFFFFF?text=Joker+(2019)",
-    },
-    {
-      movie_id: "27",
-      movie_name: "Avengers: Endgame",
-      movie_duration: 181,
-      plot_keyword: "superhero|time travel|sacrifice|teamwork|final battle",
-      language: "English",
-      country: "USA",
-      budget: 356000000,
-      release_year: 2019,
-      imdb_score: 8.4,
-      movie_certification: "PG-13",
-      genre: "Action|Adventure|Drama",
-      producer_name: "Kevin Feige",
-      award_name: "None",
-      director_name: "Anthony Russo, Joe Russo",
-      actors: "Robert Downey Jr.|Chris Evans|Mark Ruffalo",
-      reviewer_name: "A.O. Scott",
-      songs: "None",
-      poster_url: "https://via.placeholder.com/300x450/8B0000/FFFFFF?text=Avengers:+Endgame+(2019)",
-    },
-    {
-      movie_id: "28",
-      movie_name: "The Truman Show",
-      movie_duration: 103,
-      plot_keyword: "reality tv|deception|freedom|identity|escape",
-      language: "English",
-      country: "USA",
-      budget: 60000000,
-      release_year: 1998,
-      imdb_score: 8.1,
-      movie_certification: "PG",
-      genre: "Comedy|Drama|Sci-Fi",
-      producer_name: "Scott Rudin",
-      award_name: "None",
-      director_name: "Peter Weir",
-      actors: "Jim Carrey|Laura Linney|Noah Emmerich",
-      reviewer_name: "Roger Ebert",
-      songs: "Father Kolbe's Preaching",
-      poster_url: "https://via.placeholder.com/300x450/00008B/FFFFFF?text=The+Truman+Show+(1998)",
-    },
-    {
-      movie_id: "29",
-      movie_name: "Coco",
-      movie_duration: 105,
-      plot_keyword: "family|music|death|memory|culture",
-      language: "English",
-      country: "USA",
-      budget: 175000000,
-      release_year: 2017,
-      imdb_score: 8.4,
-      movie_certification: "PG",
-      genre: "Animation|Adventure|Family",
-      producer_name: "Darla K. Anderson",
-      award_name: "Academy Award for Best Animated Feature",
-      director_name: "Lee Unkrich",
-      actors: "Anthony Gonzalez|Gael García Bernal|Benjamin Bratt",
-      reviewer_name: "A.O. Scott",
-      songs: "Remember Me|Un Poco Loco",
-      poster_url: "https://via.placeholder.com/300x450/9ACD32/FFFFFF?text=Coco+(2017)",
-    },
-    {
-      movie_id: "30",
-      movie_name: "A Beautiful Mind",
-      movie_duration: 135,
-      plot_keyword: "mathematics|schizophrenia|genius|nobel prize|love",
-      language: "English",
-      country: "USA",
-      budget: 58000000,
-      release_year: 2001,
-      imdb_score: 8.2,
-      movie_certification: "PG-13",
-      genre: "Biography|Drama",
-      producer_name: "Brian Grazer",
-      award_name: "Academy Award for Best Picture",
-      director_name: "Ron Howard",
-      actors: "Russell Crowe|Ed Harris|Jennifer Connelly",
-      reviewer_name: "Roger Ebert",
-      songs: "All Love Can Be",
-      poster_url: "https://via.placeholder.com/300x450/483D8B/FFFFFF?text=A+Beautiful+Mind+(2001)",
-    },
-  ]
+export async function getAllAwards(): Promise<Award[]> {
+  const db = await getDB()
+  return db.getAll("awards")
+}
 
-  // Add all movies to the database
-  for (const movie of movies) {
-    await db.add("movies", movie)
-  }
+// Critic review functions
+export async function getCriticReviewsByMovie(movieId: string): Promise<CriticReview[]> {
+  const db = await getDB()
+  const reviews = await db.getAllFromIndex("critic_reviews", "by-movie", movieId)
+  // Rated reviews first, highest rating first
+  return reviews.sort((a, b) => (b.rating ?? -1) - (a.rating ?? -1) || a.critic_name.localeCompare(b.critic_name))
+}
+
+// Everything the critic page shows: the movies they reviewed and how their
+// ratings compare with audiences
+export async function getCriticProfile(criticId: string): Promise<CriticProfile | undefined> {
+  const db = await getDB()
+  const reviews = await db.getAllFromIndex("critic_reviews", "by-critic", criticId)
+  const movies = await Promise.all(reviews.map((review) => db.get("movies", review.movie_id)))
+  return buildCriticProfile(reviews, movies.filter((movie): movie is Movie => !!movie))
 }
 
 // User functions
@@ -911,6 +602,50 @@ export async function removeFavorite(userId: string, movieId: string): Promise<v
   await db.delete("favorites", [userId, movieId])
 }
 
+// Chat functions
+export async function getChatSession(userId: string): Promise<ChatSession | undefined> {
+  const db = await getDB()
+  return db.get("chat_sessions", userId)
+}
+
+export async function saveChatSession(session: ChatSession): Promise<void> {
+  const db = await getDB()
+  await db.put("chat_sessions", session)
+}
+
+// Saved searches functions
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const db = await getDB()
+  return db.getAllFromIndex("saved_searches", "by-user", userId)
+}
+
+export async function getAllSavedSearches(): Promise<SavedSearch[]> {
+  const db = await getDB()
+  return db.getAll("saved_searches")
+}
+
+export async function saveSavedSearch(search: SavedSearch): Promise<void> {
+  const db = await getDB()
+  await db.put("saved_searches", search)
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const db = await getDB()
+  await db.delete("saved_searches", id)
+}
+
+// Dismissed recommendations functions
+export async function getDismissedMovies(userId: string): Promise<string[]> {
+  const db = await getDB()
+  const dismissals = await db.getAllFromIndex("dismissals", "by-user", userId)
+  return dismissals.map((dismissal) => dismissal.movie_id)
+}
+
+export async function dismissMovie(userId: string, movieId: string): Promise<void> {
+  const db = await getDB()
+  await db.put("dismissals", { user_id: userId, movie_id: movieId, dismissed_at: new Date().toISOString() })
+}
+
 // Reviews functions
 export async function getReviewsByUser(userId: string): Promise<Review[]> {
   const db = await getDB()
@@ -965,6 +700,7 @@ export async function updateReview(id: string, rating: number, content: string):
   if (review) {
     review.rating = rating
     review.content = content
+    review.updated_at = new Date().toISOString()
     await db.put("reviews", review)
   }
 }
@@ -974,86 +710,129 @@ export async function deleteReview(id: string): Promise<void> {
   await db.delete("reviews", id)
 }
 
-// Analytics functions
-export async function getRatingDistribution(): Promise<{ rating: string; count: number }[]> {
-  const movies = await executeQuery("SELECT * FROM movies")
-  const ratingCounts: Record<string, number> = {}
-
-  movies.forEach((movie: Movie) => {
-    // Round to nearest 0.5
-    const roundedRating = (Math.round(movie.imdb_score * 2) / 2).toFixed(1)
-    ratingCounts[roundedRating] = (ratingCounts[roundedRating] || 0) + 1
-  })
-
-  return Object.entries(ratingCounts)
-    .map(([rating, count]) => ({ rating, count }))
-    .sort((a, b) => Number.parseFloat(a.rating) - Number.parseFloat(b.rating))
+// Analytics functions. They run against the local database unless another
+// store's executeQuery is passed in.
+export async function getRatingDistribution(run: QueryRunner = executeQuery): Promise<{ rating: string; count: number }[]> {
+  // Round to nearest 0.5; unrated movies have no bucket
+  const rows = await run(
+    `SELECT ROUND(imdb_score * 2) / 2 AS rating, COUNT(*) AS count FROM movies
+     WHERE imdb_score IS NOT NULL GROUP BY rating ORDER BY rating`,
+  )
+  return rows.map((row) => ({ rating: row.rating.toFixed(1), count: row.count }))
 }
 
-export async function getGenreDistribution(): Promise<{ genre: string; count: number }[]> {
-  return executeQuery("SELECT COUNT(*) FROM movies GROUP BY genre")
+export async function getGenreDistribution(run: QueryRunner = executeQuery): Promise<{ genre: string; count: number }[]> {
+  return run("SELECT genre, COUNT(*) AS count FROM movies GROUP BY genre")
 }
 
-export async function getYearDistribution(): Promise<{ year: string; count: number; avgRating: number }[]> {
-  return executeQuery("SELECT COUNT(*) FROM movies GROUP BY release_year")
+export async function getYearDistribution(
+  run: QueryRunner = executeQuery,
+): Promise<{ year: string; count: number; avgRating: number }[]> {
+  const rows = await run(
+    `SELECT release_year AS year, COUNT(*) AS count, ROUND(AVG(imdb_score), 1) AS avgRating
+     FROM movies GROUP BY release_year ORDER BY release_year`,
+  )
+  return rows.map((row) => ({ ...row, year: String(row.year) }))
 }
 
-export async function getBudgetRevenueAnalysis(): Promise<any[]> {
-  const movies = await executeQuery("SELECT * FROM movies")
+// For these analyses we estimate revenue as 2-4x budget based on score
+export async function getBudgetRevenueAnalysis(run: QueryRunner = executeQuery): Promise<any[]> {
+  return run(
+    `SELECT movie_name AS title, budget,
+       budget * (2 + (imdb_score / 10) * 2) AS revenue,
+       budget * (2 + (imdb_score / 10) * 2) - budget AS profit,
+       (budget * (2 + (imdb_score / 10) * 2) - budget) / budget * 100 AS roi
+     FROM movies ORDER BY profit DESC LIMIT 20`,
+  )
+}
 
-  return movies
-    .map((movie: Movie) => ({
-      title: movie.movie_name,
-      budget: movie.budget,
-      // For this example, we'll estimate revenue as 2-4x budget based on score
-      revenue: movie.budget * (2 + (movie.imdb_score / 10) * 2),
-      profit: movie.budget * (2 + (movie.imdb_score / 10) * 2) - movie.budget,
-      roi: ((movie.budget * (2 + (movie.imdb_score / 10) * 2) - movie.budget) / movie.budget) * 100,
-    }))
-    .sort((a, b) => b.profit - a.profit)
-    .slice(0, 20)
+export async function getDirectorAnalysis(run: QueryRunner = executeQuery): Promise<any[]> {
+  return run(
+    `SELECT director_name AS director, COUNT(*) AS movieCount, ROUND(AVG(imdb_score), 2) AS avgRating,
+       SUM(budget * (2 + (imdb_score / 10) * 2)) AS totalRevenue
+     FROM movies GROUP BY director_name HAVING COUNT(*) >= 2
+     ORDER BY avgRating DESC LIMIT 15`,
+  )
 }
 
-export async function getDirectorAnalysis(): Promise<any[]> {
-  const movies = await executeQuery("SELECT * FROM movies")
-  const directorData: Record<string, { movieCount: number; totalRating: number; totalRevenue: number }> = {}
+// Awards won per director and per ceremony year. Reads the awards and credits
+// stores, so unlike the functions above it only runs on the local database.
+export async function getAwardAnalysis(): Promise<{
+  byDirector: { director: string; awards: number }[]
+  byYear: { year: number; awards: number }[]
+}> {
+  const db = await getDB()
+  const wins = (await db.getAll("awards")).filter((award) => award.outcome === "won")
+  const directorCredits = await db.getAllFromIndex("credits", "by-role", "director")
 
-  movies.forEach((movie: Movie) => {
-    if (!directorData[movie.director_name]) {
-      directorData[movie.director_name] = {
-        movieCount: 0,
-        totalRating: 0,
-        totalRevenue: 0,
-      }
-    }
+  const directorsByMovie = new Map<string, string[]>()
+  directorCredits.forEach((credit) => {
+    directorsByMovie.set(credit.movie_id, [...(directorsByMovie.get(credit.movie_id) ?? []), credit.person_id])
+  })
 
-    directorData[movie.director_name].movieCount += 1
-    directorData[movie.director_name].totalRating += movie.imdb_score
-    // Estimate revenue as 2-4x budget based on score
-    directorData[movie.director_name].totalRevenue += movie.budget * (2 + (movie.imdb_score / 10) * 2)
+  const byDirector = new Map<string, number>()
+  const byYear = new Map<number, number>()
+  wins.forEach((award) => {
+    byYear.set(award.year, (byYear.get(award.year) ?? 0) + 1)
+    directorsByMovie.get(award.movie_id)?.forEach((personId) => {
+      byDirector.set(personId, (byDirector.get(personId) ?? 0) + 1)
+    })
   })
 
-  return Object.entries(directorData)
-    .map(([director, data]) => ({
-      director,
-      movieCount: data.movieCount,
-      avgRating: Number((data.totalRating / data.movieCount).toFixed(2)),
-      totalRevenue: data.totalRevenue,
-    }))
-    .filter((d) => d.movieCount >= 2)
-    .sort((a, b) => b.avgRating - a.avgRating)
-    .slice(0, 15)
+  const directors = await Promise.all(Array.from(byDirector.keys()).map((id) => db.get("people", id)))
+
+  return {
+    byDirector: directors
+      .filter((person): person is Person => !!person)
+      .map((person) => ({ director: person.name, awards: byDirector.get(person.id)! }))
+      .sort((a, b) => b.awards - a.awards || a.director.localeCompare(b.director))
+      .slice(0, 15),
+    byYear: Array.from(byYear.entries())
+      .map(([year, awards]) => ({ year, awards }))
+      .sort((a, b) => a.year - b.year),
+  }
+}
+
+// Critic ratings against the IMDb audience score. Reads the critic review
+// store, so like getAwardAnalysis it only runs on the local database.
+export async function getCriticDivergence(): Promise<CriticDivergence> {
+  const db = await getDB()
+  const [reviews, movies] = await Promise.all([db.getAll("critic_reviews"), db.getAll("movies")])
+  return buildCriticDivergence(reviews, movies)
 }
 
 // Export all functions
 export const dbClient = {
   executeQuery,
+  putMovies,
+  clearMovies,
+  replaceMovies,
+  getPerson,
+  getPersonByName,
+  getPeopleByRole,
+  getCreditsByPerson,
+  getCreditsByMovie,
+  getPersonProfile,
+  getAllCredits,
+  getCatalogOverview,
+  getAwardsByMovie,
+  getAllAwards,
+  getCriticReviewsByMovie,
+  getCriticProfile,
   getUserByEmail,
   createUser,
   updateLastLogin,
   getFavorites,
   addFavorite,
   removeFavorite,
+  getChatSession,
+  saveChatSession,
+  getSavedSearches,
+  getAllSavedSearches,
+  saveSavedSearch,
+  deleteSavedSearch,
+  getDismissedMovies,
+  dismissMovie,
   getReviewsByUser,
   getReviewsByMovie,
   addReview,
@@ -1064,4 +843,6 @@ export const dbClient = {
   getYearDistribution,
   getBudgetRevenueAnalysis,
   getDirectorAnalysis,
+  getAwardAnalysis,
+  getCriticDivergence,
 }
@@ -1,28 +1,16 @@
-// Types
-export type UserProfile = {
-  id: string
-  email: string
-  username: string
-  password?: string
-  created_at: string
-  last_login: string
-}
-
-export type Favorite = {
-  user_id: string
-  movie_id: string
-  added_at: string
-}
-
-export type Review = {
-  id: string
-  user_id: string
-  movie_id: string
-  rating: number
-  content: string
-  created_at: string
-  username?: string
-}
+import type { MovieSortKey } from "./filter-params"
+import { filteredPage, type CatalogFilter, type FilteredPage } from "./filtered-pages"
+import { initialMovies } from "./movie-catalog"
+import { catalogFilterLookups } from "./movie-filters"
+import { paginate, sortCatalog, type CatalogSortKey, type MoviePage, type PageRequest } from "./movie-pages"
+import { createCatalogIndex } from "./search/catalog-index"
+import { runQuery } from "./sql/engine"
+import { createArraySource } from "./sql/memory-source"
+import { TABLES } from "./sql/schema"
+import type { ChatSession, DataStore, Dismissal, Favorite, Movie, Review, SavedSearch, User } from "./storage/types"
+
+// Types are shared with every other storage backend
+export type { ChatSession, Dismissal, Favorite, Movie, Review, SavedSearch, User }
 
 // Initialize localStorage if needed
 function initializeStorage() {
@@ -37,24 +25,104 @@ function initializeStorage() {
   if (!localStorage.getItem("movie_insights_reviews")) {
     localStorage.setItem("movie_insights_reviews", JSON.stringify([]))
   }
+  if (!localStorage.getItem("movie_insights_chat_sessions")) {
+    localStorage.setItem("movie_insights_chat_sessions", JSON.stringify([]))
+  }
+  if (!localStorage.getItem("movie_insights_saved_searches")) {
+    localStorage.setItem("movie_insights_saved_searches", JSON.stringify([]))
+  }
+  if (!localStorage.getItem("movie_insights_dismissals")) {
+    localStorage.setItem("movie_insights_dismissals", JSON.stringify([]))
+  }
+  if (!localStorage.getItem("movie_insights_movies")) {
+    localStorage.setItem("movie_insights_movies", JSON.stringify(initialMovies))
+  }
   return true
 }
 
+// Movie functions
+export async function executeQuery(query: string, params: any[] = []): Promise<any[]> {
+  if (!initializeStorage()) return []
+
+  const movies = JSON.parse(localStorage.getItem("movie_insights_movies") || "[]") as Movie[]
+  return runQuery(query, params, (table) => createArraySource(movies, TABLES[table]))
+}
+
+export async function getMovie(movieId: string): Promise<Movie | undefined> {
+  if (!initializeStorage()) return undefined
+
+  const movies = JSON.parse(localStorage.getItem("movie_insights_movies") || "[]") as Movie[]
+  return movies.find((movie) => movie.movie_id === movieId)
+}
+
+export async function getAllMovies(): Promise<Movie[]> {
+  if (!initializeStorage()) return []
+
+  return JSON.parse(localStorage.getItem("movie_insights_movies") || "[]") as Movie[]
+}
+
+export async function getMoviesPage(sort: CatalogSortKey, request: PageRequest): Promise<MoviePage> {
+  return paginate(sortCatalog(await getAllMovies(), sort), request)
+}
+
+const searchIndex = createCatalogIndex(getAllMovies)
+
+export async function getFilteredPage(
+  view: CatalogFilter,
+  sort: MovieSortKey,
+  request: PageRequest,
+): Promise<FilteredPage> {
+  const [movies, index] = await Promise.all([getAllMovies(), searchIndex.get()])
+  return filteredPage(movies, view, sort, request, catalogFilterLookups(movies, index))
+}
+
+export async function putMovies(movies: Movie[]): Promise<void> {
+  if (!initializeStorage()) throw new Error("Storage not available")
+
+  const existing = JSON.parse(localStorage.getItem("movie_insights_movies") || "[]") as Movie[]
+  const byId = new Map(existing.map((movie) => [movie.movie_id, movie]))
+  movies.forEach((movie) => byId.set(movie.movie_id, movie))
+
+  localStorage.setItem("movie_insights_movies", JSON.stringify(Array.from(byId.values())))
+  await searchIndex.put(movies)
+}
+
+export async function clearMovies(): Promise<void> {
+  if (!initializeStorage()) throw new Error("Storage not available")
+
+  localStorage.setItem("movie_insights_movies", JSON.stringify([]))
+  await searchIndex.clear()
+}
+
+export async function replaceMovies(movies: Movie[]): Promise<void> {
+  if (!initializeStorage()) throw new Error("Storage not available")
+
+  localStorage.setItem("movie_insights_movies", JSON.stringify(movies))
+  await searchIndex.clear()
+  await searchIndex.put(movies)
+}
+
+export const getSearchIndex = searchIndex.get
+
 // User functions
-export async function getUserByEmail(email: string): Promise<UserProfile | null> {
-  if (!initializeStorage()) return null
+export async function getUserByEmail(email: string): Promise<User | undefined> {
+  if (!initializeStorage()) return undefined
 
-  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as UserProfile[]
-  return users.find((user) => user.email === email) || null
+  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as User[]
+  return users.find((user) => user.email === email)
 }
 
-export async function createUser(id: string, email: string, username: string, password: string): Promise<UserProfile> {
+export async function createUser(id: string, email: string, username: string, password: string): Promise<User> {
   if (!initializeStorage()) throw new Error("Storage not available")
 
-  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as UserProfile[]
+  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as User[]
+  if (users.some((user) => user.email === email)) {
+    throw new Error("User with this email already exists")
+  }
+
   const now = new Date().toISOString()
 
-  const newUser: UserProfile = {
+  const newUser: User = {
     id,
     email,
     username,
@@ -72,7 +140,7 @@ export async function createUser(id: string, email: string, username: string, pa
 export async function updateLastLogin(userId: string): Promise<void> {
   if (!initializeStorage()) return
 
-  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as UserProfile[]
+  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as User[]
   const now = new Date().toISOString()
 
   const updatedUsers = users.map((user) => {
@@ -86,11 +154,17 @@ export async function updateLastLogin(userId: string): Promise<void> {
 }
 
 // Favorites functions
-export async function getFavorites(userId: string): Promise<Favorite[]> {
+export async function getFavorites(userId: string): Promise<string[]> {
   if (!initializeStorage()) return []
 
   const favorites = JSON.parse(localStorage.getItem("movie_insights_favorites") || "[]") as Favorite[]
-  return favorites.filter((fav) => fav.user_id === userId)
+  return favorites.filter((fav) => fav.user_id === userId).map((fav) => fav.movie_id)
+}
+
+export async function getAllFavorites(): Promise<Favorite[]> {
+  if (!initializeStorage()) return []
+
+  return JSON.parse(localStorage.getItem("movie_insights_favorites") || "[]") as Favorite[]
 }
 
 export async function addFavorite(userId: string, movieId: string): Promise<void> {
@@ -120,6 +194,75 @@ export async function removeFavorite(userId: string, movieId: string): Promise<v
   localStorage.setItem("movie_insights_favorites", JSON.stringify(updatedFavorites))
 }
 
+// Chat functions
+export async function getChatSession(userId: string): Promise<ChatSession | undefined> {
+  if (!initializeStorage()) return undefined
+
+  const sessions = JSON.parse(localStorage.getItem("movie_insights_chat_sessions") || "[]") as ChatSession[]
+  return sessions.find((session) => session.user_id === userId)
+}
+
+export async function saveChatSession(session: ChatSession): Promise<void> {
+  if (!initializeStorage()) return
+
+  const sessions = JSON.parse(localStorage.getItem("movie_insights_chat_sessions") || "[]") as ChatSession[]
+  const updatedSessions = [...sessions.filter((existing) => existing.user_id !== session.user_id), session]
+
+  localStorage.setItem("movie_insights_chat_sessions", JSON.stringify(updatedSessions))
+}
+
+// Saved searches functions
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
+  if (!initializeStorage()) return []
+
+  const searches = JSON.parse(localStorage.getItem("movie_insights_saved_searches") || "[]") as SavedSearch[]
+  return searches.filter((search) => search.user_id === userId)
+}
+
+export async function getAllSavedSearches(): Promise<SavedSearch[]> {
+  if (!initializeStorage()) return []
+
+  return JSON.parse(localStorage.getItem("movie_insights_saved_searches") || "[]") as SavedSearch[]
+}
+
+export async function saveSavedSearch(search: SavedSearch): Promise<void> {
+  if (!initializeStorage()) return
+
+  const searches = JSON.parse(localStorage.getItem("movie_insights_saved_searches") || "[]") as SavedSearch[]
+  const updatedSearches = [...searches.filter((existing) => existing.id !== search.id), search]
+
+  localStorage.setItem("movie_insights_saved_searches", JSON.stringify(updatedSearches))
+}
+
+export async function deleteSavedSearch(id: string): Promise<void> {
+  if (!initializeStorage()) return
+
+  const searches = JSON.parse(localStorage.getItem("movie_insights_saved_searches") || "[]") as SavedSearch[]
+  const updatedSearches = searches.filter((search) => search.id !== id)
+
+  localStorage.setItem("movie_insights_saved_searches", JSON.stringify(updatedSearches))
+}
+
+// Dismissed recommendations functions
+export async function getDismissedMovies(userId: string): Promise<string[]> {
+  if (!initializeStorage()) return []
+
+  const dismissals = JSON.parse(localStorage.getItem("movie_insights_dismissals") || "[]") as Dismissal[]
+  return dismissals.filter((dismissal) => dismissal.user_id === userId).map((dismissal) => dismissal.movie_id)
+}
+
+export async function dismissMovie(userId: string, movieId: string): Promise<void> {
+  if (!initializeStorage()) return
+
+  const dismissals = JSON.parse(localStorage.getItem("movie_insights_dismissals") || "[]") as Dismissal[]
+  const updatedDismissals = [
+    ...dismissals.filter((dismissal) => !(dismissal.user_id === userId && dismissal.movie_id === movieId)),
+    { user_id: userId, movie_id: movieId, dismissed_at: new Date().toISOString() },
+  ]
+
+  localStorage.setItem("movie_insights_dismissals", JSON.stringify(updatedDismissals))
+}
+
 // Reviews functions
 export async function getReviewsByUser(userId: string): Promise<Review[]> {
   if (!initializeStorage()) return []
@@ -132,7 +275,7 @@ export async function getReviewsByMovie(movieId: string): Promise<Review[]> {
   if (!initializeStorage()) return []
 
   const reviews = JSON.parse(localStorage.getItem("movie_insights_reviews") || "[]") as Review[]
-  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as UserProfile[]
+  const users = JSON.parse(localStorage.getItem("movie_insights_users") || "[]") as User[]
 
   return reviews
     .filter((review) => review.movie_id === movieId)
@@ -145,6 +288,12 @@ export async function getReviewsByMovie(movieId: string): Promise<Review[]> {
     })
 }
 
+export async function getAllReviews(): Promise<Review[]> {
+  if (!initializeStorage()) return []
+
+  return JSON.parse(localStorage.getItem("movie_insights_reviews") || "[]") as Review[]
+}
+
 export async function addReview(
   id: string,
   userId: string,
@@ -176,10 +325,11 @@ export async function updateReview(id: string, rating: number, content: string):
   if (!initializeStorage()) return
 
   const reviews = JSON.parse(localStorage.getItem("movie_insights_reviews") || "[]") as Review[]
+  const now = new Date().toISOString()
 
   const updatedReviews = reviews.map((review) => {
     if (review.id === id) {
-      return { ...review, rating, content }
+      return { ...review, rating, content, updated_at: now }
     }
     return review
   })
@@ -197,15 +347,34 @@ export async function deleteReview(id: string): Promise<void> {
 }
 
 // Export all functions directly
-export const dbClient = {
+export const dbClient: DataStore = {
+  executeQuery,
+  getMovie,
+  getAllMovies,
+  getMoviesPage,
+  getFilteredPage,
+  putMovies,
+  clearMovies,
+  replaceMovies,
+  getSearchIndex,
   getUserByEmail,
   createUser,
   updateLastLogin,
   getFavorites,
+  getAllFavorites,
   addFavorite,
   removeFavorite,
+  getChatSession,
+  saveChatSession,
+  getSavedSearches,
+  getAllSavedSearches,
+  saveSavedSearch,
+  deleteSavedSearch,
+  getDismissedMovies,
+  dismissMovie,
   getReviewsByUser,
   getReviewsByMovie,
+  getAllReviews,
   addReview,
   updateReview,
   deleteReview,
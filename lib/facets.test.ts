@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { awardsForMovie } from "./awards"
+import { computeFacets } from "./facets"
+import { DEFAULT_FILTERS } from "./filter-params"
+import { initialMovies } from "./movie-catalog"
+import { catalogFilterLookups } from "./movie-filters"
+import { creditsForMovie } from "./people"
+import { MovieSearchIndex } from "./search/movie-index"
+
+const searchIndex = new MovieSearchIndex()
+searchIndex.putAll(initialMovies)
+const lookups = catalogFilterLookups(initialMovies, searchIndex)
+
+const facetsFor = (filters: Partial<typeof DEFAULT_FILTERS>) =>
+  computeFacets(initialMovies, { query: "", filters: { ...DEFAULT_FILTERS, ...filters } }, lookups)
+
+const starring = (personId: string) =>
+  initialMovies.filter((movie) =>
+    creditsForMovie(movie).credits.some((credit) => credit.role === "actor" && credit.person_id === personId),
+  )
+
+const winners = (award: string) =>
+  initialMovies.filter((movie) => awardsForMovie(movie).some((won) => won.name === award && won.outcome === "won"))
+
+describe("computeFacets", () => {
+  it("counts each actor's and award's movies", () => {
+    const facets = facetsFor({})
+
+    expect(facets.actor.get("morgan-freeman")).toBe(starring("morgan-freeman").length)
+    expect(facets.award.get("Academy Award for Best Picture")).toBe(winners("Academy Award for Best Picture").length)
+  })
+
+  it("narrows actor and award counts by the other filters but not their own", () => {
+    const best = "Academy Award for Best Picture"
+    const inBest = (movieId: string) => winners(best).some((movie) => movie.movie_id === movieId)
+
+    const withAward = facetsFor({ award: best })
+    expect(withAward.award).toEqual(facetsFor({}).award)
+    expect(withAward.actor.get("morgan-freeman")).toBe(
+      starring("morgan-freeman").filter((movie) => inBest(movie.movie_id)).length,
+    )
+
+    const withActor = facetsFor({ actor: "morgan-freeman" })
+    expect(withActor.actor).toEqual(facetsFor({}).actor)
+    // Awards none of the actor's movies won count zero and are dimmed
+    expect(Array.from(withActor.award.values()).filter((count) => count === 0).length).toBeGreaterThan(0)
+  })
+
+  it("leaves excluded actors' movies out of the other counts", () => {
+    const facets = facetsFor({ excludedActors: ["morgan-freeman"] })
+    expect(facets.actor.get("morgan-freeman")).toBe(0)
+    expect(facets.genre.get("Drama")).toBe(
+      initialMovies.filter((movie) => movie.genre.includes("Drama")).length -
+        starring("morgan-freeman").filter((movie) => movie.genre.includes("Drama")).length,
+    )
+  })
+})
@@ -0,0 +1,105 @@
+import type { Movie } from "./db-service"
+import { DEFAULT_FILTERS, type MovieFilters, type MovieFilterView, type NumberRange } from "./filter-params"
+import { filterMovies, type FilterLookups } from "./movie-filters"
+import { splitNames } from "./people"
+
+// Facets of the dashboard filters, each counted over the movies that match
+// every filter except its own
+export type FacetName =
+  | "genre"
+  | "decade"
+  | "language"
+  | "country"
+  | "certification"
+  | "director"
+  | "actor"
+  | "award"
+
+// Count per value; directors and actors are keyed by person id, awards by name
+// and count only wins
+export type FacetCounts = Record<FacetName, Map<string, number>>
+
+// "1990s" for 1994
+export function decadeOf(year: number): string {
+  return `${Math.floor(year / 10) * 10}s`
+}
+
+export function decadeRange(decade: string): NumberRange {
+  const start = Number.parseInt(decade, 10)
+  return { min: start, max: start + 9 }
+}
+
+// The filters a facet is counted without. Under disjunctive faceting a facet's
+// own choices don't narrow its counts, so picking another language shows how
+// many movies it adds. Genres chosen with "all" are the exception: each extra
+// genre narrows the results, so their counts keep the genres already chosen.
+const WITHOUT_OWN_FILTER: Record<FacetName, (filters: MovieFilters) => MovieFilters> = {
+  genre: (filters) => (filters.genreMatch === "all" ? filters : { ...filters, genres: [] }),
+  decade: (filters) => ({ ...filters, year: DEFAULT_FILTERS.year }),
+  language: (filters) => ({ ...filters, language: "" }),
+  country: (filters) => ({ ...filters, country: "" }),
+  certification: (filters) => ({ ...filters, certifications: [] }),
+  director: (filters) => ({ ...filters, director: "" }),
+  actor: (filters) => ({ ...filters, actor: "" }),
+  award: (filters) => ({ ...filters, award: "" }),
+}
+
+const FACET_VALUES: Record<Exclude<FacetName, "director" | "actor" | "award">, (movie: Movie) => string[]> = {
+  genre: (movie) => splitNames(movie.genre),
+  decade: (movie) => (movie.release_year ? [decadeOf(movie.release_year)] : []),
+  language: (movie) => (movie.language ? [movie.language] : []),
+  country: (movie) => (movie.country ? [movie.country] : []),
+  certification: (movie) => (movie.movie_certification ? [movie.movie_certification] : []),
+}
+
+function countValues(movies: Movie[], values: (movie: Movie) => string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  movies.forEach((movie) => values(movie).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1)))
+  return counts
+}
+
+// How many of the movies are in each set, e.g. a person's credits in a role
+// or an award's winners. Keys are kept with their prefix removed.
+function countMembers(movies: Movie[], sets: Map<string, Set<string>>, prefix = ""): Map<string, number> {
+  const counts = new Map<string, number>()
+  const movieIds = new Set(movies.map((movie) => movie.movie_id))
+  sets.forEach((members, key) => {
+    if (!key.startsWith(prefix)) return
+    let count = 0
+    members.forEach((movieId) => {
+      if (movieIds.has(movieId)) count++
+    })
+    counts.set(key.slice(prefix.length), count)
+  })
+  return counts
+}
+
+export function computeFacets(
+  movies: Movie[],
+  { query, filters }: Pick<MovieFilterView, "query" | "filters">,
+  lookups: FilterLookups,
+): FacetCounts {
+  // Search once; each facet then only re-applies the filters
+  const searched = query.trim()
+    ? filterMovies(movies, { query, filters: DEFAULT_FILTERS }, lookups).movies
+    : movies
+  const matching = filterMovies(searched, { query: "", filters }, lookups).movies
+
+  const baseFor = (facet: FacetName) => {
+    const without = WITHOUT_OWN_FILTER[facet](filters)
+    // Nothing of its own chosen: the facet counts the current results
+    if (JSON.stringify(without) === JSON.stringify(filters)) return matching
+    return filterMovies(searched, { query: "", filters: without }, lookups).movies
+  }
+
+  return {
+    genre: countValues(baseFor("genre"), FACET_VALUES.genre),
+    decade: countValues(baseFor("decade"), FACET_VALUES.decade),
+    language: countValues(baseFor("language"), FACET_VALUES.language),
+    country: countValues(baseFor("country"), FACET_VALUES.country),
+    certification: countValues(baseFor("certification"), FACET_VALUES.certification),
+    director: countMembers(baseFor("director"), lookups.creditedMovies, "director:"),
+    actor: countMembers(baseFor("actor"), lookups.creditedMovies, "actor:"),
+    award: countMembers(baseFor("award"), lookups.awardWinners),
+  }
+}
@@ -0,0 +1,202 @@
+// The dashboard's search view as URL query parameters, so a filtered view can
+// be bookmarked or shared. Defaults are left out to keep links short.
+
+import { CATALOG_SORT_KEYS, type CatalogSortKey } from "./movie-pages"
+
+// "relevance" ranks by search score, or by rating when there is no search text
+export type MovieSortKey = "relevance" | CatalogSortKey
+
+export const MOVIE_SORT_KEYS: MovieSortKey[] = ["relevance", ...CATALOG_SORT_KEYS]
+
+export type GenreMatch = "any" | "all"
+
+// Inclusive bounds; null leaves that end open
+export interface NumberRange {
+  min: number | null
+  max: number | null
+}
+
+export interface MovieFilters {
+  genres: string[]
+  // Whether a movie needs any of the chosen genres or all of them
+  genreMatch: GenreMatch
+  excludedGenres: string[]
+  certifications: string[]
+  excludedCertifications: string[]
+  year: NumberRange
+  duration: NumberRange
+  budget: NumberRange
+  director: string
+  actor: string
+  award: string
+  // Directors and actors by person id
+  excludedDirectors: string[]
+  excludedActors: string[]
+  excludedAwards: string[]
+  minRating: number
+  maxRating: number
+  language: string
+  country: string
+  excludedLanguages: string[]
+  excludedCountries: string[]
+}
+
+export interface MovieFilterView {
+  query: string
+  filters: MovieFilters
+  sort: MovieSortKey
+  page: number
+}
+
+const OPEN_RANGE: NumberRange = { min: null, max: null }
+
+export const DEFAULT_FILTERS: MovieFilters = {
+  genres: [],
+  genreMatch: "any",
+  excludedGenres: [],
+  certifications: [],
+  excludedCertifications: [],
+  year: OPEN_RANGE,
+  duration: OPEN_RANGE,
+  budget: OPEN_RANGE,
+  director: "",
+  actor: "",
+  award: "",
+  excludedDirectors: [],
+  excludedActors: [],
+  excludedAwards: [],
+  minRating: 0,
+  maxRating: 10,
+  language: "",
+  country: "",
+  excludedLanguages: [],
+  excludedCountries: [],
+}
+
+const TEXT_FILTERS = ["director", "actor", "award", "language", "country"] as const
+
+// Lists are comma separated: genre=Action,Drama
+const LIST_PARAMS = {
+  genres: "genre",
+  excludedGenres: "notGenre",
+  certifications: "cert",
+  excludedCertifications: "notCert",
+  excludedDirectors: "notDirector",
+  excludedActors: "notActor",
+  excludedAwards: "notAward",
+  excludedLanguages: "notLanguage",
+  excludedCountries: "notCountry",
+} as const
+const LIST_FILTERS = Object.keys(LIST_PARAMS) as (keyof typeof LIST_PARAMS)[]
+
+// Ranges are "min-max" with either end left out: year=1990-1999, year=2000-,
+// or a single value for both ends: year=2010
+const RANGE_FILTERS = ["year", "duration", "budget"] as const
+
+function readRating(value: string | null, fallback: number): number {
+  const rating = Number(value)
+  if (value === null || value === "" || Number.isNaN(rating)) return fallback
+  return Math.min(10, Math.max(0, rating))
+}
+
+function readList(value: string | null): string[] {
+  if (!value) return []
+  return Array.from(new Set(value.split(",").map((item) => item.trim()))).filter((item) => item && item !== "all")
+}
+
+function readBound(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === "") return null
+  const bound = Number(value)
+  return Number.isFinite(bound) ? bound : null
+}
+
+function readRange(value: string | null): NumberRange {
+  if (!value) return OPEN_RANGE
+  const [min, max] = value.includes("-") ? value.split("-", 2) : [value, value]
+  const range = { min: readBound(min), max: readBound(max) }
+  return range.min !== null && range.max !== null && range.min > range.max ? OPEN_RANGE : range
+}
+
+function writeRange({ min, max }: NumberRange): string | null {
+  if (min === null && max === null) return null
+  if (min === max) return String(min)
+  return `${min ?? ""}-${max ?? ""}`
+}
+
+export function isOpenRange(range: NumberRange): boolean {
+  return range.min === null && range.max === null
+}
+
+// "1990–1999", "2000 or more", "up to 120", or "2010" when both ends match
+export function formatRange({ min, max }: NumberRange, format: (value: number) => string = String): string {
+  if (min !== null && max !== null) return min === max ? format(min) : `${format(min)}–${format(max)}`
+  if (min !== null) return `${format(min)} or more`
+  if (max !== null) return `up to ${format(max)}`
+  return "any"
+}
+
+export function readFilterView(params: URLSearchParams): MovieFilterView {
+  const filters = { ...DEFAULT_FILTERS }
+  TEXT_FILTERS.forEach((name) => {
+    const value = params.get(name)
+    if (value && value !== "all") filters[name] = value
+  })
+  LIST_FILTERS.forEach((name) => {
+    filters[name] = readList(params.get(LIST_PARAMS[name]))
+  })
+  RANGE_FILTERS.forEach((name) => {
+    filters[name] = readRange(params.get(name))
+  })
+  filters.genreMatch = params.get("genreMatch") === "all" ? "all" : "any"
+  filters.minRating = readRating(params.get("minRating"), DEFAULT_FILTERS.minRating)
+  filters.maxRating = readRating(params.get("maxRating"), DEFAULT_FILTERS.maxRating)
+  if (filters.minRating > filters.maxRating) {
+    filters.minRating = DEFAULT_FILTERS.minRating
+    filters.maxRating = DEFAULT_FILTERS.maxRating
+  }
+
+  const sort = params.get("sort") as MovieSortKey | null
+  const page = Number.parseInt(params.get("page") ?? "", 10)
+
+  return {
+    query: params.get("q") ?? "",
+    filters,
+    sort: sort && MOVIE_SORT_KEYS.includes(sort) ? sort : "relevance",
+    page: page > 0 ? page : 1,
+  }
+}
+
+// Parameter changes for a view: null removes a parameter that is at its
+// default. Parameters the view doesn't own, such as the dashboard tab, are
+// left alone by the caller.
+export function filterViewParams(view: Partial<MovieFilterView>): Record<string, string | null> {
+  const changes: Record<string, string | null> = {}
+  if (view.query !== undefined) changes.q = view.query.trim() ? view.query : null
+  if (view.filters) {
+    const filters = view.filters
+    TEXT_FILTERS.forEach((name) => {
+      changes[name] = filters[name] && filters[name] !== "all" ? filters[name] : null
+    })
+    LIST_FILTERS.forEach((name) => {
+      changes[LIST_PARAMS[name]] = filters[name].length > 0 ? filters[name].join(",") : null
+    })
+    RANGE_FILTERS.forEach((name) => {
+      changes[name] = writeRange(filters[name])
+    })
+    changes.genreMatch = filters.genreMatch === "all" ? "all" : null
+    changes.minRating = filters.minRating !== DEFAULT_FILTERS.minRating ? String(filters.minRating) : null
+    changes.maxRating = filters.maxRating !== DEFAULT_FILTERS.maxRating ? String(filters.maxRating) : null
+  }
+  if (view.sort !== undefined) changes.sort = view.sort !== "relevance" ? view.sort : null
+  if (view.page !== undefined) changes.page = view.page > 1 ? String(view.page) : null
+  return changes
+}
+
+// A view as a query string, e.g. for saving it
+export function filterViewQuery(view: Partial<MovieFilterView>): string {
+  const params = new URLSearchParams()
+  Object.entries(filterViewParams(view)).forEach(([name, value]) => {
+    if (value !== null) params.set(name, value)
+  })
+  return params.toString()
+}
@@ -0,0 +1,46 @@
+import type { Movie } from "./db-service"
+import { computeFacets, type FacetCounts } from "./facets"
+import type { MovieFilterView, MovieSortKey } from "./filter-params"
+import { filterMovies, sortMovies, type FilterLookups } from "./movie-filters"
+import { paginate, type MoviePage, type PageRequest } from "./movie-pages"
+import type { SearchHit } from "./search/movie-index"
+
+export type CatalogFilter = Pick<MovieFilterView, "query" | "filters">
+
+// One page of the movies matching a search and filters, with what the filter
+// panel shows next to it, so the browser never needs the whole catalog
+export interface FilteredPage extends MoviePage {
+  // Where the search matched, for the movies on this page
+  hits: Map<string, SearchHit>
+  // How many movies each filter option would match alongside the other filters
+  facets: FacetCounts
+  // "Did you mean" titles and names when the search only matched after correcting typos
+  suggestions: string[]
+}
+
+export function filteredPage(
+  movies: Movie[],
+  view: CatalogFilter,
+  sort: MovieSortKey,
+  request: PageRequest,
+  lookups: FilterLookups,
+): FilteredPage {
+  const { movies: results, hits } = filterMovies(movies, view, lookups)
+  const page = paginate(sortMovies(results, sort, hits), request)
+  const onlyCorrected = Array.from(hits.values()).every((hit) => hit.corrected)
+  const pageHits = new Map<string, SearchHit>()
+  page.movies.forEach((movie) => {
+    const hit = hits.get(movie.movie_id)
+    if (hit) pageHits.set(movie.movie_id, hit)
+  })
+
+  return {
+    ...page,
+    hits: pageHits,
+    facets: computeFacets(movies, view, lookups),
+    suggestions:
+      view.query.trim() && onlyCorrected
+        ? lookups.searchIndex.suggest(view.query).map((suggestion) => suggestion.text)
+        : [],
+  }
+}
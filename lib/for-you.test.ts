@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+import type { Favorite, Movie, Review } from "./db-service"
+import { collaborativeScores, forYouFeed, preferences, tasteProfile } from "./for-you"
+import { initialMovies } from "./movie-catalog"
+import { RecommendationEngine } from "./recommendations"
+
+const movie = (movie_id: string, genre: string, plot_keyword: string): Movie => ({
+  ...initialMovies[0],
+  movie_id,
+  movie_name: `Movie ${movie_id}`,
+  genre,
+  plot_keyword,
+  language: "",
+  release_year: 0,
+  director_name: "",
+  actors: "",
+})
+
+const favorite = (user_id: string, movie_id: string): Favorite => ({ user_id, movie_id, added_at: "" })
+
+const review = (user_id: string, movie_id: string, rating: number): Review => ({
+  id: `${user_id}-${movie_id}`,
+  user_id,
+  movie_id,
+  rating,
+  content: "",
+  created_at: "",
+})
+
+const ids = (recommendations: { movie: Movie }[]) => recommendations.map(({ movie }) => movie.movie_id)
+
+describe("preferences", () => {
+  it("counts favorites as likes unless a review says otherwise", () => {
+    const liked = preferences("u1", {
+      favorites: [favorite("u1", "a"), favorite("u1", "b"), favorite("u2", "c")],
+      reviews: [review("u1", "b", 1), review("u1", "d", 3), review("u1", "e", 4)],
+    })
+
+    expect(liked).toEqual(
+      new Map([
+        ["a", 1],
+        ["b", -1],
+        ["d", 0],
+        ["e", 0.5],
+      ]),
+    )
+  })
+
+  it("counts dismissed movies against the taste, but not over a review", () => {
+    const taste = tasteProfile("u1", {
+      favorites: [favorite("u1", "a")],
+      reviews: [review("u1", "b", 5)],
+      dismissed: ["b", "c"],
+    })
+
+    expect(taste.get("b")).toBe(1)
+    expect(taste.get("c")).toBe(-0.5)
+  })
+})
+
+describe("collaborativeScores", () => {
+  it("predicts from users with similar taste, damped by how similar they are", () => {
+    const scores = collaborativeScores("u1", {
+      favorites: [favorite("u1", "a"), favorite("u2", "a"), favorite("u2", "b"), favorite("u3", "c")],
+      reviews: [review("u2", "d", 1)],
+    })
+
+    // u2 shares "a", so their like of "b" and dislike of "d" carry over
+    const similarity = 1 / Math.sqrt(3)
+    expect(scores.get("b")?.score).toBeCloseTo(similarity / (similarity + 1))
+    expect(scores.get("b")?.likedBy).toBe(1)
+    expect(scores.get("d")?.score).toBeLessThan(0)
+    expect(scores.get("d")?.likedBy).toBe(0)
+    // u3 has nothing in common with u1
+    expect(scores.has("c")).toBe(false)
+  })
+})
+
+describe("forYouFeed", () => {
+  const engine = new RecommendationEngine([
+    movie("liked", "Drama", "heist"),
+    movie("twin", "Drama", "heist"),
+    movie("both", "Drama", "heist"),
+    movie("crowd", "Horror", "ghost"),
+    movie("zombie", "Drama", "zombie"),
+    movie("sequel", "Drama", "zombie"),
+  ])
+
+  it("blends similar movies with what similar users liked", () => {
+    const feed = forYouFeed(engine, "u1", {
+      favorites: [favorite("u1", "liked"), favorite("u2", "liked"), favorite("u2", "both"), favorite("u2", "crowd")],
+      reviews: [],
+      dismissed: [],
+    })
+
+    expect(ids(feed).slice(0, 3)).toEqual(["both", "twin", "crowd"])
+    expect(ids(feed)).not.toContain("liked")
+    const [both, twin, crowd] = feed
+    expect(both.reasons.slice(0, 2)).toEqual([
+      "because you liked Movie liked",
+      "liked by 1 person with similar taste",
+    ])
+    expect(twin.reasons[0]).toBe("because you liked Movie liked")
+    expect(twin.reasons).not.toContain("liked by 1 person with similar taste")
+    // Nothing in common with what the user liked: only the other users speak for it
+    expect(crowd.reasons).toEqual(["liked by 1 person with similar taste"])
+  })
+
+  it("hides dismissed movies and steers away from similar ones", () => {
+    const favorites = [favorite("u1", "liked"), favorite("u2", "liked"), favorite("u2", "zombie")]
+
+    expect(ids(forYouFeed(engine, "u1", { favorites, reviews: [], dismissed: [] }))).toEqual(
+      expect.arrayContaining(["zombie", "sequel"]),
+    )
+
+    const feed = forYouFeed(engine, "u1", { favorites, reviews: [], dismissed: ["zombie"] })
+    expect(ids(feed)).not.toContain("zombie")
+    expect(ids(feed)).not.toContain("sequel")
+    expect(ids(feed)).toContain("twin")
+  })
+
+  it("is empty until the user has liked, rated or dismissed something", () => {
+    expect(forYouFeed(engine, "u1", { favorites: [favorite("u2", "liked")], reviews: [], dismissed: [] })).toEqual([])
+  })
+})
@@ -0,0 +1,159 @@
+import type { Favorite, Review } from "./db-service"
+import { compareMovies } from "./movie-pages"
+import type { Recommendation, RecommendationEngine } from "./recommendations"
+
+// Everything the "For you" feed learns from, across all users so that people
+// with similar taste can be found
+export interface FeedSignals {
+  favorites: Favorite[]
+  reviews: Review[]
+  // Movies this user marked "not interested"
+  dismissed: string[]
+}
+
+// How much content similarity counts against what similar users liked
+const CONTENT_SHARE = 0.6
+// Most similar users whose ratings are used
+const NEIGHBOR_COUNT = 20
+// Candidates taken from each source before blending
+const CANDIDATE_COUNT = 100
+// Damps predictions backed by few or barely similar users
+const SHRINKAGE = 1
+
+// How much a user likes each movie they've favorited or reviewed, from -1 to
+// 1. Reviews are 1 to 5 stars with 3 as neutral; a favorite counts as a like
+// unless a review says otherwise.
+export function preferences(
+  userId: string,
+  { favorites, reviews }: Omit<FeedSignals, "dismissed">,
+): Map<string, number> {
+  const liked = new Map<string, number>()
+  favorites.filter((fav) => fav.user_id === userId).forEach((fav) => liked.set(fav.movie_id, 1))
+  reviews
+    .filter((review) => review.user_id === userId)
+    .forEach((review) => liked.set(review.movie_id, (review.rating - 3) / 2))
+  return liked
+}
+
+// The user's taste: their preferences, with dismissed movies counting against
+// similar ones
+export function tasteProfile(userId: string, signals: FeedSignals): Map<string, number> {
+  const taste = preferences(userId, signals)
+  signals.dismissed.forEach((movieId) => {
+    if (!taste.has(movieId)) taste.set(movieId, -0.5)
+  })
+  return taste
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0
+  a.forEach((value, key) => {
+    dot += value * (b.get(key) ?? 0)
+  })
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0))
+  const norms = norm(a) * norm(b)
+  return norms === 0 ? 0 : dot / norms
+}
+
+// Predicted preference, -1 to 1, for movies the most similar users have
+// rated, with how many of them liked each one
+export function collaborativeScores(
+  userId: string,
+  signals: Omit<FeedSignals, "dismissed">,
+): Map<string, { score: number; likedBy: number }> {
+  const mine = preferences(userId, signals)
+  const otherUsers = new Set(
+    [...signals.favorites, ...signals.reviews].map((entry) => entry.user_id).filter((id) => id !== userId),
+  )
+
+  const neighbors = Array.from(otherUsers, (otherId) => {
+    const theirs = preferences(otherId, signals)
+    return { theirs, similarity: cosine(mine, theirs) }
+  })
+    .filter(({ similarity }) => similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, NEIGHBOR_COUNT)
+
+  const totals = new Map<string, { weighted: number; similarity: number; likedBy: number }>()
+  neighbors.forEach(({ theirs, similarity }) =>
+    theirs.forEach((preference, movieId) => {
+      const total = totals.get(movieId) ?? { weighted: 0, similarity: 0, likedBy: 0 }
+      total.weighted += similarity * preference
+      total.similarity += similarity
+      if (preference > 0) total.likedBy++
+      totals.set(movieId, total)
+    }),
+  )
+
+  const scores = new Map<string, { score: number; likedBy: number }>()
+  totals.forEach(({ weighted, similarity, likedBy }, movieId) =>
+    scores.set(movieId, { score: weighted / (similarity + SHRINKAGE), likedBy }),
+  )
+  return scores
+}
+
+// The user's personalized feed: movies like the ones they enjoyed, blended
+// with what users of similar taste enjoyed. Movies they've already favorited,
+// reviewed or dismissed never appear.
+export function forYouFeed(
+  engine: RecommendationEngine,
+  userId: string,
+  signals: FeedSignals,
+  limit = 12,
+): Recommendation[] {
+  const taste = tasteProfile(userId, signals)
+  if (taste.size === 0) return []
+
+  const seen = new Set(taste.keys())
+  const content = new Map(
+    engine.similarToProfile(taste, seen, CANDIDATE_COUNT).map((recommendation) => [
+      recommendation.movie.movie_id,
+      recommendation,
+    ]),
+  )
+  const collaborative = collaborativeScores(userId, signals)
+
+  const candidates = new Set([
+    ...content.keys(),
+    ...Array.from(collaborative)
+      .filter(([movieId, { score }]) => score > 0 && !seen.has(movieId) && engine.has(movieId))
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, CANDIDATE_COUNT)
+      .map(([movieId]) => movieId),
+  ])
+  const likedIds = Array.from(taste)
+    .filter(([, preference]) => preference > 0)
+    .map(([movieId]) => movieId)
+
+  const byRating = compareMovies("rating")
+  return Array.from(candidates, (movieId) => {
+    const fromContent = content.get(movieId)
+    const fromUsers = collaborative.get(movieId)
+    return {
+      movie: fromContent?.movie ?? engine.movie(movieId)!,
+      score: CONTENT_SHARE * (fromContent?.score ?? 0) + (1 - CONTENT_SHARE) * (fromUsers?.score ?? 0),
+      fromContent,
+      fromUsers,
+    }
+  })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || byRating(a.movie, b.movie))
+    .slice(0, Math.max(0, limit))
+    .map(({ movie, score, fromContent, fromUsers }) => {
+      // The liked movie it resembles most, to say "because you liked ..."
+      const closest = fromContent
+        ? likedIds
+            .map((likedId) => ({ likedId, similarity: engine.similarity(movie.movie_id, likedId) }))
+            .sort((a, b) => b.similarity - a.similarity)[0]
+        : undefined
+      const reasons = [
+        closest && closest.similarity > 0 && `because you liked ${engine.movie(closest.likedId)!.movie_name}`,
+        fromUsers &&
+          fromUsers.likedBy > 0 &&
+          `liked by ${fromUsers.likedBy} ${fromUsers.likedBy === 1 ? "person" : "people"} with similar taste`,
+        ...(fromContent?.reasons ?? []),
+      ].filter((reason): reason is string => Boolean(reason))
+      return { movie, score, reasons }
+    })
+}
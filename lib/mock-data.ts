@@ -496,3 +496,18 @@ export const mockAwardData = [
     movie_id: 5,
   },
 ]
+
+// The award and review data sets refer to movies by their mockMovieData id.
+// An imported catalog may reuse those ids for other films, so a movie is
+// matched on title and release year instead.
+function titleKey(name: string, year: number): string {
+  return `${name.trim().toLowerCase()}|${year}`
+}
+
+const MOCK_MOVIE_KEYS = new Map(
+  mockMovieData.map((movie) => [movie.movie_id, titleKey(movie.movie_name, movie.title_year)]),
+)
+
+export function isMockMovie(mockMovieId: number, movie: { movie_name: string; release_year: number }): boolean {
+  return MOCK_MOVIE_KEYS.get(mockMovieId) === titleKey(movie.movie_name, movie.release_year)
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { awardsForMovie } from "./awards"
+import type { Movie } from "./db-service"
+import { DEFAULT_FILTERS, filterViewQuery, readFilterView, type MovieFilters } from "./filter-params"
+import { initialMovies } from "./movie-catalog"
+import { catalogFilterLookups, filterMovies } from "./movie-filters"
+import { MovieSearchIndex } from "./search/movie-index"
+
+const searchIndex = new MovieSearchIndex()
+searchIndex.putAll(initialMovies)
+const lookups = catalogFilterLookups(initialMovies, searchIndex)
+
+const wonBestPicture = (movie: Movie) =>
+  awardsForMovie(movie).some((award) => award.name === "Academy Award for Best Picture" && award.outcome === "won")
+
+// Each exclusion, with the movies it should leave out
+const EXCLUSIONS: [Partial<MovieFilters>, (movie: Movie) => boolean][] = [
+  [{ excludedGenres: ["Crime"] }, (movie) => movie.genre.split("|").includes("Crime")],
+  [{ excludedCertifications: ["R"] }, (movie) => movie.movie_certification === "R"],
+  [{ excludedDirectors: ["christopher-nolan"] }, (movie) => movie.director_name.includes("Christopher Nolan")],
+  [{ excludedActors: ["morgan-freeman"] }, (movie) => movie.actors.includes("Morgan Freeman")],
+  [{ excludedAwards: ["Academy Award for Best Picture"] }, wonBestPicture],
+  [{ excludedLanguages: ["english"] }, (movie) => movie.language === "English"],
+  [{ excludedCountries: ["USA", "UK"] }, (movie) => ["USA", "UK"].includes(movie.country)],
+]
+
+describe("filterMovies", () => {
+  it.each(EXCLUSIONS)("leaves out %j", (exclusion, excluded) => {
+    const filters = { ...DEFAULT_FILTERS, ...exclusion }
+    const { movies } = filterMovies(initialMovies, { query: "", filters }, lookups)
+
+    const expected = initialMovies.filter((movie) => !excluded(movie))
+    expect(expected.length).toBeLessThan(initialMovies.length)
+    expect(movies.map((movie) => movie.movie_id)).toEqual(expected.map((movie) => movie.movie_id))
+  })
+
+  it("combines a chosen value with exclusions", () => {
+    const filters = { ...DEFAULT_FILTERS, country: "USA", excludedActors: ["morgan-freeman"] }
+    const { movies } = filterMovies(initialMovies, { query: "", filters }, lookups)
+
+    expect(movies.length).toBeGreaterThan(0)
+    expect(movies.every((movie) => movie.country === "USA" && !movie.actors.includes("Morgan Freeman"))).toBe(true)
+  })
+
+  it("keeps exclusions in the URL", () => {
+    const filters = Object.assign({ ...DEFAULT_FILTERS }, ...EXCLUSIONS.map(([exclusion]) => exclusion))
+    expect(readFilterView(new URLSearchParams(filterViewQuery({ filters }))).filters).toEqual(filters)
+  })
+})
@@ -0,0 +1,168 @@
+import { awardsForMovie } from "./awards"
+import type { Award, Credit, Movie } from "./db-service"
+import type { MovieFilterView, MovieSortKey, NumberRange } from "./filter-params"
+import { compareMovies } from "./movie-pages"
+import { creditsForMovie, splitNames } from "./people"
+import type { MovieSearchIndex, SearchHit } from "./search/movie-index"
+
+// What the dashboard filters look up besides the movies themselves
+export interface FilterLookups {
+  searchIndex: MovieSearchIndex
+  // Movie ids per credit, keyed by "role:personId"
+  creditedMovies: Map<string, Set<string>>
+  // Movie ids that won each award, keyed by award name
+  awardWinners: Map<string, Set<string>>
+}
+
+export function creditedMovieIds(credits: Credit[]): Map<string, Set<string>> {
+  const creditMap = new Map<string, Set<string>>()
+  credits.forEach((credit) => {
+    const key = `${credit.role}:${credit.person_id}`
+    if (!creditMap.has(key)) creditMap.set(key, new Set())
+    creditMap.get(key)!.add(credit.movie_id)
+  })
+  return creditMap
+}
+
+export function awardWinnerIds(awards: Award[]): Map<string, Set<string>> {
+  const winnerMap = new Map<string, Set<string>>()
+  awards
+    .filter((award) => award.outcome === "won")
+    .forEach((award) => {
+      if (!winnerMap.has(award.name)) winnerMap.set(award.name, new Set())
+      winnerMap.get(award.name)!.add(award.movie_id)
+    })
+  return winnerMap
+}
+
+// Lookups for a server store, which keeps no credits or awards of its own
+export function catalogFilterLookups(movies: Movie[], searchIndex: MovieSearchIndex): FilterLookups {
+  return {
+    searchIndex,
+    creditedMovies: creditedMovieIds(movies.flatMap((movie) => creditsForMovie(movie).credits)),
+    awardWinners: awardWinnerIds(movies.flatMap(awardsForMovie)),
+  }
+}
+
+function isSet(value: string): boolean {
+  return value !== "" && value !== "all"
+}
+
+function inRange(value: number, { min, max }: NumberRange): boolean {
+  return (min === null || value >= min) && (max === null || value <= max)
+}
+
+function movieGenres(movie: Movie): Set<string> {
+  return new Set(splitNames(movie.genre).map((genre) => genre.toLowerCase()))
+}
+
+// Movies matching the search text and every filter, with the search hits
+// that ranking and highlighting need
+export function filterMovies(
+  movies: Movie[],
+  { query, filters }: Pick<MovieFilterView, "query" | "filters">,
+  { searchIndex, creditedMovies, awardWinners }: FilterLookups,
+): { movies: Movie[]; hits: Map<string, SearchHit> } {
+  let results = [...movies]
+
+  // Apply text search
+  const hits = new Map<string, SearchHit>()
+  if (query.trim()) {
+    searchIndex.search(query, { prefix: true }).forEach((hit) => hits.set(hit.movieId, hit))
+    results = results.filter((movie) => hits.has(movie.movie_id))
+  }
+
+  // Apply genre filters: any or all of the chosen genres, none of the excluded ones
+  if (filters.genres.length > 0 || filters.excludedGenres.length > 0) {
+    const wanted = filters.genres.map((genre) => genre.toLowerCase())
+    const excluded = filters.excludedGenres.map((genre) => genre.toLowerCase())
+    results = results.filter((movie) => {
+      const genres = movieGenres(movie)
+      if (excluded.some((genre) => genres.has(genre))) return false
+      if (wanted.length === 0) return true
+      return filters.genreMatch === "all"
+        ? wanted.every((genre) => genres.has(genre))
+        : wanted.some((genre) => genres.has(genre))
+    })
+  }
+
+  // Apply certification filters
+  if (filters.certifications.length > 0) {
+    const certifications = new Set(filters.certifications.map((certification) => certification.toLowerCase()))
+    results = results.filter((movie) => certifications.has((movie.movie_certification || "").toLowerCase()))
+  }
+  if (filters.excludedCertifications.length > 0) {
+    const excluded = new Set(filters.excludedCertifications.map((certification) => certification.toLowerCase()))
+    results = results.filter((movie) => !excluded.has((movie.movie_certification || "").toLowerCase()))
+  }
+
+  // Apply year, duration and budget ranges
+  results = results.filter(
+    (movie) =>
+      inRange(movie.release_year, filters.year) &&
+      inRange(movie.movie_duration, filters.duration) &&
+      inRange(movie.budget, filters.budget),
+  )
+
+  // Apply director filter
+  if (isSet(filters.director)) {
+    const movieIds = creditedMovies.get(`director:${filters.director}`) ?? new Set()
+    results = results.filter((movie) => movieIds.has(movie.movie_id))
+  }
+
+  // Apply actor filter
+  if (isSet(filters.actor)) {
+    const movieIds = creditedMovies.get(`actor:${filters.actor}`) ?? new Set()
+    results = results.filter((movie) => movieIds.has(movie.movie_id))
+  }
+
+  // Apply award filter
+  if (isSet(filters.award)) {
+    const movieIds = awardWinners.get(filters.award) ?? new Set()
+    results = results.filter((movie) => movieIds.has(movie.movie_id))
+  }
+
+  // Leave out movies by the excluded people or with the excluded awards
+  const excludedIds = new Set([
+    ...filters.excludedDirectors.flatMap((personId) => Array.from(creditedMovies.get(`director:${personId}`) ?? [])),
+    ...filters.excludedActors.flatMap((personId) => Array.from(creditedMovies.get(`actor:${personId}`) ?? [])),
+    ...filters.excludedAwards.flatMap((award) => Array.from(awardWinners.get(award) ?? [])),
+  ])
+  if (excludedIds.size > 0) results = results.filter((movie) => !excludedIds.has(movie.movie_id))
+
+  // Apply rating filter
+  results = results.filter((movie) => {
+    const rating = movie.imdb_score
+    return rating >= filters.minRating && rating <= filters.maxRating
+  })
+
+  // Apply language filter
+  if (isSet(filters.language)) {
+    results = results.filter((movie) => movie.language.toLowerCase() === filters.language.toLowerCase())
+  }
+
+  // Apply country filter
+  if (isSet(filters.country)) {
+    results = results.filter((movie) => movie.country.toLowerCase() === filters.country.toLowerCase())
+  }
+
+  // Leave out the excluded languages and countries
+  if (filters.excludedLanguages.length > 0 || filters.excludedCountries.length > 0) {
+    const languages = new Set(filters.excludedLanguages.map((language) => language.toLowerCase()))
+    const countries = new Set(filters.excludedCountries.map((country) => country.toLowerCase()))
+    results = results.filter(
+      (movie) =>
+        !languages.has((movie.language || "").toLowerCase()) && !countries.has((movie.country || "").toLowerCase()),
+    )
+  }
+
+  return { movies: results, hits }
+}
+
+export function sortMovies(movies: Movie[], sort: MovieSortKey, hits: Map<string, SearchHit>): Movie[] {
+  if (sort !== "relevance") return [...movies].sort(compareMovies(sort))
+  if (hits.size === 0) return [...movies].sort(compareMovies("rating"))
+
+  const byRating = compareMovies("rating")
+  return [...movies].sort((a, b) => hits.get(b.movie_id)!.score - hits.get(a.movie_id)!.score || byRating(a, b))
+}
@@ -0,0 +1,264 @@
+import type { Movie } from "./db-service"
+import { findColumn, MOVIES_TABLE, type ColumnDefinition } from "./sql/schema"
+import type { MovieRepository } from "./storage/types"
+
+export type ImportFormat = "csv" | "json"
+
+// "upsert" adds new movies and overwrites ones with the same movie_id,
+// "replace" swaps the existing catalog for the file's movies, and only when
+// every row of the file is valid
+export type ImportMode = "upsert" | "replace"
+
+export interface ImportRowError {
+  // 1-based record number, counting the CSV header as row 1
+  row: number
+  movieId?: string
+  message: string
+}
+
+export interface ParsedCatalog {
+  movies: Movie[]
+  errors: ImportRowError[]
+}
+
+export interface ImportOptions {
+  format?: ImportFormat
+  mode?: ImportMode
+  batchSize?: number
+  onProgress?: (imported: number, total: number) => void
+}
+
+export interface ImportResult {
+  imported: number
+  // Imported movies the catalog didn't have before
+  addedIds: string[]
+  errors: ImportRowError[]
+}
+
+const REQUIRED_COLUMNS = ["movie_id", "movie_name", "release_year", "imdb_score"]
+
+// Sanity limits for numeric columns, inclusive
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  movie_duration: [0, 1000],
+  budget: [0, Number.MAX_SAFE_INTEGER],
+  release_year: [1870, 2100],
+  imdb_score: [0, 10],
+}
+
+const DEFAULT_BATCH_SIZE = 500
+
+export function detectFormat(text: string, fileName?: string): ImportFormat {
+  if (fileName?.toLowerCase().endsWith(".json")) return "json"
+  if (fileName?.toLowerCase().endsWith(".csv")) return "csv"
+  return text.trimStart().startsWith("[") ? "json" : "csv"
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) throw new Error("CSV file ends inside a quoted field")
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  // Drop blank lines
+  return records.filter((r) => r.length > 1 || r[0].trim() !== "")
+}
+
+function convertValue(column: ColumnDefinition, raw: unknown): { value?: string | number; error?: string } {
+  if (raw === undefined || raw === null || (typeof raw === "string" && raw.trim() === "")) {
+    if (REQUIRED_COLUMNS.includes(column.name)) return { error: `${column.name} is required` }
+    if (column.optional) return {}
+    return { value: column.type === "number" ? 0 : "" }
+  }
+
+  if (column.type === "number") {
+    const value = typeof raw === "number" ? raw : Number(String(raw).trim())
+    if (!Number.isFinite(value)) return { error: `${column.name} must be a number, got "${raw}"` }
+
+    const range = NUMBER_RANGES[column.name]
+    if (range && (value < range[0] || value > range[1])) {
+      return { error: `${column.name} must be between ${range[0]} and ${range[1]}, got ${value}` }
+    }
+    if (column.name === "release_year" && !Number.isInteger(value)) {
+      return { error: `release_year must be a whole number, got ${value}` }
+    }
+    return { value }
+  }
+
+  // JSON files may give list columns as arrays
+  if (column.multiValued && Array.isArray(raw)) {
+    return { value: raw.map((item) => String(item).trim()).filter(Boolean).join("|") }
+  }
+  if (typeof raw === "object") return { error: `${column.name} must be a string` }
+
+  const value = String(raw).trim()
+  if (!column.multiValued) return { value }
+  return { value: value.split("|").map((item) => item.trim()).filter(Boolean).join("|") }
+}
+
+function toMovie(record: Record<string, unknown>, row: number, errors: ImportRowError[]): Movie | null {
+  const movie: Record<string, string | number> = {}
+  const movieId = String(record.movie_id ?? "").trim() || undefined
+  let valid = true
+
+  for (const column of MOVIES_TABLE.columns) {
+    const { value, error } = convertValue(column, record[column.name])
+    if (error) {
+      errors.push({ row, movieId, message: error })
+      valid = false
+    } else if (value !== undefined) {
+      movie[column.name] = value
+    }
+  }
+
+  // Ids are always stored as strings, even when the file has numbers
+  if (valid) movie.movie_id = String(movie.movie_id)
+  return valid ? (movie as unknown as Movie) : null
+}
+
+// Parse and validate a catalog file. Rows that fail validation are reported
+// in errors and left out of movies; a file that cannot be read at all throws.
+export function parseMovieFile(text: string, format: ImportFormat = detectFormat(text)): ParsedCatalog {
+  const records: { row: number; record: Record<string, unknown> | null }[] = []
+
+  if (format === "json") {
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    if (!Array.isArray(data)) throw new Error("JSON file must contain an array of movies")
+
+    data.forEach((item, index) => {
+      const isObject = item !== null && typeof item === "object" && !Array.isArray(item)
+      records.push({ row: index + 1, record: isObject ? (item as Record<string, unknown>) : null })
+    })
+  } else {
+    const [header, ...rows] = parseCsv(text)
+    if (!header) throw new Error("CSV file is empty")
+
+    // Map CSV columns to movie columns, ignoring any we don't know
+    const columns = header.map((name) => findColumn(MOVIES_TABLE, name.trim())?.name)
+    const missing = REQUIRED_COLUMNS.filter((name) => !columns.includes(name))
+    if (missing.length > 0) throw new Error(`CSV header is missing required columns: ${missing.join(", ")}`)
+
+    rows.forEach((values, index) => {
+      const record: Record<string, unknown> = {}
+      columns.forEach((name, position) => {
+        if (name) record[name] = values[position]
+      })
+      records.push({ row: index + 2, record })
+    })
+  }
+
+  const movies: Movie[] = []
+  const errors: ImportRowError[] = []
+  const seen = new Map<string, number>()
+
+  for (const { row, record } of records) {
+    if (!record) {
+      errors.push({ row, message: "Expected a movie object" })
+      continue
+    }
+
+    const movie = toMovie(record, row, errors)
+    if (!movie) continue
+
+    const firstRow = seen.get(movie.movie_id)
+    if (firstRow !== undefined) {
+      errors.push({ row, movieId: movie.movie_id, message: `Duplicate movie_id, first seen in row ${firstRow}` })
+      continue
+    }
+    seen.set(movie.movie_id, row)
+    movies.push(movie)
+  }
+
+  return { movies, errors }
+}
+
+// Parse a catalog file and write the valid movies to a store in batches,
+// yielding between batches so a large import doesn't block the page. A
+// replace is written in one go, so the catalog is never left half replaced.
+export async function importMovies(
+  store: MovieRepository,
+  text: string,
+  options: ImportOptions = {},
+): Promise<ImportResult> {
+  const { format = detectFormat(text), mode = "upsert", batchSize = DEFAULT_BATCH_SIZE, onProgress } = options
+  const { movies, errors } = parseMovieFile(text, format)
+
+  if (movies.length === 0) {
+    // Never clear the catalog for a file without a single usable row
+    if (mode === "replace") throw new Error("The file has no valid movies, the catalog was left unchanged")
+    return { imported: 0, addedIds: [], errors }
+  }
+  // Replacing would drop the movies of the rows that failed along with the old catalog
+  if (mode === "replace" && errors.length > 0) return { imported: 0, addedIds: [], errors }
+
+  const existing = new Map((await store.getAllMovies()).map((movie) => [movie.movie_id, movie]))
+  const addedIds = movies.map((movie) => movie.movie_id).filter((movieId) => !existing.has(movieId))
+
+  // Updated movies keep the date they were first added
+  const now = new Date().toISOString()
+  movies.forEach((movie) => {
+    movie.added_at = existing.get(movie.movie_id)?.added_at ?? now
+  })
+
+  if (mode === "replace") {
+    await store.replaceMovies(movies)
+    onProgress?.(movies.length, movies.length)
+    return { imported: movies.length, addedIds, errors }
+  }
+
+  let imported = 0
+  for (let start = 0; start < movies.length; start += batchSize) {
+    const batch = movies.slice(start, start + batchSize)
+    await store.putMovies(batch)
+    imported += batch.length
+    onProgress?.(imported, movies.length)
+    await new Promise((resolve) => setTimeout(resolve, 0))
+  }
+
+  return { imported, addedIds, errors }
+}
@@ -0,0 +1,91 @@
+import type { Movie } from "./db-service"
+
+// Orders the catalog can be paged in. Each has one direction: highest,
+// newest or longest first, except titles which go A to Z.
+export type CatalogSortKey = "rating" | "year" | "duration" | "budget" | "title" | "added"
+
+export const CATALOG_SORT_KEYS: CatalogSortKey[] = ["rating", "year", "duration", "budget", "title", "added"]
+
+export const DEFAULT_PAGE_SIZE = 30
+
+// Either an offset or the cursor from the previous page. A cursor resumes
+// after the last movie that page showed, so movies added or removed before
+// it don't shift the next page.
+export interface PageRequest {
+  limit?: number
+  offset?: number
+  cursor?: string | null
+}
+
+export interface MoviePage {
+  movies: Movie[]
+  total: number
+  offset: number
+  // Null on the last page
+  nextCursor: string | null
+}
+
+export interface Cursor {
+  after: string
+  offset: number
+}
+
+const SORT_VALUES: Record<Exclude<CatalogSortKey, "title" | "added">, (movie: Movie) => number> = {
+  rating: (movie) => movie.imdb_score,
+  year: (movie) => movie.release_year,
+  duration: (movie) => movie.movie_duration,
+  budget: (movie) => movie.budget,
+}
+
+// Ties go by title, then id, so every order is total and pages never overlap
+function compareTitles(a: Movie, b: Movie): number {
+  return a.movie_name.localeCompare(b.movie_name) || (a.movie_id < b.movie_id ? -1 : a.movie_id > b.movie_id ? 1 : 0)
+}
+
+export function compareMovies(sort: CatalogSortKey): (a: Movie, b: Movie) => number {
+  if (sort === "title") return compareTitles
+  if (sort === "added") {
+    // Movies from before added_at was recorded count as the oldest
+    return (a, b) => (b.added_at ?? "").localeCompare(a.added_at ?? "") || compareTitles(a, b)
+  }
+  const value = SORT_VALUES[sort]
+  return (a, b) => (value(b) || 0) - (value(a) || 0) || compareTitles(a, b)
+}
+
+export function sortCatalog(movies: Movie[], sort: CatalogSortKey): Movie[] {
+  return [...movies].sort(compareMovies(sort))
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return JSON.stringify(cursor)
+}
+
+export function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(value) as Cursor
+    if (typeof cursor.after === "string" && Number.isInteger(cursor.offset) && cursor.offset >= 0) return cursor
+  } catch {
+    // Reported below
+  }
+  throw new Error("Invalid page cursor")
+}
+
+// One page of an already ordered list
+export function paginate(movies: Movie[], { limit = DEFAULT_PAGE_SIZE, offset = 0, cursor }: PageRequest): MoviePage {
+  let start = Math.max(0, offset)
+  if (cursor) {
+    const { after, offset: fallback } = decodeCursor(cursor)
+    const position = movies.findIndex((movie) => movie.movie_id === after)
+    // The last movie shown is gone: carry on from where it was
+    start = position >= 0 ? position + 1 : fallback
+  }
+
+  const page = movies.slice(start, start + Math.max(1, limit))
+  const end = start + page.length
+  return {
+    movies: page,
+    total: movies.length,
+    offset: start,
+    nextCursor: end < movies.length ? encodeCursor({ after: page[page.length - 1].movie_id, offset: end }) : null,
+  }
+}
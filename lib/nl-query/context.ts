@@ -0,0 +1,183 @@
+import {
+  ASCENDING_WORDS,
+  BROADEN_WORDS,
+  FIELD_NAMES,
+  INCLUDE_WORDS,
+  REFERENCE_WORDS,
+  SORT_VERBS,
+  STOP_WORDS,
+  UNDO_PHRASES,
+} from "./lexicon"
+import { tokenize, type Token } from "./tokenizer"
+import type { MovieQuery, NumericField, QueryCondition, RangeCondition } from "./types"
+
+// How a chat message relates to the search before it
+export type FollowUpKind = "new" | "refine" | "broaden" | "sort"
+
+export interface FollowUp {
+  kind: FollowUpKind
+  query: MovieQuery
+}
+
+type FieldName = (typeof FIELD_NAMES)[string]
+
+const NUMERIC_FIELD_NAMES = new Set<FieldName>(["release_year", "imdb_score", "movie_duration", "budget"])
+
+function words(tokens: Token[]): string {
+  return tokens.map((token) => token.value).join(" ")
+}
+
+// "or" and "plus" join values inside a query, so they only mean "include"
+// when they open the message
+function isIncludeWord(token: Token, index: number): boolean {
+  if (!INCLUDE_WORDS.has(token.value)) return false
+  return index === 0 || (token.value !== "or" && token.value !== "plus")
+}
+
+export function isUndoRequest(message: string): boolean {
+  const text = words(tokenize(message).filter((token) => token.type !== "symbol"))
+  return UNDO_PHRASES.includes(text)
+}
+
+// The field named after position `from`, skipping filler like "the"
+function fieldNameAt(tokens: Token[], from: number): FieldName | undefined {
+  for (let i = from; i < tokens.length; i++) {
+    const value = tokens[i].value
+    if (value in FIELD_NAMES) return FIELD_NAMES[value]
+    if (!STOP_WORDS.has(value) && !REFERENCE_WORDS.has(value)) return undefined
+  }
+  return undefined
+}
+
+// "sort those by rating", "order them by year, oldest first"
+function resolveSort(tokens: Token[], previous: MovieQuery): MovieQuery | undefined {
+  const verb = tokens.findIndex((token) => SORT_VERBS.has(token.value))
+  if (verb === -1) return undefined
+  const by = tokens.findIndex((token, i) => i > verb && token.value === "by")
+  const field = by === -1 ? undefined : fieldNameAt(tokens, by + 1)
+  if (!field || !NUMERIC_FIELD_NAMES.has(field)) return undefined
+
+  const direction = tokens.some((token) => ASCENDING_WORDS.has(token.value)) ? "asc" : "desc"
+  return { ...previous, sort: { field: field as NumericField, direction }, confidence: 1, unmatched: [] }
+}
+
+// "any year", "forget the genre", "drop the sort"
+function resolveBroaden(tokens: Token[], previous: MovieQuery): MovieQuery | undefined {
+  const fields = new Set<FieldName>()
+  tokens.forEach((token, i) => {
+    if (!BROADEN_WORDS.has(token.value)) return
+    const field = fieldNameAt(tokens, i + 1)
+    if (field) fields.add(field)
+  })
+  if (fields.size === 0) return undefined
+
+  return {
+    ...previous,
+    conditions: previous.conditions.filter((condition) => !fields.has(condition.field)),
+    sort: fields.has("sort") ? undefined : previous.sort,
+    limit: fields.has("limit") ? undefined : previous.limit,
+    confidence: 1,
+    unmatched: [],
+  }
+}
+
+// Widen a range so it also covers another one
+function coverRanges(a: RangeCondition, b: RangeCondition): RangeCondition {
+  const min = a.min === undefined || b.min === undefined ? undefined : Math.min(a.min, b.min)
+  const max = a.max === undefined || b.max === undefined ? undefined : Math.max(a.max, b.max)
+  return { ...a, min, max, minInclusive: true, maxInclusive: true }
+}
+
+// Narrow a range to where both overlap
+function intersectRanges(a: RangeCondition, b: RangeCondition): RangeCondition {
+  const range = { ...a }
+  if (b.min !== undefined && (range.min === undefined || b.min >= range.min)) {
+    range.minInclusive = b.min === range.min ? range.minInclusive && b.minInclusive : b.minInclusive
+    range.min = b.min
+  }
+  if (b.max !== undefined && (range.max === undefined || b.max <= range.max)) {
+    range.maxInclusive = b.max === range.max ? range.maxInclusive && b.maxInclusive : b.maxInclusive
+    range.max = b.max
+  }
+  return range
+}
+
+// "also include comedies": OR the new values into the matching filter
+function includeConditions(previous: QueryCondition[], added: QueryCondition[]): QueryCondition[] {
+  const conditions = [...previous]
+  for (const condition of added) {
+    const index = conditions.findIndex(
+      (existing) => existing.field === condition.field && (existing.kind === "range" || !existing.negated),
+    )
+    const existing = conditions[index]
+    if (!existing) {
+      conditions.push(condition)
+    } else if (existing.kind === "range" && condition.kind === "range") {
+      conditions[index] = coverRanges(existing, condition)
+    } else if (existing.kind === "text" && condition.kind === "text") {
+      const values = Array.from(new Set([...existing.values, ...condition.values]))
+      conditions[index] = { ...existing, values, mode: "any" }
+    }
+  }
+  return conditions
+}
+
+// "only the ones from the 90s": AND the new filters onto the old ones, or
+// swap them out when the message says "instead"
+function refineConditions(previous: QueryCondition[], added: QueryCondition[], replace: boolean): QueryCondition[] {
+  const replaced = new Set(added.map((condition) => condition.field))
+  const conditions = replace ? previous.filter((condition) => !replaced.has(condition.field)) : [...previous]
+
+  for (const condition of added) {
+    const index = conditions.findIndex((existing) => existing.kind === "range" && existing.field === condition.field)
+    if (condition.kind === "range" && index !== -1) {
+      conditions[index] = intersectRanges(conditions[index] as RangeCondition, condition)
+    } else if (!conditions.some((existing) => JSON.stringify(existing) === JSON.stringify(condition))) {
+      conditions.push(condition)
+    }
+  }
+  return conditions
+}
+
+// Work out what a chat message asks for given the search before it. Messages
+// that don't refer back to the previous results start a new search.
+export function resolveFollowUp(
+  message: string,
+  previous: MovieQuery | null,
+  parse: (text: string) => MovieQuery,
+): FollowUp {
+  if (!previous) return { kind: "new", query: parse(message) }
+
+  const tokens = tokenize(message)
+  const sorted = resolveSort(tokens, previous)
+  if (sorted) return { kind: "sort", query: sorted }
+
+  const broadened = resolveBroaden(tokens, previous)
+  if (broadened) return { kind: "broaden", query: broadened }
+
+  const refersBack = tokens.some((token) => REFERENCE_WORDS.has(token.value))
+  const includes = tokens.some(isIncludeWord)
+  if (!refersBack && !includes) return { kind: "new", query: parse(message) }
+
+  // Parse what's left once the words pointing back are gone
+  const rest = tokens.filter((token, i) => !REFERENCE_WORDS.has(token.value) && !isIncludeWord(token, i))
+  const added = parse(rest.map((token) => token.text).join(" "))
+  const understood = added.confidence > 0.3 && (added.conditions.length > 0 || added.sort || added.limit)
+  if (!understood) return { kind: "new", query: parse(message) }
+
+  const base = {
+    sort: added.sort ?? previous.sort,
+    limit: added.limit ?? previous.limit,
+    confidence: added.confidence,
+    unmatched: added.unmatched,
+  }
+  if (includes) {
+    return { kind: "broaden", query: { ...base, conditions: includeConditions(previous.conditions, added.conditions) } }
+  }
+
+  const replace = tokens.some((token) => token.value === "instead")
+  return {
+    kind: "refine",
+    query: { ...base, conditions: refineConditions(previous.conditions, added.conditions, replace) },
+  }
+}
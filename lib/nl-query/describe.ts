@@ -0,0 +1,105 @@
+import type { MovieQuery, NumericField, QueryCondition, RangeCondition, TextField } from "./types"
+
+export const FIELD_LABELS: Record<TextField | NumericField, string> = {
+  movie_name: "Title",
+  genre: "Genre",
+  director_name: "Director",
+  actors: "Actor",
+  producer_name: "Producer",
+  language: "Language",
+  country: "Country",
+  plot_keyword: "Keyword",
+  movie_certification: "Certification",
+  release_year: "Year",
+  imdb_score: "Rating",
+  movie_duration: "Runtime",
+  budget: "Budget",
+}
+
+export function formatFieldValue(field: NumericField, value: number): string {
+  switch (field) {
+    case "budget":
+      if (value >= 1e9) return `$${+(value / 1e9).toFixed(1)}B`
+      if (value >= 1e6) return `$${+(value / 1e6).toFixed(1)}M`
+      return `$${value.toLocaleString()}`
+    case "movie_duration": {
+      const hours = Math.floor(value / 60)
+      const minutes = Math.round(value % 60)
+      if (hours === 0) return `${minutes} min`
+      return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`
+    }
+    case "imdb_score":
+      return value.toFixed(1)
+    case "release_year":
+      return String(value)
+  }
+}
+
+// Short label for a filter chip, e.g. "Year: 1990–2000" or "Not Genre: Horror"
+export function describeCondition(condition: QueryCondition): string {
+  const label = FIELD_LABELS[condition.field]
+
+  if (condition.kind === "text") {
+    const values = condition.values.join(condition.mode === "any" ? " or " : " and ")
+    return `${condition.negated ? "Not " : ""}${label}: ${values}`
+  }
+
+  const { field, min, max, minInclusive, maxInclusive } = condition
+  if (min !== undefined && max !== undefined) {
+    if (min === max) return `${label}: ${formatFieldValue(field, min)}`
+    return `${label}: ${formatFieldValue(field, min)}–${formatFieldValue(field, max)}`
+  }
+  if (min !== undefined) return `${label}: ${minInclusive ? "≥" : ">"} ${formatFieldValue(field, min)}`
+  return `${label}: ${maxInclusive ? "≤" : "<"} ${formatFieldValue(field, max!)}`
+}
+
+const TEXT_PHRASES: Record<TextField, string> = {
+  movie_name: "titled",
+  genre: "in the genre",
+  director_name: "directed by",
+  actors: "starring",
+  producer_name: "produced by",
+  language: "in",
+  country: "from",
+  plot_keyword: "about",
+  movie_certification: "rated",
+}
+
+const RANGE_PHRASES: Record<NumericField, { verb: string; ">": string; ">=": string; "<": string; "<=": string }> = {
+  release_year: { verb: "released", ">": "after", ">=": "in or after", "<": "before", "<=": "in or before" },
+  imdb_score: { verb: "rated", ">": "above", ">=": "at least", "<": "below", "<=": "at most" },
+  movie_duration: { verb: "running", ">": "longer than", ">=": "at least", "<": "shorter than", "<=": "at most" },
+  budget: { verb: "with a budget", ">": "over", ">=": "of at least", "<": "under", "<=": "of at most" },
+}
+
+function describeRange({ field, min, max, minInclusive, maxInclusive }: RangeCondition): string {
+  const phrases = RANGE_PHRASES[field]
+  const format = (value: number) => formatFieldValue(field, value)
+
+  if (min !== undefined && max !== undefined) {
+    if (min === max) return `${phrases.verb} ${field === "release_year" ? "in " : ""}${format(min)}`
+    return `${phrases.verb} between ${format(min)} and ${format(max)}`
+  }
+  if (min !== undefined) return `${phrases.verb} ${phrases[minInclusive ? ">=" : ">"]} ${format(min)}`
+  return `${phrases.verb} ${phrases[maxInclusive ? "<=" : "<"]} ${format(max!)}`
+}
+
+// One phrase per condition, e.g. ["in the genre Drama", "released after 2005"]
+export function describeCriteria(query: MovieQuery): string[] {
+  const criteria = query.conditions.map((condition) => {
+    if (condition.kind === "range") return describeRange(condition)
+    const values = condition.values.join(condition.mode === "any" ? " or " : " and ")
+    return `${condition.negated ? "not " : ""}${TEXT_PHRASES[condition.field]} ${values}`
+  })
+
+  if (query.sort) {
+    const order =
+      query.sort.direction === "desc"
+        ? { release_year: "newest", imdb_score: "highest rated", movie_duration: "longest", budget: "biggest budget" }
+        : { release_year: "oldest", imdb_score: "lowest rated", movie_duration: "shortest", budget: "smallest budget" }
+    criteria.push(`${order[query.sort.field]} first`)
+  }
+  if (query.limit !== undefined) criteria.push(`at most ${query.limit}`)
+
+  return criteria
+}
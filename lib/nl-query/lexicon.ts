@@ -0,0 +1,426 @@
+import type { NumericField, TextField } from "./types"
+
+// Word lists the grammar is driven by. Phrases are written as they would be
+// typed; the parser tokenizes them the same way as the query.
+
+// Filler that carries no meaning for the search
+export const STOP_WORDS = new Set([
+  "a",
+  "all",
+  "an",
+  "any",
+  "are",
+  "be",
+  "can",
+  "did",
+  "do",
+  "does",
+  "film",
+  "films",
+  "find",
+  "flick",
+  "flicks",
+  "for",
+  "get",
+  "give",
+  "good",
+  "great",
+  "have",
+  "i",
+  "is",
+  "it",
+  "like",
+  "list",
+  "looking",
+  "me",
+  "movie",
+  "movies",
+  "of",
+  "one",
+  "ones",
+  "please",
+  "recommend",
+  "search",
+  "see",
+  "show",
+  "some",
+  "something",
+  "suggest",
+  "that",
+  "the",
+  "there",
+  "to",
+  "want",
+  "was",
+  "watch",
+  "were",
+  "what",
+  "which",
+  "who",
+  "you",
+])
+
+// "10 movies" asks for a number of results rather than a score
+export const COUNT_NOUNS = new Set(["movies", "films", "flicks", "titles", "picks"])
+
+export const NEGATIONS = new Set(["not", "no", "non", "without", "except", "excluding", "exclude", "minus"])
+
+export const CONJUNCTIONS: Record<string, "all" | "any"> = {
+  and: "all",
+  "&": "all",
+  ",": "all",
+  plus: "all",
+  or: "any",
+  nor: "any",
+}
+
+// Canonical genre for each way of writing it
+export const GENRE_ALIASES: Record<string, string> = {
+  action: "Action",
+  adventure: "Adventure",
+  adventures: "Adventure",
+  animation: "Animation",
+  animated: "Animation",
+  anime: "Animation",
+  cartoon: "Animation",
+  cartoons: "Animation",
+  biography: "Biography",
+  biographical: "Biography",
+  biopic: "Biography",
+  biopics: "Biography",
+  comedy: "Comedy",
+  comedies: "Comedy",
+  funny: "Comedy",
+  crime: "Crime",
+  documentary: "Documentary",
+  documentaries: "Documentary",
+  drama: "Drama",
+  dramas: "Drama",
+  family: "Family",
+  fantasy: "Fantasy",
+  history: "History",
+  historical: "History",
+  horror: "Horror",
+  scary: "Horror",
+  music: "Music",
+  musical: "Music",
+  musicals: "Music",
+  mystery: "Mystery",
+  mysteries: "Mystery",
+  romance: "Romance",
+  romantic: "Romance",
+  romances: "Romance",
+  "sci-fi": "Sci-Fi",
+  "sci fi": "Sci-Fi",
+  scifi: "Sci-Fi",
+  "science fiction": "Sci-Fi",
+  sport: "Sport",
+  sports: "Sport",
+  thriller: "Thriller",
+  thrillers: "Thriller",
+  war: "War",
+  western: "Western",
+  westerns: "Western",
+}
+
+export const LANGUAGE_ALIASES: Record<string, string> = {
+  english: "English",
+  french: "French",
+  spanish: "Spanish",
+  german: "German",
+  italian: "Italian",
+  japanese: "Japanese",
+  korean: "Korean",
+  mandarin: "Mandarin",
+  chinese: "Mandarin",
+  cantonese: "Cantonese",
+  hindi: "Hindi",
+  russian: "Russian",
+  portuguese: "Portuguese",
+  swedish: "Swedish",
+  danish: "Danish",
+}
+
+export const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "USA",
+  us: "USA",
+  america: "USA",
+  "united states": "USA",
+  uk: "UK",
+  britain: "UK",
+  england: "UK",
+  "united kingdom": "UK",
+  france: "France",
+  germany: "Germany",
+  italy: "Italy",
+  spain: "Spain",
+  japan: "Japan",
+  korea: "South Korea",
+  "south korea": "South Korea",
+  china: "China",
+  "hong kong": "Hong Kong",
+  india: "India",
+  canada: "Canada",
+  australia: "Australia",
+  "new zealand": "New Zealand",
+  mexico: "Mexico",
+  brazil: "Brazil",
+  sweden: "Sweden",
+  denmark: "Denmark",
+}
+
+// "french movies" means movies from France. The language needs saying
+// outright: "in french", "french-language", "language french".
+export const DEMONYMS: Record<string, string> = {
+  american: "USA",
+  british: "UK",
+  french: "France",
+  german: "Germany",
+  italian: "Italy",
+  spanish: "Spain",
+  japanese: "Japan",
+  korean: "South Korea",
+  chinese: "China",
+  indian: "India",
+  bollywood: "India",
+  canadian: "Canada",
+  australian: "Australia",
+  kiwi: "New Zealand",
+  mexican: "Mexico",
+  brazilian: "Brazil",
+  swedish: "Sweden",
+  danish: "Denmark",
+}
+
+export const CERTIFICATIONS: Record<string, string> = {
+  g: "G",
+  pg: "PG",
+  "pg-13": "PG-13",
+  pg13: "PG-13",
+  r: "R",
+  "nc-17": "NC-17",
+}
+
+// Words that say which field the next value belongs to. "Soft" keywords
+// only apply when the value that follows fits the field, so "in" can lead
+// to a language ("in korean") or a year ("in 2010").
+export const FIELD_KEYWORDS: { phrase: string; field: TextField | NumericField; soft?: boolean }[] = [
+  { phrase: "directed by", field: "director_name" },
+  { phrase: "director", field: "director_name" },
+  { phrase: "directors", field: "director_name" },
+  { phrase: "by", field: "director_name", soft: true },
+  { phrase: "starring", field: "actors" },
+  { phrase: "featuring", field: "actors", soft: true },
+  { phrase: "actor", field: "actors" },
+  { phrase: "actors", field: "actors" },
+  { phrase: "actress", field: "actors" },
+  { phrase: "cast", field: "actors" },
+  { phrase: "stars", field: "actors", soft: true },
+  { phrase: "with", field: "actors", soft: true },
+  { phrase: "produced by", field: "producer_name" },
+  { phrase: "producer", field: "producer_name" },
+  { phrase: "genre", field: "genre" },
+  { phrase: "genres", field: "genre" },
+  { phrase: "language", field: "language" },
+  { phrase: "spoken in", field: "language" },
+  { phrase: "in", field: "language", soft: true },
+  { phrase: "country", field: "country" },
+  { phrase: "made in", field: "country", soft: true },
+  { phrase: "from", field: "country", soft: true },
+  { phrase: "about", field: "plot_keyword" },
+  { phrase: "involving", field: "plot_keyword" },
+  { phrase: "keyword", field: "plot_keyword" },
+  { phrase: "keywords", field: "plot_keyword" },
+  { phrase: "plot", field: "plot_keyword" },
+  { phrase: "theme", field: "plot_keyword" },
+  { phrase: "called", field: "movie_name" },
+  { phrase: "titled", field: "movie_name" },
+  { phrase: "named", field: "movie_name" },
+  { phrase: "title", field: "movie_name" },
+  { phrase: "certified", field: "movie_certification" },
+  { phrase: "certification", field: "movie_certification" },
+  { phrase: "rated", field: "imdb_score" },
+  { phrase: "rating", field: "imdb_score" },
+  { phrase: "score", field: "imdb_score" },
+  { phrase: "imdb", field: "imdb_score" },
+  { phrase: "budget", field: "budget" },
+  { phrase: "cost", field: "budget" },
+  { phrase: "costing", field: "budget" },
+  { phrase: "budgeted", field: "budget" },
+  { phrase: "long", field: "movie_duration" },
+  { phrase: "length", field: "movie_duration" },
+  { phrase: "runtime", field: "movie_duration" },
+  { phrase: "running time", field: "movie_duration" },
+  { phrase: "duration", field: "movie_duration" },
+  { phrase: "year", field: "release_year" },
+  { phrase: "released", field: "release_year" },
+  { phrase: "released in", field: "release_year" },
+  { phrase: "came out", field: "release_year" },
+  { phrase: "made", field: "release_year" },
+]
+
+export type Comparator = ">" | ">=" | "<" | "<="
+
+// Phrases that put a bound on a number. Some only make sense for one field
+// ("after" is about years, "longer than" about running time).
+export const COMPARATORS: { phrase: string; op: Comparator; field?: NumericField }[] = [
+  { phrase: ">=", op: ">=" },
+  { phrase: "<=", op: "<=" },
+  { phrase: ">", op: ">" },
+  { phrase: "<", op: "<" },
+  { phrase: "more than", op: ">" },
+  { phrase: "greater than", op: ">" },
+  { phrase: "higher than", op: ">" },
+  { phrase: "better than", op: ">", field: "imdb_score" },
+  { phrase: "above", op: ">" },
+  { phrase: "over", op: ">" },
+  { phrase: "at least", op: ">=" },
+  { phrase: "no less than", op: ">=" },
+  { phrase: "less than", op: "<" },
+  { phrase: "fewer than", op: "<" },
+  { phrase: "lower than", op: "<" },
+  { phrase: "worse than", op: "<", field: "imdb_score" },
+  { phrase: "below", op: "<" },
+  { phrase: "under", op: "<" },
+  { phrase: "at most", op: "<=" },
+  { phrase: "no more than", op: "<=" },
+  { phrase: "up to", op: "<=" },
+  { phrase: "after", op: ">", field: "release_year" },
+  { phrase: "later than", op: ">", field: "release_year" },
+  { phrase: "newer than", op: ">", field: "release_year" },
+  { phrase: "since", op: ">=", field: "release_year" },
+  { phrase: "before", op: "<", field: "release_year" },
+  { phrase: "earlier than", op: "<", field: "release_year" },
+  { phrase: "older than", op: "<", field: "release_year" },
+  { phrase: "until", op: "<=", field: "release_year" },
+  { phrase: "longer than", op: ">", field: "movie_duration" },
+  { phrase: "shorter than", op: "<", field: "movie_duration" },
+  { phrase: "cheaper than", op: "<", field: "budget" },
+  { phrase: "more expensive than", op: ">", field: "budget" },
+]
+
+// "8 or higher", "2000 and later"
+export const TRAILING_COMPARATORS: { phrase: string; op: Comparator }[] = [
+  { phrase: "or higher", op: ">=" },
+  { phrase: "or more", op: ">=" },
+  { phrase: "or above", op: ">=" },
+  { phrase: "or better", op: ">=" },
+  { phrase: "or later", op: ">=" },
+  { phrase: "or newer", op: ">=" },
+  { phrase: "and up", op: ">=" },
+  { phrase: "and above", op: ">=" },
+  { phrase: "and later", op: ">=" },
+  { phrase: "onwards", op: ">=" },
+  { phrase: "onward", op: ">=" },
+  { phrase: "+", op: ">=" },
+  { phrase: "or lower", op: "<=" },
+  { phrase: "or less", op: "<=" },
+  { phrase: "or below", op: "<=" },
+  { phrase: "or earlier", op: "<=" },
+  { phrase: "or older", op: "<=" },
+  { phrase: "and below", op: "<=" },
+  { phrase: "and earlier", op: "<=" },
+]
+
+// Phrases between the two numbers of a range: "between 1990 and 2000",
+// "from 1990 to 2000", "1990-2000"
+export const RANGE_OPENERS = ["between", "from"]
+export const RANGE_SEPARATORS = ["and", "to", "through", "thru", "until", "-"]
+
+export const SORTS: { phrase: string; field: NumericField; direction: "asc" | "desc" }[] = [
+  { phrase: "top rated", field: "imdb_score", direction: "desc" },
+  { phrase: "top-rated", field: "imdb_score", direction: "desc" },
+  { phrase: "highest rated", field: "imdb_score", direction: "desc" },
+  { phrase: "best rated", field: "imdb_score", direction: "desc" },
+  { phrase: "highly rated", field: "imdb_score", direction: "desc" },
+  { phrase: "high ratings", field: "imdb_score", direction: "desc" },
+  { phrase: "high rating", field: "imdb_score", direction: "desc" },
+  { phrase: "best", field: "imdb_score", direction: "desc" },
+  { phrase: "top", field: "imdb_score", direction: "desc" },
+  { phrase: "lowest rated", field: "imdb_score", direction: "asc" },
+  { phrase: "worst", field: "imdb_score", direction: "asc" },
+  { phrase: "most recent", field: "release_year", direction: "desc" },
+  { phrase: "newest", field: "release_year", direction: "desc" },
+  { phrase: "latest", field: "release_year", direction: "desc" },
+  { phrase: "recent", field: "release_year", direction: "desc" },
+  { phrase: "oldest", field: "release_year", direction: "asc" },
+  { phrase: "longest", field: "movie_duration", direction: "desc" },
+  { phrase: "shortest", field: "movie_duration", direction: "asc" },
+  { phrase: "most expensive", field: "budget", direction: "desc" },
+  { phrase: "biggest budget", field: "budget", direction: "desc" },
+  { phrase: "cheapest", field: "budget", direction: "asc" },
+  { phrase: "lowest budget", field: "budget", direction: "asc" },
+]
+
+// Follow-up questions in the chat. Words that point back at the previous
+// results: "which of those", "now only the ones from the 90s"
+export const REFERENCE_WORDS = new Set([
+  "those",
+  "these",
+  "them",
+  "ones",
+  "only",
+  "just",
+  "now",
+  "among",
+  "narrow",
+  "instead",
+  "also",
+  "too",
+  "then",
+])
+
+// "undo", "go back"
+export const UNDO_PHRASES = ["undo", "undo that", "go back", "back", "previous", "previous results", "never mind"]
+
+// "sort those by rating", "order them by year ascending"
+export const SORT_VERBS = new Set(["sort", "order", "rank", "reorder", "arrange"])
+export const ASCENDING_WORDS = new Set(["ascending", "asc", "increasing", "lowest", "oldest", "shortest", "cheapest"])
+export const DESCENDING_WORDS = new Set(["descending", "desc", "decreasing", "highest", "newest", "longest"])
+
+// "sorted by rating", "order by year ascending" in a question
+export const SORTED_BY_VERBS = new Set([...SORT_VERBS, "sorted", "ordered", "ranked", "arranged"])
+
+// "any year", "forget the genre", "drop the rating filter"
+export const BROADEN_WORDS = new Set(["any", "forget", "drop", "remove", "ignore", "clear", "regardless"])
+
+// "also include comedies", "or the 80s too"
+export const INCLUDE_WORDS = new Set(["include", "including", "add", "or", "plus"])
+
+// What the user calls each filter when talking about it
+export const FIELD_NAMES: Record<string, TextField | NumericField | "sort" | "limit"> = {
+  title: "movie_name",
+  genre: "genre",
+  genres: "genre",
+  director: "director_name",
+  directors: "director_name",
+  actor: "actors",
+  actors: "actors",
+  cast: "actors",
+  producer: "producer_name",
+  language: "language",
+  languages: "language",
+  country: "country",
+  countries: "country",
+  keyword: "plot_keyword",
+  keywords: "plot_keyword",
+  plot: "plot_keyword",
+  certification: "movie_certification",
+  year: "release_year",
+  years: "release_year",
+  date: "release_year",
+  decade: "release_year",
+  rating: "imdb_score",
+  ratings: "imdb_score",
+  score: "imdb_score",
+  imdb: "imdb_score",
+  runtime: "movie_duration",
+  length: "movie_duration",
+  duration: "movie_duration",
+  budget: "budget",
+  cost: "budget",
+  sort: "sort",
+  order: "sort",
+  sorting: "sort",
+  limit: "limit",
+}
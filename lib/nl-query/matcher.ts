@@ -0,0 +1,66 @@
+import type { Movie } from "../db-service"
+import { splitNames } from "../people"
+import type { MovieQuery, QueryCondition, TextCondition } from "./types"
+
+// Fields holding a "|" or "," separated list
+const LIST_FIELDS = new Set(["genre", "actors", "director_name", "producer_name", "plot_keyword"])
+
+// Fields with a fixed set of values, compared whole so "PG" doesn't match "PG-13"
+const EXACT_FIELDS = new Set(["language", "country", "movie_certification"])
+
+// Ignore punctuation in titles: "avengers endgame" finds "Avengers: Endgame"
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9']+/g, " ")
+    .trim()
+}
+
+function matchesValue(movie: Movie, condition: TextCondition, value: string): boolean {
+  const movieValue = movie[condition.field]
+  if (!movieValue) return false
+  const wanted = value.toLowerCase()
+
+  if (condition.field === "movie_name") return normalizeTitle(movieValue).includes(normalizeTitle(value))
+  if (EXACT_FIELDS.has(condition.field)) return movieValue.toLowerCase() === wanted
+  if (LIST_FIELDS.has(condition.field)) {
+    return splitNames(movieValue).some((part) => part.toLowerCase().includes(wanted))
+  }
+  return movieValue.toLowerCase().includes(wanted)
+}
+
+export function matchesCondition(movie: Movie, condition: QueryCondition): boolean {
+  if (condition.kind === "range") {
+    const value = movie[condition.field]
+    if (typeof value !== "number") return false
+    if (condition.min !== undefined && (condition.minInclusive ? value < condition.min : value <= condition.min)) {
+      return false
+    }
+    if (condition.max !== undefined && (condition.maxInclusive ? value > condition.max : value >= condition.max)) {
+      return false
+    }
+    return true
+  }
+
+  const matches =
+    condition.mode === "all"
+      ? condition.values.every((value) => matchesValue(movie, condition, value))
+      : condition.values.some((value) => matchesValue(movie, condition, value))
+  return condition.negated ? !matches : matches
+}
+
+export function matchesQuery(movie: Movie, query: MovieQuery): boolean {
+  return query.conditions.every((condition) => matchesCondition(movie, condition))
+}
+
+// Filter, sort and limit movies the way the query asks
+export function applyQuery(movies: Movie[], query: MovieQuery): Movie[] {
+  const results = movies.filter((movie) => matchesQuery(movie, query))
+
+  if (query.sort) {
+    const { field, direction } = query.sort
+    results.sort((a, b) => (direction === "asc" ? a[field] - b[field] : b[field] - a[field]))
+  }
+
+  return query.limit !== undefined ? results.slice(0, query.limit) : results
+}
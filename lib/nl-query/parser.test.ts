@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { parseMovieQuery } from "./parser"
+import type { MovieQuery, NumericField, QueryCondition, TextField } from "./types"
+import { buildQueryVocabulary } from "./vocabulary"
+
+const vocabulary = buildQueryVocabulary(initialMovies)
+
+const text = (field: TextField, values: string[], mode: "all" | "any" = "all", negated = false): QueryCondition => ({
+  kind: "text",
+  field,
+  values,
+  mode,
+  negated,
+})
+
+const range = (
+  field: NumericField,
+  bounds: { min?: number; max?: number; minInclusive?: boolean; maxInclusive?: boolean },
+): QueryCondition => ({ kind: "range", field, minInclusive: true, maxInclusive: true, ...bounds })
+
+const CASES: [string, Partial<MovieQuery>][] = [
+  // Genres
+  ["sci-fi", { conditions: [text("genre", ["Sci-Fi"])] }],
+  ["sci fi thrillers", { conditions: [text("genre", ["Sci-Fi"]), text("genre", ["Thriller"])] }],
+  ["comedies or dramas", { conditions: [text("genre", ["Comedy", "Drama"], "any")] }],
+  ["action and thriller", { conditions: [text("genre", ["Action", "Thriller"], "all")] }],
+
+  // Years
+  ["movies from 2010", { conditions: [range("release_year", { min: 2010, max: 2010 })] }],
+  ["movies after 2005", { conditions: [range("release_year", { min: 2005, minInclusive: false })] }],
+  ["films from the 90s", { conditions: [range("release_year", { min: 1990, max: 1999 })] }],
+  [
+    "movies before 1980 and after 1970",
+    { conditions: [range("release_year", { min: 1970, max: 1980, minInclusive: false, maxInclusive: false })] },
+  ],
+
+  // Ratings, running time and budget
+  ["rated 8 or higher", { conditions: [range("imdb_score", { min: 8 })] }],
+  ["under 2 hours", { conditions: [range("movie_duration", { max: 120, maxInclusive: false })] }],
+  ["budget over 100 million", { conditions: [range("budget", { min: 100_000_000, minInclusive: false })] }],
+
+  // People, places and keywords
+  ["movies directed by Christopher Nolan", { conditions: [text("director_name", ["Christopher Nolan"])] }],
+  ["starring Morgan Freeman", { conditions: [text("actors", ["Morgan Freeman"])] }],
+  ["english or japanese films", { conditions: [text("language", ["English", "Japanese"], "any")] }],
+  ["PG-13 movies", { conditions: [text("movie_certification", ["PG-13"], "any")] }],
+  ["movies about prison", { conditions: [text("plot_keyword", ["prison"])] }],
+
+  // "in" and "from" take a language, a country or a year, whichever the next word is
+  ["movies in french", { conditions: [text("language", ["French"], "any")] }],
+  ["movies in france", { conditions: [text("country", ["France"], "any")] }],
+  ["movies from japan", { conditions: [text("country", ["Japan"], "any")] }],
+  ["movies in 2010", { conditions: [range("release_year", { min: 2010, max: 2010 })] }],
+  [
+    "movies from 2010 in korean",
+    { conditions: [range("release_year", { min: 2010, max: 2010 }), text("language", ["Korean"], "any")] },
+  ],
+  [
+    "films in japanese from japan from 2001",
+    {
+      conditions: [
+        text("language", ["Japanese"], "any"),
+        text("country", ["Japan"], "any"),
+        range("release_year", { min: 2001, max: 2001 }),
+      ],
+    },
+  ],
+
+  // Negation
+  [
+    "not directed by Christopher Nolan",
+    { conditions: [text("director_name", ["Christopher Nolan"], "all", true)] },
+  ],
+
+  // Sorting and limits
+  ["top 5 movies by rating", { conditions: [], sort: { field: "imdb_score", direction: "desc" }, limit: 5 }],
+  ["oldest movies", { conditions: [], sort: { field: "release_year", direction: "asc" } }],
+  ["sorted by rating", { conditions: [], sort: { field: "imdb_score", direction: "desc" }, confidence: 1 }],
+  [
+    "sci fi movies sorted by year ascending",
+    { conditions: [text("genre", ["Sci-Fi"])], sort: { field: "release_year", direction: "asc" }, confidence: 1 },
+  ],
+  [
+    "dramas directed by Christopher Nolan ordered by budget, lowest first",
+    {
+      conditions: [text("genre", ["Drama"]), text("director_name", ["Christopher Nolan"])],
+      sort: { field: "budget", direction: "asc" },
+    },
+  ],
+
+  // Everything at once. The years stay release years although "rated" follows them.
+  [
+    "french dramas between 1990 and 2000 rated above 8, not horror",
+    {
+      conditions: [
+        text("country", ["France"], "any"),
+        text("genre", ["Drama"]),
+        range("release_year", { min: 1990, max: 2000 }),
+        range("imdb_score", { min: 8, minInclusive: false }),
+        text("genre", ["Horror"], "all", true),
+      ],
+      confidence: 1,
+    },
+  ],
+]
+
+describe("parseMovieQuery", () => {
+  it.each(CASES)("%s", (phrase, expected) => {
+    expect(parseMovieQuery(phrase, vocabulary)).toMatchObject({ unmatched: [], ...expected })
+  })
+
+  it("falls back to a low-confidence title search for words it doesn't know", () => {
+    const query = parseMovieQuery("xyzzy plugh", vocabulary)
+    expect(query.conditions).toEqual([text("movie_name", ["xyzzy plugh"], "any")])
+    expect(query.confidence).toBeLessThan(0.5)
+  })
+
+  it("understands nothing in an empty question", () => {
+    expect(parseMovieQuery("", vocabulary)).toEqual({ conditions: [], confidence: 0, unmatched: [] })
+  })
+})
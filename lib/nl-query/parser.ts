@@ -0,0 +1,666 @@
+import {
+  ASCENDING_WORDS,
+  CERTIFICATIONS,
+  COMPARATORS,
+  CONJUNCTIONS,
+  COUNT_NOUNS,
+  COUNTRY_ALIASES,
+  DEMONYMS,
+  DESCENDING_WORDS,
+  FIELD_KEYWORDS,
+  FIELD_NAMES,
+  GENRE_ALIASES,
+  LANGUAGE_ALIASES,
+  NEGATIONS,
+  RANGE_OPENERS,
+  RANGE_SEPARATORS,
+  SORTED_BY_VERBS,
+  SORTS,
+  STOP_WORDS,
+  TRAILING_COMPARATORS,
+  type Comparator,
+} from "./lexicon"
+import { tokenize, type Token } from "./tokenizer"
+import type { MovieQuery, NumericField, QueryCondition, QueryVocabulary, RangeCondition, TextField } from "./types"
+
+type Field = TextField | NumericField
+
+const NUMERIC_FIELDS = new Set<Field>(["release_year", "imdb_score", "movie_duration", "budget"])
+
+function isNumericField(field: Field): field is NumericField {
+  return NUMERIC_FIELDS.has(field)
+}
+
+// A movie has one value for these, so "english or japanese" and
+// "english and japanese" both mean either one
+const SINGLE_VALUE_FIELDS = new Set<TextField>(["movie_name", "language", "country", "movie_certification"])
+
+// Which field a bare value belongs to when nothing in the query says
+const FIELD_PRIORITY: TextField[] = [
+  "genre",
+  "country",
+  "language",
+  "movie_certification",
+  "director_name",
+  "actors",
+  "producer_name",
+  "plot_keyword",
+]
+
+// Years the catalog could hold, used to tell "after 1999" from "over 8"
+const MIN_YEAR = 1870
+const MAX_YEAR = 2100
+
+// Whether numbers could measure a field at all
+function fitsField(field: NumericField, numbers: number[]): boolean {
+  switch (field) {
+    case "release_year":
+      return numbers.every((n) => Number.isInteger(n) && n >= MIN_YEAR && n <= MAX_YEAR)
+    case "imdb_score":
+      return numbers.every((n) => n >= 0 && n <= 10)
+    default:
+      return numbers.every((n) => n >= 0)
+  }
+}
+
+interface Entry {
+  field: TextField
+  value: string
+}
+
+// Phrases are compared as token values joined by spaces, so they match the
+// query however it was spaced or capitalized
+function phraseTokens(phrase: string): string[] {
+  return tokenize(phrase).map((token) => token.value)
+}
+
+function buildPhraseTable(vocabulary?: Partial<QueryVocabulary>): Map<string, Entry[]> {
+  const table = new Map<string, Entry[]>()
+  const add = (phrase: string, field: TextField, value: string) => {
+    const key = phraseTokens(phrase).join(" ")
+    if (!key) return
+    const entries = table.get(key) ?? []
+    // The first value registered for a field wins, so built-in spellings
+    // take precedence over catalog ones
+    if (!entries.some((entry) => entry.field === field)) entries.push({ field, value })
+    table.set(key, entries)
+  }
+
+  Object.entries(GENRE_ALIASES).forEach(([phrase, value]) => add(phrase, "genre", value))
+  Object.entries(LANGUAGE_ALIASES).forEach(([phrase, value]) => add(phrase, "language", value))
+  Object.entries(COUNTRY_ALIASES).forEach(([phrase, value]) => add(phrase, "country", value))
+  Object.entries(DEMONYMS).forEach(([phrase, value]) => add(phrase, "country", value))
+  Object.entries(CERTIFICATIONS).forEach(([phrase, value]) => add(phrase, "movie_certification", value))
+
+  vocabulary?.genres?.forEach((genre) => add(genre, "genre", genre))
+  vocabulary?.languages?.forEach((language) => add(language, "language", language))
+  vocabulary?.countries?.forEach((country) => add(country, "country", country))
+
+  const people: [TextField, string[] | undefined][] = [
+    ["director_name", vocabulary?.directors],
+    ["actors", vocabulary?.actors],
+    ["producer_name", vocabulary?.producers],
+  ]
+  people.forEach(([field, names]) => names?.forEach((name) => add(name, field, name)))
+
+  // Surnames stand in for a person when only one person has that surname
+  const bySurname = new Map<string, Set<string>>()
+  people.forEach(([, names]) =>
+    names?.forEach((name) => {
+      const surname = phraseTokens(name).pop()
+      if (!surname || surname.length < 3) return
+      if (!bySurname.has(surname)) bySurname.set(surname, new Set())
+      bySurname.get(surname)!.add(name)
+    }),
+  )
+  people.forEach(([field, names]) =>
+    names?.forEach((name) => {
+      const surname = phraseTokens(name).pop()
+      if (surname && bySurname.get(surname)?.size === 1 && !STOP_WORDS.has(surname)) add(surname, field, name)
+    }),
+  )
+
+  vocabulary?.keywords?.forEach((keyword) => add(keyword, "plot_keyword", keyword))
+
+  return table
+}
+
+function compilePhrases<T extends { phrase: string }>(entries: T[]): (T & { tokens: string[] })[] {
+  // Longest first so "more expensive than" wins over "more than"
+  return entries
+    .map((entry) => ({ ...entry, tokens: phraseTokens(entry.phrase) }))
+    .sort((a, b) => b.tokens.length - a.tokens.length)
+}
+
+const FIELD_KEYWORD_PHRASES = compilePhrases(FIELD_KEYWORDS)
+const COMPARATOR_PHRASES = compilePhrases(COMPARATORS)
+const TRAILING_COMPARATOR_PHRASES = compilePhrases(TRAILING_COMPARATORS)
+const SORT_PHRASES = compilePhrases(SORTS)
+
+// Flip a bound for "not before 2000"
+const NEGATED_COMPARATORS: Record<Comparator, Comparator> = { ">": "<=", ">=": "<", "<": ">=", "<=": ">" }
+
+class Parser {
+  private tokens: Token[]
+  private index = 0
+  private phrases: Map<string, Entry[]>
+  private maxPhraseLength: number
+
+  private conditions: QueryCondition[] = []
+  private sort?: MovieQuery["sort"]
+  private limit?: number
+  private matched = 0
+  private unmatched: Token[] = []
+
+  // Set by words like "not" and used up by the next condition
+  private negated = false
+  // Numeric field named by the last keyword, e.g. "rated" in "rated above 8"
+  private numericContext?: NumericField
+
+  constructor(query: string, vocabulary?: Partial<QueryVocabulary>) {
+    this.tokens = tokenize(query)
+    this.phrases = buildPhraseTable(vocabulary)
+    this.maxPhraseLength = Math.max(...Array.from(this.phrases.keys()).map((key) => key.split(" ").length))
+  }
+
+  parse(): MovieQuery {
+    while (this.index < this.tokens.length) {
+      this.parseClause()
+    }
+
+    // Nothing recognizable: treat the words as part of a title, keeping the
+    // small words inside it ("lord of the rings")
+    if (this.conditions.length === 0 && this.unmatched.length > 0) {
+      const first = this.unmatched[0]
+      const last = this.unmatched[this.unmatched.length - 1]
+      const title = this.tokens
+        .slice(this.tokens.indexOf(first), this.tokens.indexOf(last) + 1)
+        .map((token) => token.text)
+        .join(" ")
+      this.conditions.push({ kind: "text", field: "movie_name", values: [title], mode: "any", negated: false })
+      return {
+        conditions: this.conditions,
+        sort: this.sort,
+        limit: this.limit,
+        // A title guess is only as good as a substring search
+        confidence: 0.3,
+        unmatched: [],
+      }
+    }
+
+    const meaningful = this.matched + this.unmatched.length
+    return {
+      conditions: this.conditions,
+      sort: this.sort,
+      limit: this.limit,
+      confidence: meaningful === 0 ? 0 : Math.round((this.matched / meaningful) * 100) / 100,
+      unmatched: this.unmatched.map((token) => token.text),
+    }
+  }
+
+  // Try each rule at the current token, most specific first
+  private parseClause() {
+    const token = this.peek()!
+
+    if (token.type === "word" && NEGATIONS.has(token.value)) {
+      this.advance()
+      this.matched++
+      this.negated = true
+      return
+    }
+
+    if (token.value in CONJUNCTIONS || token.value === "but") {
+      // Between clauses, conjunctions only separate them
+      this.advance()
+      return
+    }
+
+    if (this.parseLimit() || this.parseSort() || this.parseSortBy()) return
+    if (this.parseRange() || this.parseComparison() || this.parseNumber()) return
+    if (this.parseFieldKeyword() || this.parseBareValue()) return
+
+    this.advance()
+    if (token.type === "word" && STOP_WORDS.has(token.value)) return
+    this.unmatched.push(token)
+  }
+
+  // "10 movies", "5 films"
+  private parseLimit(): boolean {
+    const count = this.peek()
+    if (!this.isLimit(count) || !COUNT_NOUNS.has(this.peek(1)?.value ?? "")) return false
+    this.limit = count.number
+    this.index += 2
+    this.matched += 2
+    return true
+  }
+
+  // "top 10", "best", "10 most recent"
+  private parseSort(): boolean {
+    const start = this.index
+    let limit: number | undefined
+    const leading = this.peek()
+    if (this.isLimit(leading) && this.matchPhrase(SORT_PHRASES, 1)) {
+      limit = leading!.number
+      this.advance()
+    }
+
+    const sort = this.matchPhrase(SORT_PHRASES)
+    if (!sort) {
+      this.index = start
+      return false
+    }
+    this.index += sort.tokens.length
+
+    if (limit === undefined && this.isLimit(this.peek())) {
+      limit = this.advance().number
+    }
+
+    this.sort = { field: sort.field, direction: sort.direction }
+    if (limit !== undefined) this.limit = limit
+    this.matched += this.index - start
+    return true
+  }
+
+  // "sorted by rating", "order by year ascending", "ranked by budget, lowest first"
+  private parseSortBy(): boolean {
+    if (!this.startsSortBy()) return false
+    const start = this.index
+    this.index += 2
+    this.skipStopWords()
+
+    const field = FIELD_NAMES[this.peek()?.value ?? ""]
+    if (!field || !isNumericField(field as Field)) {
+      this.index = start
+      return false
+    }
+    this.advance()
+
+    // Highest first unless asked otherwise
+    let direction: "asc" | "desc" = "desc"
+    const comma = this.peek()?.value === "," ? 1 : 0
+    const order = this.peek(comma)?.value ?? ""
+    if (ASCENDING_WORDS.has(order) || DESCENDING_WORDS.has(order)) {
+      direction = ASCENDING_WORDS.has(order) ? "asc" : "desc"
+      this.index += comma + 1
+      if (this.peek()?.value === "first") this.advance()
+    }
+
+    this.sort = { field: field as NumericField, direction }
+    this.matched += this.tokens.slice(start, this.index).filter((token) => !STOP_WORDS.has(token.value)).length
+    return true
+  }
+
+  // "between 1990 and 2000", "from 2 to 3 hours", "1990-2000", "the 80s to the 90s"
+  private parseRange(): boolean {
+    const start = this.index
+    const opener = this.peek()
+    const hasOpener = opener?.type === "word" && RANGE_OPENERS.includes(opener.value)
+    if (hasOpener) this.advance()
+    this.skipStopWords()
+
+    const low = this.peek()
+    const separator = this.peek(1)
+    // Without "between" or "from", "2000 and 2010" is two separate years
+    if (
+      low?.type !== "number" ||
+      !separator ||
+      !RANGE_SEPARATORS.includes(separator.value) ||
+      (separator.value === "and" && !hasOpener)
+    ) {
+      this.index = start
+      return false
+    }
+    this.index += 2
+    this.skipStopWords()
+
+    const high = this.peek()
+    if (high?.type !== "number") {
+      this.index = start
+      return false
+    }
+    this.advance()
+
+    const field = this.inferField(low, high)
+    if (!field) {
+      this.index = start
+      return false
+    }
+    this.consumeFieldKeyword(field)
+
+    // "2 to 3 hours" only gives the unit once
+    const lowValue = low.scale === undefined && high.scale !== undefined ? low.number! * high.scale : low.number!
+    this.addRange(field, ">=", lowValue)
+    this.addRange(field, "<=", high.unit === "decade" ? high.number! + 9 : high.number!)
+    this.matched += this.tokens.slice(start, this.index).filter((token) => !STOP_WORDS.has(token.value)).length
+    return true
+  }
+
+  // "rated above 8.5", "under 2 hours", "budget over $100M", "after 2005"
+  private parseComparison(): boolean {
+    const start = this.index
+    const comparator = this.matchPhrase(COMPARATOR_PHRASES)
+    if (!comparator) return false
+    this.index += comparator.tokens.length
+
+    // "over the 90s"
+    this.skipStopWords()
+    const value = this.peek()
+    if (value?.type !== "number") {
+      this.index = start
+      return false
+    }
+    this.advance()
+
+    const field = comparator.field ?? this.inferField(value)
+    if (!field) {
+      this.index = start
+      return false
+    }
+    this.consumeFieldKeyword(field)
+
+    this.addBound(field, comparator.op, value)
+    this.matched += this.tokens.slice(start, this.index).filter((token) => !STOP_WORDS.has(token.value)).length
+    return true
+  }
+
+  // A number on its own: "2010", "the 90s", "rated 8", "8 or higher", "2 hours long"
+  private parseNumber(): boolean {
+    const value = this.peek()
+    if (value?.type !== "number") return false
+    const start = this.index
+    this.advance()
+
+    const field = this.inferField(value)
+    if (!field) {
+      this.index = start
+      return false
+    }
+    this.consumeFieldKeyword(field)
+
+    const trailing = this.matchPhrase(TRAILING_COMPARATOR_PHRASES)
+    if (trailing) {
+      this.index += trailing.tokens.length
+      this.addBound(field, trailing.op, value)
+    } else if (value.unit === "decade" || field === "release_year") {
+      const last = this.conditions[this.conditions.length - 1]
+      if (last?.kind === "range" && last.field === field && last.min !== undefined && last.max !== undefined) {
+        // "1994 or 1995", "the 80s and 90s": widen the previous year to cover both
+        last.min = Math.min(last.min, value.number!)
+        last.max = Math.max(last.max, value.unit === "decade" ? value.number! + 9 : value.number!)
+        this.numericContext = undefined
+      } else {
+        this.addBound(field, ">=", value)
+        this.addBound(field, "<=", value)
+      }
+    } else if (field === "imdb_score") {
+      // "rated 8" means at least 8
+      this.addBound(field, ">=", value)
+    } else {
+      // "a 2 hour movie", "a $10M budget" read as at most
+      this.addBound(field, "<=", value)
+    }
+
+    this.matched += this.index - start
+    return true
+  }
+
+  // "directed by", "starring", "in", "about", "rated", ...
+  private parseFieldKeyword(): boolean {
+    const start = this.index
+    const keyword = this.matchPhrase(FIELD_KEYWORD_PHRASES)
+    if (!keyword) return false
+    this.index += keyword.tokens.length
+
+    const field = keyword.field
+    if (isNumericField(field)) {
+      // "rated R", "rated pg-13"
+      if (field === "imdb_score" && this.parseValueList("movie_certification", false)) {
+        this.matched += keyword.tokens.length
+        return true
+      }
+      this.numericContext = field
+      this.matched += keyword.tokens.length
+      return true
+    }
+
+    if (field === "movie_name") {
+      const title = this.readTitle()
+      if (title) {
+        this.addText("movie_name", [title], "any")
+        this.matched += this.index - start
+        return true
+      }
+    } else if (this.parseValueList(field, !keyword.soft)) {
+      this.matched += keyword.tokens.length
+      return true
+    }
+
+    // A soft keyword whose value didn't fit, like "from" in "from 2010", is filler
+    if (keyword.soft) return true
+    this.index = start
+    return false
+  }
+
+  // "horror", "korean", "christopher nolan", "heist"
+  private parseBareValue(): boolean {
+    const token = this.peek()!
+    if (token.type === "quoted") {
+      this.advance()
+      this.addText("movie_name", [token.value], "any")
+      this.matched++
+      return true
+    }
+    return this.parseValueList(undefined, false)
+  }
+
+  // One value or a list joined by "and", "or" and commas, all for one field.
+  // allowFree accepts words the lexicon doesn't know, e.g. a director's name.
+  private parseValueList(field: TextField | undefined, allowFree: boolean): boolean {
+    const start = this.index
+    const first = this.readValue(field, allowFree)
+    if (!first) return false
+
+    const resolved = first.field
+    const values = [first.value]
+    let mode: "all" | "any" = "all"
+
+    while (this.index < this.tokens.length) {
+      const save = this.index
+      let conjunction: "all" | "any" | undefined
+      while (this.peek() && this.peek()!.value in CONJUNCTIONS) {
+        // With "a, b or c" the word decides
+        const next = CONJUNCTIONS[this.advance().value]
+        conjunction = conjunction === "any" ? "any" : next
+      }
+      if (!conjunction) break
+      this.skipStopWords()
+
+      const next = this.readValue(resolved, allowFree)
+      if (!next) {
+        this.index = save
+        break
+      }
+      values.push(next.value)
+      if (conjunction === "any") mode = "any"
+    }
+
+    this.addText(resolved, values, SINGLE_VALUE_FIELDS.has(resolved) ? "any" : mode)
+    this.matched += this.tokens.slice(start, this.index).filter((token) => !STOP_WORDS.has(token.value)).length
+    return true
+  }
+
+  private readValue(field: TextField | undefined, allowFree: boolean): Entry | undefined {
+    const token = this.peek()
+    if (!token) return undefined
+
+    if (token.type === "quoted") {
+      this.advance()
+      return { field: field ?? "movie_name", value: token.value }
+    }
+
+    // Longest known phrase first
+    for (let length = Math.min(this.maxPhraseLength, this.tokens.length - this.index); length > 0; length--) {
+      const key = this.tokens
+        .slice(this.index, this.index + length)
+        .map((t) => t.value)
+        .join(" ")
+      const entries = this.phrases.get(key)
+      if (!entries) continue
+
+      const entry = field
+        ? entries.find((candidate) => candidate.field === field)
+        : FIELD_PRIORITY.map((candidate) => entries.find((e) => e.field === candidate)).find(
+            // "g" and "r" are only ratings after "rated"
+            (e) => e && !(e.field === "movie_certification" && key.length < 2),
+          )
+      if (entry) {
+        this.index += length
+        return entry
+      }
+    }
+
+    if (!allowFree || !field) return undefined
+
+    const words: Token[] = []
+    while (this.peek() && this.isFreeWord(this.peek()!)) {
+      words.push(this.advance())
+    }
+    if (words.length === 0) return undefined
+    return { field, value: words.map((word) => word.text).join(" ") }
+  }
+
+  // Everything up to the next keyword, e.g. "called the lord of the rings"
+  private readTitle(): string | undefined {
+    const token = this.peek()
+    if (token?.type === "quoted") {
+      this.advance()
+      return token.value
+    }
+
+    const words: Token[] = []
+    while (this.peek() && !this.startsClause()) {
+      words.push(this.advance())
+    }
+    return words.length > 0 ? words.map((word) => word.text).join(" ") : undefined
+  }
+
+  private isFreeWord(token: Token): boolean {
+    return (
+      token.type === "word" &&
+      !STOP_WORDS.has(token.value) &&
+      !NEGATIONS.has(token.value) &&
+      !(token.value in CONJUNCTIONS) &&
+      !this.startsClause()
+    )
+  }
+
+  private startsClause(): boolean {
+    const token = this.peek()
+    return (
+      !token ||
+      token.type === "number" ||
+      NEGATIONS.has(token.value) ||
+      !!this.matchPhrase(FIELD_KEYWORD_PHRASES) ||
+      !!this.matchPhrase(COMPARATOR_PHRASES) ||
+      !!this.matchPhrase(SORT_PHRASES) ||
+      this.startsSortBy()
+    )
+  }
+
+  private startsSortBy(): boolean {
+    return SORTED_BY_VERBS.has(this.peek()?.value ?? "") && this.peek(1)?.value === "by"
+  }
+
+  // Which number a value measures: the comparator's unit, then the keyword
+  // before it, then the keyword after it, then its size
+  private inferField(value: Token, other?: Token): NumericField | undefined {
+    const unit = value.unit ?? other?.unit
+    if (unit === "money") return "budget"
+    if (unit === "minutes") return "movie_duration"
+    if (unit === "decade") return "release_year"
+    if (this.numericContext) return this.numericContext
+
+    // A keyword after the value only names it when the value fits, so
+    // "between 1990 and 2000 rated above 8" keeps the years for release_year
+    const numbers = [value.number!, other?.number ?? value.number!]
+    const following = this.matchPhrase(FIELD_KEYWORD_PHRASES)
+    if (following && isNumericField(following.field) && fitsField(following.field, numbers)) return following.field
+
+    if (fitsField("release_year", numbers)) return "release_year"
+    if (fitsField("imdb_score", numbers)) return "imdb_score"
+    return undefined
+  }
+
+  // Take a keyword naming the field after its value: "8 rating", "150 minutes long"
+  private consumeFieldKeyword(field: NumericField) {
+    const following = this.matchPhrase(FIELD_KEYWORD_PHRASES)
+    if (following?.field === field) {
+      this.index += following.tokens.length
+      this.matched += following.tokens.length
+    }
+  }
+
+  private addBound(field: NumericField, op: Comparator, value: Token) {
+    const comparator = this.negated ? NEGATED_COMPARATORS[op] : op
+    let number = value.number!
+    // A decade covers ten years: "after the 90s" starts in 2000
+    if (value.unit === "decade" && (comparator === ">" || comparator === "<=")) number += 9
+    this.addRange(field, comparator, number)
+  }
+
+  private addRange(field: NumericField, op: Comparator, value: number) {
+    this.negated = false
+    this.numericContext = undefined
+
+    // "after 1990 and before 2000" narrows one range
+    let range = this.conditions.find(
+      (condition): condition is RangeCondition =>
+        condition.kind === "range" &&
+        condition.field === field &&
+        (op.startsWith(">") ? condition.min === undefined : condition.max === undefined),
+    )
+    if (!range) {
+      range = { kind: "range", field, minInclusive: true, maxInclusive: true }
+      this.conditions.push(range)
+    }
+
+    if (op.startsWith(">")) {
+      range.min = value
+      range.minInclusive = op === ">="
+    } else {
+      range.max = value
+      range.maxInclusive = op === "<="
+    }
+  }
+
+  private addText(field: TextField, values: string[], mode: "all" | "any") {
+    this.conditions.push({ kind: "text", field, values, mode, negated: this.negated })
+    this.negated = false
+  }
+
+  private skipStopWords() {
+    while (this.peek()?.type === "word" && STOP_WORDS.has(this.peek()!.value)) this.advance()
+  }
+
+  private isLimit(token: Token | undefined): token is Token {
+    return token?.type === "number" && !token.unit && Number.isInteger(token.number) && token.number! > 0 && token.number! <= 100
+  }
+
+  private matchPhrase<T extends { tokens: string[] }>(phrases: T[], offset = 0): T | undefined {
+    return phrases.find((phrase) =>
+      phrase.tokens.every((value, i) => this.tokens[this.index + offset + i]?.value === value),
+    )
+  }
+
+  private peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset]
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++]
+  }
+}
+
+export function parseMovieQuery(query: string, vocabulary?: Partial<QueryVocabulary>): MovieQuery {
+  return new Parser(query, vocabulary).parse()
+}
@@ -0,0 +1,166 @@
+export type TokenType = "word" | "number" | "quoted" | "symbol"
+
+// What a number measures when the query says so, e.g. "$100M" or "2 hours"
+export type NumberUnit = "money" | "minutes" | "decade"
+
+export interface Token {
+  type: TokenType
+  // Lower-cased words and symbols. Numbers are normalized, so "$1.5 billion"
+  // is "1500000000" and "2h30" is "150".
+  value: string
+  // The query text the token came from, lower-cased
+  text: string
+  number?: number
+  unit?: NumberUnit
+  // Multiplier from a unit word, e.g. 60 for "hours". Unset when the unit
+  // came from "$" alone.
+  scale?: number
+  position: number
+}
+
+// Unit words that can follow a number, with what they multiply it by
+const UNIT_WORDS: Record<string, { unit: NumberUnit; scale: number }> = {
+  k: { unit: "money", scale: 1e3 },
+  thousand: { unit: "money", scale: 1e3 },
+  m: { unit: "money", scale: 1e6 },
+  mm: { unit: "money", scale: 1e6 },
+  mil: { unit: "money", scale: 1e6 },
+  million: { unit: "money", scale: 1e6 },
+  millions: { unit: "money", scale: 1e6 },
+  b: { unit: "money", scale: 1e9 },
+  bn: { unit: "money", scale: 1e9 },
+  billion: { unit: "money", scale: 1e9 },
+  dollars: { unit: "money", scale: 1 },
+  bucks: { unit: "money", scale: 1 },
+  usd: { unit: "money", scale: 1 },
+  h: { unit: "minutes", scale: 60 },
+  hr: { unit: "minutes", scale: 60 },
+  hrs: { unit: "minutes", scale: 60 },
+  hour: { unit: "minutes", scale: 60 },
+  hours: { unit: "minutes", scale: 60 },
+  min: { unit: "minutes", scale: 1 },
+  mins: { unit: "minutes", scale: 1 },
+  minute: { unit: "minutes", scale: 1 },
+  minutes: { unit: "minutes", scale: 1 },
+}
+
+const SYMBOLS = [">=", "<=", ">", "<", "=", "+", "-", ",", "&"]
+
+const QUOTES: Record<string, string> = { '"': '"', "“": "”" }
+
+// Two-digit decades: "90s" is the 1990s, "20s" the 2020s
+function decadeStart(digits: string): number {
+  const value = Number(digits)
+  if (digits.length === 4) return value - (value % 10)
+  return value >= 30 ? 1900 + value : 2000 + value
+}
+
+export function tokenize(query: string): Token[] {
+  const source = query.toLowerCase()
+  const tokens: Token[] = []
+  let i = 0
+
+  const push = (type: TokenType, value: string, start: number, extra: Partial<Token> = {}) => {
+    tokens.push({ type, value, text: source.slice(start, i), position: start, ...extra })
+  }
+
+  while (i < source.length) {
+    const char = source[i]
+    const start = i
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Quoted titles and names are kept whole
+    if (QUOTES[char]) {
+      const end = source.indexOf(QUOTES[char], i + 1)
+      if (end > i + 1) {
+        const value = query.slice(i + 1, end).trim()
+        i = end + 1
+        push("quoted", value, start)
+        continue
+      }
+      i++
+      continue
+    }
+
+    // '90s
+    if ((char === "'" || char === "’") && /^\d{2}s\b/.test(source.slice(i + 1))) {
+      const decade = decadeStart(source.slice(i + 1, i + 3))
+      i += 4
+      push("number", String(decade), start, { number: decade, unit: "decade" })
+      continue
+    }
+
+    // Numbers, with an optional leading "$" and trailing unit
+    const numberMatch = /^(\$)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?/.exec(source.slice(i))
+    if (numberMatch) {
+      const [whole, dollar, digits, fraction = ""] = numberMatch
+      i += whole.length
+      let value = Number(digits.replace(/,/g, "") + fraction)
+      let unit: NumberUnit | undefined = dollar ? "money" : undefined
+      let scale: number | undefined
+
+      // 1990s, 90s
+      if (!dollar && !fraction && /^(\d{2}|\d{4})$/.test(digits) && /^s\b/.test(source.slice(i))) {
+        i++
+        const decade = decadeStart(digits)
+        push("number", String(decade), start, { number: decade, unit: "decade" })
+        continue
+      }
+
+      // A unit written straight after the number ("100m", "2h") or as the next word ("2 hours")
+      const unitMatch = /^\s*([a-z]+)\b/.exec(source.slice(i))
+      const unitWord = unitMatch && UNIT_WORDS[unitMatch[1]]
+      if (unitMatch && unitWord && (unitWord.unit === "money" || !dollar)) {
+        i += unitMatch[0].length
+        value *= unitWord.scale
+        unit = unitWord.unit
+        scale = unitWord.scale
+
+        // "2h30", "2 hours 15 minutes"
+        if (unitWord.scale === 60) {
+          const minutesMatch = /^\s*(\d{1,2})\s*(?:m|min|mins|minutes?)?\b/.exec(source.slice(i))
+          if (minutesMatch) {
+            i += minutesMatch[0].length
+            value += Number(minutesMatch[1])
+          }
+        }
+      }
+
+      push("number", String(value), start, { number: value, unit, scale })
+      continue
+    }
+
+    // Words, including "sci-fi", "pg-13" and "schindler's". "non-english"
+    // becomes two words so the parser sees the negation.
+    const wordMatch = /^[a-z][a-z0-9]*(?:['’-][a-z0-9]+)*/.exec(source.slice(i))
+    if (wordMatch) {
+      const word = wordMatch[0]
+      if (word.startsWith("non-") && word.length > 4) {
+        i += 3
+        push("word", "non", start)
+        i++
+        continue
+      }
+      i += word.length
+      // Possessives match the name they belong to: "nolan's" -> "nolan"
+      push("word", word.replace(/['’]s$/, "").replace(/’/g, "'"), start)
+      continue
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i))
+    if (symbol) {
+      i += symbol.length
+      push("symbol", symbol, start)
+      continue
+    }
+
+    // Any other punctuation only separates words
+    i++
+  }
+
+  return tokens
+}
@@ -0,0 +1,58 @@
+// Structured form of a plain-English movie question such as
+// "french dramas between 1990 and 2000 rated above 8, not horror"
+
+export type TextField =
+  | "movie_name"
+  | "genre"
+  | "director_name"
+  | "actors"
+  | "producer_name"
+  | "language"
+  | "country"
+  | "plot_keyword"
+  | "movie_certification"
+
+export type NumericField = "release_year" | "imdb_score" | "movie_duration" | "budget"
+
+export interface TextCondition {
+  kind: "text"
+  field: TextField
+  values: string[]
+  // "all" when the values were joined with "and", "any" for "or"
+  mode: "all" | "any"
+  negated: boolean
+}
+
+// Bounds are optional so one type covers "after 2005", "under 2 hours" and
+// "between 1990 and 2000"
+export interface RangeCondition {
+  kind: "range"
+  field: NumericField
+  min?: number
+  max?: number
+  minInclusive: boolean
+  maxInclusive: boolean
+}
+
+export type QueryCondition = TextCondition | RangeCondition
+
+export interface MovieQuery {
+  conditions: QueryCondition[]
+  sort?: { field: NumericField; direction: "asc" | "desc" }
+  limit?: number
+  // Share of the meaningful words the grammar understood, from 0 to 1
+  confidence: number
+  // Words no rule matched, in query order
+  unmatched: string[]
+}
+
+// Catalog values the parser should recognize besides its built-in word lists
+export interface QueryVocabulary {
+  genres: string[]
+  languages: string[]
+  countries: string[]
+  directors: string[]
+  actors: string[]
+  producers: string[]
+  keywords: string[]
+}
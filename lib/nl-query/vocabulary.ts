@@ -0,0 +1,24 @@
+import type { Movie } from "../db-service"
+import { splitNames } from "../people"
+import type { QueryVocabulary } from "./types"
+
+function distinct(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean))).sort()
+}
+
+// Everything in the catalog the parser should recognize by name
+export function buildQueryVocabulary(movies: Movie[]): QueryVocabulary {
+  const listed = (column: "genre" | "director_name" | "actors" | "producer_name" | "plot_keyword") =>
+    distinct(movies.flatMap((movie) => splitNames(movie[column])))
+  const single = (column: "language" | "country") => distinct(movies.map((movie) => movie[column]?.trim()))
+
+  return {
+    genres: listed("genre"),
+    languages: single("language"),
+    countries: single("country"),
+    directors: listed("director_name"),
+    actors: listed("actors"),
+    producers: listed("producer_name"),
+    keywords: listed("plot_keyword"),
+  }
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { initialMovies } from "./movie-catalog"
+import { creditsForMovie } from "./people"
+
+const shawshank = initialMovies.find((movie) => movie.movie_name === "The Shawshank Redemption")!
+
+describe("creditsForMovie", () => {
+  it("credits only the people a film imported under a reused id names itself", () => {
+    const other = {
+      ...shawshank,
+      movie_name: "Some Other Film",
+      director_name: "Christopher Nolan",
+      actors: "Jane Doe",
+      producer_name: "None",
+    }
+    const { people, credits } = creditsForMovie(other)
+
+    expect(credits.map((credit) => credit.id)).toEqual([
+      `${shawshank.movie_id}:director:christopher-nolan`,
+      `${shawshank.movie_id}:actor:jane-doe`,
+    ])
+    // Details come from the person's name, never from the movie id
+    expect(people.find((person) => person.id === "christopher-nolan")?.date_of_birth).toBeDefined()
+    expect(people.find((person) => person.id === "jane-doe")).toEqual({ id: "jane-doe", name: "Jane Doe" })
+  })
+})
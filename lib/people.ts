@@ -0,0 +1,154 @@
+import type { Credit, Movie, Person, PersonRole } from "./db-service"
+import { mockActorData, mockDirectorData } from "./mock-data"
+import { slugify } from "./utils"
+
+// Movie columns that name the people credited in each role
+const ROLE_COLUMNS: Record<PersonRole, "director_name" | "actors" | "producer_name"> = {
+  director: "director_name",
+  actor: "actors",
+  producer: "producer_name",
+}
+
+export const PERSON_ROLES: PersonRole[] = ["director", "actor", "producer"]
+
+// Ids are derived from names so the same person gets the same id in every
+// store and across re-imports, e.g. "Morgan Freeman" -> "morgan-freeman"
+export function personIdFor(name: string): string {
+  return slugify(name)
+}
+
+// Name columns hold one name or a list separated by "|" or ","
+export function splitNames(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(/[|,]/)
+    .map((name) => name.trim())
+    .filter((name) => name && name.toLowerCase() !== "none")
+}
+
+// Biographical details we have for some people, keyed by person id
+const KNOWN_PEOPLE = new Map<string, Pick<Person, "date_of_birth" | "known_for">>([
+  ...mockDirectorData.map(
+    (director) =>
+      [
+        personIdFor(director.director_name),
+        { date_of_birth: director.date_of_birth, known_for: director.director_famous_movies },
+      ] as const,
+  ),
+  ...mockActorData.map(
+    (actor) =>
+      [
+        personIdFor(actor.actor_name),
+        { date_of_birth: actor.actor_date_of_birth, known_for: actor.actor_famous_movie },
+      ] as const,
+  ),
+])
+
+export function creditsForMovie(movie: Movie): { people: Person[]; credits: Credit[] } {
+  const people: Person[] = []
+  const credits: Credit[] = []
+
+  for (const role of PERSON_ROLES) {
+    const names = splitNames(movie[ROLE_COLUMNS[role]])
+    names.forEach((name, order) => {
+      const id = personIdFor(name)
+      if (!id) return
+
+      people.push({ id, name, ...KNOWN_PEOPLE.get(id) })
+      credits.push({
+        id: `${movie.movie_id}:${role}:${id}`,
+        person_id: id,
+        movie_id: movie.movie_id,
+        role,
+        billing_order: order,
+      })
+    })
+  }
+
+  return { people, credits }
+}
+
+// Build the people and credits for a whole catalog, one person per id
+export function extractCredits(movies: Movie[]): { people: Person[]; credits: Credit[] } {
+  const people = new Map<string, Person>()
+  const credits: Credit[] = []
+
+  for (const movie of movies) {
+    const extracted = creditsForMovie(movie)
+    extracted.people.forEach((person) => {
+      if (!people.has(person.id)) people.set(person.id, person)
+    })
+    credits.push(...extracted.credits)
+  }
+
+  return { people: Array.from(people.values()), credits }
+}
+
+export interface PersonProfile {
+  person: Person
+  roles: PersonRole[]
+  filmography: { movie: Movie; roles: PersonRole[] }[]
+  ratingByYear: { year: number; avgRating: number; count: number }[]
+  collaborators: { person: Person; count: number }[]
+  genres: { genre: string; count: number }[]
+}
+
+// Summarize a person's career from their credits. movieCredits holds every
+// credit on the person's movies, used to find who they worked with.
+export function buildPersonProfile(
+  person: Person,
+  credits: Credit[],
+  movies: Movie[],
+  movieCredits: Credit[],
+  people: Person[],
+): PersonProfile {
+  const moviesById = new Map(movies.map((movie) => [movie.movie_id, movie]))
+  const rolesByMovie = new Map<string, PersonRole[]>()
+  credits.forEach((credit) => {
+    rolesByMovie.set(credit.movie_id, [...(rolesByMovie.get(credit.movie_id) ?? []), credit.role])
+  })
+
+  // Newest first
+  const filmography = Array.from(rolesByMovie.entries())
+    .filter(([movieId]) => moviesById.has(movieId))
+    .map(([movieId, roles]) => ({ movie: moviesById.get(movieId)!, roles }))
+    .sort((a, b) => b.movie.release_year - a.movie.release_year || a.movie.movie_name.localeCompare(b.movie.movie_name))
+
+  const years = new Map<number, number[]>()
+  const genres = new Map<string, number>()
+  filmography.forEach(({ movie }) => {
+    years.set(movie.release_year, [...(years.get(movie.release_year) ?? []), movie.imdb_score])
+    splitNames(movie.genre).forEach((genre) => genres.set(genre, (genres.get(genre) ?? 0) + 1))
+  })
+
+  // Count shared movies, not shared credits, so directing and producing the
+  // same film with someone counts once
+  const peopleById = new Map(people.map((p) => [p.id, p]))
+  const sharedMovies = new Map<string, Set<string>>()
+  movieCredits.forEach((credit) => {
+    if (credit.person_id === person.id || !rolesByMovie.has(credit.movie_id)) return
+    if (!sharedMovies.has(credit.person_id)) sharedMovies.set(credit.person_id, new Set())
+    sharedMovies.get(credit.person_id)!.add(credit.movie_id)
+  })
+
+  return {
+    person,
+    roles: PERSON_ROLES.filter((role) => credits.some((credit) => credit.role === role)),
+    filmography,
+    ratingByYear: Array.from(years.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([year, scores]) => ({
+        year,
+        avgRating: Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10,
+        count: scores.length,
+      })),
+    collaborators: Array.from(sharedMovies.entries())
+      .filter(([id]) => peopleById.has(id))
+      .map(([id, movieIds]) => ({ person: peopleById.get(id)!, count: movieIds.size }))
+      .sort((a, b) => b.count - a.count || a.person.name.localeCompare(b.person.name))
+      .slice(0, 10),
+    genres: Array.from(genres.entries())
+      .map(([genre, count]) => ({ genre, count }))
+      .sort((a, b) => b.count - a.count || a.genre.localeCompare(b.genre)),
+  }
+}
@@ -0,0 +1,8 @@
+// Raised when a provider can't produce a usable query: the endpoint failed,
+// timed out, or answered with something that doesn't fit the schema
+export class QueryProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "QueryProviderError"
+  }
+}
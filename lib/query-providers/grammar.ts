@@ -0,0 +1,9 @@
+import { interpretChatMessage } from "../data-utils"
+import type { QueryProvider } from "./types"
+
+export const grammarProvider: QueryProvider = {
+  name: "grammar",
+  async interpret(message, { movies, previous }) {
+    return interpretChatMessage(movies, message, previous)
+  },
+}
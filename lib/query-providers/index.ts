@@ -0,0 +1,60 @@
+import type { FollowUp } from "../nl-query/context"
+import { grammarProvider } from "./grammar"
+import { createOpenAIProvider } from "./openai"
+import type { QueryContext, QueryProvider, QueryProviderName } from "./types"
+
+export { QueryProviderError } from "./errors"
+export { FOLLOW_UP_SCHEMA, parseFollowUp } from "./schema"
+export type { QueryContext, QueryProvider, QueryProviderName } from "./types"
+
+const PROVIDERS: QueryProviderName[] = ["grammar", "openai"]
+
+// Pick the provider from MOVIE_INSIGHTS_QUERY_PROVIDER, defaulting to the
+// built-in grammar. The "openai" provider reads its endpoint from
+// MOVIE_INSIGHTS_LLM_BASE_URL, MOVIE_INSIGHTS_LLM_MODEL, and optionally
+// MOVIE_INSIGHTS_LLM_API_KEY and MOVIE_INSIGHTS_LLM_TIMEOUT_MS.
+export function getQueryProviderName(): QueryProviderName {
+  const provider = process.env.MOVIE_INSIGHTS_QUERY_PROVIDER
+  if (!provider) return "grammar"
+  if (!PROVIDERS.includes(provider as QueryProviderName)) {
+    throw new Error(`Unknown query provider "${provider}"`)
+  }
+  return provider as QueryProviderName
+}
+
+export function getQueryProvider(name = getQueryProviderName()): QueryProvider {
+  switch (name) {
+    case "grammar":
+      return grammarProvider
+    case "openai": {
+      const baseUrl = process.env.MOVIE_INSIGHTS_LLM_BASE_URL
+      const model = process.env.MOVIE_INSIGHTS_LLM_MODEL
+      if (!baseUrl || !model) {
+        throw new Error("The openai query provider needs MOVIE_INSIGHTS_LLM_BASE_URL and MOVIE_INSIGHTS_LLM_MODEL")
+      }
+      const timeout = Number(process.env.MOVIE_INSIGHTS_LLM_TIMEOUT_MS)
+      return createOpenAIProvider({
+        baseUrl,
+        model,
+        apiKey: process.env.MOVIE_INSIGHTS_LLM_API_KEY,
+        timeoutMs: timeout > 0 ? timeout : undefined,
+      })
+    }
+  }
+}
+
+// Interpret a chat message with the configured provider. Whatever goes wrong
+// with it, the grammar still answers, so the chat never stops working.
+export async function interpretMessage(
+  message: string,
+  context: QueryContext,
+  provider?: QueryProvider,
+): Promise<FollowUp & { provider: QueryProviderName }> {
+  try {
+    const chosen = provider ?? getQueryProvider()
+    return { ...(await chosen.interpret(message, context)), provider: chosen.name }
+  } catch (error) {
+    console.warn("Query provider failed, falling back to the grammar:", error)
+    return { ...(await grammarProvider.interpret(message, context)), provider: "grammar" }
+  }
+}
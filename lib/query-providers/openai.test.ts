@@ -0,0 +1,116 @@
+import { createServer, type RequestListener, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { grammarProvider } from "./grammar"
+import { interpretMessage, QueryProviderError } from "./index"
+import { createOpenAIProvider } from "./openai"
+
+const context = { movies: initialMovies, previous: null }
+
+let server: Server | undefined
+
+// A chat completions endpoint answering every request with the handler
+async function stubEndpoint(handler: RequestListener): Promise<string> {
+  server = createServer(handler)
+  await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`
+}
+
+function respond(body: unknown): RequestListener {
+  return (_request, response) => {
+    response.setHeader("Content-Type", "application/json")
+    response.end(JSON.stringify(body))
+  }
+}
+
+function answer(content: unknown): RequestListener {
+  return respond({ choices: [{ message: { content: JSON.stringify(content) } }] })
+}
+
+describe("openai query provider", () => {
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    server?.closeAllConnections()
+    await new Promise((resolve) => server?.close(resolve))
+    server = undefined
+  })
+
+  it("reads a query that fits the schema", async () => {
+    const baseUrl = await stubEndpoint(
+      answer({
+        kind: "new",
+        conditions: [{ kind: "text", field: "genre", values: ["Drama"], mode: "any", negated: false }],
+        sort: null,
+        limit: 3,
+        confidence: 0.9,
+        unmatched: [],
+      }),
+    )
+    const provider = createOpenAIProvider({ baseUrl, model: "stub" })
+
+    expect(await provider.interpret("three dramas", context)).toEqual({
+      kind: "new",
+      query: {
+        conditions: [{ kind: "text", field: "genre", values: ["Drama"], mode: "any", negated: false }],
+        sort: undefined,
+        limit: 3,
+        confidence: 0.9,
+        unmatched: [],
+      },
+    })
+  })
+
+  it("times out when the body stalls after the headers", async () => {
+    const baseUrl = await stubEndpoint((_request, response) => {
+      response.writeHead(200, { "Content-Type": "application/json" })
+      response.write('{"choices": [')
+    })
+    const provider = createOpenAIProvider({ baseUrl, model: "stub", timeoutMs: 100 })
+
+    await expect(provider.interpret("dramas", context)).rejects.toThrow("timed out after 100ms")
+  })
+
+  it.each([
+    { body: [] },
+    { body: {} },
+    { body: { choices: "none" } },
+    { body: { choices: [{ text: "{}" }] } },
+    { body: { choices: [{ message: { content: null } }] } },
+  ])("rejects the response $body", async ({ body }) => {
+    const baseUrl = await stubEndpoint(respond(body))
+    const provider = createOpenAIProvider({ baseUrl, model: "stub" })
+
+    await expect(provider.interpret("dramas", context)).rejects.toThrow(
+      "Query provider response has no message content",
+    )
+  })
+
+  it("reports a refusal", async () => {
+    const refusal = { message: { content: null, refusal: "Not about movies" } }
+    const baseUrl = await stubEndpoint(respond({ choices: [refusal] }))
+    const provider = createOpenAIProvider({ baseUrl, model: "stub" })
+
+    await expect(provider.interpret("dramas", context)).rejects.toThrow("Query provider refused: Not about movies")
+  })
+
+  it("rejects an answer that doesn't fit the schema", async () => {
+    const baseUrl = await stubEndpoint(answer({ kind: "new", conditions: "Drama" }))
+    const provider = createOpenAIProvider({ baseUrl, model: "stub" })
+
+    await expect(provider.interpret("dramas", context)).rejects.toThrow(QueryProviderError)
+  })
+
+  it("falls back to the grammar when the endpoint fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    const baseUrl = await stubEndpoint((_request, response) => {
+      response.statusCode = 500
+      response.end()
+    })
+    const provider = createOpenAIProvider({ baseUrl, model: "stub" })
+
+    const result = await interpretMessage("dramas after 2000", context, provider)
+    expect(result.provider).toBe("grammar")
+    expect(result.query).toEqual((await grammarProvider.interpret("dramas after 2000", context)).query)
+  })
+})
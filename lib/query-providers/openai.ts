@@ -0,0 +1,112 @@
+import { buildQueryVocabulary } from "../nl-query/vocabulary"
+import { QueryProviderError } from "./errors"
+import { FOLLOW_UP_SCHEMA, isObject, parseFollowUp } from "./schema"
+import type { QueryContext, QueryProvider } from "./types"
+
+export interface OpenAIProviderOptions {
+  // Base URL of the API, e.g. "https://api.openai.com/v1" or a local server
+  baseUrl: string
+  model: string
+  apiKey?: string
+  timeoutMs?: number
+  // Swappable so the provider can be pointed at a stub
+  fetch?: typeof fetch
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000
+
+const INSTRUCTIONS = `You turn questions about movies into a JSON search query for a movie catalog.
+
+Text conditions match these fields: movie_name, genre, director_name, actors, producer_name, language, country, plot_keyword, movie_certification.
+Range conditions bound these numbers: release_year, imdb_score (0 to 10), movie_duration (minutes), budget (US dollars).
+Use "all" mode when every value must match and "any" when one is enough. Set negated to exclude matching movies.
+Use null for a missing bound, sort or limit.
+
+If a previous query is given, the message may follow up on it:
+- "refine": the message narrows the previous results. Return the previous conditions plus the new ones.
+- "broaden": the message widens them ("any year", "also include dramas"). Return the previous conditions loosened.
+- "sort": the message only reorders them. Return the previous conditions with the new sort.
+- "new": the message is a new question. Return only what it asks for.
+
+Set confidence from 0 to 1 for how sure you are of the reading, and list words you could not place in unmatched.
+Spell genres, languages and countries the way the catalog does.`
+
+function describeContext({ movies, previous }: QueryContext): string {
+  const vocabulary = buildQueryVocabulary(movies)
+  return [
+    `Catalog genres: ${vocabulary.genres.join(", ")}`,
+    `Catalog languages: ${vocabulary.languages.join(", ")}`,
+    `Catalog countries: ${vocabulary.countries.join(", ")}`,
+    `Previous query: ${previous ? JSON.stringify({ ...previous, confidence: undefined, unmatched: undefined }) : "none"}`,
+  ].join("\n")
+}
+
+// Query understanding by a model behind any OpenAI-compatible chat
+// completions endpoint, using structured output to pin down the answer's shape
+export function createOpenAIProvider(options: OpenAIProviderOptions): QueryProvider {
+  const { baseUrl, model, apiKey, timeoutMs = DEFAULT_TIMEOUT_MS, fetch: request = fetch } = options
+
+  return {
+    name: "openai",
+    async interpret(message, context) {
+      const controller = new AbortController()
+      const timer = setTimeout(() => controller.abort(), timeoutMs)
+      const fail = (error: unknown): never => {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new QueryProviderError(
+          `Query provider request failed: ${controller.signal.aborted ? `timed out after ${timeoutMs}ms` : reason}`,
+        )
+      }
+
+      let body: unknown
+      try {
+        const response = await request(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0,
+            messages: [
+              { role: "system", content: INSTRUCTIONS },
+              { role: "system", content: describeContext(context) },
+              { role: "user", content: message },
+            ],
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "movie_query", strict: true, schema: FOLLOW_UP_SCHEMA },
+            },
+          }),
+          signal: controller.signal,
+        }).catch(fail)
+
+        if (!response.ok) {
+          throw new QueryProviderError(`Query provider returned ${response.status} ${response.statusText}`)
+        }
+
+        // The body can stall as well as the headers, so the timeout runs until it is read
+        body = await response.json().catch((error) => (controller.signal.aborted ? fail(error) : null))
+      } finally {
+        clearTimeout(timer)
+      }
+
+      // Like the answer itself, the envelope around it is checked rather than trusted
+      const choices = isObject(body) && Array.isArray(body.choices) ? body.choices : []
+      const choice = isObject(choices[0]) && isObject(choices[0].message) ? choices[0].message : undefined
+      if (choice?.refusal) throw new QueryProviderError(`Query provider refused: ${choice.refusal}`)
+      if (typeof choice?.content !== "string") {
+        throw new QueryProviderError("Query provider response has no message content")
+      }
+
+      let output: unknown
+      try {
+        output = JSON.parse(choice.content)
+      } catch {
+        throw new QueryProviderError("Query provider answered with invalid JSON")
+      }
+      return parseFollowUp(output)
+    },
+  }
+}
@@ -0,0 +1,196 @@
+import type { FollowUp, FollowUpKind } from "../nl-query/context"
+import type { MovieQuery, NumericField, QueryCondition, TextField } from "../nl-query/types"
+import { QueryProviderError } from "./errors"
+
+const FOLLOW_UP_KINDS: FollowUpKind[] = ["new", "refine", "broaden", "sort"]
+
+const TEXT_FIELDS: TextField[] = [
+  "movie_name",
+  "genre",
+  "director_name",
+  "actors",
+  "producer_name",
+  "language",
+  "country",
+  "plot_keyword",
+  "movie_certification",
+]
+
+const NUMERIC_FIELDS: NumericField[] = ["release_year", "imdb_score", "movie_duration", "budget"]
+
+// Largest result count a model may ask for
+const MAX_LIMIT = 100
+
+// JSON Schema for the model's answer, in the strict form OpenAI-compatible
+// structured output requires: every property listed as required, nothing
+// extra allowed, and null standing in for "not set".
+export const FOLLOW_UP_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["kind", "conditions", "sort", "limit", "confidence", "unmatched"],
+  properties: {
+    kind: { type: "string", enum: FOLLOW_UP_KINDS },
+    conditions: {
+      type: "array",
+      items: {
+        anyOf: [
+          {
+            type: "object",
+            additionalProperties: false,
+            required: ["kind", "field", "values", "mode", "negated"],
+            properties: {
+              kind: { type: "string", enum: ["text"] },
+              field: { type: "string", enum: TEXT_FIELDS },
+              values: { type: "array", items: { type: "string" } },
+              mode: { type: "string", enum: ["all", "any"] },
+              negated: { type: "boolean" },
+            },
+          },
+          {
+            type: "object",
+            additionalProperties: false,
+            required: ["kind", "field", "min", "max", "minInclusive", "maxInclusive"],
+            properties: {
+              kind: { type: "string", enum: ["range"] },
+              field: { type: "string", enum: NUMERIC_FIELDS },
+              min: { type: ["number", "null"] },
+              max: { type: ["number", "null"] },
+              minInclusive: { type: "boolean" },
+              maxInclusive: { type: "boolean" },
+            },
+          },
+        ],
+      },
+    },
+    sort: {
+      anyOf: [
+        {
+          type: "object",
+          additionalProperties: false,
+          required: ["field", "direction"],
+          properties: {
+            field: { type: "string", enum: NUMERIC_FIELDS },
+            direction: { type: "string", enum: ["asc", "desc"] },
+          },
+        },
+        { type: "null" },
+      ],
+    },
+    limit: { type: ["integer", "null"] },
+    confidence: { type: "number" },
+    unmatched: { type: "array", items: { type: "string" } },
+  },
+} as const
+
+function fail(path: string, expected: string): never {
+  throw new QueryProviderError(`Invalid model output at ${path}: expected ${expected}`)
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function checkKeys(value: Record<string, unknown>, keys: string[], path: string) {
+  for (const key of Object.keys(value)) {
+    if (!keys.includes(key)) fail(`${path}.${key}`, "no such property")
+  }
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], path: string): T {
+  if (typeof value !== "string" || !options.includes(value as T)) fail(path, options.join(" | "))
+  return value as T
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") fail(path, "a boolean")
+  return value
+}
+
+function optionalNumber(value: unknown, path: string): number | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value !== "number" || !Number.isFinite(value)) fail(path, "a number or null")
+  return value
+}
+
+function strings(value: unknown, path: string): string[] {
+  if (!Array.isArray(value)) fail(path, "an array of strings")
+  return value.map((item, i) => {
+    if (typeof item !== "string") fail(`${path}[${i}]`, "a string")
+    return item.trim()
+  })
+}
+
+function parseCondition(value: unknown, path: string): QueryCondition {
+  if (!isObject(value)) fail(path, "an object")
+
+  if (value.kind === "text") {
+    checkKeys(value, ["kind", "field", "values", "mode", "negated"], path)
+    const values = strings(value.values, `${path}.values`).filter(Boolean)
+    if (values.length === 0) fail(`${path}.values`, "at least one value")
+    return {
+      kind: "text",
+      field: oneOf(value.field, TEXT_FIELDS, `${path}.field`),
+      values,
+      mode: oneOf(value.mode, ["all", "any"] as const, `${path}.mode`),
+      negated: boolean(value.negated, `${path}.negated`),
+    }
+  }
+
+  if (value.kind === "range") {
+    checkKeys(value, ["kind", "field", "min", "max", "minInclusive", "maxInclusive"], path)
+    const min = optionalNumber(value.min, `${path}.min`)
+    const max = optionalNumber(value.max, `${path}.max`)
+    if (min === undefined && max === undefined) fail(path, "a min or a max")
+    if (min !== undefined && max !== undefined && min > max) fail(path, "min no greater than max")
+    return {
+      kind: "range",
+      field: oneOf(value.field, NUMERIC_FIELDS, `${path}.field`),
+      min,
+      max,
+      minInclusive: boolean(value.minInclusive, `${path}.minInclusive`),
+      maxInclusive: boolean(value.maxInclusive, `${path}.maxInclusive`),
+    }
+  }
+
+  return fail(`${path}.kind`, '"text" | "range"')
+}
+
+// Check a model's answer against FOLLOW_UP_SCHEMA and turn it into the
+// same shape the grammar produces. Models don't always honor the schema, so
+// nothing is taken on trust.
+export function parseFollowUp(output: unknown): FollowUp {
+  if (!isObject(output)) fail("$", "an object")
+  checkKeys(output, ["kind", "conditions", "sort", "limit", "confidence", "unmatched"], "$")
+
+  if (!Array.isArray(output.conditions)) fail("$.conditions", "an array")
+  const conditions = output.conditions.map((condition, i) => parseCondition(condition, `$.conditions[${i}]`))
+
+  let sort: MovieQuery["sort"]
+  if (output.sort !== null && output.sort !== undefined) {
+    if (!isObject(output.sort)) fail("$.sort", "an object or null")
+    checkKeys(output.sort, ["field", "direction"], "$.sort")
+    sort = {
+      field: oneOf(output.sort.field, NUMERIC_FIELDS, "$.sort.field"),
+      direction: oneOf(output.sort.direction, ["asc", "desc"] as const, "$.sort.direction"),
+    }
+  }
+
+  const limit = optionalNumber(output.limit, "$.limit")
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+    fail("$.limit", `an integer from 1 to ${MAX_LIMIT} or null`)
+  }
+
+  const confidence = optionalNumber(output.confidence, "$.confidence")
+  if (confidence === undefined || confidence < 0 || confidence > 1) fail("$.confidence", "a number from 0 to 1")
+
+  return {
+    kind: oneOf(output.kind, FOLLOW_UP_KINDS, "$.kind"),
+    query: {
+      conditions,
+      sort,
+      limit,
+      confidence,
+      unmatched: strings(output.unmatched, "$.unmatched").filter(Boolean),
+    },
+  }
+}
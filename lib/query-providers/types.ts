@@ -0,0 +1,19 @@
+import type { Movie } from "../db-service"
+import type { FollowUp } from "../nl-query/context"
+import type { MovieQuery } from "../nl-query/types"
+
+// Which implementation turns chat messages into movie queries:
+// - "grammar": the built-in tokenizer and grammar in lib/nl-query
+// - "openai": a language model behind any OpenAI-compatible chat completions API
+export type QueryProviderName = "grammar" | "openai"
+
+export interface QueryContext {
+  movies: Movie[]
+  // The chat's last search, which a follow-up question builds on
+  previous: MovieQuery | null
+}
+
+export interface QueryProvider {
+  name: QueryProviderName
+  interpret(message: string, context: QueryContext): Promise<FollowUp>
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest"
+import type { Movie } from "./db-service"
+import { initialMovies } from "./movie-catalog"
+import { RecommendationEngine } from "./recommendations"
+
+// A movie with only the features a test gives it
+const movie = (movie_id: string, features: Partial<Movie>): Movie => ({
+  ...initialMovies[0],
+  movie_id,
+  movie_name: `Movie ${movie_id}`,
+  plot_keyword: "",
+  language: "",
+  release_year: 0,
+  genre: "",
+  director_name: "",
+  actors: "",
+  ...features,
+})
+
+const ids = (recommendations: { movie: Movie }[]) => recommendations.map(({ movie }) => movie.movie_id)
+
+describe("RecommendationEngine", () => {
+  it("ranks movies by what they share, weighted by group", () => {
+    const engine = new RecommendationEngine([
+      movie("seed", { director_name: "Jane Doe", genre: "Drama", actors: "Ann Lee" }),
+      movie("director", { director_name: "Jane Doe" }),
+      movie("actor", { actors: "Ann Lee" }),
+      movie("genre", { genre: "Drama" }),
+      movie("unrelated", { genre: "Comedy" }),
+    ])
+
+    const recommendations = engine.similarTo("seed", 10)
+
+    expect(ids(recommendations)).toEqual(["director", "actor", "genre"])
+    recommendations.forEach(({ score }) => expect(score).toBeGreaterThan(0))
+    expect(recommendations[0].score).toBeLessThanOrEqual(1)
+  })
+
+  it("counts a rare feature for more than a common one", () => {
+    const engine = new RecommendationEngine([
+      movie("seed", { plot_keyword: "heist|love" }),
+      movie("rare", { plot_keyword: "heist" }),
+      movie("common", { plot_keyword: "love" }),
+      ...["a", "b", "c"].map((id) => movie(id, { plot_keyword: "love|war" })),
+    ])
+
+    expect(ids(engine.similarTo("seed", 2))).toEqual(["rare", "common"])
+  })
+
+  it("breaks ties by rating, then by title", () => {
+    const engine = new RecommendationEngine([
+      movie("seed", { genre: "Drama" }),
+      movie("low", { genre: "Drama", imdb_score: 6 }),
+      movie("b", { genre: "Drama", imdb_score: 8, movie_name: "Beta" }),
+      movie("a", { genre: "Drama", imdb_score: 8, movie_name: "Alpha" }),
+    ])
+
+    const recommendations = engine.similarTo("seed", 3)
+
+    expect(ids(recommendations)).toEqual(["a", "b", "low"])
+    expect(new Set(recommendations.map(({ score }) => score)).size).toBe(1)
+  })
+
+  it("explains a pick by the features shared, strongest first", () => {
+    const engine = new RecommendationEngine([
+      movie("seed", {
+        director_name: "Jane Doe",
+        plot_keyword: "heist|dream|maze|city|rain",
+        genre: "Drama",
+        language: "French",
+      }),
+      movie("match", {
+        director_name: "Jane Doe",
+        plot_keyword: "heist|dream|maze|city",
+        genre: "Drama|Comedy",
+        language: "German",
+      }),
+      movie("other", { genre: "Drama" }),
+    ])
+
+    const [match] = engine.similarTo("seed", 1)
+
+    expect(match.movie.movie_id).toBe("match")
+    // At most three keywords; the unshared comedy and languages are left out
+    expect(match.reasons).toHaveLength(3)
+    expect(match.reasons[0]).toMatch(/^shares keywords: /)
+    expect(match.reasons[0].split(", ")).toHaveLength(3)
+    expect(match.reasons.slice(1)).toEqual(["same director", "also Drama"])
+  })
+
+  it("names the directors when more than one is shared", () => {
+    const engine = new RecommendationEngine([
+      movie("seed", { director_name: "Jane Doe|John Roe", release_year: 1994 }),
+      movie("match", { director_name: "Jane Doe|John Roe", release_year: 1997 }),
+    ])
+
+    expect(engine.similarTo("seed")[0].reasons).toEqual(["same directors: Jane Doe, John Roe", "also from the 1990s"])
+  })
+
+  it("leaves out the movie itself and respects the limit", () => {
+    const engine = new RecommendationEngine(initialMovies)
+
+    const recommendations = engine.similarTo("1", 2)
+
+    expect(recommendations).toHaveLength(2)
+    expect(ids(recommendations)).not.toContain("1")
+    expect(() => engine.similarTo("missing")).toThrow("Movie missing not found")
+  })
+
+  it("ranks against a profile, pushing down what is disliked and skipping exclusions", () => {
+    const engine = new RecommendationEngine([
+      movie("liked", { genre: "Drama", plot_keyword: "heist" }),
+      movie("disliked", { genre: "Drama", plot_keyword: "zombie" }),
+      movie("heist", { genre: "Drama", plot_keyword: "heist" }),
+      movie("zombie", { genre: "Drama", plot_keyword: "zombie" }),
+      movie("seen", { plot_keyword: "heist" }),
+    ])
+
+    const recommendations = engine.similarToProfile(
+      new Map([
+        ["liked", 1],
+        ["disliked", -1],
+      ]),
+      new Set(["seen"]),
+    )
+
+    expect(ids(recommendations)).toEqual(["heist"])
+    expect(engine.similarToProfile(new Map(), new Set())).toEqual([])
+  })
+})
@@ -0,0 +1,194 @@
+import type { Movie } from "./db-service"
+import { decadeOf } from "./facets"
+import { compareMovies } from "./movie-pages"
+import { personIdFor, splitNames } from "./people"
+
+// Groups of features a movie is described by. Features are keyed
+// "group:value", e.g. "keyword:heist" or "director:christopher-nolan".
+type FeatureGroup = "director" | "keyword" | "actor" | "genre" | "language" | "era"
+
+// How much a match in each group counts before rarity is taken into account
+const GROUP_WEIGHTS: Record<FeatureGroup, number> = {
+  director: 2,
+  keyword: 1.5,
+  actor: 1.2,
+  genre: 1,
+  language: 0.5,
+  era: 0.5,
+}
+
+// Values of each group for a movie
+const GROUP_VALUES: Record<FeatureGroup, (movie: Movie) => string[]> = {
+  director: (movie) => splitNames(movie.director_name),
+  keyword: (movie) => splitNames(movie.plot_keyword),
+  actor: (movie) => splitNames(movie.actors),
+  genre: (movie) => splitNames(movie.genre),
+  language: (movie) => (movie.language ? [movie.language] : []),
+  era: (movie) => (movie.release_year ? [decadeOf(movie.release_year)] : []),
+}
+
+const GROUPS = Object.keys(GROUP_WEIGHTS) as FeatureGroup[]
+
+export interface Recommendation {
+  movie: Movie
+  // How good a match it is, 0 to 1: the cosine similarity for content matches
+  score: number
+  // Why it was picked, strongest first: "same director", "shares keywords: heist, dream"
+  reasons: string[]
+}
+
+interface Feature {
+  group: FeatureGroup
+  label: string
+}
+
+function featureKey(group: FeatureGroup, value: string): string {
+  return `${group}:${group === "director" || group === "actor" ? personIdFor(value) : value.toLowerCase()}`
+}
+
+function explain(group: FeatureGroup, labels: string[]): string {
+  switch (group) {
+    case "director":
+      return labels.length > 1 ? `same directors: ${labels.join(", ")}` : "same director"
+    case "keyword":
+      return `shares keywords: ${labels.join(", ")}`
+    case "actor":
+      return `shares cast: ${labels.join(", ")}`
+    case "genre":
+      return `also ${labels.join(", ")}`
+    case "language":
+      return `also in ${labels[0]}`
+    case "era":
+      return `also from the ${labels[0]}`
+  }
+}
+
+// Content-based recommendations. Each movie becomes a vector over its
+// features, weighted by group and by how rare the feature is in the catalog,
+// so sharing a niche keyword counts for more than both being in English.
+export class RecommendationEngine {
+  private movies = new Map<string, Movie>()
+  private vectors = new Map<string, Map<string, number>>()
+  // Movies having each feature, with the feature's weight in their vector
+  private postings = new Map<string, Map<string, number>>()
+  private features = new Map<string, Feature>()
+
+  constructor(movies: Movie[]) {
+    const documentFrequency = new Map<string, number>()
+    const movieFeatures = movies.map((movie) => {
+      const keys = new Set<string>()
+      GROUPS.forEach((group) =>
+        GROUP_VALUES[group](movie).forEach((value) => {
+          const key = featureKey(group, value)
+          keys.add(key)
+          if (!this.features.has(key)) this.features.set(key, { group, label: value })
+        }),
+      )
+      keys.forEach((key) => documentFrequency.set(key, (documentFrequency.get(key) ?? 0) + 1))
+      return { movie, keys }
+    })
+
+    movieFeatures.forEach(({ movie, keys }) => {
+      const vector = new Map<string, number>()
+      keys.forEach((key) => {
+        const rarity = Math.log(1 + movies.length / documentFrequency.get(key)!)
+        vector.set(key, GROUP_WEIGHTS[this.features.get(key)!.group] * rarity)
+      })
+      const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0))
+      vector.forEach((weight, key) => {
+        const normalized = weight / norm
+        vector.set(key, normalized)
+        if (!this.postings.has(key)) this.postings.set(key, new Map())
+        this.postings.get(key)!.set(movie.movie_id, normalized)
+      })
+      this.movies.set(movie.movie_id, movie)
+      this.vectors.set(movie.movie_id, vector)
+    })
+  }
+
+  has(movieId: string): boolean {
+    return this.movies.has(movieId)
+  }
+
+  movie(movieId: string): Movie | undefined {
+    return this.movies.get(movieId)
+  }
+
+  // Movies most like the given one, best first. Throws for an unknown movie.
+  similarTo(movieId: string, limit = 3): Recommendation[] {
+    const vector = this.vectors.get(movieId)
+    if (!vector) throw new Error(`Movie ${movieId} not found`)
+    return this.rank(vector, new Set([movieId]), limit)
+  }
+
+  // Movies most like a weighted set of movies, e.g. a user's taste: liked
+  // movies pull similar ones up, negative weights push them down. The movies
+  // in the set and those excluded are left out.
+  similarToProfile(weights: Map<string, number>, excluded: Set<string>, limit = 10): Recommendation[] {
+    const profile = new Map<string, number>()
+    weights.forEach((movieWeight, movieId) =>
+      this.vectors
+        .get(movieId)
+        ?.forEach((weight, key) => profile.set(key, (profile.get(key) ?? 0) + movieWeight * weight)),
+    )
+    const norm = Math.sqrt(Array.from(profile.values()).reduce((sum, weight) => sum + weight * weight, 0))
+    if (norm === 0) return []
+    profile.forEach((weight, key) => profile.set(key, weight / norm))
+    return this.rank(profile, new Set([...weights.keys(), ...excluded]), limit)
+  }
+
+  // Cosine similarity of two movies, 0 when either is unknown
+  similarity(movieId: string, otherId: string): number {
+    const vector = this.vectors.get(movieId)
+    const other = this.vectors.get(otherId)
+    if (!vector || !other) return 0
+    let dot = 0
+    vector.forEach((weight, key) => {
+      dot += weight * (other.get(key) ?? 0)
+    })
+    return dot
+  }
+
+  // Scores only the movies sharing a feature with the vector, through the
+  // postings, rather than the whole catalog
+  private rank(vector: Map<string, number>, excluded: Set<string>, limit: number): Recommendation[] {
+    const contributions = new Map<string, Map<string, number>>()
+    vector.forEach((weight, key) => {
+      this.postings.get(key)?.forEach((otherWeight, movieId) => {
+        if (excluded.has(movieId)) return
+        if (!contributions.has(movieId)) contributions.set(movieId, new Map())
+        contributions.get(movieId)!.set(key, weight * otherWeight)
+      })
+    })
+
+    const byRating = compareMovies("rating")
+    return Array.from(contributions, ([movieId, shared]) => ({
+      movie: this.movies.get(movieId)!,
+      shared,
+      score: Array.from(shared.values()).reduce((sum, value) => sum + value, 0),
+    }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || byRating(a.movie, b.movie))
+      .slice(0, Math.max(0, limit))
+      .map(({ movie, shared, score }) => ({ movie, score: Math.min(1, score), reasons: this.reasons(shared) }))
+  }
+
+  private reasons(shared: Map<string, number>): string[] {
+    const groups = new Map<FeatureGroup, { total: number; labels: string[] }>()
+    // Only what the movies have in common speaks for a pick
+    Array.from(shared)
+      .filter(([, value]) => value > 0)
+      .sort(([, a], [, b]) => b - a)
+      .forEach(([key, value]) => {
+        const { group, label } = this.features.get(key)!
+        const entry = groups.get(group) ?? { total: 0, labels: [] }
+        entry.total += value
+        // A few examples are enough to explain a match
+        if (entry.labels.length < 3) entry.labels.push(label)
+        groups.set(group, entry)
+      })
+    return Array.from(groups)
+      .sort(([, a], [, b]) => b.total - a.total)
+      .map(([group, { labels }]) => explain(group, labels))
+  }
+}
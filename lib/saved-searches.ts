@@ -0,0 +1,45 @@
+import type { Movie, SavedSearch } from "./db-service"
+import { formatRange, isOpenRange, readFilterView } from "./filter-params"
+import { filterMovies, type FilterLookups } from "./movie-filters"
+
+// Saved searches that gained movies from an import. `movies` is the catalog
+// after the import and `addedIds` the movies it didn't have before. Each
+// returned search has the new matches added to its unseen ones.
+export function findNewMatches(
+  searches: SavedSearch[],
+  movies: Movie[],
+  addedIds: Set<string>,
+  lookups: FilterLookups,
+): SavedSearch[] {
+  if (addedIds.size === 0) return []
+
+  const added = movies.filter((movie) => addedIds.has(movie.movie_id))
+  return searches.flatMap((search) => {
+    const view = readFilterView(new URLSearchParams(search.params))
+    const matches = filterMovies(added, view, lookups).movies.map((movie) => movie.movie_id)
+    const unseen = matches.filter((movieId) => !search.new_movie_ids.includes(movieId))
+    if (unseen.length === 0) return []
+    return [{ ...search, new_movie_ids: [...search.new_movie_ids, ...unseen] }]
+  })
+}
+
+// Label for a saved search's filters when the user hasn't named it yet
+export function describeSavedSearch(params: string): string {
+  const { query, filters } = readFilterView(new URLSearchParams(params))
+  const parts = [
+    query && `"${query}"`,
+    filters.genres.join(filters.genreMatch === "all" ? " & " : " or "),
+    filters.excludedGenres.length > 0 && `no ${filters.excludedGenres.join(", ")}`,
+    filters.certifications.join("/"),
+    filters.excludedCertifications.length > 0 && `no ${filters.excludedCertifications.join("/")}`,
+    !isOpenRange(filters.year) && formatRange(filters.year),
+    filters.language,
+    filters.excludedLanguages.length > 0 && `not in ${filters.excludedLanguages.join(", ")}`,
+    filters.country,
+    filters.excludedCountries.length > 0 && `not from ${filters.excludedCountries.join(", ")}`,
+    filters.award,
+    filters.excludedAwards.length > 0 && `without ${filters.excludedAwards.join(", ")}`,
+    (filters.minRating > 0 || filters.maxRating < 10) && `rated ${filters.minRating}-${filters.maxRating}`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(", ") : "All movies"
+}
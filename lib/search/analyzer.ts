@@ -0,0 +1,79 @@
+// Turns text into index terms. Documents and queries go through the same
+// steps so "Amélie" finds "amelie" and "heroes" finds "hero".
+
+export interface TextToken {
+  // Folded, lower-cased word as written, before stemming
+  word: string
+  term: string
+  // Character offsets into the original text
+  start: number
+  end: number
+}
+
+// Letters that don't decompose into a base letter plus accent
+const LIGATURES: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+}
+
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu
+
+// Words too common to narrow a search. They are still indexed, so a query
+// made only of them ("it", "up") still works.
+export const STOP_WORDS = new Set(["a", "an", "and", "in", "of", "on", "or", "the", "to", "with"])
+
+export function foldDiacritics(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[ßæœøłđðþı]/g, (char) => LIGATURES[char])
+}
+
+const VOWEL = /[aeiouy]/
+
+function hasVowel(word: string): boolean {
+  return VOWEL.test(word)
+}
+
+// A light suffix stripper in the spirit of Porter's first steps. It only has
+// to send related words to the same term, not produce real words:
+// "movie" and "movies" both become "movi".
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word
+  let stemmed = word.replace(/['’]s$/, "").replace(/['’]/g, "")
+
+  if (stemmed.endsWith("sses")) stemmed = stemmed.slice(0, -2)
+  else if (stemmed.endsWith("ies")) stemmed = stemmed.slice(0, -2)
+  else if (/(?:ch|sh|x|z)es$/.test(stemmed)) stemmed = stemmed.slice(0, -2)
+  else if (stemmed.endsWith("s") && !/(?:ss|us|is)$/.test(stemmed)) stemmed = stemmed.slice(0, -1)
+
+  for (const suffix of ["ing", "ed", "ly"]) {
+    const base = stemmed.slice(0, -suffix.length)
+    if (stemmed.endsWith(suffix) && base.length >= 3 && hasVowel(base)) {
+      // "running" -> "runn" -> "run"
+      stemmed = /([^aeiouylsz])\1$/.test(base) ? base.slice(0, -1) : base
+      break
+    }
+  }
+
+  if (stemmed.length > 3 && stemmed.endsWith("y")) stemmed = `${stemmed.slice(0, -1)}i`
+  if (stemmed.length > 3 && stemmed.endsWith("e")) stemmed = stemmed.slice(0, -1)
+  return stemmed
+}
+
+export function analyze(text: string): TextToken[] {
+  const tokens: TextToken[] = []
+  for (const match of text.matchAll(WORD)) {
+    const word = foldDiacritics(match[0])
+    tokens.push({ word, term: stem(word), start: match.index!, end: match.index! + match[0].length })
+  }
+  return tokens
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { AutocompleteIndex, buildAutocompleteIndex, groupSuggestions, type AutocompleteEntry } from "./autocomplete"
+
+const entry = (label: string, weight: number, kind: AutocompleteEntry["kind"] = "title"): AutocompleteEntry => ({
+  kind,
+  label,
+  value: label,
+  weight,
+})
+
+function indexOf(...entries: AutocompleteEntry[]): AutocompleteIndex {
+  const index = new AutocompleteIndex()
+  entries.forEach((item) => index.add(item))
+  return index
+}
+
+const labels = (entries: AutocompleteEntry[]) => entries.map((item) => item.label)
+
+const movie = (movieId: string, overrides: Partial<(typeof initialMovies)[number]>) => ({
+  ...initialMovies[0],
+  movie_id: movieId,
+  ...overrides,
+})
+
+describe("AutocompleteIndex", () => {
+  it("matches a prefix of any word of a label", () => {
+    const index = indexOf(entry("Christopher Nolan", 1, "person"), entry("Nomadland", 1), entry("Inception", 1))
+
+    expect(labels(index.lookup("nol"))).toEqual(["Christopher Nolan"])
+    expect(labels(index.lookup("no"))).toEqual(["Nomadland", "Christopher Nolan"])
+  })
+
+  it("requires every typed word, in any order", () => {
+    const index = indexOf(entry("The Dark Knight", 9), entry("The Dark Knight Rises", 8), entry("Dark Water", 6))
+
+    expect(labels(index.lookup("kni dar"))).toEqual(["The Dark Knight", "The Dark Knight Rises"])
+    expect(labels(index.lookup("dark water knight"))).toEqual([])
+  })
+
+  it("ranks labels starting with the query first, then by weight, then the shortest", () => {
+    const index = indexOf(
+      entry("The Godfather", 9.2),
+      entry("Godfather Returns", 5),
+      entry("Gods and Monsters", 7),
+      entry("God", 7),
+    )
+
+    expect(labels(index.lookup("god"))).toEqual(["God", "Gods and Monsters", "Godfather Returns", "The Godfather"])
+  })
+
+  it("ignores case and accents", () => {
+    const index = indexOf(entry("Amélie", 8.3), entry("Léon: The Professional", 8.5))
+
+    expect(labels(index.lookup("AME"))).toEqual(["Amélie"])
+    expect(labels(index.lookup("leon"))).toEqual(["Léon: The Professional"])
+  })
+
+  it("suggests nothing for an empty query and stops at the limit", () => {
+    const index = indexOf(entry("Alpha", 3), entry("Alpine", 2), entry("Altitude", 1))
+
+    expect(index.lookup("  ")).toEqual([])
+    expect(labels(index.lookup("al", 2))).toEqual(["Alpha", "Alpine"])
+  })
+
+  it("finds entries added after a lookup", () => {
+    const index = indexOf(entry("Alpha", 1))
+    index.lookup("al")
+    index.add(entry("Alps", 2))
+
+    expect(labels(index.lookup("al"))).toEqual(["Alps", "Alpha"])
+  })
+})
+
+describe("buildAutocompleteIndex", () => {
+  const movies = [
+    movie("1", { movie_name: "Prison Break", release_year: 2005, genre: "Crime|Drama", plot_keyword: "prison" }),
+    movie("2", { movie_name: "Crimson Peak", release_year: 2015, genre: "Horror", plot_keyword: "prison|ghost" }),
+  ]
+  const index = buildAutocompleteIndex(movies, [
+    { person: { id: "christopher-nolan", name: "Christopher Nolan" }, role: "director", movieCount: 4 },
+    { person: { id: "chris-pine", name: "Chris Pine" }, role: "actor", movieCount: 2 },
+  ])
+
+  it("suggests titles with their year and genres with their movie count", () => {
+    expect(index.lookup("pri")).toContainEqual({
+      kind: "title",
+      label: "Prison Break",
+      value: "1",
+      detail: "2005",
+      weight: movies[0].imdb_score,
+    })
+    expect(index.lookup("crime")).toContainEqual({
+      kind: "genre",
+      label: "Crime",
+      value: "Crime",
+      detail: "1 movies",
+      weight: 1,
+    })
+  })
+
+  it("suggests people by role, the most credited first", () => {
+    expect(index.lookup("chris").map(({ label, role, detail }) => ({ label, role, detail }))).toEqual([
+      { label: "Christopher Nolan", role: "director", detail: "Director" },
+      { label: "Chris Pine", role: "actor", detail: "Actor" },
+    ])
+  })
+
+  it("groups suggestions in the order the arrow keys move through them", () => {
+    const groups = groupSuggestions(index, "pri", 5)
+
+    expect(groups.map((group) => group.kind)).toEqual(["title", "keyword"])
+    expect(groups[1].entries).toEqual([{ kind: "keyword", label: "prison", value: "prison", weight: 2 }])
+    expect(groupSuggestions(index, "c", 1).map((group) => labels(group.entries))).toEqual([
+      ["Crimson Peak"],
+      ["Christopher Nolan"],
+      ["Crime"],
+    ])
+    expect(groupSuggestions(index, "zzz", 5)).toEqual([])
+  })
+})
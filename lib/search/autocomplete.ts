@@ -0,0 +1,148 @@
+import type { Movie, Person, PersonRole } from "../db-service"
+import { splitNames } from "../people"
+import { analyze, foldDiacritics } from "./analyzer"
+
+export type SuggestionKind = "title" | "person" | "genre" | "keyword"
+
+export interface AutocompleteEntry {
+  kind: SuggestionKind
+  label: string
+  // Movie id for titles, person id for people, the name itself otherwise
+  value: string
+  role?: PersonRole
+  // Shown next to the label, e.g. a title's year
+  detail?: string
+  // How many movies the entry covers, or a title's rating; breaks ties
+  weight: number
+}
+
+export interface AutocompletePerson {
+  person: Person
+  role: PersonRole
+  movieCount: number
+}
+
+interface WordKey {
+  word: string
+  entry: number
+}
+
+// Prefix lookups over everything a search box can suggest. Each word of an
+// entry is a key, so "nol" finds "Christopher Nolan".
+export class AutocompleteIndex {
+  private entries: AutocompleteEntry[] = []
+  private entryWords: string[][] = []
+  private keys: WordKey[] = []
+  private sorted = true
+
+  add(entry: AutocompleteEntry) {
+    const index = this.entries.length
+    const words = analyze(entry.label).map((token) => token.word)
+    this.entries.push(entry)
+    this.entryWords.push(words)
+    words.forEach((word) => this.keys.push({ word, entry: index }))
+    this.sorted = false
+  }
+
+  // Entries whose words start with every word typed, best first: labels that
+  // begin with the query, then the most popular, then the shortest
+  lookup(query: string, limit = 20): AutocompleteEntry[] {
+    const typed = analyze(query).map((token) => token.word)
+    if (typed.length === 0) return []
+
+    // Look up the longest word, which narrows the candidates most
+    const longest = typed.reduce((a, b) => (b.length > a.length ? b : a))
+    const candidates = new Set(this.withPrefix(longest))
+    const folded = foldDiacritics(query.trim())
+
+    return Array.from(candidates)
+      .filter((entry) => typed.every((word) => this.entryWords[entry].some((candidate) => candidate.startsWith(word))))
+      .map((entry) => this.entries[entry])
+      .sort((a, b) => {
+        const aStarts = foldDiacritics(a.label).startsWith(folded) ? 1 : 0
+        const bStarts = foldDiacritics(b.label).startsWith(folded) ? 1 : 0
+        return bStarts - aStarts || b.weight - a.weight || a.label.length - b.label.length
+      })
+      .slice(0, limit)
+  }
+
+  private withPrefix(prefix: string): number[] {
+    if (!this.sorted) {
+      this.keys.sort((a, b) => (a.word < b.word ? -1 : a.word > b.word ? 1 : 0))
+      this.sorted = true
+    }
+
+    let low = 0
+    let high = this.keys.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (this.keys[middle].word < prefix) low = middle + 1
+      else high = middle
+    }
+    const matches: number[] = []
+    for (let i = low; i < this.keys.length && this.keys[i].word.startsWith(prefix); i++) {
+      matches.push(this.keys[i].entry)
+    }
+    return matches
+  }
+}
+
+// The kinds in the order the typeahead lists them, which is also the order the
+// arrow keys move through
+export const SUGGESTION_KINDS: SuggestionKind[] = ["title", "person", "genre", "keyword"]
+
+// The best few entries of each kind for a query, leaving out kinds with none
+export function groupSuggestions(
+  index: AutocompleteIndex,
+  query: string,
+  perGroup: number,
+): { kind: SuggestionKind; entries: AutocompleteEntry[] }[] {
+  const suggestions = index.lookup(query, 40)
+  return SUGGESTION_KINDS.map((kind) => ({
+    kind,
+    entries: suggestions.filter((entry) => entry.kind === kind).slice(0, perGroup),
+  })).filter((group) => group.entries.length > 0)
+}
+
+function countValues(movies: Movie[], column: "genre" | "plot_keyword"): Map<string, number> {
+  const counts = new Map<string, number>()
+  movies.forEach((movie) => {
+    splitNames(movie[column]).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1))
+  })
+  return counts
+}
+
+export function buildAutocompleteIndex(movies: Movie[], people: AutocompletePerson[]): AutocompleteIndex {
+  const index = new AutocompleteIndex()
+
+  movies.forEach((movie) =>
+    index.add({
+      kind: "title",
+      label: movie.movie_name,
+      value: movie.movie_id,
+      detail: movie.release_year ? String(movie.release_year) : undefined,
+      weight: movie.imdb_score ?? 0,
+    }),
+  )
+
+  people.forEach(({ person, role, movieCount }) =>
+    index.add({
+      kind: "person",
+      label: person.name,
+      value: person.id,
+      role,
+      detail: role === "director" ? "Director" : role === "actor" ? "Actor" : "Producer",
+      weight: movieCount,
+    }),
+  )
+
+  countValues(movies, "genre").forEach((count, genre) =>
+    index.add({ kind: "genre", label: genre, value: genre, detail: `${count} movies`, weight: count }),
+  )
+
+  countValues(movies, "plot_keyword").forEach((count, keyword) =>
+    index.add({ kind: "keyword", label: keyword, value: keyword, weight: count }),
+  )
+
+  return index
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { createCatalogIndex } from "./catalog-index"
+
+const ids = (hits: { movieId: string }[]) => hits.map((hit) => hit.movieId)
+
+const titleOf = (movieId: string) => initialMovies.find((movie) => movie.movie_id === movieId)?.movie_name
+
+describe("createCatalogIndex", () => {
+  it("builds the index once, on first use", async () => {
+    const loadMovies = vi.fn(async () => initialMovies)
+    const catalogIndex = createCatalogIndex(loadMovies)
+    expect(loadMovies).not.toHaveBeenCalled()
+
+    const [first, second] = await Promise.all([catalogIndex.get(), catalogIndex.get()])
+
+    expect(first).toBe(second)
+    expect(first.size).toBe(initialMovies.length)
+    expect(loadMovies).toHaveBeenCalledTimes(1)
+  })
+
+  it("follows the store's writes once built, and ignores them before", async () => {
+    const catalogIndex = createCatalogIndex(async () => initialMovies)
+    await catalogIndex.put([{ ...initialMovies[0], movie_id: "early", movie_name: "Zanzibar" }])
+
+    const index = await catalogIndex.get()
+    expect(index.has("early")).toBe(false)
+
+    await catalogIndex.put([{ ...initialMovies[0], movie_id: "new", movie_name: "Zanzibar Nights" }])
+    expect(ids(index.search("zanzibar"))).toEqual(["new"])
+
+    await catalogIndex.clear()
+    expect(index.size).toBe(0)
+  })
+
+  it("rebuilds after a failed load", async () => {
+    const loadMovies = vi.fn().mockRejectedValueOnce(new Error("offline")).mockResolvedValue(initialMovies)
+    const catalogIndex = createCatalogIndex(loadMovies)
+
+    await expect(catalogIndex.get()).rejects.toThrow("offline")
+    await catalogIndex.put(initialMovies)
+    expect((await catalogIndex.get()).size).toBe(initialMovies.length)
+  })
+})
+
+describe("typo correction over the catalog", () => {
+  const catalogIndex = createCatalogIndex(async () => initialMovies)
+
+  it.each([
+    ["Shawshenk", "The Shawshank Redemption"],
+    ["shawshenk redemtion", "The Shawshank Redemption"],
+    ["godfater", "The Godfather"],
+    ["The Godfater", "The Godfather"],
+  ])("finds %j as %j", async (query, title) => {
+    const index = await catalogIndex.get()
+
+    const [hit] = index.search(query)
+    expect(titleOf(hit.movieId)).toBe(title)
+    expect(hit.corrected).toBe(true)
+    expect(index.suggest(query)[0]).toMatchObject({ text: title, field: "movie_name" })
+  })
+
+  it("suggests a person's name for a misspelled name", async () => {
+    const index = await catalogIndex.get()
+
+    const hits = index.search("Christoper Nolan")
+    expect(hits.length).toBeGreaterThan(0)
+    hits.forEach((hit) => expect(hit.corrected).toBe(true))
+    expect(index.suggest("Christoper Nolan").map((suggestion) => suggestion.text)).toContain("Christopher Nolan")
+  })
+
+  it("doesn't correct words of three letters or less", async () => {
+    const index = await catalogIndex.get()
+
+    // "dak" is one edit from "dark", but so are too many other short words
+    expect(index.search("dak")).toEqual([])
+    expect(index.search("dakr").length).toBeGreaterThan(0)
+  })
+
+  it("allows one edit in a word of up to seven letters, two in longer ones", async () => {
+    const index = await catalogIndex.get()
+
+    // A swap of neighboring letters is a single edit
+    expect(index.search("knihgt").length).toBeGreaterThan(0)
+    expect(index.search("kniihgt")).toEqual([])
+    expect(ids(index.search("shuwshenk"))).toEqual(["1"])
+    expect(index.search("shuwshenc")).toEqual([])
+  })
+
+  it("leaves a word that matches as typed alone", async () => {
+    const index = await catalogIndex.get()
+
+    // "godfather" matches, so it isn't also corrected to nearby words
+    const hits = index.search("godfather")
+    expect(hits.length).toBeGreaterThan(0)
+    hits.forEach((hit) => expect(hit.corrected).toBe(false))
+    expect(hits.every((hit) => /godfather/i.test(titleOf(hit.movieId) ?? ""))).toBe(true)
+    expect(index.search("godfather", { fuzzy: false })).toEqual(hits)
+  })
+
+  it("finds nothing for a word close to nothing in the catalog", async () => {
+    const index = await catalogIndex.get()
+
+    expect(index.search("xylophone")).toEqual([])
+    expect(index.suggest("xylophone")).toEqual([])
+  })
+})
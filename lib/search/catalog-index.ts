@@ -0,0 +1,46 @@
+import type { Movie } from "../db-service"
+import { MovieSearchIndex } from "./movie-index"
+
+export interface CatalogIndex {
+  get(): Promise<MovieSearchIndex>
+  // Called by a store after its movie writes succeed
+  put(movies: Movie[]): Promise<void>
+  clear(): Promise<void>
+}
+
+// A store's search index, built from the catalog the first time it is needed
+// and then kept in step by the store's own writes
+export function createCatalogIndex(loadMovies: () => Promise<Movie[]>): CatalogIndex {
+  let building: Promise<MovieSearchIndex> | null = null
+
+  return {
+    get() {
+      if (!building) {
+        building = loadMovies()
+          .then((movies) => {
+            const index = new MovieSearchIndex()
+            index.putAll(movies)
+            return index
+          })
+          .catch((error) => {
+            building = null
+            throw error
+          })
+      }
+      return building
+    },
+
+    // An index still being built may have read the catalog before the write,
+    // so the write is applied once it is ready; putting a movie twice is
+    // harmless. A failed build is redone from the catalog on the next get().
+    async put(movies) {
+      const index = await building?.catch(() => undefined)
+      index?.putAll(movies)
+    },
+
+    async clear() {
+      const index = await building?.catch(() => undefined)
+      index?.clear()
+    },
+  }
+}
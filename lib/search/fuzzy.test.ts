@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { editDistance, maxEdits, trigrams } from "./fuzzy"
+
+describe("maxEdits", () => {
+  it.each([
+    ["", 0],
+    ["the", 0],
+    ["nite", 1],
+    ["nolann", 1],
+    ["godfater", 2],
+    ["shawshenk", 2],
+  ])("allows %j %i edits", (word, edits) => {
+    expect(maxEdits(word)).toBe(edits)
+  })
+})
+
+describe("trigrams", () => {
+  it("pads the word at both ends", () => {
+    expect(trigrams("cat")).toEqual(["^ca", "cat", "at$"])
+    expect(trigrams("a")).toEqual(["^a$"])
+  })
+})
+
+describe("editDistance", () => {
+  it.each([
+    ["shawshank", "shawshank", 0],
+    ["shawshenk", "shawshank", 1],
+    ["godfater", "godfather", 1],
+    ["christoper", "christopher", 1],
+    // Swapping neighbors is one edit, not two
+    ["teh", "the", 1],
+    ["nolna", "nolan", 1],
+    ["kitten", "sitting", 3],
+    ["", "abc", 3],
+  ])("from %j to %j is %i", (a, b, distance) => {
+    expect(editDistance(a, b)).toBe(distance)
+    expect(editDistance(b, a)).toBe(distance)
+  })
+
+  it("gives up past the maximum", () => {
+    expect(editDistance("kitten", "sitting", 1)).toBe(2)
+    expect(editDistance("shawshank", "shaw", 2)).toBe(3)
+    expect(editDistance("godfater", "godfather", 1)).toBe(1)
+  })
+})
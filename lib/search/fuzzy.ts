@@ -0,0 +1,45 @@
+// Typo tolerance for the search index: trigrams to find likely candidates
+// quickly, edit distance to decide which of them are close enough.
+
+// Edits allowed for a word of this length. Short words have too many
+// neighbors to correct safely.
+export function maxEdits(word: string): number {
+  if (word.length <= 3) return 0
+  if (word.length <= 7) return 1
+  return 2
+}
+
+// Trigrams of a word padded at both ends, so "cat" gives "^ca", "cat", "at$"
+export function trigrams(word: string): string[] {
+  const padded = `^${word}$`
+  const grams: string[] = []
+  for (let i = 0; i + 3 <= padded.length; i++) grams.push(padded.slice(i, i + 3))
+  return grams
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions
+// and swaps of neighboring letters ("teh" -> "the") each cost one. Gives up
+// and returns max + 1 as soon as the distance must exceed max.
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow
+    previousRow = row
+    row = [i]
+    let smallest = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1)
+      }
+      row.push(distance)
+      smallest = Math.min(smallest, distance)
+    }
+    if (smallest > max) return max + 1
+  }
+  return row[b.length]
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import type { Movie } from "../db-service"
+import { initialMovies } from "../movie-catalog"
+import { FIELD_WEIGHTS, MovieSearchIndex, type SearchHit } from "./movie-index"
+
+const movie = (movieId: string, movieName: string, fields: Partial<Movie> = {}): Movie => ({
+  ...initialMovies[0],
+  movie_id: movieId,
+  movie_name: movieName,
+  director_name: "",
+  actors: "",
+  producer_name: "",
+  plot_keyword: "",
+  ...fields,
+})
+
+const ids = (hits: SearchHit[]) => hits.map((hit) => hit.movieId)
+
+describe("MovieSearchIndex", () => {
+  it("forgets a word once the last movie using it is removed", () => {
+    const index = new MovieSearchIndex()
+    index.putAll([movie("1", "Zanzibar Nights"), movie("2", "Zanzibar Mornings")])
+
+    index.remove("1")
+    expect(index.search("nigh", { prefix: true })).toEqual([])
+    expect(index.search("nihgts")).toEqual([])
+    expect(index.search("zanz", { prefix: true }).map((hit) => hit.movieId)).toEqual(["2"])
+
+    index.remove("2")
+    expect(index.search("zanz", { prefix: true })).toEqual([])
+    expect(index.search("zanzibra")).toEqual([])
+    // Nothing of the removed movies is left behind
+    expect(index["words"].size).toBe(0)
+    expect(index["wordsByTrigram"].size).toBe(0)
+  })
+
+  it("keeps a word that another movie still uses after a rename", () => {
+    const index = new MovieSearchIndex()
+    index.putAll([movie("1", "Zanzibar Nights"), movie("2", "Zanzibar")])
+
+    index.put(movie("1", "Casablanca"))
+    expect(index.search("zanzibr").map((hit) => hit.movieId)).toEqual(["2"])
+    expect(index.search("nights")).toEqual([])
+  })
+
+  describe("ranking", () => {
+    const index = new MovieSearchIndex()
+    index.putAll([
+      movie("title", "The Heist", { plot_keyword: "bank|escape" }),
+      movie("keyword", "Night Falls", { plot_keyword: "heist|bank|vault" }),
+      movie("director", "Cold Snap", { director_name: "Ann Heist" }),
+      movie("long", "The Long Cold Winter Heist", { plot_keyword: "snow" }),
+      movie("running", "Running Scared", { plot_keyword: "heroes|chase" }),
+      movie("amelie", "The Fabulous World of Amélie", { director_name: "Jean-Pierre Jeunet" }),
+      movie("strasse", "Straße der Sehnsucht"),
+    ])
+
+    it("weighs a title match over the people, and the people over plot keywords", () => {
+      expect(ids(index.search("heist"))).toEqual(["title", "long", "director", "keyword"])
+      expect(FIELD_WEIGHTS.movie_name).toBeGreaterThan(FIELD_WEIGHTS.director_name)
+      expect(FIELD_WEIGHTS.director_name).toBeGreaterThan(FIELD_WEIGHTS.plot_keyword)
+    })
+
+    it("ranks a word in a short field over the same word in a long one", () => {
+      const [short, long] = index.search("heist", { fields: ["movie_name"] })
+      expect([short.movieId, long.movieId]).toEqual(["title", "long"])
+      expect(short.score).toBeGreaterThan(long.score)
+    })
+
+    it("scores a match by BM25, its field weight and how rare the word is", () => {
+      const small = new MovieSearchIndex()
+      small.putAll([movie("1", "Big Heist"), movie("2", "Night Falls")])
+
+      // Both titles are two words long, so the term frequency part is exactly 1;
+      // the word is in one of the two movies
+      const idf = Math.log(1 + (2 - 1 + 0.5) / (1 + 0.5))
+      expect(small.search("heist")[0].score).toBeCloseTo(FIELD_WEIGHTS.movie_name * idf, 3)
+    })
+
+    it("requires every word and adds up their scores", () => {
+      const hits = index.search("heist bank")
+      expect(ids(hits)).toEqual(["title", "keyword"])
+      expect(hits[0].score).toBeGreaterThan(index.search("heist")[0].score)
+    })
+
+    it("finds other forms of a word through its stem", () => {
+      expect(ids(index.search("runs"))).toEqual(["running"])
+      expect(ids(index.search("run"))).toEqual(["running"])
+      expect(ids(index.search("hero"))).toEqual(["running"])
+      expect(ids(index.search("chasing"))).toEqual(["running"])
+      expect(index.search("runs")[0].corrected).toBe(false)
+    })
+
+    it("matches words with and without diacritics alike", () => {
+      expect(ids(index.search("amelie"))).toEqual(["amelie"])
+      expect(ids(index.search("AMÉLIE"))).toEqual(["amelie"])
+      expect(ids(index.search("strasse"))).toEqual(["strasse"])
+      expect(ids(index.search("jéan pièrre"))).toEqual(["amelie"])
+    })
+
+    it("highlights each match by its offsets into the original text", () => {
+      const [amelie] = index.search("amelie jeunet")
+      expect(amelie.highlights).toEqual({
+        movie_name: [{ start: 22, end: 28 }],
+        director_name: [{ start: 12, end: 18 }],
+      })
+      expect("The Fabulous World of Amélie".slice(22, 28)).toBe("Amélie")
+
+      const [running] = index.search("hero chase")
+      expect(running.highlights).toEqual({ plot_keyword: [{ start: 0, end: 6 }, { start: 7, end: 12 }] })
+    })
+
+    it("highlights every occurrence, in the fields searched only", () => {
+      const repeated = new MovieSearchIndex()
+      repeated.put(movie("1", "Heist Within a Heist", { plot_keyword: "heist" }))
+
+      const [hit] = repeated.search("heists", { fields: ["movie_name"] })
+      expect(hit.highlights).toEqual({
+        movie_name: [
+          { start: 0, end: 5 },
+          { start: 15, end: 20 },
+        ],
+      })
+    })
+  })
+})
@@ -0,0 +1,397 @@
+import type { Movie } from "../db-service"
+import { analyze, STOP_WORDS, type TextToken } from "./analyzer"
+import { editDistance, maxEdits, trigrams } from "./fuzzy"
+
+export type SearchField = "movie_name" | "director_name" | "actors" | "producer_name" | "plot_keyword"
+
+// Title matches count most, then the people, then plot keywords
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  movie_name: 3,
+  director_name: 2,
+  actors: 2,
+  producer_name: 1.5,
+  plot_keyword: 1,
+}
+
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[]
+
+// BM25 saturation and length normalization
+const K1 = 1.2
+const B = 0.75
+
+// A word the user is still typing matches longer words, at a discount
+const PREFIX_DISCOUNT = 0.5
+
+// Each typo corrected costs this share of a match's worth
+const FUZZY_DISCOUNT = 0.6
+
+// Typing the whole title outranks a title that merely contains the words
+const EXACT_TITLE_BONUS = 2
+
+export interface MatchSpan {
+  start: number
+  end: number
+}
+
+export interface SearchHit {
+  movieId: string
+  score: number
+  // Where the query matched, as offsets into each field's text
+  highlights: Partial<Record<SearchField, MatchSpan[]>>
+  // Some query word only matched after correcting a typo
+  corrected: boolean
+}
+
+// A title or name to offer as "did you mean"
+export interface SearchSuggestion {
+  text: string
+  field: SearchField
+  movieId: string
+}
+
+export interface SearchOptions {
+  fields?: SearchField[]
+  limit?: number
+  // Treat the last word as a prefix, for search-as-you-type
+  prefix?: boolean
+  // Correct words that match nothing to close ones that do. On by default.
+  fuzzy?: boolean
+}
+
+interface IndexedMovie {
+  text: Record<SearchField, string>
+  // Concatenated text, to tell whether a movie changed since it was indexed
+  signature: string
+  // Folded title words, to spot a query that is the whole title
+  title: string
+  terms: Set<string>
+  // Words as written, to drop from the vocabulary once no movie uses them
+  words: Set<string>
+  lengths: Record<SearchField, number>
+}
+
+type Postings = Map<string, Partial<Record<SearchField, number>>>
+
+interface Expansion {
+  weight: number
+  corrected: boolean
+}
+
+function fieldText(movie: Movie): Record<SearchField, string> {
+  return {
+    movie_name: movie.movie_name ?? "",
+    director_name: movie.director_name ?? "",
+    actors: movie.actors ?? "",
+    producer_name: movie.producer_name ?? "",
+    plot_keyword: movie.plot_keyword ?? "",
+  }
+}
+
+// The entry of a "|" or "," separated list that contains an offset, e.g.
+// one actor out of the cast
+function entryAt(text: string, offset: number): string {
+  const start = Math.max(text.lastIndexOf("|", offset), text.lastIndexOf(",", offset)) + 1
+  const ends = [text.indexOf("|", offset), text.indexOf(",", offset)].filter((end) => end !== -1)
+  return text.slice(start, ends.length > 0 ? Math.min(...ends) : text.length).trim()
+}
+
+function titleKey(text: string): string {
+  return analyze(text)
+    .map((token) => token.word)
+    .join(" ")
+}
+
+// An inverted index over the text fields of the catalog: each stemmed term
+// points at the movies containing it and how often it appears in each field.
+// Movies are added, replaced and removed one at a time, so the index follows
+// the catalog without being rebuilt.
+export class MovieSearchIndex {
+  private postings = new Map<string, Postings>()
+  private movies = new Map<string, IndexedMovie>()
+  private fieldTotals = Object.fromEntries(SEARCH_FIELDS.map((field) => [field, 0])) as Record<SearchField, number>
+  // Words as written, for prefix matching, and the terms they stem to
+  private words = new Map<string, Set<string>>()
+  private sortedWords: string[] | null = null
+  // Words by trigram, to find candidates for typo correction
+  private wordsByTrigram = new Map<string, Set<string>>()
+
+  get size(): number {
+    return this.movies.size
+  }
+
+  has(movieId: string): boolean {
+    return this.movies.has(movieId)
+  }
+
+  // Add a movie, replacing the indexed copy if there is one
+  put(movie: Movie) {
+    const text = fieldText(movie)
+    const signature = SEARCH_FIELDS.map((field) => text[field]).join("\u0000")
+    if (this.movies.get(movie.movie_id)?.signature === signature) return
+    this.remove(movie.movie_id)
+
+    const indexed: IndexedMovie = {
+      text,
+      signature,
+      title: titleKey(text.movie_name),
+      terms: new Set(),
+      words: new Set(),
+      lengths: {} as Record<SearchField, number>,
+    }
+    for (const field of SEARCH_FIELDS) {
+      const tokens = analyze(text[field])
+      indexed.lengths[field] = tokens.length
+      this.fieldTotals[field] += tokens.length
+
+      for (const token of tokens) {
+        indexed.terms.add(token.term)
+        indexed.words.add(token.word)
+        let postings = this.postings.get(token.term)
+        if (!postings) {
+          postings = new Map()
+          this.postings.set(token.term, postings)
+        }
+        const counts = postings.get(movie.movie_id) ?? {}
+        counts[field] = (counts[field] ?? 0) + 1
+        postings.set(movie.movie_id, counts)
+
+        if (!this.words.has(token.word)) {
+          this.words.set(token.word, new Set())
+          this.sortedWords = null
+          for (const gram of trigrams(token.word)) {
+            if (!this.wordsByTrigram.has(gram)) this.wordsByTrigram.set(gram, new Set())
+            this.wordsByTrigram.get(gram)!.add(token.word)
+          }
+        }
+        this.words.get(token.word)!.add(token.term)
+      }
+    }
+    this.movies.set(movie.movie_id, indexed)
+  }
+
+  putAll(movies: Movie[]) {
+    movies.forEach((movie) => this.put(movie))
+  }
+
+  remove(movieId: string) {
+    const indexed = this.movies.get(movieId)
+    if (!indexed) return
+
+    for (const term of indexed.terms) {
+      const postings = this.postings.get(term)
+      postings?.delete(movieId)
+      if (postings?.size === 0) this.postings.delete(term)
+    }
+    for (const word of indexed.words) {
+      const terms = this.words.get(word)
+      terms?.forEach((term) => {
+        if (!this.postings.has(term)) terms.delete(term)
+      })
+      if (terms?.size === 0) this.forgetWord(word)
+    }
+    for (const field of SEARCH_FIELDS) this.fieldTotals[field] -= indexed.lengths[field]
+    this.movies.delete(movieId)
+  }
+
+  clear() {
+    this.postings.clear()
+    this.movies.clear()
+    this.words.clear()
+    this.wordsByTrigram.clear()
+    this.sortedWords = null
+    SEARCH_FIELDS.forEach((field) => (this.fieldTotals[field] = 0))
+  }
+
+  // Bring the index in line with a full list of movies: changed movies are
+  // re-indexed, missing ones dropped, and unchanged ones left alone
+  sync(movies: Movie[]) {
+    const current = new Set(movies.map((movie) => movie.movie_id))
+    for (const movieId of Array.from(this.movies.keys())) {
+      if (!current.has(movieId)) this.remove(movieId)
+    }
+    this.putAll(movies)
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const fields = options.fields ?? SEARCH_FIELDS
+    let tokens = analyze(query)
+    if (tokens.length === 0) return []
+
+    // Drop filler unless that would leave nothing to search for
+    const meaningful = tokens.filter((token) => !STOP_WORDS.has(token.word))
+    if (meaningful.length > 0) tokens = meaningful
+
+    // Each query word matches a set of terms; a movie must match every word
+    const typing = options.prefix && !/\s$/.test(query)
+    const alternatives = tokens.map((token, i) =>
+      this.expand(token, !!typing && i === tokens.length - 1, options.fuzzy ?? true),
+    )
+
+    const scores = new Map<string, number>()
+    const matchedTerms = new Map<string, Set<string>>()
+    const corrected = new Set<string>()
+    alternatives.forEach((terms, i) => {
+      const wordScores = new Map<string, number>()
+      const matchedAsTyped = new Set<string>()
+      for (const [term, expansion] of terms) {
+        const postings = this.postings.get(term)
+        if (!postings) continue
+        const idf = Math.log(1 + (this.movies.size - postings.size + 0.5) / (postings.size + 0.5))
+
+        for (const [movieId, counts] of postings) {
+          if (i > 0 && !scores.has(movieId)) continue
+          const score = this.fieldScore(movieId, counts, fields) * idf * expansion.weight
+          if (score === 0) continue
+          wordScores.set(movieId, Math.max(wordScores.get(movieId) ?? 0, score))
+          if (!expansion.corrected) matchedAsTyped.add(movieId)
+          if (!matchedTerms.has(movieId)) matchedTerms.set(movieId, new Set())
+          matchedTerms.get(movieId)!.add(term)
+        }
+      }
+      wordScores.forEach((_, movieId) => {
+        if (!matchedAsTyped.has(movieId)) corrected.add(movieId)
+      })
+
+      // Keep only movies that matched this word too
+      if (i === 0) {
+        wordScores.forEach((score, movieId) => scores.set(movieId, score))
+      } else {
+        for (const movieId of Array.from(scores.keys())) {
+          const score = wordScores.get(movieId)
+          if (score === undefined) scores.delete(movieId)
+          else scores.set(movieId, scores.get(movieId)! + score)
+        }
+      }
+    })
+
+    const wanted = titleKey(query)
+    const hits = Array.from(scores, ([movieId, score]) => {
+      const exact = fields.includes("movie_name") && this.movies.get(movieId)!.title === wanted
+      return { movieId, score: exact ? score * EXACT_TITLE_BONUS : score }
+    }).sort((a, b) => b.score - a.score)
+
+    const limited = options.limit !== undefined ? hits.slice(0, options.limit) : hits
+    return limited.map((hit) => ({
+      ...hit,
+      score: Math.round(hit.score * 1000) / 1000,
+      highlights: this.highlight(hit.movieId, matchedTerms.get(hit.movieId)!, fields),
+      corrected: corrected.has(hit.movieId),
+    }))
+  }
+
+  // Titles and names close to what was typed, best first. When the words
+  // don't all match one movie, each word gets its own suggestions.
+  suggest(query: string, limit = 3): SearchSuggestion[] {
+    let hits = this.search(query, { limit: limit * 3 })
+    if (hits.length === 0) {
+      hits = analyze(query)
+        .filter((token) => !STOP_WORDS.has(token.word))
+        .flatMap((token) => this.search(token.word, { limit }))
+        .sort((a, b) => b.score - a.score)
+    }
+
+    const suggestions = new Map<string, SearchSuggestion>()
+    for (const hit of hits) {
+      const indexed = this.movies.get(hit.movieId)!
+      for (const field of SEARCH_FIELDS) {
+        const spans = hit.highlights[field]
+        if (!spans) continue
+        const text = field === "movie_name" ? indexed.text.movie_name : entryAt(indexed.text[field], spans[0].start)
+        const key = text.toLowerCase()
+        if (text && !suggestions.has(key)) suggestions.set(key, { text, field, movieId: hit.movieId })
+      }
+    }
+    return Array.from(suggestions.values()).slice(0, limit)
+  }
+
+  private forgetWord(word: string) {
+    this.words.delete(word)
+    this.sortedWords = null
+    for (const gram of trigrams(word)) {
+      const words = this.wordsByTrigram.get(gram)
+      words?.delete(word)
+      if (words?.size === 0) this.wordsByTrigram.delete(gram)
+    }
+  }
+
+  // Terms a query word stands for, with how much a match on each is worth.
+  // Typo corrections are only tried when the word matches nothing as typed.
+  private expand(token: TextToken, prefix: boolean, fuzzy: boolean): Map<string, Expansion> {
+    const terms = new Map([[token.term, { weight: 1, corrected: false }]])
+    if (prefix) this.addPrefixMatches(token, terms)
+
+    const matched = Array.from(terms.keys()).some((term) => this.postings.has(term))
+    if (!matched && fuzzy) {
+      for (const [word, distance] of this.corrections(token.word)) {
+        this.words.get(word)!.forEach((term) => {
+          const weight = FUZZY_DISCOUNT ** distance
+          if ((terms.get(term)?.weight ?? 0) < weight) terms.set(term, { weight, corrected: true })
+        })
+      }
+    }
+    return terms
+  }
+
+  // Indexed words within a few edits of a word, with their distance
+  private corrections(word: string): Map<string, number> {
+    const corrections = new Map<string, number>()
+    const max = maxEdits(word)
+    if (max === 0) return corrections
+
+    // Each edit changes at most three trigrams, or four for a swap of
+    // neighboring letters, so a close word shares the rest
+    const grams = trigrams(word)
+    const shared = new Map<string, number>()
+    for (const gram of grams) {
+      this.wordsByTrigram.get(gram)?.forEach((candidate) => shared.set(candidate, (shared.get(candidate) ?? 0) + 1))
+    }
+    for (const [candidate, count] of shared) {
+      if (count < grams.length - 4 * max) continue
+      const distance = editDistance(word, candidate, max)
+      if (distance > 0 && distance <= max) corrections.set(candidate, distance)
+    }
+    return corrections
+  }
+
+  private addPrefixMatches(token: TextToken, terms: Map<string, Expansion>) {
+    if (!this.sortedWords) this.sortedWords = Array.from(this.words.keys()).sort()
+    const words = this.sortedWords
+    let low = 0
+    let high = words.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (words[middle] < token.word) low = middle + 1
+      else high = middle
+    }
+    for (let i = low; i < words.length && words[i].startsWith(token.word); i++) {
+      this.words.get(words[i])!.forEach((term) => {
+        if (!terms.has(term)) terms.set(term, { weight: PREFIX_DISCOUNT, corrected: false })
+      })
+    }
+  }
+
+  private fieldScore(movieId: string, counts: Partial<Record<SearchField, number>>, fields: SearchField[]): number {
+    const indexed = this.movies.get(movieId)!
+    let score = 0
+    for (const field of fields) {
+      const count = counts[field]
+      if (!count) continue
+      const average = this.fieldTotals[field] / this.movies.size || 1
+      const normalized = count / (count + K1 * (1 - B + (B * indexed.lengths[field]) / average))
+      score += FIELD_WEIGHTS[field] * normalized * (K1 + 1)
+    }
+    return score
+  }
+
+  private highlight(movieId: string, terms: Set<string>, fields: SearchField[]) {
+    const indexed = this.movies.get(movieId)!
+    const highlights: Partial<Record<SearchField, MatchSpan[]>> = {}
+    for (const field of fields) {
+      const spans = analyze(indexed.text[field])
+        .filter((token) => terms.has(token.term))
+        .map(({ start, end }) => ({ start, end }))
+      if (spans.length > 0) highlights[field] = spans
+    }
+    return highlights
+  }
+}
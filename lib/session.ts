@@ -0,0 +1,32 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+
+// Cookie naming the signed-in user, for server code that can't take the
+// user id from the client, like the export route
+export const SESSION_COOKIE = "movie-insights-session"
+
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30
+
+// Without MOVIE_INSIGHTS_SESSION_SECRET every server start gets its own key,
+// which signs everyone out on restart
+const fallbackSecret = randomBytes(32).toString("hex")
+
+function sign(userId: string): string {
+  const secret = process.env.MOVIE_INSIGHTS_SESSION_SECRET || fallbackSecret
+  return createHmac("sha256", secret).update(userId).digest("base64url")
+}
+
+export function createSessionToken(userId: string): string {
+  return `${userId}.${sign(userId)}`
+}
+
+// The user id in a session cookie, or null when it is missing or forged
+export function readSessionToken(token: string | undefined): string | null {
+  if (!token) return null
+  const separator = token.lastIndexOf(".")
+  if (separator <= 0) return null
+
+  const userId = token.slice(0, separator)
+  const signature = Buffer.from(token.slice(separator + 1))
+  const expected = Buffer.from(sign(userId))
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? userId : null
+}
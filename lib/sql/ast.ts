@@ -0,0 +1,50 @@
+export type SqlValue = string | number | boolean | null
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">="
+export type ArithmeticOperator = "+" | "-" | "*" | "/" | "%"
+
+export type Expression =
+  | { type: "literal"; value: SqlValue; position: number }
+  | { type: "column"; name: string; position: number }
+  | { type: "parameter"; index: number; position: number }
+  | { type: "not"; operand: Expression; position: number }
+  | { type: "negate"; operand: Expression; position: number }
+  | { type: "logical"; operator: "AND" | "OR"; left: Expression; right: Expression; position: number }
+  | { type: "comparison"; operator: ComparisonOperator; left: Expression; right: Expression; position: number }
+  | { type: "arithmetic"; operator: ArithmeticOperator; left: Expression; right: Expression; position: number }
+  | { type: "like"; negated: boolean; operand: Expression; pattern: Expression; position: number }
+  | { type: "in"; negated: boolean; operand: Expression; values: Expression[]; position: number }
+  | {
+      type: "between"
+      negated: boolean
+      operand: Expression
+      lower: Expression
+      upper: Expression
+      position: number
+    }
+  | { type: "is-null"; negated: boolean; operand: Expression; position: number }
+  // COUNT(*) is represented with star set and no arguments
+  | { type: "function"; name: string; args: Expression[]; star: boolean; distinct: boolean; position: number }
+
+export type SelectItem =
+  | { type: "star"; position: number }
+  | { type: "expression"; expression: Expression; alias?: string; text: string; position: number }
+
+export interface OrderByItem {
+  expression: Expression
+  direction: "ASC" | "DESC"
+}
+
+export interface SelectStatement {
+  type: "select"
+  distinct: boolean
+  columns: SelectItem[]
+  from: { name: string; position: number }
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderByItem[]
+  limit?: Expression
+  offset?: Expression
+  parameterCount: number
+}
@@ -0,0 +1,249 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { runQuery, type TableSource } from "./engine"
+import { SqlParseError } from "./errors"
+import type { Row } from "./evaluator"
+import { createArraySource } from "./memory-source"
+import { parseQuery } from "./parser"
+import { planAccess } from "./planner"
+import { MOVIES_TABLE } from "./schema"
+
+// Just the columns the queries below look at; the others read as NULL
+const MOVIES: Row[] = [
+  { movie_id: "m1", movie_name: "Alpha", genre: "Drama|Crime", release_year: 1994, imdb_score: 9,
+    director_name: "Ann", language: "English", budget: 10 },
+  { movie_id: "m2", movie_name: "Beta", genre: "Comedy", release_year: 2001, imdb_score: 7.5,
+    director_name: "Bob", language: "French", budget: 20 },
+  { movie_id: "m3", movie_name: "Gamma", genre: "Drama", release_year: 1994, imdb_score: 8,
+    director_name: "Ann", language: null, budget: null },
+  { movie_id: "m4", movie_name: "delta", genre: "Horror|Comedy", release_year: 2010, imdb_score: null,
+    director_name: "Cid", language: "English", budget: 5 },
+  { movie_id: "m5", movie_name: "Epsilon", genre: "Drama", release_year: 2001, imdb_score: 7.5,
+    director_name: "Bob", language: "English", budget: 30 },
+]
+
+const run = (query: string, params: unknown[] = [], rows = MOVIES) =>
+  runQuery(query, params, () => createArraySource(rows, MOVIES_TABLE))
+
+const ids = async (query: string, params: unknown[] = []) => (await run(query, params)).map((row) => row.movie_id)
+
+// Serves every lookup with the whole table, as if the planner had chosen a
+// full scan; the WHERE clause still filters the rows afterwards
+function fullScanSource(rows: Row[]): TableSource {
+  return { getAll: async () => rows, getByKeys: async () => rows, getByIndex: async () => rows }
+}
+
+describe("runQuery", () => {
+  describe("WHERE", () => {
+    it.each<[string, unknown[], string[]]>([
+      ["release_year = 1994 AND imdb_score > 8.5", [], ["m1"]],
+      ["release_year = 2010 OR director_name = 'Bob'", [], ["m2", "m4", "m5"]],
+      ["NOT (release_year = 1994)", [], ["m2", "m4", "m5"]],
+      ["release_year = 1994 AND (director_name = 'Bob' OR imdb_score < 8.5)", [], ["m3"]],
+      ["director_name IN ('Ann', 'Cid')", [], ["m1", "m3", "m4"]],
+      ["director_name NOT IN ('Ann')", [], ["m2", "m4", "m5"]],
+      ["release_year BETWEEN 1995 AND 2005", [], ["m2", "m5"]],
+      ["release_year NOT BETWEEN 1995 AND 2005", [], ["m1", "m3", "m4"]],
+      // LIKE ignores case; % is any run of characters and _ exactly one
+      ["movie_name LIKE '%TA'", [], ["m2", "m4"]],
+      ["movie_name LIKE '_amma'", [], ["m3"]],
+      ["movie_name NOT LIKE '%a'", [], ["m5"]],
+      ["imdb_score IS NULL", [], ["m4"]],
+      ["language IS NOT NULL", [], ["m1", "m2", "m4", "m5"]],
+      // A comparison with NULL is unknown, so neither it nor its negation matches
+      ["imdb_score > 7", [], ["m1", "m2", "m3", "m5"]],
+      ["NOT imdb_score > 8", [], ["m2", "m3", "m5"]],
+      ["budget != 10", [], ["m2", "m4", "m5"]],
+      ["language IN ('French', NULL)", [], ["m2"]],
+      ["language NOT IN ('French', NULL)", [], []],
+      ["COALESCE(imdb_score, 0) < 1", [], ["m4"]],
+      ["release_year = ? AND imdb_score >= ?", [2001, 7], ["m2", "m5"]],
+      ["movie_name = ?", ["Gamma"], ["m3"]],
+    ])("%s", async (where, params, expected) => {
+      expect(await ids(`SELECT movie_id FROM movies WHERE ${where} ORDER BY movie_id`, params)).toEqual(expected)
+    })
+  })
+
+  describe("ORDER BY, LIMIT and OFFSET", () => {
+    it.each<[string, unknown[], string[]]>([
+      ["ORDER BY release_year DESC, imdb_score ASC, movie_id", [], ["m4", "m2", "m5", "m3", "m1"]],
+      // NULLs sort first
+      ["ORDER BY imdb_score, movie_id DESC", [], ["m4", "m5", "m2", "m3", "m1"]],
+      ["ORDER BY movie_id LIMIT 2", [], ["m1", "m2"]],
+      ["ORDER BY movie_id LIMIT 2 OFFSET 1", [], ["m2", "m3"]],
+      ["ORDER BY movie_id LIMIT 10 OFFSET 4", [], ["m5"]],
+      ["ORDER BY movie_id LIMIT ? OFFSET ?", [1, 3], ["m4"]],
+      ["WHERE release_year > ? ORDER BY movie_id DESC LIMIT ?", [1994, 2], ["m5", "m4"]],
+    ])("%s", async (clauses, params, expected) => {
+      expect(await ids(`SELECT movie_id FROM movies ${clauses}`, params)).toEqual(expected)
+    })
+
+    it("orders by an alias and by output position", async () => {
+      const rows = await run(
+        "SELECT movie_id, imdb_score * 10 AS points FROM movies WHERE imdb_score IS NOT NULL ORDER BY points DESC, 1",
+      )
+      expect(rows).toEqual([
+        { movie_id: "m1", points: 90 },
+        { movie_id: "m3", points: 80 },
+        { movie_id: "m2", points: 75 },
+        { movie_id: "m5", points: 75 },
+      ])
+    })
+
+    it("removes duplicate rows with DISTINCT", async () => {
+      expect(await run("SELECT DISTINCT director_name FROM movies ORDER BY director_name")).toEqual([
+        { director_name: "Ann" },
+        { director_name: "Bob" },
+        { director_name: "Cid" },
+      ])
+    })
+  })
+
+  describe("GROUP BY and aggregates", () => {
+    it("aggregates each group, skipping NULLs", async () => {
+      const rows = await run(
+        `SELECT director_name AS director, COUNT(*) AS movies, COUNT(imdb_score) AS rated, SUM(budget) AS spent,
+           AVG(imdb_score) AS average, MIN(release_year) AS first, MAX(imdb_score) AS best
+         FROM movies GROUP BY director_name ORDER BY director`,
+      )
+
+      expect(rows).toEqual([
+        { director: "Ann", movies: 2, rated: 2, spent: 10, average: 8.5, first: 1994, best: 9 },
+        { director: "Bob", movies: 2, rated: 2, spent: 50, average: 7.5, first: 2001, best: 7.5 },
+        { director: "Cid", movies: 1, rated: 0, spent: 5, average: null, first: 2010, best: null },
+      ])
+    })
+
+    it("counts a movie once for each of its genres", async () => {
+      const rows = await run("SELECT genre, COUNT(*) AS count FROM movies GROUP BY genre ORDER BY count DESC, genre")
+      expect(rows).toEqual([
+        { genre: "Drama", count: 3 },
+        { genre: "Comedy", count: 2 },
+        { genre: "Crime", count: 1 },
+        { genre: "Horror", count: 1 },
+      ])
+    })
+
+    it("filters groups with HAVING on an aggregate or its alias", async () => {
+      const query = (having: string) =>
+        run(`SELECT release_year, AVG(imdb_score) AS average FROM movies GROUP BY release_year HAVING ${having}
+             ORDER BY release_year`)
+
+      expect(await query("COUNT(*) >= 2")).toEqual([
+        { release_year: 1994, average: 8.5 },
+        { release_year: 2001, average: 7.5 },
+      ])
+      expect(await query("average > 8")).toEqual([{ release_year: 1994, average: 8.5 }])
+    })
+
+    it("aggregates the whole table without GROUP BY, naming an unaliased aggregate by its text", async () => {
+      expect(await run("SELECT COUNT(*), MAX(budget) AS top FROM movies")).toEqual([{ "COUNT(*)": 5, top: 30 }])
+      expect(await run("SELECT COUNT(*) AS count, SUM(budget) AS total FROM movies WHERE release_year > 3000")).toEqual(
+        [{ count: 0, total: null }],
+      )
+    })
+
+    it("groups by an expression alias", async () => {
+      const rows = await run(
+        `SELECT ROUND(imdb_score) AS rounded, COUNT(*) AS count FROM movies
+         WHERE imdb_score IS NOT NULL GROUP BY rounded ORDER BY rounded`,
+      )
+      expect(rows).toEqual([
+        { rounded: 8, count: 3 },
+        { rounded: 9, count: 1 },
+      ])
+    })
+  })
+
+  describe("errors", () => {
+    it.each<[string, unknown[], string, number, number]>([
+      ["SELECT movie_id FROM films", [], 'Unknown table "films"', 1, 22],
+      ["SELECT movie_id\nFROM movies\nWHERE year = 1", [], 'Unknown column "year"', 3, 7],
+      ["SELECT movie_id FROM movies WHERE", [], "", 1, 34],
+      ["SELECT movie_id FROM movies WHERE movie_name = 'open", [], "", 1, 48],
+      ["SELECT movie_id,\n  FROM movies", [], "", 2, 3],
+      ["SELECT movie_id FROM movies\nWHERE release_year = ?", [], "Query expects 1 parameter(s)", 2, 22],
+      ["SELECT movie_id FROM movies LIMIT -1", [], "Expected a non-negative integer or ?", 1, 35],
+      ["SELECT movie_id FROM movies WHERE COUNT(*) > 1", [], "Aggregate COUNT is not allowed here", 1, 35],
+      ["SELECT NOPE(movie_id) FROM movies", [], 'Unsupported function "NOPE"', 1, 8],
+    ])("%j fails at its line and column", async (query, params, message, line, column) => {
+      const error = await run(query, params).catch((caught: unknown) => caught)
+      expect(error).toBeInstanceOf(SqlParseError)
+      expect(error).toMatchObject({ line, column })
+      expect((error as SqlParseError).message).toContain(message)
+      expect((error as SqlParseError).message).toContain(`(line ${line}, column ${column})`)
+    })
+  })
+})
+
+describe("planAccess", () => {
+  const where = (clause: string) => parseQuery(`SELECT * FROM movies WHERE ${clause}`).where
+
+  // Each WHERE clause, its parameters and the access path the planner should pick
+  const PLANS: [string, unknown[], object][] = [
+    ["movie_id IN ('1', '3')", [], { type: "primary-key", keys: ["1", "3"] }],
+    ["movie_id = ? AND release_year = 1994", ["2"], { type: "primary-key", keys: ["2"] }],
+    [
+      "release_year = 1994",
+      [],
+      { type: "index", index: "by-year", range: { lower: 1994, upper: 1994, lowerOpen: false, upperOpen: false } },
+    ],
+    [
+      "imdb_score > 8.5 AND imdb_score <= 9 AND language = 'English'",
+      [],
+      { type: "index", index: "by-score", range: { lower: 8.5, upper: 9, lowerOpen: true, upperOpen: false } },
+    ],
+    [
+      "release_year BETWEEN 1995 AND 2005",
+      [],
+      { type: "index", index: "by-year", range: { lower: 1995, upper: 2005 } },
+    ],
+    ["2000 < release_year", [], { type: "index", index: "by-year", range: { lower: 2000, lowerOpen: true } }],
+    // Equality on an index beats a range on another
+    [
+      "release_year > 2000 AND director_name = ?",
+      ["Christopher Nolan"],
+      { type: "index", index: "by-director", range: { lower: "Christopher Nolan", upper: "Christopher Nolan" } },
+    ],
+    ["genre = 'Drama'", [], { type: "index", index: "by-genre" }],
+    ["release_year > 2005 AND release_year < 2000", [], { type: "empty" }],
+    ["language = 'English'", [], { type: "full-scan" }],
+    ["release_year = 1994 OR release_year = 2001", [], { type: "full-scan" }],
+    ["release_year != 1994", [], { type: "full-scan" }],
+    ["imdb_score = NULL", [], { type: "full-scan" }],
+    ["NOT release_year BETWEEN 1995 AND 2005", [], { type: "full-scan" }],
+  ]
+
+  it.each(PLANS)("%s", (clause, params, expected) => {
+    expect(planAccess(MOVIES_TABLE, where(clause), params as never[])).toMatchObject(expected)
+  })
+
+  it.each(PLANS)("finds the same movies for %s as a full scan", async (clause, params) => {
+    const query = `SELECT movie_id FROM movies WHERE ${clause} ORDER BY movie_id`
+    const planned = await runQuery(query, params, () => createArraySource(initialMovies, MOVIES_TABLE))
+    const scanned = await runQuery(query, params, () => fullScanSource(initialMovies))
+    expect(planned).toEqual(scanned)
+  })
+
+  describe("through IndexedDB", () => {
+    beforeEach(() => {
+      vi.stubGlobal("indexedDB", new IDBFactory())
+      vi.resetModules()
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+    })
+
+    it("reads each plan's index and finds the same movies as a full scan", async () => {
+      const { executeQuery } = await import("../db-service")
+      for (const [clause, params] of PLANS) {
+        const query = `SELECT movie_id FROM movies WHERE ${clause} ORDER BY movie_id`
+        const scanned = await runQuery(query, params, () => fullScanSource(initialMovies))
+        expect(await executeQuery(query, params)).toEqual(scanned)
+      }
+    })
+  })
+})
@@ -0,0 +1,395 @@
+import type { Expression, OrderByItem, SelectItem, SelectStatement, SqlValue } from "./ast"
+import { SqlParseError } from "./errors"
+import { compareForSort, evaluate, toNumber, toSqlValue, type Row } from "./evaluator"
+import { AGGREGATE_FUNCTIONS, SCALAR_FUNCTIONS } from "./functions"
+import { parseQuery } from "./parser"
+import { planAccess, type AccessPath, type KeyRange } from "./planner"
+import { findColumn, TABLES, type TableDefinition } from "./schema"
+
+// A store the engine can read rows from. Implementations map these onto
+// IndexedDB object stores, in-memory arrays, etc.
+export interface TableSource {
+  getAll(): Promise<Row[]>
+  getByKeys(keys: (string | number)[]): Promise<Row[]>
+  getByIndex(index: string, range: KeyRange): Promise<Row[]>
+}
+
+export type SourceResolver = (table: string) => TableSource
+
+export interface BoundQuery {
+  table: TableDefinition
+  columns: SelectItem[]
+  where?: Expression
+  groupBy: Expression[]
+  having?: Expression
+  orderBy: OrderByItem[]
+  // True when rows are collapsed into groups, either by GROUP BY or by a bare aggregate
+  grouped: boolean
+}
+
+interface BindOptions {
+  allowAggregates: boolean
+  // Output aliases that column references may resolve to
+  aliases?: Map<string, Expression>
+  // Whether an alias wins over a table column of the same name
+  preferAliases?: boolean
+}
+
+interface Group {
+  row: Row
+  members: Row[]
+}
+
+function bindExpression(query: string, table: TableDefinition, expression: Expression, options: BindOptions): Expression {
+  const bind = (child: Expression) => bindExpression(query, table, child, options)
+
+  switch (expression.type) {
+    case "column": {
+      const alias = options.aliases?.get(expression.name)
+      const column = findColumn(table, expression.name)
+      if (alias && (options.preferAliases || !column)) {
+        if (!options.allowAggregates && containsAggregate(alias)) {
+          throw new SqlParseError(`Alias "${expression.name}" refers to an aggregate`, query, expression.position)
+        }
+        return alias
+      }
+      if (!column) {
+        throw new SqlParseError(`Unknown column "${expression.name}" in table ${table.name}`, query, expression.position)
+      }
+      return { ...expression, name: column.name }
+    }
+    case "function": {
+      if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+        if (!options.allowAggregates) {
+          throw new SqlParseError(`Aggregate ${expression.name} is not allowed here`, query, expression.position)
+        }
+        if (expression.star ? expression.name !== "COUNT" : expression.args.length !== 1) {
+          throw new SqlParseError(`${expression.name} expects exactly one argument`, query, expression.position)
+        }
+        const args = expression.args.map((arg) =>
+          bindExpression(query, table, arg, { ...options, allowAggregates: false }),
+        )
+        return { ...expression, args }
+      }
+
+      const scalar = SCALAR_FUNCTIONS[expression.name]
+      if (!scalar) {
+        throw new SqlParseError(`Unsupported function "${expression.name}"`, query, expression.position)
+      }
+      if (expression.star || expression.distinct) {
+        throw new SqlParseError(`${expression.name} does not accept * or DISTINCT`, query, expression.position)
+      }
+      if (expression.args.length < scalar.minArgs || expression.args.length > scalar.maxArgs) {
+        throw new SqlParseError(`Wrong number of arguments to ${expression.name}`, query, expression.position)
+      }
+      return { ...expression, args: expression.args.map(bind) }
+    }
+    case "not":
+    case "negate":
+      return { ...expression, operand: bind(expression.operand) }
+    case "logical":
+    case "comparison":
+    case "arithmetic":
+      return { ...expression, left: bind(expression.left), right: bind(expression.right) }
+    case "like":
+      return { ...expression, operand: bind(expression.operand), pattern: bind(expression.pattern) }
+    case "in":
+      return { ...expression, operand: bind(expression.operand), values: expression.values.map(bind) }
+    case "between":
+      return {
+        ...expression,
+        operand: bind(expression.operand),
+        lower: bind(expression.lower),
+        upper: bind(expression.upper),
+      }
+    default:
+      return expression
+  }
+}
+
+function children(expression: Expression): Expression[] {
+  switch (expression.type) {
+    case "not":
+    case "negate":
+      return [expression.operand]
+    case "logical":
+    case "comparison":
+    case "arithmetic":
+      return [expression.left, expression.right]
+    case "like":
+      return [expression.operand, expression.pattern]
+    case "in":
+      return [expression.operand, ...expression.values]
+    case "between":
+      return [expression.operand, expression.lower, expression.upper]
+    case "function":
+      return expression.args
+    default:
+      return []
+  }
+}
+
+function containsAggregate(expression: Expression): boolean {
+  if (expression.type === "function" && AGGREGATE_FUNCTIONS.has(expression.name)) return true
+  return children(expression).some(containsAggregate)
+}
+
+// Structural equality, ignoring where in the query text each node came from
+function sameExpression(a: Expression, b: Expression): boolean {
+  const strip = (key: string, value: unknown) => (key === "position" ? undefined : value)
+  return JSON.stringify(a, strip) === JSON.stringify(b, strip)
+}
+
+// In a grouped query every column outside an aggregate must be part of a GROUP BY key
+function checkGrouped(query: string, expression: Expression, groupBy: Expression[]) {
+  if (groupBy.some((key) => sameExpression(key, expression))) return
+  if (expression.type === "function" && AGGREGATE_FUNCTIONS.has(expression.name)) return
+  if (expression.type === "column") {
+    throw new SqlParseError(
+      `Column "${expression.name}" must appear in GROUP BY or be used in an aggregate`,
+      query,
+      expression.position,
+    )
+  }
+  children(expression).forEach((child) => checkGrouped(query, child, groupBy))
+}
+
+// Resolves the statement's names against its table. Bound select items carry
+// the names their values come back under
+export function bindQuery(query: string, statement: SelectStatement): BoundQuery {
+  const table = TABLES[statement.from.name.toLowerCase()]
+  if (!table) {
+    throw new SqlParseError(`Unknown table "${statement.from.name}"`, query, statement.from.position)
+  }
+
+  const columns = statement.columns.map((item): SelectItem => {
+    if (item.type === "star") return item
+    const expression = bindExpression(query, table, item.expression, { allowAggregates: true })
+    const text = expression.type === "column" ? expression.name : item.text
+    return { ...item, expression, text }
+  })
+
+  const aliases = new Map<string, Expression>()
+  for (const column of columns) {
+    if (column.type === "expression" && column.alias) aliases.set(column.alias, column.expression)
+  }
+
+  // GROUP BY and ORDER BY may also refer to a 1-based output column position
+  const resolve = (expression: Expression, options: BindOptions, clause: string): Expression => {
+    if (expression.type === "literal" && typeof expression.value === "number") {
+      const target = columns[expression.value - 1]
+      if (!target || target.type !== "expression") {
+        throw new SqlParseError(`${clause} position ${expression.value} is out of range`, query, expression.position)
+      }
+      if (!options.allowAggregates && containsAggregate(target.expression)) {
+        throw new SqlParseError(`${clause} position ${expression.value} refers to an aggregate`, query, expression.position)
+      }
+      return target.expression
+    }
+    return bindExpression(query, table, expression, options)
+  }
+
+  const where = statement.where && bindExpression(query, table, statement.where, { allowAggregates: false })
+  const groupBy = statement.groupBy.map((key) => resolve(key, { allowAggregates: false, aliases }, "GROUP BY"))
+  const having =
+    statement.having &&
+    bindExpression(query, table, statement.having, { allowAggregates: true, aliases, preferAliases: true })
+  const orderBy = statement.orderBy.map(
+    (item): OrderByItem => ({
+      ...item,
+      expression: resolve(item.expression, { allowAggregates: true, aliases, preferAliases: true }, "ORDER BY"),
+    }),
+  )
+
+  const grouped =
+    groupBy.length > 0 ||
+    columns.some((column) => column.type === "expression" && containsAggregate(column.expression)) ||
+    (having !== undefined && containsAggregate(having)) ||
+    orderBy.some((item) => containsAggregate(item.expression))
+
+  if (statement.having && !grouped) {
+    throw new SqlParseError("HAVING requires GROUP BY or an aggregate", query, statement.having.position)
+  }
+
+  if (grouped) {
+    for (const column of columns) {
+      if (column.type === "star") {
+        throw new SqlParseError("SELECT * cannot be used with GROUP BY or aggregates", query, column.position)
+      }
+      checkGrouped(query, column.expression, groupBy)
+    }
+    if (having) checkGrouped(query, having, groupBy)
+    orderBy.forEach((item) => checkGrouped(query, item.expression, groupBy))
+  }
+
+  return { table, columns, where, groupBy, having, orderBy, grouped }
+}
+
+function bindParams(query: string, statement: SelectStatement, params: unknown[]): SqlValue[] {
+  if (params.length < statement.parameterCount) {
+    const missing = findParameter(statement, params.length)
+    throw new SqlParseError(
+      `Query expects ${statement.parameterCount} parameter(s) but ${params.length} were supplied`,
+      query,
+      missing?.position ?? 0,
+    )
+  }
+  return params.map(toSqlValue)
+}
+
+function findParameter(statement: SelectStatement, index: number): Expression | undefined {
+  const search = (expression: Expression | undefined): Expression | undefined => {
+    if (!expression) return undefined
+    if (expression.type === "parameter") return expression.index === index ? expression : undefined
+    for (const child of children(expression)) {
+      const found = search(child)
+      if (found) return found
+    }
+    return undefined
+  }
+
+  const roots: (Expression | undefined)[] = [
+    ...statement.columns.map((item) => (item.type === "expression" ? item.expression : undefined)),
+    statement.where,
+    ...statement.groupBy,
+    statement.having,
+    ...statement.orderBy.map((item) => item.expression),
+    statement.limit,
+    statement.offset,
+  ]
+  for (const root of roots) {
+    const found = search(root)
+    if (found) return found
+  }
+  return undefined
+}
+
+async function fetchRows(source: TableSource, path: AccessPath): Promise<Row[]> {
+  switch (path.type) {
+    case "empty":
+      return []
+    case "primary-key":
+      return source.getByKeys(path.keys)
+    case "index":
+      return source.getByIndex(path.index, path.range)
+    case "full-scan":
+      return source.getAll()
+  }
+}
+
+// Grouping by a pipe-separated column such as genre yields one copy of the row
+// per listed value, with the column narrowed to that single value
+function explode(row: Row, groupBy: Expression[], table: TableDefinition): Row[] {
+  let variants = [row]
+
+  for (const key of groupBy) {
+    if (key.type !== "column" || !findColumn(table, key.name)?.multiValued) continue
+    variants = variants.flatMap((variant) =>
+      String(variant[key.name] ?? "")
+        .split("|")
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map((value) => ({ ...variant, [key.name]: value })),
+    )
+  }
+
+  return variants
+}
+
+function groupRows(rows: Row[], query: BoundQuery, params: SqlValue[]): Group[] {
+  // Aggregates without GROUP BY always produce exactly one row
+  if (query.groupBy.length === 0) {
+    return [{ row: rows[0] ?? {}, members: rows }]
+  }
+
+  const groups = new Map<string, Group>()
+  for (const row of rows) {
+    for (const variant of explode(row, query.groupBy, query.table)) {
+      const key = JSON.stringify(query.groupBy.map((expression) => evaluate(expression, variant, params)))
+      const group = groups.get(key)
+      if (group) {
+        group.members.push(variant)
+      } else {
+        groups.set(key, { row: variant, members: [variant] })
+      }
+    }
+  }
+  return Array.from(groups.values())
+}
+
+function project(columns: SelectItem[], row: Row, params: SqlValue[], group?: Row[]): Row {
+  if (columns.length === 1 && columns[0].type === "star") return row
+
+  const result: Row = {}
+  for (const item of columns) {
+    if (item.type === "star") {
+      Object.assign(result, row)
+    } else {
+      result[item.alias ?? item.text] = evaluate(item.expression, row, params, group)
+    }
+  }
+  return result
+}
+
+function resolveCount(query: string, expression: Expression | undefined, params: SqlValue[]): number | undefined {
+  if (!expression) return undefined
+  const value = toNumber(evaluate(expression, {}, params))
+  if (value === null || !Number.isInteger(value) || value < 0) {
+    throw new SqlParseError("LIMIT and OFFSET must be non-negative integers", query, expression.position)
+  }
+  return value
+}
+
+export async function runQuery(query: string, params: unknown[], resolveSource: SourceResolver): Promise<Row[]> {
+  const statement = parseQuery(query)
+  const bound = bindQuery(query, statement)
+  const values = bindParams(query, statement, params)
+  const limit = resolveCount(query, statement.limit, values)
+  const offset = resolveCount(query, statement.offset, values) ?? 0
+
+  const path = planAccess(bound.table, bound.where, values)
+  let rows = await fetchRows(resolveSource(bound.table.name), path)
+
+  if (bound.where) {
+    const where = bound.where
+    rows = rows.filter((row) => evaluate(where, row, values) === true)
+  }
+
+  // Ungrouped queries are treated as one group per row so both paths share the code below
+  let groups: Group[] = bound.grouped ? groupRows(rows, bound, values) : rows.map((row) => ({ row, members: [row] }))
+
+  if (bound.having) {
+    const having = bound.having
+    groups = groups.filter((group) => evaluate(having, group.row, values, group.members) === true)
+  }
+
+  if (bound.orderBy.length > 0) {
+    const { orderBy } = bound
+    const keyed = groups.map((group) => ({
+      group,
+      keys: orderBy.map((item) => evaluate(item.expression, group.row, values, group.members)),
+    }))
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orderBy.length; i++) {
+        const result = compareForSort(a.keys[i], b.keys[i])
+        if (result !== 0) return orderBy[i].direction === "DESC" ? -result : result
+      }
+      return 0
+    })
+    groups = keyed.map(({ group }) => group)
+  }
+
+  let results = groups.map((group) => project(bound.columns, group.row, values, bound.grouped ? group.members : undefined))
+
+  if (statement.distinct) {
+    const seen = new Set<string>()
+    results = results.filter((row) => {
+      const key = JSON.stringify(row)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  return results.slice(offset, limit === undefined ? undefined : offset + limit)
+}
@@ -0,0 +1,19 @@
+// Raised for any query the engine cannot understand or bind. The position is the
+// zero-based character offset into the query text where the problem was found.
+export class SqlParseError extends Error {
+  readonly position: number
+  readonly line: number
+  readonly column: number
+
+  constructor(message: string, query: string, position: number) {
+    const before = query.slice(0, position)
+    const line = before.split("\n").length
+    const column = position - before.lastIndexOf("\n")
+
+    super(`${message} (line ${line}, column ${column})`)
+    this.name = "SqlParseError"
+    this.position = position
+    this.line = line
+    this.column = column
+  }
+}
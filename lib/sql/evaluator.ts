@@ -0,0 +1,197 @@
+import type { Expression, SqlValue } from "./ast"
+import { aggregate, AGGREGATE_FUNCTIONS, SCALAR_FUNCTIONS } from "./functions"
+
+export type Row = Record<string, any>
+
+// Normalize a JS value coming from a record or a bound parameter
+export function toSqlValue(value: unknown): SqlValue {
+  if (value === undefined || value === null) return null
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") return value
+  return String(value)
+}
+
+export function toNumber(value: SqlValue): number | null {
+  if (value === null) return null
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (typeof value === "boolean") return value ? 1 : 0
+  if (value.trim() === "") return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Compare two non-null values. Numbers and numeric strings compare numerically,
+// everything else compares as strings. Returns null when either side is NULL.
+export function compareValues(a: SqlValue, b: SqlValue): number | null {
+  if (a === null || b === null) return null
+
+  if (typeof a === "number" || typeof b === "number") {
+    const left = toNumber(a)
+    const right = toNumber(b)
+    if (left !== null && right !== null) return left - right
+  }
+
+  if (typeof a === "boolean" && typeof b === "boolean") {
+    return Number(a) - Number(b)
+  }
+
+  const left = String(a)
+  const right = String(b)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+// Total ordering used by ORDER BY, with NULLs sorted first
+export function compareForSort(a: SqlValue, b: SqlValue): number {
+  if (a === null && b === null) return 0
+  if (a === null) return -1
+  if (b === null) return 1
+  return compareValues(a, b) ?? 0
+}
+
+const likeCache = new Map<string, RegExp>()
+
+export function matchesLike(value: string, pattern: string): boolean {
+  let regex = likeCache.get(pattern)
+  if (!regex) {
+    const source = pattern
+      .split("")
+      .map((char) => {
+        if (char === "%") return ".*"
+        if (char === "_") return "."
+        return char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      })
+      .join("")
+    regex = new RegExp(`^${source}$`, "is")
+    likeCache.set(pattern, regex)
+  }
+  return regex.test(value)
+}
+
+function and(left: SqlValue, right: SqlValue): SqlValue {
+  if (left === false || right === false) return false
+  if (left === null || right === null) return null
+  return Boolean(left) && Boolean(right)
+}
+
+function or(left: SqlValue, right: SqlValue): SqlValue {
+  if (left === true || right === true) return true
+  if (left === null || right === null) return null
+  return Boolean(left) || Boolean(right)
+}
+
+function not(value: SqlValue): SqlValue {
+  return value === null ? null : !value
+}
+
+// Evaluate an expression against one row. Aggregate calls are only valid when
+// the rows of the current group are supplied.
+export function evaluate(expression: Expression, row: Row, params: SqlValue[], group?: Row[]): SqlValue {
+  const child = (operand: Expression) => evaluate(operand, row, params, group)
+
+  switch (expression.type) {
+    case "literal":
+      return expression.value
+
+    case "column":
+      return toSqlValue(row[expression.name])
+
+    case "parameter":
+      return params[expression.index] ?? null
+
+    case "not":
+      return not(child(expression.operand))
+
+    case "negate": {
+      const value = toNumber(child(expression.operand))
+      return value === null ? null : -value
+    }
+
+    case "logical": {
+      const left = child(expression.left)
+      // Short-circuit where the result is already decided
+      if (expression.operator === "AND" && left === false) return false
+      if (expression.operator === "OR" && left === true) return true
+      const right = child(expression.right)
+      return expression.operator === "AND" ? and(left, right) : or(left, right)
+    }
+
+    case "comparison": {
+      const result = compareValues(child(expression.left), child(expression.right))
+      if (result === null) return null
+      switch (expression.operator) {
+        case "=":
+          return result === 0
+        case "!=":
+          return result !== 0
+        case "<":
+          return result < 0
+        case "<=":
+          return result <= 0
+        case ">":
+          return result > 0
+        case ">=":
+          return result >= 0
+      }
+    }
+
+    case "arithmetic": {
+      const left = toNumber(child(expression.left))
+      const right = toNumber(child(expression.right))
+      if (left === null || right === null) return null
+      switch (expression.operator) {
+        case "+":
+          return left + right
+        case "-":
+          return left - right
+        case "*":
+          return left * right
+        case "/":
+          return right === 0 ? null : left / right
+        case "%":
+          return right === 0 ? null : left % right
+      }
+    }
+
+    case "like": {
+      const value = child(expression.operand)
+      const pattern = child(expression.pattern)
+      if (value === null || pattern === null) return null
+      const matches = matchesLike(String(value), String(pattern))
+      return expression.negated ? !matches : matches
+    }
+
+    case "in": {
+      const value = child(expression.operand)
+      if (value === null) return null
+      let sawNull = false
+      for (const candidate of expression.values) {
+        const result = compareValues(value, child(candidate))
+        if (result === 0) return !expression.negated
+        if (result === null) sawNull = true
+      }
+      return sawNull ? null : expression.negated
+    }
+
+    case "between": {
+      const value = child(expression.operand)
+      const lower = compareValues(value, child(expression.lower))
+      const upper = compareValues(value, child(expression.upper))
+      const result = and(lower === null ? null : lower >= 0, upper === null ? null : upper <= 0)
+      return expression.negated ? not(result) : result
+    }
+
+    case "is-null": {
+      const isNull = child(expression.operand) === null
+      return expression.negated ? !isNull : isNull
+    }
+
+    case "function": {
+      if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+        if (!group) throw new Error(`Aggregate ${expression.name} used outside of a grouped query`)
+        const [argument] = expression.args
+        const values = expression.star ? group.map(() => 1) : group.map((member) => evaluate(argument, member, params))
+        return aggregate(expression.name, values, expression.distinct)
+      }
+      return SCALAR_FUNCTIONS[expression.name].apply(expression.args.map(child))
+    }
+  }
+}
@@ -0,0 +1,88 @@
+import type { SqlValue } from "./ast"
+import { compareValues, toNumber } from "./evaluator"
+
+export const AGGREGATE_FUNCTIONS = new Set(["COUNT", "SUM", "AVG", "MIN", "MAX"])
+
+interface ScalarFunction {
+  minArgs: number
+  maxArgs: number
+  apply: (args: SqlValue[]) => SqlValue
+}
+
+export const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([value, digits]) => {
+      const number = toNumber(value)
+      if (number === null) return null
+      const factor = 10 ** (toNumber(digits ?? 0) ?? 0)
+      return Math.round(number * factor) / factor
+    },
+  },
+  ABS: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => {
+      const number = toNumber(value)
+      return number === null ? null : Math.abs(number)
+    },
+  },
+  LOWER: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => (value === null ? null : String(value).toLowerCase()),
+  },
+  UPPER: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => (value === null ? null : String(value).toUpperCase()),
+  },
+  LENGTH: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]) => (value === null ? null : String(value).length),
+  },
+  COALESCE: {
+    minArgs: 1,
+    maxArgs: Number.POSITIVE_INFINITY,
+    apply: (args) => args.find((value) => value !== null) ?? null,
+  },
+}
+
+// Fold the non-null argument values of one group into an aggregate result
+export function aggregate(name: string, values: SqlValue[], distinct: boolean): SqlValue {
+  let present = values.filter((value) => value !== null)
+
+  if (distinct) {
+    const seen = new Set<string>()
+    present = present.filter((value) => {
+      const key = `${typeof value}:${value}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  switch (name) {
+    case "COUNT":
+      return present.length
+    case "SUM":
+    case "AVG": {
+      const numbers = present.map(toNumber).filter((value): value is number => value !== null)
+      if (numbers.length === 0) return null
+      const sum = numbers.reduce((total, value) => total + value, 0)
+      return name === "SUM" ? sum : sum / numbers.length
+    }
+    case "MIN":
+    case "MAX": {
+      if (present.length === 0) return null
+      return present.reduce((best, value) => {
+        const result = compareValues(value, best) ?? 0
+        return (name === "MIN" ? result < 0 : result > 0) ? value : best
+      })
+    }
+    default:
+      throw new Error(`Unknown aggregate function ${name}`)
+  }
+}
@@ -0,0 +1,34 @@
+import type { TableSource } from "./engine"
+import { compareValues, toSqlValue, type Row } from "./evaluator"
+import type { KeyRange } from "./planner"
+import type { TableDefinition } from "./schema"
+
+function inRange(value: unknown, range: KeyRange): boolean {
+  const key = toSqlValue(value)
+  if (key === null) return false
+
+  if (range.lower !== undefined) {
+    const result = compareValues(key, range.lower)
+    if (result === null || result < 0 || (result === 0 && range.lowerOpen)) return false
+  }
+  if (range.upper !== undefined) {
+    const result = compareValues(key, range.upper)
+    if (result === null || result > 0 || (result === 0 && range.upperOpen)) return false
+  }
+  return true
+}
+
+// Serve a table from rows already held in memory, e.g. by the server file store
+export function createArraySource(rows: Row[], table: TableDefinition): TableSource {
+  return {
+    getAll: async () => rows,
+    async getByKeys(keys) {
+      const wanted = new Set(keys.map(String))
+      return rows.filter((row) => wanted.has(String(row[table.primaryKey])))
+    },
+    async getByIndex(index, range) {
+      const column = table.indexes[index]
+      return rows.filter((row) => inRange(row[column], range))
+    },
+  }
+}
@@ -0,0 +1,392 @@
+import type { ComparisonOperator, Expression, OrderByItem, SelectItem, SelectStatement } from "./ast"
+import { SqlParseError } from "./errors"
+import { tokenize, type Token } from "./tokenizer"
+
+const COMPARISON_OPERATORS = new Set(["=", "!=", "<", "<=", ">", ">="])
+
+class Parser {
+  private tokens: Token[]
+  private index = 0
+  private parameterCount = 0
+
+  constructor(private query: string) {
+    this.tokens = tokenize(query)
+  }
+
+  parseStatement(): SelectStatement {
+    const statement = this.parseSelect()
+
+    this.matchPunctuation(";")
+    const trailing = this.peek()
+    if (trailing.type !== "eof") {
+      throw this.error(`Unexpected ${describe(trailing)} after end of query`, trailing)
+    }
+
+    return statement
+  }
+
+  private parseSelect(): SelectStatement {
+    this.expectKeyword("SELECT")
+    const distinct = this.matchKeyword("DISTINCT")
+    const columns = this.parseSelectList()
+
+    this.expectKeyword("FROM")
+    const tableToken = this.expectIdentifier()
+    const from = { name: tableToken.value, position: tableToken.position }
+
+    let where: Expression | undefined
+    if (this.matchKeyword("WHERE")) {
+      where = this.parseExpression()
+    }
+
+    const groupBy: Expression[] = []
+    if (this.matchKeyword("GROUP")) {
+      this.expectKeyword("BY")
+      do {
+        groupBy.push(this.parseExpression())
+      } while (this.matchPunctuation(","))
+    }
+
+    let having: Expression | undefined
+    if (this.matchKeyword("HAVING")) {
+      having = this.parseExpression()
+    }
+
+    const orderBy: OrderByItem[] = []
+    if (this.matchKeyword("ORDER")) {
+      this.expectKeyword("BY")
+      do {
+        const expression = this.parseExpression()
+        let direction: "ASC" | "DESC" = "ASC"
+        if (this.matchKeyword("DESC")) direction = "DESC"
+        else this.matchKeyword("ASC")
+        orderBy.push({ expression, direction })
+      } while (this.matchPunctuation(","))
+    }
+
+    let limit: Expression | undefined
+    let offset: Expression | undefined
+    if (this.matchKeyword("LIMIT")) {
+      limit = this.parseLimitValue()
+      if (this.matchKeyword("OFFSET")) {
+        offset = this.parseLimitValue()
+      }
+    }
+
+    return {
+      type: "select",
+      distinct,
+      columns,
+      from,
+      where,
+      groupBy,
+      having,
+      orderBy,
+      limit,
+      offset,
+      parameterCount: this.parameterCount,
+    }
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = []
+
+    do {
+      const token = this.peek()
+      if (token.type === "operator" && token.value === "*") {
+        this.advance()
+        items.push({ type: "star", position: token.position })
+        continue
+      }
+
+      const expression = this.parseExpression()
+      const text = this.query.slice(token.position, this.peek().position).trim()
+      let alias: string | undefined
+      if (this.matchKeyword("AS")) {
+        alias = this.expectIdentifier().value
+      } else if (this.peek().type === "identifier") {
+        alias = this.advance().value
+      }
+      items.push({ type: "expression", expression, alias, text, position: token.position })
+    } while (this.matchPunctuation(","))
+
+    return items
+  }
+
+  private parseLimitValue(): Expression {
+    const token = this.peek()
+    if (token.type === "number" && /^\d+$/.test(token.value)) {
+      this.advance()
+      return { type: "literal", value: Number(token.value), position: token.position }
+    }
+    if (token.type === "parameter") {
+      this.advance()
+      return { type: "parameter", index: this.parameterCount++, position: token.position }
+    }
+    throw this.error(`Expected a non-negative integer or ? but found ${describe(token)}`, token)
+  }
+
+  // Expression grammar, lowest precedence first
+  private parseExpression(): Expression {
+    return this.parseOr()
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd()
+    while (this.peekKeyword("OR")) {
+      const token = this.advance()
+      const right = this.parseAnd()
+      left = { type: "logical", operator: "OR", left, right, position: token.position }
+    }
+    return left
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot()
+    while (this.peekKeyword("AND")) {
+      const token = this.advance()
+      const right = this.parseNot()
+      left = { type: "logical", operator: "AND", left, right, position: token.position }
+    }
+    return left
+  }
+
+  private parseNot(): Expression {
+    if (this.peekKeyword("NOT")) {
+      const token = this.advance()
+      return { type: "not", operand: this.parseNot(), position: token.position }
+    }
+    return this.parsePredicate()
+  }
+
+  private parsePredicate(): Expression {
+    const operand = this.parseAdditive()
+    const token = this.peek()
+
+    if (token.type === "operator" && COMPARISON_OPERATORS.has(token.value)) {
+      this.advance()
+      const right = this.parseAdditive()
+      return {
+        type: "comparison",
+        operator: token.value as ComparisonOperator,
+        left: operand,
+        right,
+        position: token.position,
+      }
+    }
+
+    if (this.peekKeyword("IS")) {
+      this.advance()
+      const negated = this.matchKeyword("NOT")
+      this.expectKeyword("NULL")
+      return { type: "is-null", negated, operand, position: token.position }
+    }
+
+    const negated = this.peekKeyword("NOT") && this.isPredicateKeyword(this.peek(1))
+    if (negated) this.advance()
+
+    if (this.matchKeyword("LIKE")) {
+      const pattern = this.parseAdditive()
+      return { type: "like", negated, operand, pattern, position: token.position }
+    }
+
+    if (this.matchKeyword("IN")) {
+      this.expectPunctuation("(")
+      const values: Expression[] = []
+      do {
+        values.push(this.parseAdditive())
+      } while (this.matchPunctuation(","))
+      this.expectPunctuation(")")
+      return { type: "in", negated, operand, values, position: token.position }
+    }
+
+    if (this.matchKeyword("BETWEEN")) {
+      const lower = this.parseAdditive()
+      this.expectKeyword("AND")
+      const upper = this.parseAdditive()
+      return { type: "between", negated, operand, lower, upper, position: token.position }
+    }
+
+    return operand
+  }
+
+  private isPredicateKeyword(token: Token): boolean {
+    return token.type === "keyword" && ["LIKE", "IN", "BETWEEN"].includes(token.value)
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative()
+    while (this.peekOperator("+") || this.peekOperator("-")) {
+      const token = this.advance()
+      const right = this.parseMultiplicative()
+      left = { type: "arithmetic", operator: token.value as "+" | "-", left, right, position: token.position }
+    }
+    return left
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary()
+    while (this.peekOperator("*") || this.peekOperator("/") || this.peekOperator("%")) {
+      const token = this.advance()
+      const right = this.parseUnary()
+      left = { type: "arithmetic", operator: token.value as "*" | "/" | "%", left, right, position: token.position }
+    }
+    return left
+  }
+
+  private parseUnary(): Expression {
+    if (this.peekOperator("-")) {
+      const token = this.advance()
+      return { type: "negate", operand: this.parseUnary(), position: token.position }
+    }
+    if (this.peekOperator("+")) {
+      this.advance()
+      return this.parseUnary()
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek()
+
+    switch (token.type) {
+      case "number":
+        this.advance()
+        return { type: "literal", value: Number(token.value), position: token.position }
+      case "string":
+        this.advance()
+        return { type: "literal", value: token.value, position: token.position }
+      case "parameter":
+        this.advance()
+        return { type: "parameter", index: this.parameterCount++, position: token.position }
+      case "identifier":
+        this.advance()
+        if (this.peekPunctuation("(")) {
+          return this.parseFunctionCall(token)
+        }
+        return { type: "column", name: token.value, position: token.position }
+      case "keyword":
+        if (token.value === "NULL" || token.value === "TRUE" || token.value === "FALSE") {
+          this.advance()
+          const value = token.value === "NULL" ? null : token.value === "TRUE"
+          return { type: "literal", value, position: token.position }
+        }
+        break
+      case "punctuation":
+        if (token.value === "(") {
+          this.advance()
+          const expression = this.parseExpression()
+          this.expectPunctuation(")")
+          return expression
+        }
+        break
+    }
+
+    throw this.error(`Expected an expression but found ${describe(token)}`, token)
+  }
+
+  private parseFunctionCall(nameToken: Token): Expression {
+    this.expectPunctuation("(")
+    const name = nameToken.value.toUpperCase()
+    const distinct = this.matchKeyword("DISTINCT")
+
+    if (this.peekOperator("*")) {
+      this.advance()
+      this.expectPunctuation(")")
+      return { type: "function", name, args: [], star: true, distinct, position: nameToken.position }
+    }
+
+    const args: Expression[] = []
+    if (!this.peekPunctuation(")")) {
+      do {
+        args.push(this.parseExpression())
+      } while (this.matchPunctuation(","))
+    }
+    this.expectPunctuation(")")
+
+    return { type: "function", name, args, star: false, distinct, position: nameToken.position }
+  }
+
+  // Token helpers
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)]
+  }
+
+  private advance(): Token {
+    const token = this.peek()
+    if (token.type !== "eof") this.index++
+    return token
+  }
+
+  private peekKeyword(keyword: string): boolean {
+    const token = this.peek()
+    return token.type === "keyword" && token.value === keyword
+  }
+
+  private peekOperator(operator: string): boolean {
+    const token = this.peek()
+    return token.type === "operator" && token.value === operator
+  }
+
+  private peekPunctuation(value: string): boolean {
+    const token = this.peek()
+    return token.type === "punctuation" && token.value === value
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    if (!this.peekKeyword(keyword)) return false
+    this.advance()
+    return true
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (!this.peekPunctuation(value)) return false
+    this.advance()
+    return true
+  }
+
+  private expectKeyword(keyword: string): Token {
+    const token = this.peek()
+    if (!this.peekKeyword(keyword)) {
+      throw this.error(`Expected ${keyword} but found ${describe(token)}`, token)
+    }
+    return this.advance()
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek()
+    if (!this.peekPunctuation(value)) {
+      throw this.error(`Expected "${value}" but found ${describe(token)}`, token)
+    }
+    return this.advance()
+  }
+
+  private expectIdentifier(): Token {
+    const token = this.peek()
+    if (token.type !== "identifier") {
+      throw this.error(`Expected an identifier but found ${describe(token)}`, token)
+    }
+    return this.advance()
+  }
+
+  private error(message: string, token: Token): SqlParseError {
+    return new SqlParseError(message, this.query, token.position)
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case "eof":
+      return "end of query"
+    case "string":
+      return `string '${token.value}'`
+    case "parameter":
+      return "parameter ?"
+    default:
+      return `"${token.value}"`
+  }
+}
+
+export function parseQuery(query: string): SelectStatement {
+  return new Parser(query).parseStatement()
+}
@@ -0,0 +1,187 @@
+import type { Expression, SqlValue } from "./ast"
+import { compareValues, evaluate, toNumber } from "./evaluator"
+import { findColumn, type ColumnDefinition, type TableDefinition } from "./schema"
+
+export interface KeyRange {
+  lower?: string | number
+  upper?: string | number
+  lowerOpen: boolean
+  upperOpen: boolean
+}
+
+// How rows are fetched before the WHERE clause is applied in memory
+export type AccessPath =
+  | { type: "full-scan" }
+  | { type: "empty" }
+  | { type: "primary-key"; keys: (string | number)[] }
+  | { type: "index"; index: string; column: string; range: KeyRange }
+
+interface Bound {
+  value: string | number
+  open: boolean
+}
+
+interface ColumnConstraint {
+  equals?: (string | number)[]
+  lower?: Bound
+  upper?: Bound
+}
+
+// Split a WHERE clause into its top-level AND terms
+function conjuncts(expression: Expression): Expression[] {
+  if (expression.type === "logical" && expression.operator === "AND") {
+    return [...conjuncts(expression.left), ...conjuncts(expression.right)]
+  }
+  return [expression]
+}
+
+function isConstant(expression: Expression): boolean {
+  return expression.type === "literal" || expression.type === "parameter"
+}
+
+// Convert a constant to the key type stored in the index, or undefined when the
+// value could never be found through the index (so the planner must not use it)
+function toKey(column: ColumnDefinition, value: SqlValue): string | number | undefined {
+  if (value === null) return undefined
+  if (column.type === "number") {
+    return toNumber(value) ?? undefined
+  }
+  return typeof value === "string" ? value : undefined
+}
+
+function flip(operator: string): string {
+  switch (operator) {
+    case "<":
+      return ">"
+    case "<=":
+      return ">="
+    case ">":
+      return "<"
+    case ">=":
+      return "<="
+    default:
+      return operator
+  }
+}
+
+function tighterLower(current: Bound | undefined, next: Bound): Bound {
+  if (!current) return next
+  const result = compareValues(next.value, current.value) ?? 0
+  if (result > 0 || (result === 0 && next.open)) return next
+  return current
+}
+
+function tighterUpper(current: Bound | undefined, next: Bound): Bound {
+  if (!current) return next
+  const result = compareValues(next.value, current.value) ?? 0
+  if (result < 0 || (result === 0 && next.open)) return next
+  return current
+}
+
+export function planAccess(table: TableDefinition, where: Expression | undefined, params: SqlValue[]): AccessPath {
+  if (!where) return { type: "full-scan" }
+
+  const indexedColumns = new Set([table.primaryKey, ...Object.values(table.indexes)])
+  const constraints = new Map<string, ColumnConstraint>()
+
+  const constrain = (name: string) => {
+    let constraint = constraints.get(name)
+    if (!constraint) {
+      constraint = {}
+      constraints.set(name, constraint)
+    }
+    return constraint
+  }
+
+  for (const term of conjuncts(where)) {
+    if (term.type === "comparison" && term.operator !== "!=") {
+      let columnSide: Expression = term.left
+      let valueSide: Expression = term.right
+      let operator: string = term.operator
+      if (term.right.type === "column" && isConstant(term.left)) {
+        columnSide = term.right
+        valueSide = term.left
+        operator = flip(operator)
+      }
+      if (columnSide.type !== "column" || !isConstant(valueSide) || !indexedColumns.has(columnSide.name)) continue
+
+      const column = findColumn(table, columnSide.name)!
+      const key = toKey(column, evaluate(valueSide, {}, params))
+      if (key === undefined) continue
+
+      const constraint = constrain(column.name)
+      if (operator === "=") {
+        constraint.equals = [key]
+      } else if (operator === ">" || operator === ">=") {
+        constraint.lower = tighterLower(constraint.lower, { value: key, open: operator === ">" })
+      } else {
+        constraint.upper = tighterUpper(constraint.upper, { value: key, open: operator === "<" })
+      }
+    }
+
+    if (term.type === "between" && !term.negated && term.operand.type === "column") {
+      if (!indexedColumns.has(term.operand.name) || !isConstant(term.lower) || !isConstant(term.upper)) continue
+
+      const column = findColumn(table, term.operand.name)!
+      const lower = toKey(column, evaluate(term.lower, {}, params))
+      const upper = toKey(column, evaluate(term.upper, {}, params))
+      if (lower === undefined || upper === undefined) continue
+
+      const constraint = constrain(column.name)
+      constraint.lower = tighterLower(constraint.lower, { value: lower, open: false })
+      constraint.upper = tighterUpper(constraint.upper, { value: upper, open: false })
+    }
+
+    if (term.type === "in" && !term.negated && term.operand.type === "column") {
+      if (!indexedColumns.has(term.operand.name) || !term.values.every(isConstant)) continue
+
+      const column = findColumn(table, term.operand.name)!
+      const keys = term.values.map((value) => toKey(column, evaluate(value, {}, params)))
+      if (keys.some((key) => key === undefined)) continue
+
+      constrain(column.name).equals = keys as (string | number)[]
+    }
+  }
+
+  // Prefer primary key lookups, then index equality, then index ranges
+  const primary = constraints.get(table.primaryKey)
+  if (primary?.equals) {
+    return { type: "primary-key", keys: primary.equals }
+  }
+
+  const indexed = Object.entries(table.indexes).filter(([, column]) => constraints.has(column))
+
+  for (const [index, column] of indexed) {
+    const constraint = constraints.get(column)!
+    if (constraint.equals && constraint.equals.length === 1) {
+      const [key] = constraint.equals
+      return { type: "index", index, column, range: { lower: key, upper: key, lowerOpen: false, upperOpen: false } }
+    }
+  }
+
+  for (const [index, column] of indexed) {
+    const { lower, upper } = constraints.get(column)!
+    if (!lower && !upper) continue
+
+    if (lower && upper) {
+      const result = compareValues(lower.value, upper.value) ?? 0
+      if (result > 0 || (result === 0 && (lower.open || upper.open))) {
+        return { type: "empty" }
+      }
+    }
+
+    return {
+      type: "index",
+      index,
+      column,
+      range: {
+        lower: lower?.value,
+        upper: upper?.value,
+        lowerOpen: lower?.open ?? false,
+        upperOpen: upper?.open ?? false,
+      },
+    }
+  }
+
+  return { type: "full-scan" }
+}
@@ -0,0 +1,58 @@
+export type ColumnType = "string" | "number"
+
+export interface ColumnDefinition {
+  name: string
+  type: ColumnType
+  // Pipe-separated list columns such as "Drama|Crime"
+  multiValued?: boolean
+  optional?: boolean
+}
+
+export interface TableDefinition {
+  name: string
+  primaryKey: string
+  // Columns in the same order as the record interface, used for projection of *
+  columns: ColumnDefinition[]
+  // IndexedDB index name -> indexed column
+  indexes: Record<string, string>
+}
+
+export const MOVIES_TABLE: TableDefinition = {
+  name: "movies",
+  primaryKey: "movie_id",
+  columns: [
+    { name: "movie_id", type: "string" },
+    { name: "movie_name", type: "string" },
+    { name: "movie_duration", type: "number" },
+    { name: "plot_keyword", type: "string", multiValued: true },
+    { name: "language", type: "string" },
+    { name: "country", type: "string" },
+    { name: "budget", type: "number" },
+    { name: "release_year", type: "number" },
+    { name: "imdb_score", type: "number" },
+    { name: "movie_certification", type: "string" },
+    { name: "genre", type: "string", multiValued: true },
+    { name: "producer_name", type: "string" },
+    { name: "award_name", type: "string" },
+    { name: "director_name", type: "string" },
+    { name: "actors", type: "string", multiValued: true },
+    { name: "reviewer_name", type: "string" },
+    { name: "songs", type: "string", multiValued: true },
+    { name: "poster_url", type: "string", optional: true },
+  ],
+  indexes: {
+    "by-genre": "genre",
+    "by-year": "release_year",
+    "by-score": "imdb_score",
+    "by-director": "director_name",
+  },
+}
+
+export const TABLES: Record<string, TableDefinition> = {
+  movies: MOVIES_TABLE,
+}
+
+export function findColumn(table: TableDefinition, name: string): ColumnDefinition | undefined {
+  const lower = name.toLowerCase()
+  return table.columns.find((column) => column.name === lower)
+}
@@ -0,0 +1,158 @@
+import { SqlParseError } from "./errors"
+
+export type TokenType = "keyword" | "identifier" | "string" | "number" | "parameter" | "operator" | "punctuation" | "eof"
+
+export interface Token {
+  type: TokenType
+  // Keywords are upper-cased, identifiers keep their original spelling
+  value: string
+  position: number
+}
+
+const KEYWORDS = new Set([
+  "SELECT",
+  "DISTINCT",
+  "FROM",
+  "WHERE",
+  "AND",
+  "OR",
+  "NOT",
+  "LIKE",
+  "IN",
+  "BETWEEN",
+  "IS",
+  "NULL",
+  "TRUE",
+  "FALSE",
+  "AS",
+  "GROUP",
+  "HAVING",
+  "ORDER",
+  "BY",
+  "ASC",
+  "DESC",
+  "LIMIT",
+  "OFFSET",
+])
+
+const TWO_CHAR_OPERATORS = new Set(["<=", ">=", "!=", "<>"])
+const ONE_CHAR_OPERATORS = new Set(["=", "<", ">", "+", "-", "*", "/", "%"])
+const PUNCTUATION = new Set([",", "(", ")", ";"])
+
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Line comments
+    if (char === "-" && query[i + 1] === "-") {
+      while (i < query.length && query[i] !== "\n") i++
+      continue
+    }
+
+    // String literals, with '' as an escaped quote
+    if (char === "'") {
+      const start = i
+      let value = ""
+      i++
+      while (true) {
+        if (i >= query.length) {
+          throw new SqlParseError("Unterminated string literal", query, start)
+        }
+        if (query[i] === "'") {
+          if (query[i + 1] === "'") {
+            value += "'"
+            i += 2
+            continue
+          }
+          i++
+          break
+        }
+        value += query[i]
+        i++
+      }
+      tokens.push({ type: "string", value, position: start })
+      continue
+    }
+
+    // Quoted identifiers
+    if (char === '"' || char === "`") {
+      const start = i
+      const end = query.indexOf(char, i + 1)
+      if (end === -1) {
+        throw new SqlParseError("Unterminated quoted identifier", query, start)
+      }
+      tokens.push({ type: "identifier", value: query.slice(i + 1, end), position: start })
+      i = end + 1
+      continue
+    }
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(query[i + 1] ?? ""))) {
+      const start = i
+      while (i < query.length && /[0-9]/.test(query[i])) i++
+      if (query[i] === "." && /[0-9]/.test(query[i + 1] ?? "")) {
+        i++
+        while (i < query.length && /[0-9]/.test(query[i])) i++
+      }
+      if (/[A-Za-z_]/.test(query[i] ?? "")) {
+        throw new SqlParseError(`Invalid number "${query.slice(start, i + 1)}"`, query, start)
+      }
+      tokens.push({ type: "number", value: query.slice(start, i), position: start })
+      continue
+    }
+
+    // Keywords and identifiers
+    if (/[A-Za-z_]/.test(char)) {
+      const start = i
+      while (i < query.length && /[A-Za-z0-9_]/.test(query[i])) i++
+      const word = query.slice(start, i)
+      const upper = word.toUpperCase()
+      if (KEYWORDS.has(upper)) {
+        tokens.push({ type: "keyword", value: upper, position: start })
+      } else {
+        tokens.push({ type: "identifier", value: word, position: start })
+      }
+      continue
+    }
+
+    // Positional parameters
+    if (char === "?") {
+      tokens.push({ type: "parameter", value: "?", position: i })
+      i++
+      continue
+    }
+
+    const pair = query.slice(i, i + 2)
+    if (TWO_CHAR_OPERATORS.has(pair)) {
+      tokens.push({ type: "operator", value: pair === "<>" ? "!=" : pair, position: i })
+      i += 2
+      continue
+    }
+
+    if (ONE_CHAR_OPERATORS.has(char)) {
+      tokens.push({ type: "operator", value: char, position: i })
+      i++
+      continue
+    }
+
+    if (PUNCTUATION.has(char)) {
+      tokens.push({ type: "punctuation", value: char, position: i })
+      i++
+      continue
+    }
+
+    throw new SqlParseError(`Unexpected character "${char}"`, query, i)
+  }
+
+  tokens.push({ type: "eof", value: "", position: query.length })
+  return tokens
+}
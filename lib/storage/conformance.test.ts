@@ -0,0 +1,332 @@
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_FILTERS } from "../filter-params"
+import { initialMovies } from "../movie-catalog"
+import { sortCatalog } from "../movie-pages"
+import type { ChatSession, DataStore, Movie, SavedSearch } from "./types"
+
+// Just enough of the Web Storage API for the localStorage adapter
+class MemoryStorage {
+  private items = new Map<string, string>()
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value))
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key)
+  }
+
+  clear() {
+    this.items.clear()
+  }
+}
+
+// Each adapter starts from a freshly seeded store. Modules holding a
+// connection or in-memory tables are loaded anew for every test.
+const ADAPTERS: Record<string, () => Promise<DataStore>> = {
+  async file() {
+    const directory = await mkdtemp(path.join(tmpdir(), "movie-insights-"))
+    cleanups.push(() => rm(directory, { recursive: true, force: true }))
+    const { getFileStore } = await import("./file-store")
+    return getFileStore(path.join(directory, "data.json"))
+  },
+
+  async indexeddb() {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    const { indexedDBStore } = await import("./indexeddb")
+    return indexedDBStore
+  },
+
+  async "local-storage"() {
+    vi.stubGlobal("window", globalThis)
+    vi.stubGlobal("localStorage", new MemoryStorage())
+    const { dbClient } = await import("../db")
+    return dbClient
+  },
+
+  async supabase() {
+    const { createSupabaseStore } = await import("./supabase")
+    return createSupabaseStore()
+  },
+}
+
+let cleanups: (() => Promise<void>)[] = []
+
+const movie = (movieId: string, overrides: Partial<Movie> = {}): Movie => ({
+  ...initialMovies[0],
+  movie_id: movieId,
+  movie_name: `Movie ${movieId}`,
+  ...overrides,
+})
+
+describe.each(Object.keys(ADAPTERS))("%s adapter", (name) => {
+  let store: DataStore
+
+  beforeEach(async () => {
+    vi.resetModules()
+    store = await ADAPTERS[name]()
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    await Promise.all(cleanups.map((cleanup) => cleanup()))
+    cleanups = []
+  })
+
+  describe("movies", () => {
+    it("is seeded with the initial catalog", async () => {
+      const movies = await store.getAllMovies()
+      expect(movies.map((m) => m.movie_id).sort()).toEqual(initialMovies.map((m) => m.movie_id).sort())
+      expect(await store.getMovie("1")).toMatchObject({ movie_name: "The Shawshank Redemption" })
+      expect(await store.getMovie("missing")).toBeUndefined()
+    })
+
+    it("inserts new movies and replaces existing ones by id", async () => {
+      await store.putMovies([movie("1", { movie_name: "Renamed" }), movie("new")])
+
+      expect(await store.getMovie("1")).toMatchObject({ movie_name: "Renamed" })
+      expect(await store.getMovie("new")).toMatchObject({ movie_name: "Movie new" })
+      expect(await store.getAllMovies()).toHaveLength(initialMovies.length + 1)
+    })
+
+    it("clears the catalog", async () => {
+      await store.clearMovies()
+      expect(await store.getAllMovies()).toEqual([])
+    })
+
+    it("replaces the whole catalog", async () => {
+      const index = await store.getSearchIndex()
+
+      await store.replaceMovies([
+        movie("1", { movie_name: "Renamed" }),
+        movie("new", { movie_name: "Zanzibar Nights" }),
+      ])
+
+      expect((await store.getAllMovies()).map((m) => m.movie_id).sort()).toEqual(["1", "new"])
+      expect(await store.getMovie("1")).toMatchObject({ movie_name: "Renamed" })
+      expect(await store.getMovie("2")).toBeUndefined()
+      expect(index.search("godfather")).toEqual([])
+      expect(index.search("zanzibar").map((hit) => hit.movieId)).toEqual(["new"])
+    })
+
+    it("keeps the search index in step with movie writes", async () => {
+      const index = await store.getSearchIndex()
+      expect(index.search("shawshank").map((hit) => hit.movieId)).toEqual(["1"])
+
+      await store.putMovies([movie("1", { movie_name: "Renamed" }), movie("new", { movie_name: "Zanzibar Nights" })])
+      expect(index.search("shawshank")).toEqual([])
+      expect(index.search("zanzibar").map((hit) => hit.movieId)).toEqual(["new"])
+
+      await store.clearMovies()
+      expect(index.size).toBe(0)
+      expect(await store.getSearchIndex()).toBe(index)
+    })
+
+    it("filters, counts and pages the catalog", async () => {
+      const filters = { ...DEFAULT_FILTERS, genres: ["Drama"], excludedActors: ["morgan-freeman"] }
+      const expected = sortCatalog(
+        initialMovies.filter((m) => m.genre.split("|").includes("Drama") && !m.actors.includes("Morgan Freeman")),
+        "rating",
+      ).map((m) => m.movie_id)
+
+      const seen: string[] = []
+      let page = await store.getFilteredPage({ query: "", filters }, "rating", { limit: 4 })
+      seen.push(...page.movies.map((m) => m.movie_id))
+      while (page.nextCursor) {
+        page = await store.getFilteredPage({ query: "", filters }, "rating", { limit: 4, cursor: page.nextCursor })
+        seen.push(...page.movies.map((m) => m.movie_id))
+      }
+      expect(seen).toEqual(expected)
+      expect(page.total).toBe(expected.length)
+      expect(page.facets.genre.get("Drama")).toBe(expected.length)
+      expect(page.hits.size).toBe(0)
+    })
+
+    it("searches the latest catalog, with highlights and corrections", async () => {
+      await store.putMovies([movie("new", { movie_name: "Zanzibar Nights" })])
+
+      const found = await store.getFilteredPage({ query: "zanzibar", filters: DEFAULT_FILTERS }, "relevance", {})
+      expect(found.movies.map((m) => m.movie_id)).toEqual(["new"])
+      expect(found.hits.get("new")?.highlights.movie_name).toEqual([{ start: 0, end: 8 }])
+      expect(found.suggestions).toEqual([])
+
+      const corrected = await store.getFilteredPage({ query: "shawshenk", filters: DEFAULT_FILTERS }, "relevance", {})
+      expect(corrected.suggestions).toContain("The Shawshank Redemption")
+    })
+
+    it("runs SQL queries over the movies", async () => {
+      const rows = await store.executeQuery("SELECT movie_name FROM movies WHERE release_year = ?", [1994])
+      expect(rows.map((row) => row.movie_name).sort()).toEqual(
+        initialMovies
+          .filter((m) => m.release_year === 1994)
+          .map((m) => m.movie_name)
+          .sort(),
+      )
+    })
+
+    it("pages through a sorted catalog without gaps or repeats", async () => {
+      const first = await store.getMoviesPage("rating", { limit: 10 })
+      expect(first.total).toBe(initialMovies.length)
+      expect(first.movies[0].imdb_score).toBe(Math.max(...initialMovies.map((m) => m.imdb_score)))
+
+      const seen = [...first.movies]
+      let cursor = first.nextCursor
+      while (cursor) {
+        const page = await store.getMoviesPage("rating", { limit: 10, cursor })
+        seen.push(...page.movies)
+        cursor = page.nextCursor
+      }
+      expect(seen.map((m) => m.movie_id)).toHaveLength(new Set(seen.map((m) => m.movie_id)).size)
+      expect(seen).toHaveLength(initialMovies.length)
+
+      const byOffset = await store.getMoviesPage("title", { offset: 5, limit: 3 })
+      const titles = initialMovies.map((m) => m.movie_name).sort((a, b) => a.localeCompare(b))
+      expect(byOffset.movies.map((m) => m.movie_name)).toEqual(titles.slice(5, 8))
+    })
+
+    it.each(["rating", "year"] as const)("pages by %s in catalog order, ties by title", async (sort) => {
+      // Ties that straddle page boundaries
+      await store.putMovies(
+        ["c", "a", "e", "b", "d"].map((id) =>
+          movie(`tie-${id}`, { movie_name: `Tie ${id}`, imdb_score: 8, release_year: 1994 }),
+        ),
+      )
+      const expected = sortCatalog(await store.getAllMovies(), sort).map((m) => m.movie_id)
+
+      for (const limit of [1, 3, 7]) {
+        const byCursor: string[] = []
+        let page = await store.getMoviesPage(sort, { limit })
+        byCursor.push(...page.movies.map((m) => m.movie_id))
+        while (page.nextCursor) {
+          page = await store.getMoviesPage(sort, { limit, cursor: page.nextCursor })
+          byCursor.push(...page.movies.map((m) => m.movie_id))
+        }
+        expect(byCursor).toEqual(expected)
+      }
+
+      const byOffset = await store.getMoviesPage(sort, { offset: 4, limit: 6 })
+      expect(byOffset).toMatchObject({ total: expected.length, offset: 4 })
+      expect(byOffset.movies.map((m) => m.movie_id)).toEqual(expected.slice(4, 10))
+      expect((await store.getMoviesPage(sort, { offset: expected.length })).movies).toEqual([])
+    })
+  })
+
+  describe("users", () => {
+    it("creates users and finds them by email", async () => {
+      const user = await store.createUser("u1", "ada@example.com", "ada", "hash")
+      expect(user).toMatchObject({ id: "u1", email: "ada@example.com", username: "ada" })
+      expect(await store.getUserByEmail("ada@example.com")).toMatchObject({ id: "u1" })
+      expect(await store.getUserByEmail("nobody@example.com")).toBeUndefined()
+    })
+
+    it("rejects a second user with the same email", async () => {
+      await store.createUser("u1", "ada@example.com", "ada", "hash")
+      await expect(store.createUser("u2", "ada@example.com", "other", "hash")).rejects.toThrow()
+    })
+
+    it("records the last login", async () => {
+      const user = await store.createUser("u1", "ada@example.com", "ada", "hash")
+      vi.useFakeTimers({ now: new Date(Date.parse(user.last_login) + 60_000), toFake: ["Date"] })
+      try {
+        await store.updateLastLogin("u1")
+      } finally {
+        vi.useRealTimers()
+      }
+      const updated = await store.getUserByEmail("ada@example.com")
+      expect(Date.parse(updated!.last_login)).toBeGreaterThan(Date.parse(user.last_login))
+    })
+  })
+
+  describe("favorites", () => {
+    it("adds each favorite once and removes it", async () => {
+      await store.addFavorite("u1", "1")
+      await store.addFavorite("u1", "1")
+      await store.addFavorite("u1", "2")
+      await store.addFavorite("u2", "1")
+
+      expect((await store.getFavorites("u1")).sort()).toEqual(["1", "2"])
+      expect(await store.getAllFavorites()).toHaveLength(3)
+
+      await store.removeFavorite("u1", "1")
+      expect(await store.getFavorites("u1")).toEqual(["2"])
+      expect(await store.getFavorites("u2")).toEqual(["1"])
+    })
+  })
+
+  describe("reviews", () => {
+    it("adds, lists, updates and deletes reviews", async () => {
+      await store.createUser("u1", "ada@example.com", "ada", "hash")
+      const review = await store.addReview("r1", "u1", "1", 4, "Great")
+      expect(review).toMatchObject({ id: "r1", user_id: "u1", movie_id: "1", rating: 4, content: "Great" })
+      await store.addReview("r2", "u2", "2", 2, "Meh")
+
+      expect((await store.getReviewsByUser("u1")).map((r) => r.id)).toEqual(["r1"])
+      expect(await store.getReviewsByMovie("1")).toEqual([expect.objectContaining({ id: "r1", username: "ada" })])
+      expect(await store.getAllReviews()).toHaveLength(2)
+
+      await store.updateReview("r1", 5, "Even better")
+      const [updated] = await store.getReviewsByUser("u1")
+      expect(updated).toMatchObject({ rating: 5, content: "Even better" })
+      expect(updated.updated_at).toBeDefined()
+
+      await store.deleteReview("r1")
+      expect(await store.getReviewsByUser("u1")).toEqual([])
+      expect(await store.getAllReviews()).toHaveLength(1)
+    })
+  })
+
+  describe("chat sessions", () => {
+    it("keeps one session per user", async () => {
+      const session: ChatSession = { user_id: "u1", messages: [], queries: [], updated_at: "2024-01-01T00:00:00Z" }
+      expect(await store.getChatSession("u1")).toBeUndefined()
+
+      await store.saveChatSession(session)
+      await store.saveChatSession({ ...session, updated_at: "2024-01-02T00:00:00Z" })
+      expect(await store.getChatSession("u1")).toMatchObject({ updated_at: "2024-01-02T00:00:00Z" })
+    })
+  })
+
+  describe("saved searches", () => {
+    it("saves, replaces and deletes a user's searches", async () => {
+      const search: SavedSearch = {
+        id: "s1",
+        user_id: "u1",
+        name: "Dramas",
+        params: "genre=Drama",
+        new_movie_ids: [],
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      }
+      await store.saveSavedSearch(search)
+      await store.saveSavedSearch({ ...search, id: "s2", user_id: "u2" })
+      await store.saveSavedSearch({ ...search, name: "Good dramas" })
+
+      expect(await store.getSavedSearches("u1")).toEqual([{ ...search, name: "Good dramas" }])
+      expect((await store.getAllSavedSearches()).map((saved) => saved.id).sort()).toEqual(["s1", "s2"])
+
+      await store.deleteSavedSearch("s1")
+      expect(await store.getSavedSearches("u1")).toEqual([])
+      expect(await store.getSavedSearches("u2")).toHaveLength(1)
+    })
+  })
+
+  describe("dismissals", () => {
+    it("records each dismissed movie once per user", async () => {
+      await store.dismissMovie("u1", "1")
+      await store.dismissMovie("u1", "1")
+      await store.dismissMovie("u2", "2")
+
+      expect(await store.getDismissedMovies("u1")).toEqual(["1"])
+      expect(await store.getDismissedMovies("u3")).toEqual([])
+    })
+  })
+})
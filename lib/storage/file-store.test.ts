@@ -0,0 +1,44 @@
+import { promises as fs } from "node:fs"
+import { mkdtemp, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getFileStore } from "./file-store"
+
+describe("file store", () => {
+  let directory: string
+  let file: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "movie-insights-"))
+    file = path.join(directory, "data.json")
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("keeps serving what is on disk when a write fails", async () => {
+    const store = getFileStore(file)
+    await store.addFavorite("u1", "1")
+
+    vi.spyOn(fs, "rename").mockRejectedValueOnce(new Error("disk full"))
+    await expect(store.addFavorite("u1", "2")).rejects.toThrow("disk full")
+    await expect(store.createUser("u1", "ada@example.com", "ada", "hash")).resolves.toMatchObject({ id: "u1" })
+
+    expect(await store.getFavorites("u1")).toEqual(["1"])
+    const onDisk = JSON.parse(await fs.readFile(file, "utf8"))
+    expect(onDisk.favorites.map((fav: { movie_id: string }) => fav.movie_id)).toEqual(["1"])
+    expect(onDisk.users).toHaveLength(1)
+  })
+
+  it("writes every change to disk", async () => {
+    const store = getFileStore(file)
+    await store.addReview("r1", "u1", "1", 4, "Great")
+    await store.updateReview("r1", 5, "Even better")
+
+    const onDisk = JSON.parse(await fs.readFile(file, "utf8"))
+    expect(onDisk.reviews).toEqual([expect.objectContaining({ id: "r1", rating: 5, content: "Even better" })])
+  })
+})
@@ -0,0 +1,311 @@
+import { promises as fs } from "node:fs"
+import path from "node:path"
+import { filteredPage } from "../filtered-pages"
+import { initialMovies } from "../movie-catalog"
+import { catalogFilterLookups, type FilterLookups } from "../movie-filters"
+import { paginate, sortCatalog, type CatalogSortKey } from "../movie-pages"
+import { createCatalogIndex } from "../search/catalog-index"
+import { runQuery } from "../sql/engine"
+import { createArraySource } from "../sql/memory-source"
+import { TABLES } from "../sql/schema"
+import type { ChatSession, DataStore, Dismissal, Favorite, Movie, Review, SavedSearch, User } from "./types"
+
+interface FileData {
+  movies: Movie[]
+  users: User[]
+  favorites: Favorite[]
+  reviews: Review[]
+  // Missing from files written before chat history was kept
+  chat_sessions?: ChatSession[]
+  saved_searches?: SavedSearch[]
+  dismissals?: Dismissal[]
+}
+
+const DEFAULT_DATA_FILE = path.join(process.cwd(), ".data", "movie-insights.json")
+
+// One store per file so concurrent requests share the same in-memory copy
+const stores = new Map<string, DataStore>()
+
+export function getFileStore(file = process.env.MOVIE_INSIGHTS_DATA_FILE || DEFAULT_DATA_FILE): DataStore {
+  let store = stores.get(file)
+  if (!store) {
+    store = createFileStore(file)
+    stores.set(file, store)
+  }
+  return store
+}
+
+function createFileStore(file: string): DataStore {
+  let loading: Promise<FileData> | null = null
+  // Writes are chained so each one sees the previous one's result
+  let pending: Promise<unknown> = Promise.resolve()
+  // Sorted copies of the movies, dropped whenever a write replaces the array
+  const sortedMovies = new WeakMap<Movie[], Map<CatalogSortKey, Movie[]>>()
+  // Credit and award lookups for filtering, likewise kept per movies array
+  const filterLookups = new WeakMap<Movie[], FilterLookups>()
+  const searchIndex = createCatalogIndex(async () => (await load()).movies)
+
+  async function readFile(): Promise<FileData> {
+    try {
+      const contents = await fs.readFile(file, "utf8")
+      return JSON.parse(contents) as FileData
+    } catch (error: unknown) {
+      if (!(error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT")) throw error
+
+      // Seed a new database the same way the browser database is seeded
+      const data: FileData = { movies: [...initialMovies], users: [], favorites: [], reviews: [] }
+      await writeFile(data)
+      return data
+    }
+  }
+
+  async function writeFile(data: FileData) {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    // Write to a temporary file first so a crash never leaves a half-written database
+    const temporary = `${file}.${process.pid}.tmp`
+    await fs.writeFile(temporary, JSON.stringify(data, null, 2))
+    await fs.rename(temporary, file)
+  }
+
+  function load(): Promise<FileData> {
+    if (!loading) {
+      loading = readFile().catch((error) => {
+        loading = null
+        throw error
+      })
+    }
+    return loading
+  }
+
+  // Changes get a shallow copy and must replace the arrays they change rather
+  // than edit them, so a failed write leaves the cached data as it is on disk
+  function update<T>(change: (data: FileData) => T): Promise<T> {
+    const result = pending.then(async () => {
+      const draft = { ...(await load()) }
+      const value = change(draft)
+      await writeFile(draft)
+      loading = Promise.resolve(draft)
+      return value
+    })
+    pending = result.catch(() => undefined)
+    return result
+  }
+
+  return {
+    async executeQuery(query, params = []) {
+      const data = await load()
+      return runQuery(query, params, (table) => createArraySource(data[table as "movies"], TABLES[table]))
+    },
+
+    async getMovie(movieId) {
+      const data = await load()
+      return data.movies.find((movie) => movie.movie_id === movieId)
+    },
+
+    async getAllMovies() {
+      const data = await load()
+      return [...data.movies]
+    },
+
+    async getMoviesPage(sort, request) {
+      const data = await load()
+      let orders = sortedMovies.get(data.movies)
+      if (!orders) {
+        orders = new Map()
+        sortedMovies.set(data.movies, orders)
+      }
+      if (!orders.has(sort)) orders.set(sort, sortCatalog(data.movies, sort))
+      return paginate(orders.get(sort)!, request)
+    },
+
+    async getFilteredPage(view, sort, request) {
+      const [data, index] = await Promise.all([load(), searchIndex.get()])
+      let lookups = filterLookups.get(data.movies)
+      if (!lookups) {
+        lookups = catalogFilterLookups(data.movies, index)
+        filterLookups.set(data.movies, lookups)
+      }
+      return filteredPage(data.movies, view, sort, request, lookups)
+    },
+
+    async putMovies(movies) {
+      await update((data) => {
+        const byId = new Map(data.movies.map((movie) => [movie.movie_id, movie]))
+        movies.forEach((movie) => byId.set(movie.movie_id, movie))
+        data.movies = Array.from(byId.values())
+      })
+      await searchIndex.put(movies)
+    },
+
+    async clearMovies() {
+      await update((data) => {
+        data.movies = []
+      })
+      await searchIndex.clear()
+    },
+
+    async replaceMovies(movies) {
+      await update((data) => {
+        data.movies = movies
+      })
+      await searchIndex.clear()
+      await searchIndex.put(movies)
+    },
+
+    getSearchIndex: searchIndex.get,
+
+    async getUserByEmail(email) {
+      const data = await load()
+      return data.users.find((user) => user.email === email)
+    },
+
+    createUser(id, email, username, password) {
+      return update((data) => {
+        if (data.users.some((user) => user.email === email)) {
+          throw new Error("User with this email already exists")
+        }
+
+        const now = new Date().toISOString()
+        const newUser: User = { id, email, username, password, created_at: now, last_login: now }
+        data.users = [...data.users, newUser]
+        return newUser
+      })
+    },
+
+    updateLastLogin(userId) {
+      return update((data) => {
+        const now = new Date().toISOString()
+        data.users = data.users.map((user) => (user.id === userId ? { ...user, last_login: now } : user))
+      })
+    },
+
+    async getFavorites(userId) {
+      const data = await load()
+      return data.favorites.filter((fav) => fav.user_id === userId).map((fav) => fav.movie_id)
+    },
+
+    async getAllFavorites() {
+      const data = await load()
+      return [...data.favorites]
+    },
+
+    addFavorite(userId, movieId) {
+      return update((data) => {
+        const now = new Date().toISOString()
+        const others = data.favorites.filter((fav) => !(fav.user_id === userId && fav.movie_id === movieId))
+        data.favorites = [...others, { user_id: userId, movie_id: movieId, added_at: now }]
+      })
+    },
+
+    removeFavorite(userId, movieId) {
+      return update((data) => {
+        data.favorites = data.favorites.filter((fav) => !(fav.user_id === userId && fav.movie_id === movieId))
+      })
+    },
+
+    async getChatSession(userId) {
+      const data = await load()
+      return data.chat_sessions?.find((session) => session.user_id === userId)
+    },
+
+    saveChatSession(session) {
+      return update((data) => {
+        const others = (data.chat_sessions ?? []).filter((existing) => existing.user_id !== session.user_id)
+        data.chat_sessions = [...others, session]
+      })
+    },
+
+    async getSavedSearches(userId) {
+      const data = await load()
+      return (data.saved_searches ?? []).filter((search) => search.user_id === userId)
+    },
+
+    async getAllSavedSearches() {
+      const data = await load()
+      return [...(data.saved_searches ?? [])]
+    },
+
+    saveSavedSearch(search) {
+      return update((data) => {
+        const others = (data.saved_searches ?? []).filter((existing) => existing.id !== search.id)
+        data.saved_searches = [...others, search]
+      })
+    },
+
+    deleteSavedSearch(id) {
+      return update((data) => {
+        data.saved_searches = (data.saved_searches ?? []).filter((search) => search.id !== id)
+      })
+    },
+
+    async getDismissedMovies(userId) {
+      const data = await load()
+      return (data.dismissals ?? [])
+        .filter((dismissal) => dismissal.user_id === userId)
+        .map((dismissal) => dismissal.movie_id)
+    },
+
+    dismissMovie(userId, movieId) {
+      return update((data) => {
+        const now = new Date().toISOString()
+        const others = (data.dismissals ?? []).filter(
+          (dismissal) => !(dismissal.user_id === userId && dismissal.movie_id === movieId),
+        )
+        data.dismissals = [...others, { user_id: userId, movie_id: movieId, dismissed_at: now }]
+      })
+    },
+
+    async getReviewsByUser(userId) {
+      const data = await load()
+      return data.reviews.filter((review) => review.user_id === userId)
+    },
+
+    async getReviewsByMovie(movieId) {
+      const data = await load()
+      return data.reviews
+        .filter((review) => review.movie_id === movieId)
+        .map((review) => {
+          const user = data.users.find((u) => u.id === review.user_id)
+          return {
+            ...review,
+            username: user ? user.username : "Unknown User",
+          }
+        })
+    },
+
+    async getAllReviews() {
+      const data = await load()
+      return [...data.reviews]
+    },
+
+    addReview(id, userId, movieId, rating, content) {
+      return update((data) => {
+        const newReview: Review = {
+          id,
+          user_id: userId,
+          movie_id: movieId,
+          rating,
+          content,
+          created_at: new Date().toISOString(),
+        }
+        data.reviews = [...data.reviews, newReview]
+        return newReview
+      })
+    },
+
+    updateReview(id, rating, content) {
+      return update((data) => {
+        const now = new Date().toISOString()
+        data.reviews = data.reviews.map((review) =>
+          review.id === id ? { ...review, rating, content, updated_at: now } : review,
+        )
+      })
+    },
+
+    deleteReview(id) {
+      return update((data) => {
+        data.reviews = data.reviews.filter((review) => review.id !== id)
+      })
+    },
+  }
+}
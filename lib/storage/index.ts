@@ -0,0 +1,51 @@
+import type { DataStore, StorageBackend } from "./types"
+
+export type { DataStore, MovieRepository, StorageBackend, UserRepository } from "./types"
+
+const BACKENDS: StorageBackend[] = ["file", "indexeddb", "local-storage", "supabase"]
+
+// Backends that need browser APIs
+const BROWSER_ONLY: StorageBackend[] = ["indexeddb", "local-storage"]
+
+// Pick the backend from MOVIE_INSIGHTS_STORAGE on the server and
+// NEXT_PUBLIC_MOVIE_INSIGHTS_STORAGE in the browser. The browser defaults to
+// IndexedDB, the server to the JSON file store.
+export function getStorageBackend(): StorageBackend {
+  const isBrowser = typeof window !== "undefined"
+  const backend = isBrowser ? process.env.NEXT_PUBLIC_MOVIE_INSIGHTS_STORAGE : process.env.MOVIE_INSIGHTS_STORAGE
+
+  if (!backend) return isBrowser ? "indexeddb" : "file"
+  if (!BACKENDS.includes(backend as StorageBackend)) {
+    throw new Error(`Unknown storage backend "${backend}"`)
+  }
+  return backend as StorageBackend
+}
+
+export async function getDataStore(backend = getStorageBackend()): Promise<DataStore> {
+  if (BROWSER_ONLY.includes(backend) && typeof window === "undefined") {
+    throw new Error(`The ${backend} storage backend is only available in the browser`)
+  }
+
+  switch (backend) {
+    case "indexeddb": {
+      const { indexedDBStore } = await import("./indexeddb")
+      return indexedDBStore
+    }
+    case "local-storage": {
+      const { dbClient } = await import("../db")
+      return dbClient
+    }
+    case "supabase": {
+      const { createSupabaseStore } = await import("./supabase")
+      return createSupabaseStore()
+    }
+    case "file": {
+      if (typeof window !== "undefined") {
+        throw new Error("The file storage backend is only available on the server")
+      }
+      // Loaded lazily so node:fs never ends up in a client bundle
+      const { getFileStore } = await import("./file-store")
+      return getFileStore()
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import "fake-indexeddb/auto"
+import { IDBFactory } from "fake-indexeddb"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { initialMovies } from "../movie-catalog"
+import { sortCatalog } from "../movie-pages"
+import type { Movie } from "./types"
+
+describe("indexedDBStore.getMoviesPage", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it("reads only the ties at the edges of the page, not every value it walks past", async () => {
+    const { indexedDBStore } = await import("./indexeddb")
+    // A page's worth of top-rated movies, then a tie group much bigger than a page
+    const movie = (id: string, imdb_score: number) => ({
+      ...initialMovies[0],
+      movie_id: id,
+      movie_name: id,
+      imdb_score,
+    })
+    await indexedDBStore.putMovies([
+      ...Array.from({ length: 10 }, (_, i) => movie(`top-${i}`, 9.9)),
+      ...Array.from({ length: 200 }, (_, i) => movie(`tie-${i}`, 9.8)),
+    ])
+    const expected = sortCatalog(await indexedDBStore.getAllMovies(), "rating").map((movie) => movie.movie_id)
+    const getAll = vi.spyOn(IDBIndex.prototype, "getAll")
+
+    const page = await indexedDBStore.getMoviesPage("rating", { offset: 2, limit: 5 })
+
+    expect(page.movies.map((movie) => movie.movie_id)).toEqual(expected.slice(2, 7))
+    const queries = getAll.mock.calls.map(([query]) => query)
+    expect(queries.length).toBeGreaterThan(0)
+    expect(queries.some((query) => query === 9.8 || (query instanceof IDBKeyRange && query.includes(9.8)))).toBe(false)
+  })
+})
+
+describe("indexedDBStore.replaceMovies", () => {
+  beforeEach(() => {
+    vi.stubGlobal("indexedDB", new IDBFactory())
+    vi.resetModules()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it("leaves the old catalog in place when a movie can't be written", async () => {
+    const { indexedDBStore } = await import("./indexeddb")
+    const { dbClient } = await import("../db-service")
+    const before = await dbClient.getAllCredits()
+    // Without a movie_id there is no key to store it under
+    const broken = { ...initialMovies[0], movie_id: undefined } as unknown as Movie
+
+    await expect(indexedDBStore.replaceMovies([{ ...initialMovies[0], movie_id: "new" }, broken])).rejects.toThrow()
+
+    const movies = await indexedDBStore.getAllMovies()
+    expect(movies.map((movie) => movie.movie_id).sort()).toEqual(initialMovies.map((movie) => movie.movie_id).sort())
+    expect(await dbClient.getAllCredits()).toEqual(before)
+  })
+})
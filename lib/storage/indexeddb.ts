@@ -0,0 +1,179 @@
+import type { IDBPDatabase } from "idb"
+import { dbClient, getDB, type MovieDBSchema } from "../db-service"
+import { filteredPage } from "../filtered-pages"
+import { awardWinnerIds, creditedMovieIds } from "../movie-filters"
+import {
+  compareMovies,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  paginate,
+  sortCatalog,
+  type CatalogSortKey,
+  type MoviePage,
+  type PageRequest,
+} from "../movie-pages"
+import { createCatalogIndex } from "../search/catalog-index"
+import type { DataStore, Movie } from "./types"
+
+const searchIndex = createCatalogIndex(async () => (await getDB()).getAll("movies"))
+
+// Orders read straight from an index, highest first. Every movie has a score
+// and a year, so these indexes cover the whole catalog.
+const SORT_INDEXES: Partial<Record<CatalogSortKey, "by-score" | "by-year">> = {
+  rating: "by-score",
+  year: "by-year",
+}
+
+type SortIndex = "by-score" | "by-year"
+
+// All movies sharing an index value, in catalog order. Ties go by title, which
+// the index can't order, so they are read as a group.
+async function tiedMovies(db: IDBPDatabase<MovieDBSchema>, index: SortIndex, sort: CatalogSortKey, key: number) {
+  return (await db.getAllFromIndex("movies", index, key)).sort(compareMovies(sort))
+}
+
+// Where a movie falls in the catalog order: the movies with a higher value,
+// then its place among the ties
+async function positionOf(db: IDBPDatabase<MovieDBSchema>, index: SortIndex, sort: CatalogSortKey, movie: Movie) {
+  const key = index === "by-score" ? movie.imdb_score : movie.release_year
+  const above = await db.countFromIndex("movies", index, IDBKeyRange.lowerBound(key, true))
+  const ties = await tiedMovies(db, index, sort, key)
+  return above + ties.findIndex((tie) => tie.movie_id === movie.movie_id)
+}
+
+// One page read through an index: skip to the offset and walk the next
+// `limit` entries. Only the first and last values' ties need loading whole,
+// since they may run past either end of the page; the values between them
+// lie entirely on it.
+async function indexedPage(
+  db: IDBPDatabase<MovieDBSchema>,
+  index: SortIndex,
+  sort: CatalogSortKey,
+  { limit = DEFAULT_PAGE_SIZE, offset = 0, cursor: pageCursor }: PageRequest,
+): Promise<MoviePage> {
+  const total = await db.count("movies")
+  let start = Math.max(0, offset)
+  if (pageCursor) {
+    const { after, offset: fallback } = decodeCursor(pageCursor)
+    const last = await db.get("movies", after)
+    // The last movie shown is gone: carry on from where it was
+    start = last ? (await positionOf(db, index, sort, last)) + 1 : fallback
+  }
+  limit = Math.max(1, limit)
+
+  let first: number | undefined
+  let last: number | undefined
+  let cursor = await db.transaction("movies").store.index(index).openKeyCursor(null, "prev")
+  if (cursor && start > 0) cursor = await cursor.advance(start)
+  for (let seen = 0; cursor && seen < limit; seen++) {
+    first ??= cursor.key
+    last = cursor.key
+    cursor = await cursor.continue()
+  }
+  if (first === undefined || last === undefined) return { movies: [], total, offset: start, nextCursor: null }
+
+  // The first value's ties may begin before the offset
+  const above = await db.countFromIndex("movies", index, IDBKeyRange.lowerBound(first, true))
+  const groups = [await tiedMovies(db, index, sort, first)]
+  if (last !== first) {
+    const between = await db.getAllFromIndex("movies", index, IDBKeyRange.bound(last, first, true, true))
+    groups.push(between.sort(compareMovies(sort)), await tiedMovies(db, index, sort, last))
+  }
+  const movies = groups.flat().slice(start - above, start - above + limit)
+  const end = start + movies.length
+  return {
+    movies,
+    total,
+    offset: start,
+    nextCursor: end < total ? encodeCursor({ after: movies[movies.length - 1].movie_id, offset: end }) : null,
+  }
+}
+
+// The browser database from db-service, exposed through the DataStore interface
+export const indexedDBStore: DataStore = {
+  executeQuery: dbClient.executeQuery,
+
+  async getMovie(movieId) {
+    const db = await getDB()
+    return db.get("movies", movieId)
+  },
+
+  async getAllMovies() {
+    const db = await getDB()
+    return db.getAll("movies")
+  },
+
+  async getMoviesPage(sort, request) {
+    const db = await getDB()
+    const index = SORT_INDEXES[sort]
+    if (index) return indexedPage(db, index, sort, request)
+    return paginate(sortCatalog(await db.getAll("movies"), sort), request)
+  },
+
+  // Uses the stored credits and awards rather than deriving them from the movies
+  async getFilteredPage(view, sort, request) {
+    const db = await getDB()
+    const [movies, index, credits, awards] = await Promise.all([
+      db.getAll("movies"),
+      searchIndex.get(),
+      db.getAll("credits"),
+      db.getAll("awards"),
+    ])
+    return filteredPage(movies, view, sort, request, {
+      searchIndex: index,
+      creditedMovies: creditedMovieIds(credits),
+      awardWinners: awardWinnerIds(awards),
+    })
+  },
+
+  async putMovies(movies: Movie[]) {
+    await dbClient.putMovies(movies)
+    await searchIndex.put(movies)
+  },
+
+  async clearMovies() {
+    await dbClient.clearMovies()
+    await searchIndex.clear()
+  },
+
+  async replaceMovies(movies: Movie[]) {
+    await dbClient.replaceMovies(movies)
+    await searchIndex.clear()
+    await searchIndex.put(movies)
+  },
+
+  getSearchIndex: searchIndex.get,
+
+  getUserByEmail: dbClient.getUserByEmail,
+  createUser: dbClient.createUser,
+  updateLastLogin: dbClient.updateLastLogin,
+  getFavorites: dbClient.getFavorites,
+
+  async getAllFavorites() {
+    const db = await getDB()
+    return db.getAll("favorites")
+  },
+
+  addFavorite: dbClient.addFavorite,
+  removeFavorite: dbClient.removeFavorite,
+  getChatSession: dbClient.getChatSession,
+  saveChatSession: dbClient.saveChatSession,
+  getSavedSearches: dbClient.getSavedSearches,
+  getAllSavedSearches: dbClient.getAllSavedSearches,
+  saveSavedSearch: dbClient.saveSavedSearch,
+  deleteSavedSearch: dbClient.deleteSavedSearch,
+  getDismissedMovies: dbClient.getDismissedMovies,
+  dismissMovie: dbClient.dismissMovie,
+  getReviewsByUser: dbClient.getReviewsByUser,
+  getReviewsByMovie: dbClient.getReviewsByMovie,
+
+  async getAllReviews() {
+    const db = await getDB()
+    return db.getAll("reviews")
+  },
+
+  addReview: dbClient.addReview,
+  updateReview: dbClient.updateReview,
+  deleteReview: dbClient.deleteReview,
+}
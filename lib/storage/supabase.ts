@@ -0,0 +1,195 @@
+import { filteredPage } from "../filtered-pages"
+import { catalogFilterLookups } from "../movie-filters"
+import { paginate, sortCatalog } from "../movie-pages"
+import { createCatalogIndex, type CatalogIndex } from "../search/catalog-index"
+import { runQuery } from "../sql/engine"
+import { createArraySource } from "../sql/memory-source"
+import { TABLES } from "../sql/schema"
+import { supabase, type QueryResult, type SupabaseClient } from "../supabase"
+import type { ChatSession, DataStore, Favorite, Movie, Review, SavedSearch, User } from "./types"
+
+function unwrap<T>({ data, error }: QueryResult<T>): T {
+  if (error) throw new Error(error.message)
+  return data
+}
+
+// One search index per client, since a store is created for every request
+const searchIndexes = new WeakMap<SupabaseClient, CatalogIndex>()
+
+// DataStore on top of a Supabase client. Supabase cannot run our SQL dialect,
+// so queries are evaluated locally over the movies table.
+export function createSupabaseStore(client: SupabaseClient = supabase): DataStore {
+  let searchIndex = searchIndexes.get(client)
+  if (!searchIndex) {
+    searchIndex = createCatalogIndex(async () => unwrap(await client.from("movies").select("*")) as Movie[])
+    searchIndexes.set(client, searchIndex)
+  }
+
+  return {
+    async executeQuery(query, params = []) {
+      const movies = unwrap(await client.from("movies").select("*"))
+      return runQuery(query, params, (table) => createArraySource(movies, TABLES[table]))
+    },
+
+    async getMovie(movieId) {
+      const movie = unwrap(await client.from("movies").select("*").eq("movie_id", movieId).maybeSingle())
+      return (movie as Movie | null) ?? undefined
+    },
+
+    async getAllMovies() {
+      return unwrap(await client.from("movies").select("*")) as Movie[]
+    },
+
+    // The mock has no order() or range(), so sorting and paging happen here
+    async getMoviesPage(sort, request) {
+      const movies = unwrap(await client.from("movies").select("*")) as Movie[]
+      return paginate(sortCatalog(movies, sort), request)
+    },
+
+    async getFilteredPage(view, sort, request) {
+      const movies = unwrap(await client.from("movies").select("*")) as Movie[]
+      const index = await searchIndex.get()
+      return filteredPage(movies, view, sort, request, catalogFilterLookups(movies, index))
+    },
+
+    async putMovies(movies) {
+      unwrap(await client.from("movies").upsert(movies))
+      await searchIndex.put(movies)
+    },
+
+    async clearMovies() {
+      unwrap(await client.from("movies").delete())
+      await searchIndex.clear()
+    },
+
+    // No transaction to swap in, so write the new movies before dropping the
+    // others: a failure part way leaves extra movies rather than an empty catalog
+    async replaceMovies(movies) {
+      unwrap(await client.from("movies").upsert(movies))
+      const keep = new Set(movies.map((movie) => movie.movie_id))
+      const stored = unwrap(await client.from("movies").select("movie_id")) as Pick<Movie, "movie_id">[]
+      const stale = stored.map((movie) => movie.movie_id).filter((movieId) => !keep.has(movieId))
+      if (stale.length > 0) unwrap(await client.from("movies").delete().in("movie_id", stale))
+      await searchIndex.clear()
+      await searchIndex.put(movies)
+    },
+
+    getSearchIndex: searchIndex.get,
+
+    async getUserByEmail(email) {
+      const user = unwrap(await client.from("users").select("*").eq("email", email).maybeSingle())
+      return (user as User | null) ?? undefined
+    },
+
+    async createUser(id, email, username, password) {
+      const existing = unwrap(await client.from("users").select("*").eq("email", email).maybeSingle())
+      if (existing) {
+        throw new Error("User with this email already exists")
+      }
+
+      const now = new Date().toISOString()
+      const newUser: User = { id, email, username, password, created_at: now, last_login: now }
+      return unwrap(await client.from("users").insert(newUser).select().single()) as User
+    },
+
+    async updateLastLogin(userId) {
+      unwrap(await client.from("users").update({ last_login: new Date().toISOString() }).eq("id", userId))
+    },
+
+    async getFavorites(userId) {
+      const favorites = unwrap(await client.from("favorites").select("movie_id").eq("user_id", userId))
+      return favorites.map((fav) => fav.movie_id as string)
+    },
+
+    async getAllFavorites() {
+      return unwrap(await client.from("favorites").select("*")) as Favorite[]
+    },
+
+    async addFavorite(userId, movieId) {
+      const now = new Date().toISOString()
+      unwrap(await client.from("favorites").upsert({ user_id: userId, movie_id: movieId, added_at: now }))
+    },
+
+    async removeFavorite(userId, movieId) {
+      unwrap(await client.from("favorites").delete().eq("user_id", userId).eq("movie_id", movieId))
+    },
+
+    async getChatSession(userId) {
+      const session = unwrap(await client.from("chat_sessions").select("*").eq("user_id", userId).maybeSingle())
+      return (session as ChatSession | null) ?? undefined
+    },
+
+    async saveChatSession(session) {
+      unwrap(await client.from("chat_sessions").upsert(session))
+    },
+
+    async getSavedSearches(userId) {
+      return unwrap(await client.from("saved_searches").select("*").eq("user_id", userId)) as SavedSearch[]
+    },
+
+    async getAllSavedSearches() {
+      return unwrap(await client.from("saved_searches").select("*")) as SavedSearch[]
+    },
+
+    async saveSavedSearch(search) {
+      unwrap(await client.from("saved_searches").upsert(search))
+    },
+
+    async deleteSavedSearch(id) {
+      unwrap(await client.from("saved_searches").delete().eq("id", id))
+    },
+
+    async getDismissedMovies(userId) {
+      const dismissals = unwrap(await client.from("dismissals").select("movie_id").eq("user_id", userId))
+      return dismissals.map((dismissal) => dismissal.movie_id as string)
+    },
+
+    async dismissMovie(userId, movieId) {
+      const now = new Date().toISOString()
+      unwrap(await client.from("dismissals").upsert({ user_id: userId, movie_id: movieId, dismissed_at: now }))
+    },
+
+    async getReviewsByUser(userId) {
+      return unwrap(await client.from("reviews").select("*").eq("user_id", userId)) as Review[]
+    },
+
+    async getReviewsByMovie(movieId) {
+      const reviews = unwrap(await client.from("reviews").select("*").eq("movie_id", movieId)) as Review[]
+      const userIds = Array.from(new Set(reviews.map((review) => review.user_id)))
+      const users = unwrap(await client.from("users").select("id, username").in("id", userIds))
+
+      return reviews.map((review) => {
+        const user = users.find((u) => u.id === review.user_id)
+        return {
+          ...review,
+          username: user ? user.username : "Unknown User",
+        }
+      })
+    },
+
+    async getAllReviews() {
+      return unwrap(await client.from("reviews").select("*")) as Review[]
+    },
+
+    async addReview(id, userId, movieId, rating, content) {
+      const newReview: Review = {
+        id,
+        user_id: userId,
+        movie_id: movieId,
+        rating,
+        content,
+        created_at: new Date().toISOString(),
+      }
+      return unwrap(await client.from("reviews").insert(newReview).select().single()) as Review
+    },
+
+    async updateReview(id, rating, content) {
+      const updatedAt = new Date().toISOString()
+      unwrap(await client.from("reviews").update({ rating, content, updated_at: updatedAt }).eq("id", id))
+    },
+
+    async deleteReview(id) {
+      unwrap(await client.from("reviews").delete().eq("id", id))
+    },
+  }
+}
@@ -0,0 +1,56 @@
+import type { ChatSession, Dismissal, Favorite, Movie, Review, SavedSearch, User } from "../db-service"
+import type { MovieSortKey } from "../filter-params"
+import type { CatalogFilter, FilteredPage } from "../filtered-pages"
+import type { CatalogSortKey, MoviePage, PageRequest } from "../movie-pages"
+import type { MovieSearchIndex } from "../search/movie-index"
+
+export type { ChatSession, Dismissal, Favorite, Movie, Review, SavedSearch, User }
+
+// Which implementation backs the app's data:
+// - "file": a JSON file on the server, used by server actions
+// - "indexeddb": the browser database, used for offline client access
+// - "local-storage": the browser's localStorage, for browsers without IndexedDB
+// - "supabase": a Supabase project (the preview build uses an in-memory mock)
+export type StorageBackend = "file" | "indexeddb" | "local-storage" | "supabase"
+
+export interface MovieRepository {
+  executeQuery(query: string, params?: any[]): Promise<any[]>
+  getMovie(movieId: string): Promise<Movie | undefined>
+  getAllMovies(): Promise<Movie[]>
+  getMoviesPage(sort: CatalogSortKey, request: PageRequest): Promise<MoviePage>
+  // A page of the movies matching a search and filters, with their facet counts
+  getFilteredPage(view: CatalogFilter, sort: MovieSortKey, request: PageRequest): Promise<FilteredPage>
+  putMovies(movies: Movie[]): Promise<void>
+  clearMovies(): Promise<void>
+  // Swap the whole catalog for these movies in one write, so a failure leaves the old catalog in place
+  replaceMovies(movies: Movie[]): Promise<void>
+  // Full-text index over the catalog, updated by putMovies and clearMovies
+  getSearchIndex(): Promise<MovieSearchIndex>
+}
+
+export interface UserRepository {
+  getUserByEmail(email: string): Promise<User | undefined>
+  createUser(id: string, email: string, username: string, password: string): Promise<User>
+  updateLastLogin(userId: string): Promise<void>
+  getFavorites(userId: string): Promise<string[]>
+  getAllFavorites(): Promise<Favorite[]>
+  addFavorite(userId: string, movieId: string): Promise<void>
+  removeFavorite(userId: string, movieId: string): Promise<void>
+  getChatSession(userId: string): Promise<ChatSession | undefined>
+  saveChatSession(session: ChatSession): Promise<void>
+  getSavedSearches(userId: string): Promise<SavedSearch[]>
+  // Every user's saved searches, for alerting their owners to new matches
+  getAllSavedSearches(): Promise<SavedSearch[]>
+  saveSavedSearch(search: SavedSearch): Promise<void>
+  deleteSavedSearch(id: string): Promise<void>
+  getDismissedMovies(userId: string): Promise<string[]>
+  dismissMovie(userId: string, movieId: string): Promise<void>
+  getReviewsByUser(userId: string): Promise<Review[]>
+  getReviewsByMovie(movieId: string): Promise<Review[]>
+  getAllReviews(): Promise<Review[]>
+  addReview(id: string, userId: string, movieId: string, rating: number, content: string): Promise<Review>
+  updateReview(id: string, rating: number, content: string): Promise<void>
+  deleteReview(id: string): Promise<void>
+}
+
+export type DataStore = MovieRepository & UserRepository
@@ -1,4 +1,147 @@
-// This is a simplified mock implementation for preview mode
+import { initialMovies } from "./movie-catalog"
+
+// This is a simplified mock implementation for preview mode. Tables are kept in
+// memory and support the small part of the query builder the storage adapter uses.
+type Row = Record<string, any>
+
+export type QueryResult<T> = { data: T; error: { message: string } | null }
+
+const PRIMARY_KEYS: Record<string, string[]> = {
+  movies: ["movie_id"],
+  users: ["id"],
+  favorites: ["user_id", "movie_id"],
+  reviews: ["id"],
+  chat_sessions: ["user_id"],
+  saved_searches: ["id"],
+  dismissals: ["user_id", "movie_id"],
+}
+
+const tables: Record<string, Row[]> = {
+  movies: initialMovies.map((movie) => ({ ...movie })),
+  users: [],
+  favorites: [],
+  reviews: [],
+  chat_sessions: [],
+  saved_searches: [],
+  dismissals: [],
+}
+
+class MockQuery<T = Row[]> implements PromiseLike<QueryResult<T>> {
+  private operation: "select" | "insert" | "update" | "upsert" | "delete" = "select"
+  private payload: Row[] = []
+  private filters: ((row: Row) => boolean)[] = []
+  private mode: "many" | "single" | "maybe-single" = "many"
+
+  constructor(private table: string) {}
+
+  select(_columns = "*") {
+    // Selecting after a write returns the written rows, like Supabase does
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.operation = "insert"
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[]) {
+    this.operation = "upsert"
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  update(values: Row) {
+    this.operation = "update"
+    this.payload = [values]
+    return this
+  }
+
+  delete() {
+    this.operation = "delete"
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]))
+    return this
+  }
+
+  single(): MockQuery<Row> {
+    this.mode = "single"
+    return this as unknown as MockQuery<Row>
+  }
+
+  maybeSingle(): MockQuery<Row | null> {
+    this.mode = "maybe-single"
+    return this as unknown as MockQuery<Row | null>
+  }
+
+  then<R1 = QueryResult<T>, R2 = never>(
+    onfulfilled?: ((value: QueryResult<T>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null,
+  ): PromiseLike<R1 | R2> {
+    return Promise.resolve(this.execute() as QueryResult<T>).then(onfulfilled, onrejected)
+  }
+
+  private execute(): QueryResult<unknown> {
+    const rows = tables[this.table]
+    if (!rows) return { data: null, error: { message: `relation "${this.table}" does not exist` } }
+
+    const keys = PRIMARY_KEYS[this.table]
+    const sameKey = (a: Row, b: Row) => keys.every((key) => a[key] === b[key])
+    const matches = (row: Row) => this.filters.every((filter) => filter(row))
+    let result: Row[]
+
+    switch (this.operation) {
+      case "select":
+        result = rows.filter(matches)
+        break
+
+      case "insert":
+        if (this.payload.some((row) => rows.some((existing) => sameKey(existing, row)))) {
+          return { data: null, error: { message: `duplicate key value violates unique constraint on "${this.table}"` } }
+        }
+        result = this.payload.map((row) => ({ ...row }))
+        rows.push(...result)
+        break
+
+      case "upsert":
+        result = this.payload.map((row) => {
+          const index = rows.findIndex((existing) => sameKey(existing, row))
+          if (index === -1) {
+            rows.push({ ...row })
+            return rows[rows.length - 1]
+          }
+          rows[index] = { ...rows[index], ...row }
+          return rows[index]
+        })
+        break
+
+      case "update":
+        result = rows.filter(matches)
+        result.forEach((row) => Object.assign(row, this.payload[0]))
+        break
+
+      case "delete":
+        result = rows.filter(matches)
+        tables[this.table] = rows.filter((row) => !matches(row))
+        break
+    }
+
+    const copies = result.map((row) => ({ ...row }))
+    if (this.mode === "many") return { data: copies, error: null }
+    if (copies.length > 1) return { data: null, error: { message: "Multiple rows returned" } }
+    if (copies.length === 0 && this.mode === "single") return { data: null, error: { message: "No rows returned" } }
+    return { data: copies[0] ?? null, error: null }
+  }
+}
+
 const mockSupabaseClient = {
   auth: {
     getSession: () => Promise.resolve({ data: { session: null } }),
@@ -13,65 +156,10 @@ const mockSupabaseClient = {
     signInWithPassword: () => Promise.resolve({ data: {}, error: null }),
     signOut: () => Promise.resolve({ error: null }),
   },
-  from: () => ({
-    select: () => ({
-      eq: () => ({
-        single: () => Promise.resolve({ data: null, error: null }),
-      }),
-    }),
-    insert: () => ({
-      select: () => ({
-        single: () => Promise.resolve({ data: null, error: null }),
-      }),
-    }),
-    update: () => ({
-      eq: () => Promise.resolve({ error: null }),
-    }),
-  }),
+  from: (table: string) => new MockQuery(table),
 }
 
 // Export the mock client directly to avoid any initialization errors
 export const supabase = mockSupabaseClient
 
-export type UserProfile = {
-  id: string
-  email: string
-  username: string
-  created_at: string
-  last_login: string
-  favorites: string[] // Array of movie IDs
-}
-
-export async function getUserProfile(userId: string): Promise<UserProfile | null> {
-  // Return a mock profile for preview mode
-  return {
-    id: userId,
-    email: "user@example.com",
-    username: "Preview User",
-    created_at: new Date().toISOString(),
-    last_login: new Date().toISOString(),
-    favorites: ["1", "2", "3", "4", "5"],
-  }
-}
-
-export async function createUserProfile(userId: string, email: string, username: string): Promise<UserProfile | null> {
-  // Return a mock profile for preview mode
-  return {
-    id: userId,
-    email,
-    username,
-    created_at: new Date().toISOString(),
-    last_login: new Date().toISOString(),
-    favorites: [],
-  }
-}
-
-export async function updateLastLogin(userId: string): Promise<void> {
-  // No-op in preview mode
-  return
-}
-
-export async function toggleFavoriteMovie(userId: string, movieId: string): Promise<string[] | null> {
-  // Return mock favorites for preview mode
-  return ["1", "2", "3", "4", "5"]
-}
+export type SupabaseClient = typeof supabase
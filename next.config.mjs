@@ -26,6 +26,10 @@ const nextConfig = {
     webpackBuildWorker: true,
     parallelServerBuildTraces: true,
     parallelServerCompiles: true,
+    // Catalog imports send the whole file to a server action
+    serverActions: {
+      bodySizeLimit: '10mb',
+    },
   },
 }
 